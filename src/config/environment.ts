@@ -11,6 +11,7 @@ interface EnvironmentConfig {
   // Server Configuration
   PORT: number;
   NODE_ENV: string;
+  TRUST_PROXY: boolean | number | string; // Express 'trust proxy' setting
   
   // Station Configuration
   STATION_ID: string;
@@ -22,16 +23,21 @@ interface EnvironmentConfig {
   CENTRAL_SERVER_URL: string;
   CENTRAL_SERVER_WS_URL: string;
   API_SECRET: string;
+  CENTRAL_SIGNATURE_REQUIRED: boolean;
   
   // Authentication
   JWT_SECRET: string;
   JWT_EXPIRES_IN: string;
   SESSION_TIMEOUT_HOURS: number;
+  PIN_SESSION_MINUTES: number;
+  PIN_MAX_ATTEMPTS: number;
+  PIN_LOCKOUT_MINUTES: number;
   
   // Sync Configuration
   SYNC_INTERVAL_SECONDS: number;
   MAX_RETRY_ATTEMPTS: number;
   BATCH_SYNC_SIZE: number;
+  SYNC_PULL_INTERVAL_SECONDS: number;
   
   // Auto Trip Sync Configuration
   TRIP_SYNC_INTERVAL_MS: number;
@@ -39,8 +45,25 @@ interface EnvironmentConfig {
   MAX_SYNC_RETRY_ATTEMPTS: number;
   SYNC_RETRY_DELAY_MS: number;
   
+  // Ticket Printing
+  PRINTER_TARGET: string; // 'tcp', 'file' or 'none'
+  PRINTER_HOST: string;
+  PRINTER_PORT: number;
+  PRINTER_SPOOL_DIR: string;
+  PRINTER_LINE_WIDTH: number;
+  
+  // Plate Detection
+  PLATE_CONFIDENCE_THRESHOLD: number;
+  PLATE_DEDUP_WINDOW_SECONDS: number;
+  EXIT_CAMERA_IDS: string[];
+  
+  // Idempotency
+  IDEMPOTENCY_TTL_HOURS: number;
+  IDEMPOTENCY_LEASE_SECONDS: number;
+  
   // Logging
   LOG_LEVEL: string;
+  LOG_RETENTION_DAYS: number;
   LOG_TO_FILE: boolean;
   LOG_FILE_PATH: string;
   
@@ -50,6 +73,18 @@ interface EnvironmentConfig {
   ENABLE_REQUEST_LOGGING: boolean;
 }
 
+// Placeholder shipped in the code; central server requests are refused until a real secret is set
+export const DEFAULT_API_SECRET = 'your-api-secret-key';
+
+/**
+ * 'true'/'false', a hop count, or a list of proxy addresses/subnets ('loopback, 10.0.0.0/8')
+ */
+function parseTrustProxy(value: string | undefined): boolean | number | string {
+  if (!value || value === 'false') return false;
+  if (value === 'true') return true;
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+}
+
 export const env: EnvironmentConfig = {
   // Database
   DATABASE_URL: process.env.DATABASE_URL || 'file:./prisma/local.db',
@@ -57,6 +92,7 @@ export const env: EnvironmentConfig = {
   // Server Configuration
   PORT: parseInt(process.env.PORT || '3001', 10),
   NODE_ENV: process.env.NODE_ENV || 'development',
+  TRUST_PROXY: parseTrustProxy(process.env.TRUST_PROXY), // Only proxies trusted here may set X-Forwarded-For
   
   // Station Configuration - Now using config service (no env fallback for station info)
   STATION_ID: configService.getStationId(),
@@ -67,17 +103,22 @@ export const env: EnvironmentConfig = {
   // Central Server Connection
   CENTRAL_SERVER_URL: process.env.CENTRAL_SERVER_URL || 'http://localhost:5000',
   CENTRAL_SERVER_WS_URL: process.env.CENTRAL_SERVER_WS_URL || 'ws://localhost:5000/ws',
-  API_SECRET: process.env.API_SECRET || 'your-api-secret-key',
+  API_SECRET: process.env.API_SECRET || DEFAULT_API_SECRET,
+  CENTRAL_SIGNATURE_REQUIRED: process.env.CENTRAL_SIGNATURE_REQUIRED === 'true', // Reject unsigned central server requests (see middleware/auth.ts)
   
   // Authentication
   JWT_SECRET: process.env.JWT_SECRET || 'your-jwt-secret-key-for-local-sessions',
   JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN || '24h',
   SESSION_TIMEOUT_HOURS: parseInt(process.env.SESSION_TIMEOUT_HOURS || '8', 10),
+  PIN_SESSION_MINUTES: parseInt(process.env.PIN_SESSION_MINUTES || '240', 10), // Lifetime of a PIN quick-switch token
+  PIN_MAX_ATTEMPTS: parseInt(process.env.PIN_MAX_ATTEMPTS || '5', 10), // Wrong PINs before the PIN is locked
+  PIN_LOCKOUT_MINUTES: parseInt(process.env.PIN_LOCKOUT_MINUTES || '15', 10),
   
   // Sync Configuration
   SYNC_INTERVAL_SECONDS: parseInt(process.env.SYNC_INTERVAL_SECONDS || '30', 10),
   MAX_RETRY_ATTEMPTS: parseInt(process.env.MAX_RETRY_ATTEMPTS || '3', 10),
   BATCH_SYNC_SIZE: parseInt(process.env.BATCH_SYNC_SIZE || '50', 10),
+  SYNC_PULL_INTERVAL_SECONDS: parseInt(process.env.SYNC_PULL_INTERVAL_SECONDS || '600', 10), // Delta pull of central staff, routes and vehicles
   
   // Auto Trip Sync Configuration
   TRIP_SYNC_INTERVAL_MS: parseInt(process.env.TRIP_SYNC_INTERVAL_MS || '30000', 10), // 30 seconds
@@ -85,8 +126,25 @@ export const env: EnvironmentConfig = {
   MAX_SYNC_RETRY_ATTEMPTS: parseInt(process.env.MAX_SYNC_RETRY_ATTEMPTS || '3', 10),
   SYNC_RETRY_DELAY_MS: parseInt(process.env.SYNC_RETRY_DELAY_MS || '5000', 10), // 5 seconds
   
+  // Ticket Printing
+  PRINTER_TARGET: process.env.PRINTER_TARGET || 'none',
+  PRINTER_HOST: process.env.PRINTER_HOST || '192.168.1.100',
+  PRINTER_PORT: parseInt(process.env.PRINTER_PORT || '9100', 10), // Raw ESC/POS port
+  PRINTER_SPOOL_DIR: process.env.PRINTER_SPOOL_DIR || './spool',
+  PRINTER_LINE_WIDTH: parseInt(process.env.PRINTER_LINE_WIDTH || '42', 10), // 42 chars on 80mm paper, 32 on 58mm
+  
+  // Plate Detection
+  PLATE_CONFIDENCE_THRESHOLD: parseFloat(process.env.PLATE_CONFIDENCE_THRESHOLD || '0.85'), // Below this, reads wait for staff confirmation
+  PLATE_DEDUP_WINDOW_SECONDS: parseInt(process.env.PLATE_DEDUP_WINDOW_SECONDS || '60', 10), // Repeated reads of a plate within this window are ignored
+  EXIT_CAMERA_IDS: (process.env.EXIT_CAMERA_IDS || '').split(',').map(id => id.trim()).filter(Boolean), // Cameras watching the exit lane
+  
+  // Idempotency
+  IDEMPOTENCY_TTL_HOURS: parseInt(process.env.IDEMPOTENCY_TTL_HOURS || '24', 10), // How long a retried request returns the original response
+  IDEMPOTENCY_LEASE_SECONDS: parseInt(process.env.IDEMPOTENCY_LEASE_SECONDS || '120', 10), // A retry may take over an unfinished claim after this
+  
   // Logging
   LOG_LEVEL: process.env.LOG_LEVEL || 'info',
+  LOG_RETENTION_DAYS: parseInt(process.env.LOG_RETENTION_DAYS || '90', 10), // Operation logs, synced sync-queue rows, finished concurrency operations and closed sessions older than this are pruned
   LOG_TO_FILE: process.env.LOG_TO_FILE === 'true',
   LOG_FILE_PATH: process.env.LOG_FILE_PATH || './logs/local-node.log',
   
@@ -105,4 +163,8 @@ if (missingEnvVars.length > 0) {
   process.exit(1);
 }
 
+if (env.API_SECRET === DEFAULT_API_SECRET) {
+  console.warn('⚠️ API_SECRET is not set: requests from the central server will be refused');
+}
+
 export default env; 
\ No newline at end of file
@@ -9,6 +9,7 @@ export const mqttConfig = {
   clientId: `louaj-station-${process.env.STATION_ID || 'unknown'}`,
   topics: {
     plateDetection: `louaj/stations/${process.env.STATION_ID || 'unknown'}/plate-detection`,
+    exitPlateDetection: `louaj/stations/${process.env.STATION_ID || 'unknown'}/exit-plate-detection`,
     stationStatus: `louaj/stations/${process.env.STATION_ID || 'unknown'}/status`,
     systemCommands: `louaj/stations/${process.env.STATION_ID || 'unknown'}/commands`,
     // New topics for replacing WebSocket functionality
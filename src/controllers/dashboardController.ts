@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { startOfDay, endOfDay, startOfMonth, endOfMonth } from 'date-fns';
+import { refundService } from '../services/refundService';
 
 const prisma = new PrismaClient();
 
@@ -59,6 +60,9 @@ export const getDashboardStats = async (req: Request, res: Response) => {
       }
     });
 
+    // Refunds issued today (revenue kept on cancelled seats counts as income)
+    const todayRefunds = await refundService.getTotals(todayStart, todayEnd);
+
     // Get total bookings
     const totalBookings = await prisma.booking.count();
 
@@ -95,7 +99,8 @@ export const getDashboardStats = async (req: Request, res: Response) => {
       totalQueues: activeQueues,
       totalBookings,
       todayBookings,
-      todayRevenue: todayRevenueResult._sum.totalAmount || 0,
+      todayRevenue: (todayRevenueResult._sum.totalAmount || 0) + todayRefunds.retainedAmount,
+      todayRefunds: todayRefunds.amount,
       onlineBookings: onlineBookingsToday,
       cashBookings: cashBookingsToday,
       activeDestinations: activeDestinations.length,
@@ -538,6 +543,13 @@ export const getSupervisorDashboard = async (req: Request, res: Response) => {
       }
     });
 
+    // Refunds (amounts kept on cancelled seats count as income)
+    const [todayRefunds, monthRefunds, pendingRefunds] = await Promise.all([
+      refundService.getTotals(todayStart, todayEnd),
+      refundService.getTotals(monthStart, monthEnd),
+      prisma.refund.aggregate({ where: { status: 'PENDING_APPROVAL' }, _count: { id: true }, _sum: { amount: true } })
+    ]);
+
     // Total transactions
     const totalStats = await prisma.booking.aggregate({
       _count: {
@@ -586,10 +598,16 @@ export const getSupervisorDashboard = async (req: Request, res: Response) => {
     }));
 
     const financial = {
-      todayIncome: todayStats._sum.totalAmount || 0,
+      todayIncome: (todayStats._sum.totalAmount || 0) + todayRefunds.retainedAmount,
       todayTransactions: todayStats._count.id || 0,
-      monthIncome: monthStats._sum.totalAmount || 0,
+      todayRefunds: todayRefunds.amount,
+      todayRefundsCount: todayRefunds.count,
+      monthIncome: (monthStats._sum.totalAmount || 0) + monthRefunds.retainedAmount,
       monthTransactions: monthStats._count.id || 0,
+      monthRefunds: monthRefunds.amount,
+      monthRefundsCount: monthRefunds.count,
+      pendingRefunds: pendingRefunds._count.id || 0,
+      pendingRefundsAmount: pendingRefunds._sum.amount || 0,
       totalTransactions: totalStats._count.id || 0,
       avgTransactionAmount: totalStats._avg.totalAmount || 0
     };
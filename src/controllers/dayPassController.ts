@@ -20,7 +20,7 @@ export class DayPassController {
    */
   async purchaseDayPass(req: Request, res: Response) {
     try {
-      const { driverId, vehicleId, licensePlate } = req.body;
+      const { driverId, vehicleId, licensePlate, productCode } = req.body;
       const staffId = req.staff?.id;
 
       if (!staffId) {
@@ -41,7 +41,8 @@ export class DayPassController {
         driverId,
         vehicleId,
         licensePlate,
-        createdBy: staffId
+        createdBy: staffId,
+        productCode
       });
 
       if (!result.success) {
@@ -56,12 +57,13 @@ export class DayPassController {
         driverId,
         vehicleId,
         licensePlate,
+        productCode: productCode || 'DAY',
         dayPassId: result.dayPass?.id
       });
 
       res.json({
         success: true,
-        message: 'Pass journalier acheté avec succès',
+        message: 'Pass acheté avec succès',
         data: result.dayPass
       });
       return;
@@ -226,16 +228,20 @@ export class DayPassController {
   }
 
   /**
-   * Get day pass price
+   * Get day pass price and the pass products on sale
    */
   async getDayPassPrice(req: Request, res: Response) {
     try {
-      const price = await dayPassService.getDayPassPrice();
+      const [price, products] = await Promise.all([
+        dayPassService.getDayPassPrice(),
+        dayPassService.getProducts()
+      ]);
 
       res.json({
         success: true,
         data: {
-          price: price
+          price: price,
+          products
         }
       });
       return;
@@ -255,6 +261,117 @@ export class DayPassController {
     }
   }
 
+  /**
+   * List pass products (?includeInactive=true for the full catalogue)
+   */
+  async getProducts(req: Request, res: Response) {
+    try {
+      const products = await dayPassService.getProducts(req.query.includeInactive === 'true');
+
+      res.json({
+        success: true,
+        data: products
+      });
+
+    } catch (error) {
+      console.error('Error in getProducts controller:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Erreur interne du serveur'
+      });
+      return;
+    }
+  }
+
+  /**
+   * Create a pass product (weekly, monthly, N-day...)
+   */
+  async createProduct(req: Request, res: Response) {
+    try {
+      const { code, name, durationDays, price, isActive } = req.body;
+
+      const result = await dayPassService.createProduct({
+        code,
+        name,
+        durationDays: Number(durationDays),
+        price: Number(price),
+        isActive
+      });
+
+      if (!result.success) {
+        return res.status(400).json({
+          success: false,
+          message: result.error
+        });
+      }
+
+      await LoggingService.logOperation(req.staff.id, 'DAY_PASS_PRODUCT_CREATED', {
+        productId: result.product.id,
+        code: result.product.code,
+        price: result.product.price
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Produit créé avec succès',
+        data: result.product
+      });
+      return;
+
+    } catch (error) {
+      console.error('Error in createProduct controller:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Erreur interne du serveur'
+      });
+      return;
+    }
+  }
+
+  /**
+   * Update a pass product's name, price, duration or availability
+   */
+  async updateProduct(req: Request, res: Response) {
+    try {
+      const productId = String(req.params.productId);
+      const { name, durationDays, price, isActive } = req.body;
+
+      const result = await dayPassService.updateProduct(productId, {
+        name,
+        durationDays: durationDays !== undefined ? Number(durationDays) : undefined,
+        price: price !== undefined ? Number(price) : undefined,
+        isActive
+      });
+
+      if (!result.success) {
+        return res.status(400).json({
+          success: false,
+          message: result.error
+        });
+      }
+
+      await LoggingService.logOperation(req.staff.id, 'DAY_PASS_PRODUCT_UPDATED', {
+        productId,
+        changes: req.body
+      });
+
+      res.json({
+        success: true,
+        message: 'Produit mis à jour avec succès',
+        data: result.product
+      });
+      return;
+
+    } catch (error) {
+      console.error('Error in updateProduct controller:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Erreur interne du serveur'
+      });
+      return;
+    }
+  }
+
   /**
    * Get all day passes for today
    */
@@ -360,9 +477,6 @@ export class DayPassController {
    */
   async getDriversWithoutDayPass(req: Request, res: Response) {
     try {
-      const { PrismaClient } = require('@prisma/client');
-      const prisma = new PrismaClient();
-
       const today = new Date();
       const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
       const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000);
@@ -384,13 +498,11 @@ export class DayPassController {
         }
       });
 
-      // Get drivers who have valid day passes today
+      // Get drivers who have a pass covering today (multi-day passes included)
       const driversWithDayPass = await prisma.dayPass.findMany({
         where: {
-          purchaseDate: {
-            gte: startOfDay,
-            lt: endOfDay
-          },
+          validFrom: { lt: endOfDay },
+          validUntil: { gte: startOfDay },
           isActive: true,
           isExpired: false
         },
@@ -406,8 +518,6 @@ export class DayPassController {
         !driversWithDayPassIds.has(driver.id)
       );
 
-      await prisma.$disconnect();
-
       res.json({
         success: true,
         data: driversWithoutDayPass
@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
 import { prisma } from '../config/database';
 import { LoggingService } from '../services/loggingService';
+import { enqueueSyncChange } from '../services/syncService';
+import { driverStatementService, parseStatementPeriod } from '../services/driverStatementService';
+import { formatDay } from '../utils/reporting';
 
 export const generateEntryTicket = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -97,6 +100,9 @@ export const generateEntryTicket = async (req: Request, res: Response): Promise<
       }
     });
 
+    const { vehicle: _entryVehicle, createdByStaff: _entryStaff, ...entryTicketRecord } = entryTicket;
+    await enqueueSyncChange('driver_entry_tickets', entryTicket.id, 'INSERT', entryTicketRecord);
+
     // Log the vehicle entry
     await LoggingService.logVehicleEntry(
       staffId,
@@ -221,6 +227,9 @@ export const generateExitTicket = async (req: Request, res: Response): Promise<v
       })
     ]);
 
+    const { vehicle: _exitVehicle, createdByStaff: _exitStaff, ...exitTicketRecord } = exitTicket;
+    await enqueueSyncChange('driver_exit_tickets', exitTicket.id, 'INSERT', exitTicketRecord);
+
     // Log the vehicle exit
     await LoggingService.logVehicleExit(
       staffId,
@@ -387,9 +396,10 @@ export const getVehiclesInQueue = async (req: Request, res: Response): Promise<v
 };
 
 /**
- * Get driver's income for a given date based on exit passes.
- * Income = vehicle.capacity * route.basePrice, summed over today's exit passes.
- * Does not include service fees.
+ * Get driver's income for a given date: the one-day driver statement.
+ * totalIncome is the fares of the day's departures (does not include service fees); grossIncome
+ * adds the service fees passengers paid, and netPayable is what is left for the driver once
+ * service fees, day passes and entry tickets are deducted.
  * GET /api/driver-tickets/income/:licensePlate?date=YYYY-MM-DD
  */
 export const getDriverIncomeForDate = async (req: Request, res: Response): Promise<void> => {
@@ -402,57 +412,44 @@ export const getDriverIncomeForDate = async (req: Request, res: Response): Promi
       return;
     }
 
-    // Resolve vehicle and capacity
-    const vehicle = await prisma.vehicle.findUnique({ where: { licensePlate } });
-    if (!vehicle) {
-      res.status(404).json({ success: false, message: `Vehicle ${licensePlate} not found` });
+    const period = parseStatementPeriod(date);
+    if (!period) {
+      res.status(400).json({ success: false, message: 'date must be YYYY-MM-DD' });
       return;
     }
 
-    const target = date ? (() => { const [y,m,d] = date.split('-').map(Number); return new Date(y, (m || 1) - 1, d || 1, 0, 0, 0, 0); })() : new Date();
-    const startOfDay = new Date(target); startOfDay.setHours(0,0,0,0);
-    const endOfDay = new Date(startOfDay); endOfDay.setDate(endOfDay.getDate() + 1);
-
-    // Fetch today's exit passes for this vehicle
-    const exitPasses = await prisma.exitPass.findMany({
-      where: {
-        vehicleId: vehicle.id,
-        currentExitTime: { gte: startOfDay, lt: endOfDay }
-      },
-      select: { id: true, destinationId: true, destinationName: true, currentExitTime: true }
-    });
-
-    // Preload routes by destinationId used in exit passes
-    const destinationIds = Array.from(new Set(exitPasses.map(p => p.destinationId).filter(Boolean)));
-    const routes = destinationIds.length > 0
-      ? await prisma.route.findMany({ where: { stationId: { in: destinationIds } }, select: { stationId: true, basePrice: true } })
-      : [];
-    const routeMap = new Map(routes.map(r => [r.stationId, Number(r.basePrice || 0)]));
-
-    // Compute per-pass income (capacity * basePrice), no service fees
-    const capacity = Number(vehicle.capacity || 0);
-    const items = exitPasses.map(p => {
-      const basePrice = routeMap.get(p.destinationId) || 0;
-      const amount = capacity * basePrice;
-      return {
-        id: p.id,
-        destinationId: p.destinationId,
-        destinationName: p.destinationName,
-        exitTime: p.currentExitTime,
-        capacity,
-        basePrice,
-        amount
-      };
-    });
+    const statement = await driverStatementService.getStatement(licensePlate, period);
+    if (!statement) {
+      res.status(404).json({ success: false, message: `Vehicle ${licensePlate} not found` });
+      return;
+    }
 
-    const totalIncome = items.reduce((s, it) => s + it.amount, 0);
+    const items = statement.lines
+      .filter(line => line.type === 'TRIP')
+      .map(line => ({
+        id: line.reference,
+        destinationId: line.destinationId,
+        destinationName: line.destinationName,
+        exitTime: line.date,
+        seats: line.seats,
+        fareSource: line.fareSource,
+        amount: line.net, // Fare only
+        serviceFee: line.stationFee,
+        grossAmount: line.grossFare
+      }));
 
     res.json({
       success: true,
       data: {
         licensePlate,
-        date: `${startOfDay.getFullYear()}-${String(startOfDay.getMonth()+1).padStart(2,'0')}-${String(startOfDay.getDate()).padStart(2,'0')}`,
-        totals: { totalIncome },
+        date: formatDay(period.start),
+        status: statement.status,
+        totals: {
+          totalIncome: statement.totals.fares, // Does not include service fees
+          grossIncome: statement.totals.grossFares,
+          stationFees: statement.totals.stationFees,
+          netPayable: statement.totals.netPayable
+        },
         items
       }
     });
@@ -3,6 +3,9 @@ import { prisma } from '../config/database';
 import { EnhancedLocalWebSocketServer } from '../websocket/EnhancedLocalWebSocketServer';
 import { WebSocketService } from '../websocket/webSocketService';
 import { LoggingService } from '../services/loggingService';
+import { enqueueSyncChange } from '../services/syncService';
+import { etdEstimatorService, ETDPredictionResponse } from '../services/etdEstimatorService';
+import { bookingCoreService } from '../services/bookingCoreService';
 
 // Reference to WebSocket server for real-time updates
 let localWebSocketServer: EnhancedLocalWebSocketServer | null = null;
@@ -18,15 +21,6 @@ export function setBookingControllerWebSocketService(wsService: WebSocketService
   webSocketService = wsService;
 }
 
-/**
- * Generate a unique verification code
- */
-function generateVerificationCode(): string {
-  return Math.floor(Math.random() * 900000 + 100000).toString(); // 6-digit code
-}
-
-
-
 /**
  * Broadcast real-time booking updates
  */
@@ -67,48 +61,13 @@ const ETD_SERVICE_BASE_URL = process.env.ETD_SERVICE_URL || 'http://localhost:80
  * - POST /api/v1/etd/predict-overnight: Get ETD prediction for overnight queue
  *
  * Features:
- * - Automatic fallback if service unavailable
+ * - Automatic fallback to the local statistical estimator if service unavailable
  * - Confidence level reporting
  * - Queue status integration
  * - Separate logic for regular and overnight queues
  * - Real-time model updates based on historical data
  */
 
-// TypeScript interfaces for ETD service responses
-interface ETDQueueInfo {
-  total_vehicles: number;
-  available_seats?: number;
-  total_seats?: number;
-}
-
-interface ETDOvernightInfo {
-  is_overnight: boolean;
-  station_opening_time: string;
-  station_closing_time: string;
-  next_opening?: string;
-  wait_hours: number;
-}
-
-interface ETDPredictionResponse {
-  estimated_etd: string;
-  etd_hours: number;
-  confidence_level: number;
-  model_used: string;
-  destination_id: string;
-  seats_requested: number;
-  prediction_time: string;
-  queue_info?: ETDQueueInfo;
-  overnight_info?: ETDOvernightInfo;
-  ai_details?: {
-    method: string;
-    prophet_prediction?: number;
-    sklearn_prediction?: number;
-    ensemble_weights?: Record<string, number>;
-    training_metrics?: Record<string, any>;
-  };
-  error?: string;
-}
-
 /**
  * Call ETD Prediction Service for real-time predictions
  * @param destinationId - ID of the destination station
@@ -169,8 +128,15 @@ export async function getETDPrediction(destinationId: string, seatsNeeded: numbe
   } catch (error) {
     console.error(`❌ Error calling ETD Prediction Service:`, error);
 
-    // Fallback to a basic estimation if service is unavailable
-    console.log(`⚠️ Falling back to basic ETD estimation`);
+    // Fall back to the local estimator built from this station's own history
+    try {
+      console.log(`⚠️ Falling back to local statistical ETD estimation`);
+      return await etdEstimatorService.estimate(destinationId, seatsNeeded, isOvernight);
+    } catch (estimatorError) {
+      console.error(`❌ Local ETD estimation failed:`, estimatorError);
+    }
+
+    // Last resort if even the local database is unavailable
     const now = new Date();
     const basicETD = new Date(now.getTime() + 2 * 60 * 60 * 1000); // 2 hours fallback
 
@@ -235,117 +201,51 @@ export class LocalBookingController {
 
       console.log(`🎫 Creating local booking: ${userFullName} (${numberOfSeats} seats)`);
 
-      // Start transaction
-      const result = await prisma.$transaction(async (tx) => {
-        // Generate verification code
-        const verificationCode = generateVerificationCode();
-        
-        let totalAmount = 0;
-        const bookedVehicles = [];
-
-        // Process each selected vehicle
-        for (const vehicleBooking of selectedVehicles) {
-          const { vehicleQueueId, seatsToBook, pricePerSeat } = vehicleBooking;
-
-          // Get the vehicle queue entry with vehicle details
-          const vehicleQueue = await tx.vehicleQueue.findUnique({
-            where: { id: vehicleQueueId },
-            include: {
-              vehicle: {
-                select: {
-                  id: true,
-                  licensePlate: true,
-                  capacity: true
-                }
-              }
-            }
-          });
-
-          if (!vehicleQueue) {
-            throw new Error(`Vehicle queue entry ${vehicleQueueId} not found`);
-          }
-
-          if (vehicleQueue.availableSeats < seatsToBook) {
-            throw new Error(`Insufficient seats in vehicle ${vehicleQueue.vehicle.licensePlate}`);
-          }
-
-          // Calculate new seat availability
-          const newAvailableSeats = vehicleQueue.availableSeats - seatsToBook;
-          const isNowFull = newAvailableSeats === 0;
-          
-          // Update vehicle queue with seat availability only
-          // Status will be updated automatically after transaction
-          await tx.vehicleQueue.update({
-            where: { id: vehicleQueueId },
-            data: {
-              availableSeats: newAvailableSeats,
-              syncedAt: new Date() // Update sync timestamp
-            }
-          });
-
-          console.log(`🚌 Updated vehicle ${vehicleQueue.vehicle.licensePlate}: ${vehicleQueue.availableSeats} → ${newAvailableSeats} seats available`);
-
-          // Create booking entry
-          const booking = await tx.booking.create({
-            data: {
-              id: `${userId}_${vehicleQueueId}_${Date.now()}`, // Generate unique ID
-              queueId: vehicleQueueId,
-              seatsBooked: seatsToBook,
-              totalAmount: seatsToBook * pricePerSeat,
-              bookingSource: 'ONLINE',
-              bookingType: 'ONLINE',
-              userId,
-              customerPhone: userPhoneNumber,
-              onlineTicketId: verificationCode, // Use verification code as ticket ID
-              verificationCode,
-              paymentStatus: 'PENDING',
-              paymentMethod: 'ONLINE'
-            }
-          });
-
-          totalAmount += seatsToBook * pricePerSeat;
-          bookedVehicles.push({
-            bookingId: booking.id,
-            vehicleId: vehicleQueue.vehicleId,
-            licensePlate: vehicleQueue.vehicle.licensePlate,
-            seatsBooked: seatsToBook,
-            pricePerSeat,
-            queuePosition: vehicleQueue.queuePosition,
-            estimatedDeparture: vehicleQueue.estimatedDeparture,
-            newAvailableSeats: newAvailableSeats,
-            queueId: vehicleQueueId,
-            isNowFull: isNowFull
-          });
-        }
-
-        return {
-          verificationCode,
-          totalAmount,
-          numberOfSeats,
-          bookedVehicles
-        };
+      // Seats are placed by the central server, prices come from the station quote
+      const coreResult = await bookingCoreService.createBooking({
+        channel: 'ONLINE',
+        destinationId: destinationStationId,
+        seatsRequested: numberOfSeats,
+        staffId,
+        userId,
+        customerName: userFullName,
+        customerPhone: userPhoneNumber,
+        vehicleAllocations: selectedVehicles.map((vehicleBooking: any) => ({
+          queueId: vehicleBooking.vehicleQueueId,
+          seatsToBook: vehicleBooking.seatsToBook
+        }))
       });
 
-      // Update vehicle statuses based on new bookings (outside transaction to avoid conflicts)
-      if (webSocketService) {
-        for (const vehicle of result.bookedVehicles) {
-          try {
-            const { createQueueService } = await import('../services/queueService');
-            const queueService = createQueueService(webSocketService);
-            await queueService.updateVehicleStatusBasedOnBookings(vehicle.queueId, staffId);
-          } catch (error) {
-            console.error('❌ Error updating vehicle status after booking:', error);
-          }
-        }
+      if (!coreResult.success || !coreResult.lines) {
+        res.status(409).json({
+          success: false,
+          error: 'Failed to create booking',
+          message: coreResult.error
+        });
+        return;
       }
 
-      // Get station configuration for response
-      const stationConfig = await prisma.stationConfig.findFirst({
-        select: {
-          stationId: true,
-          stationName: true
-        }
-      });
+      const bookedVehicles = coreResult.lines.map(({ booking, queueEntry, pricePerSeat }) => ({
+        bookingId: booking.id,
+        verificationCode: booking.verificationCode,
+        vehicleId: queueEntry.vehicleId,
+        licensePlate: queueEntry.vehicle.licensePlate,
+        seatsBooked: booking.seatsBooked,
+        pricePerSeat,
+        queuePosition: queueEntry.queuePosition,
+        estimatedDeparture: queueEntry.estimatedDeparture,
+        newAvailableSeats: queueEntry.availableSeats,
+        queueId: queueEntry.id,
+        isNowFull: queueEntry.availableSeats === 0
+      }));
+      const result = {
+        verificationCode: bookedVehicles[0]?.verificationCode,
+        groupCode: coreResult.groupCode,
+        verificationCodes: bookedVehicles.map(vehicle => vehicle.verificationCode),
+        totalAmount: coreResult.totalAmount || 0,
+        numberOfSeats,
+        bookedVehicles
+      };
 
       // Calculate estimated departure time using AI-powered ETD service
       console.log(`🎫 Calculating AI-enhanced ETD for ${result.numberOfSeats} seats to ${destinationStationId}`);
@@ -359,6 +259,9 @@ export class LocalBookingController {
         id: result.verificationCode, // Using verification code as ID for simplicity
         ticketNumber: result.verificationCode, // Using verification code as ticket number
         verificationCode: result.verificationCode,
+        // One ticket per vehicle when the seats are split; confirm-payment settles them all
+        groupCode: result.groupCode,
+        verificationCodes: result.verificationCodes,
         totalAmount: result.totalAmount,
         numberOfSeats: result.numberOfSeats,
         status: 'CONFIRMED',
@@ -386,65 +289,7 @@ export class LocalBookingController {
         data: bookingResponse
       });
 
-      // Broadcast real-time updates with AI-enhanced ETD information
-      broadcastBookingUpdate('booking_created', {
-        verificationCode: result.verificationCode,
-        userFullName,
-        numberOfSeats: result.numberOfSeats,
-        totalAmount: result.totalAmount,
-        stationName: stationConfig?.stationName,
-        aiEnhancedETD: {
-          estimatedDepartureTime: etdPrediction.estimated_etd,
-          modelUsed: etdPrediction.model_used,
-          confidenceLevel: etdPrediction.confidence_level,
-          queueVehicles: etdPrediction.queue_info?.total_vehicles || 0
-        }
-      });
-
-      // Broadcast detailed queue updates for each affected vehicle
-      for (const vehicle of result.bookedVehicles) {
-        broadcastBookingUpdate('vehicle_queue_updated', {
-          vehicleId: vehicle.vehicleId,
-          licensePlate: vehicle.licensePlate,
-          previousAvailableSeats: vehicle.newAvailableSeats + vehicle.seatsBooked,
-          newAvailableSeats: vehicle.newAvailableSeats,
-          seatsBooked: vehicle.seatsBooked,
-          isNowFull: vehicle.isNowFull,
-          queuePosition: vehicle.queuePosition,
-          estimatedDeparture: vehicle.estimatedDeparture,
-          timestamp: new Date().toISOString()
-        });
-
-        // Special broadcast for vehicles that become full
-        if (vehicle.isNowFull) {
-          broadcastBookingUpdate('vehicle_status_changed', {
-            vehicleId: vehicle.vehicleId,
-            licensePlate: vehicle.licensePlate,
-            oldStatus: 'WAITING',
-            newStatus: 'READY',
-            reason: 'VEHICLE_FULL',
-            estimatedDeparture: vehicle.estimatedDeparture,
-            message: `Vehicle ${vehicle.licensePlate} is now full and ready for departure`
-          });
-        }
-      }
-
-      // Broadcast summary of seats updated
-      broadcastBookingUpdate('seats_updated', {
-        totalSeatsBooked: result.numberOfSeats,
-        affectedVehicles: result.bookedVehicles.map(v => ({
-          licensePlate: v.licensePlate,
-          seatsBooked: v.seatsBooked,
-          newAvailableSeats: v.newAvailableSeats,
-          isNowFull: v.isNowFull
-        })),
-        summary: {
-          totalVehiclesAffected: result.bookedVehicles.length,
-          vehiclesNowFull: result.bookedVehicles.filter(v => v.isNowFull).length
-        }
-      });
-
-      console.log(`✅ Booking created successfully: ${result.verificationCode}`);
+      console.log(`✅ Booking created successfully: ${result.verificationCodes.join(', ')}`);
 
     } catch (error) {
       console.error('❌ Error creating local booking:', error);
@@ -464,7 +309,7 @@ export class LocalBookingController {
   async verifyBooking(req: Request, res: Response): Promise<void> {
     try {
       const { verificationCode } = req.params;
-      const { staffId } = req.body; // Optional: staff member who verified the ticket
+      const staffId = req.staff?.id; // Staff member who verified the ticket
 
       console.log(`🎫 Verifying ticket: ${verificationCode}`);
 
@@ -813,7 +658,7 @@ export class LocalBookingController {
 
   /**
    * POST /api/bookings/confirm-payment
-   * Confirm payment and update booking status
+   * Confirm payment and update the status of every booking in the purchase's group
    * Called by Central Server after payment webhook confirmation
    */
   async confirmPayment(req: Request, res: Response): Promise<void> {
@@ -838,19 +683,21 @@ export class LocalBookingController {
         return;
       }
 
+      const bookingInclude = {
+        queue: {
+          include: {
+            vehicle: true
+          }
+        },
+        createdByStaff: {
+          select: { id: true, firstName: true, lastName: true }
+        }
+      } as const;
+
       // Find the booking by verification code
       const booking = await prisma.booking.findUnique({
         where: { verificationCode },
-        include: {
-          queue: {
-            include: {
-              vehicle: true
-            }
-          },
-          createdByStaff: {
-            select: { id: true, firstName: true, lastName: true }
-          }
-        }
+        include: bookingInclude
       });
 
       if (!booking) {
@@ -863,14 +710,25 @@ export class LocalBookingController {
         return;
       }
 
+      // A purchase split across vehicles is paid once: settle every booking of its group
+      const groupBookings = booking.groupCode
+        ? await prisma.booking.findMany({
+            where: { groupCode: booking.groupCode },
+            include: bookingInclude,
+            orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+          })
+        : [booking];
+      const pendingBookings = groupBookings.filter(b => b.paymentStatus !== 'PAID' && b.paymentStatus !== 'COMPLETED');
+
       // Check if payment was already confirmed
-      if (booking.paymentStatus === 'PAID' || booking.paymentStatus === 'COMPLETED') {
+      if (pendingBookings.length === 0) {
         console.log(`ℹ️ Booking ${verificationCode} is already confirmed as ${booking.paymentStatus}`);
         res.json({
           success: true,
           message: 'Booking already confirmed',
           data: {
             verificationCode: booking.verificationCode,
+            verificationCodes: groupBookings.map(b => b.verificationCode),
             paymentStatus: booking.paymentStatus,
             alreadyConfirmed: true
           }
@@ -878,109 +736,123 @@ export class LocalBookingController {
         return;
       }
 
-      // Start a transaction to update booking and related data
-      const updatedBooking = await prisma.$transaction(async (tx) => {
-        // Update the booking payment status and verification
-        const updatedBooking = await tx.booking.update({
-          where: { verificationCode },
-          data: {
-            paymentStatus: status === 'PAID' ? 'PAID' : 'FAILED', // Set to PAID when payment successful
-            paymentMethod: 'ONLINE',
-            paymentProcessedAt: paymentProcessedAt ? new Date(paymentProcessedAt) : new Date(),
-            onlineTicketId: centralBookingId || booking.onlineTicketId,
-            // Don't set isVerified to true yet - that happens during ticket verification
-            syncStatus: 'SYNCED' // Mark as synced with central server
-          },
-          include: {
-            queue: {
-              include: {
-                vehicle: true
-              }
-            },
-            createdByStaff: {
-              select: { id: true, firstName: true, lastName: true }
-            }
-          }
-        });
+      // Start a transaction to update the bookings and related data
+      const updatedBookings = await prisma.$transaction(async (tx) => {
+        const updatedBookings = [];
 
-        // If payment successful, update vehicle seat availability
-        if (status === 'PAID' && booking.queue.vehicle) {
-          const vehicle = booking.queue.vehicle;
-          
-          console.log(`✅ Confirming ${booking.seatsBooked} seats for vehicle ${vehicle.licensePlate}`);
+        for (const pending of pendingBookings) {
+          // Online ticket IDs are unique, so the vehicles after the first get a numbered suffix
+          const onlineTicketId = centralBookingId
+            ? bookingCoreService.onlineTicketIdFor(centralBookingId, groupBookings.indexOf(pending))
+            : pending.onlineTicketId;
 
-          // Update the vehicle queue availability
-          await tx.vehicleQueue.update({
-            where: { id: booking.queueId },
+          // Update the booking payment status and verification
+          const updatedBooking = await tx.booking.update({
+            where: { id: pending.id },
             data: {
-              availableSeats: Math.max(0, booking.queue.availableSeats - booking.seatsBooked)
-            }
+              paymentStatus: status === 'PAID' ? 'PAID' : 'FAILED', // Set to PAID when payment successful
+              paymentMethod: 'ONLINE',
+              paymentProcessedAt: paymentProcessedAt ? new Date(paymentProcessedAt) : new Date(),
+              onlineTicketId,
+              // Don't set isVerified to true yet - that happens during ticket verification
+              syncStatus: 'SYNCED' // Mark as synced with central server
+            },
+            include: bookingInclude
           });
 
-          // Note: Status will be updated automatically after transaction by calling updateVehicleStatusBasedOnBookings
+          // If payment successful, update vehicle seat availability
+          if (status === 'PAID' && pending.queue.vehicle) {
+            const vehicle = pending.queue.vehicle;
+
+            console.log(`✅ Confirming ${pending.seatsBooked} seats for vehicle ${vehicle.licensePlate}`);
+
+            // Update the vehicle queue availability
+            await tx.vehicleQueue.update({
+              where: { id: pending.queueId },
+              data: {
+                availableSeats: Math.max(0, pending.queue.availableSeats - pending.seatsBooked)
+              }
+            });
 
-          console.log(`🎯 Booking ${verificationCode} confirmed with ${booking.seatsBooked} seats`);
+            // Note: Status will be updated automatically after transaction by calling updateVehicleStatusBasedOnBookings
+
+            console.log(`🎯 Booking ${pending.verificationCode} confirmed with ${pending.seatsBooked} seats`);
+          }
+
+          updatedBookings.push(updatedBooking);
         }
 
-        return updatedBooking;
+        return updatedBookings;
       });
 
       // Update vehicle status based on payment confirmation (outside transaction to avoid conflicts)
-      if (status === 'PAID' && updatedBooking.queue && webSocketService) {
+      if (status === 'PAID' && webSocketService) {
         try {
           const { createQueueService } = await import('../services/queueService');
           const queueService = createQueueService(webSocketService);
-          await queueService.updateVehicleStatusBasedOnBookings(updatedBooking.queueId);
+          for (const queueId of new Set(updatedBookings.map(b => b.queueId))) {
+            await queueService.updateVehicleStatusBasedOnBookings(queueId);
+          }
         } catch (error) {
           console.error('❌ Error updating vehicle status after payment confirmation:', error);
         }
       }
 
       // Broadcast the payment confirmation update
-      broadcastBookingUpdate('booking_created', {
-        bookingId: updatedBooking.id,
+      for (const updatedBooking of updatedBookings) {
+        broadcastBookingUpdate('booking_created', {
+          bookingId: updatedBooking.id,
+          verificationCode: updatedBooking.verificationCode,
+          onlineTicketId: updatedBooking.onlineTicketId,
+          userId: updatedBooking.userId,
+          paymentStatus: updatedBooking.paymentStatus,
+          totalAmount: updatedBooking.totalAmount,
+          seatsBooked: updatedBooking.seatsBooked,
+          paymentMethod: updatedBooking.paymentMethod,
+          isVerified: updatedBooking.isVerified,
+          verifiedAt: updatedBooking.verifiedAt,
+          vehicle: {
+            licensePlate: updatedBooking.queue.vehicle.licensePlate,
+            destination: updatedBooking.queue.destinationName,
+            seatsBooked: updatedBooking.seatsBooked
+          },
+          source: 'payment_confirmation'
+        });
+      }
+
+      const toConfirmation = (updatedBooking: typeof updatedBookings[number]) => ({
         verificationCode: updatedBooking.verificationCode,
         onlineTicketId: updatedBooking.onlineTicketId,
-        userId: updatedBooking.userId,
         paymentStatus: updatedBooking.paymentStatus,
         totalAmount: updatedBooking.totalAmount,
         seatsBooked: updatedBooking.seatsBooked,
         paymentMethod: updatedBooking.paymentMethod,
         isVerified: updatedBooking.isVerified,
         verifiedAt: updatedBooking.verifiedAt,
+        paymentProcessedAt: updatedBooking.paymentProcessedAt,
         vehicle: {
           licensePlate: updatedBooking.queue.vehicle.licensePlate,
           destination: updatedBooking.queue.destinationName,
-          seatsBooked: updatedBooking.seatsBooked
+          queuePosition: updatedBooking.queue.queuePosition,
+          availableSeats: updatedBooking.queue.availableSeats,
+          totalSeats: updatedBooking.queue.totalSeats
         },
-        source: 'payment_confirmation'
+        staff: updatedBooking.createdByStaff
       });
 
       res.json({
         success: true,
         message: 'Payment confirmation processed successfully',
         data: {
-          verificationCode: updatedBooking.verificationCode,
-          onlineTicketId: updatedBooking.onlineTicketId,
-          paymentStatus: updatedBooking.paymentStatus,
-          totalAmount: updatedBooking.totalAmount,
-          seatsBooked: updatedBooking.seatsBooked,
-          paymentMethod: updatedBooking.paymentMethod,
-          isVerified: updatedBooking.isVerified,
-          verifiedAt: updatedBooking.verifiedAt,
-          paymentProcessedAt: updatedBooking.paymentProcessedAt,
-          vehicle: {
-            licensePlate: updatedBooking.queue.vehicle.licensePlate,
-            destination: updatedBooking.queue.destinationName,
-            queuePosition: updatedBooking.queue.queuePosition,
-            availableSeats: updatedBooking.queue.availableSeats,
-            totalSeats: updatedBooking.queue.totalSeats
-          },
-          staff: updatedBooking.createdByStaff
+          ...toConfirmation(updatedBookings.find(b => b.id === booking.id) ?? updatedBookings[0]!),
+          groupCode: booking.groupCode,
+          totalAmount: updatedBookings.reduce((sum, b) => sum + b.totalAmount, 0),
+          seatsBooked: updatedBookings.reduce((sum, b) => sum + b.seatsBooked, 0),
+          bookings: updatedBookings.map(toConfirmation)
         }
       });
 
-      console.log(`✅ Payment confirmation completed for booking ${verificationCode}`);
+      console.log(`✅ Payment confirmation completed for booking(s) ${updatedBookings.map(b => b.verificationCode).join(', ')}`);
 
     } catch (error) {
       console.error('❌ Error confirming payment:', error);
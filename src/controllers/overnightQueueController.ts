@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { createOvernightQueueService } from '../services/overnightQueueService';
 import { WebSocketService } from '../websocket/webSocketService';
+import { auditService } from '../services/auditService';
 
 export class OvernightQueueController {
   private overnightQueueService: ReturnType<typeof createOvernightQueueService>;
@@ -38,6 +39,17 @@ export class OvernightQueueController {
       const result = await this.overnightQueueService.addToOvernightQueue(licensePlate, supervisorId);
 
       if (result.success) {
+        await auditService.record({
+          action: 'OVERNIGHT_QUEUE_ADDED',
+          entityType: 'VEHICLE_QUEUE',
+          entityId: result.queueEntry?.id ?? null,
+          after: result.queueEntry && {
+            licensePlate: result.queueEntry.licensePlate,
+            destinationId: result.queueEntry.destinationId,
+            queuePosition: result.queueEntry.queuePosition
+          }
+        }, auditService.contextFromRequest(req));
+
         res.status(200).json({
           success: true,
           message: `Vehicle ${licensePlate} added to overnight queue successfully`,
@@ -88,6 +100,13 @@ export class OvernightQueueController {
       const result = await this.overnightQueueService.removeFromOvernightQueue(licensePlate, supervisorId);
 
       if (result.success) {
+        await auditService.record({
+          action: 'OVERNIGHT_QUEUE_REMOVED',
+          entityType: 'VEHICLE_QUEUE',
+          before: { licensePlate },
+          after: null
+        }, auditService.contextFromRequest(req));
+
         res.status(200).json({
           success: true,
           message: `Vehicle ${licensePlate} removed from overnight queue successfully`
@@ -192,9 +211,17 @@ export class OvernightQueueController {
         return;
       }
 
+      const before = await this.overnightQueueSnapshot();
       const result = await this.overnightQueueService.transferOvernightToRegular();
 
       if (result.success) {
+        await auditService.record({
+          action: 'OVERNIGHT_TRANSFER',
+          entityType: 'VEHICLE_QUEUE',
+          before,
+          after: await this.overnightQueueSnapshot()
+        }, auditService.contextFromRequest(req));
+
         res.status(200).json({
           success: true,
           message: `Successfully transferred ${result.transferred} vehicles from overnight to regular queue`,
@@ -261,6 +288,18 @@ export class OvernightQueueController {
       });
     }
   }
+
+  /**
+   * License plates waiting in each overnight queue, used as audit snapshot
+   */
+  private async overnightQueueSnapshot(): Promise<{ [destinationId: string]: string[] }> {
+    const result = await this.overnightQueueService.getOvernightQueues();
+    const snapshot: { [destinationId: string]: string[] } = {};
+    for (const [destinationId, entries] of Object.entries(result.queues || {})) {
+      snapshot[destinationId] = entries.map(entry => entry.licensePlate);
+    }
+    return snapshot;
+  }
 }
 
 export const createOvernightQueueController = (webSocketService: WebSocketService) => {
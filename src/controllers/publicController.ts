@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
 import { prisma } from '../config/database';
+import { operatingHoursService } from '../services/operatingHoursService';
+import { pricingService } from '../services/pricingService';
 import { EnhancedLocalWebSocketServer } from '../websocket/EnhancedLocalWebSocketServer';
 
 // Import ETD prediction function from localBooking
@@ -104,14 +106,7 @@ export class PublicController {
       // Get ETD predictions for each destination
       const destinations = await Promise.all(availableDestinations.map(async (dest) => {
         const etdPrediction = await getDestinationETD(dest.destinationId, 1); // Default 1 seat ETD
-        const pricePerSeat = await prisma.route.findFirst({
-          where: {
-            stationId: dest.destinationId
-          },
-          select: {
-            basePrice: true
-          }
-        });
+        const quote = await pricingService.quote(dest.destinationId, 1);
         return {
           destinationId: dest.destinationId,
           destinationName: dest.destinationName,
@@ -120,7 +115,8 @@ export class PublicController {
           isOnline: true, // This station is online since it's responding
           lastUpdate: new Date().toISOString(),
           // AI-powered ETD predictions
-          basePrice: pricePerSeat?.basePrice || 0,
+          basePrice: quote.pricePerSeat,
+          serviceFee: quote.serviceFeePerSeat,
           etdPrediction
         };
       }));
@@ -212,6 +208,7 @@ export class PublicController {
       // Calculate totals
       const totalAvailableSeats = queueEntries.reduce((sum, entry) => sum + entry.availableSeats, 0);
       const destinationName = queueEntries[0]?.destinationName;
+      const quote = await pricingService.quote(String(destinationId), 1, { fallbackBasePrice: queueEntries[0]?.basePrice });
 
       // Get ETD predictions for the destination
       const destinationETD = await getDestinationETD(destinationId, 1); // Default 1 seat ETD
@@ -243,7 +240,7 @@ export class PublicController {
           occupancyRate: Math.round(((entry.totalSeats - entry.availableSeats) / entry.totalSeats) * 100),
 
           // Pricing and schedule
-          pricePerSeat: entry.basePrice,
+          pricePerSeat: quote.pricePerSeat,
           estimatedDeparture: entry.estimatedDeparture?.toISOString(),
 
           // Status indicators
@@ -334,6 +331,8 @@ export class PublicController {
         return;
       }
 
+      const operatingHours = await operatingHoursService.getOperatingHours();
+
       // Get quick stats
       const [totalVehicles, totalQueues, totalAvailableSeats] = await Promise.all([
         prisma.vehicle.count({ where: { isActive: true } }),
@@ -353,6 +352,8 @@ export class PublicController {
           delegation: stationConfig.delegation,
           isOnline: stationConfig.isOnline,
           isOperational: stationConfig.isOperational,
+          isOpen: stationConfig.isOperational && operatingHours.isOpen,
+          operatingHours,
           
           // Quick stats
           stats: {
@@ -598,6 +599,40 @@ export class PublicController {
     }
   }
 
+  /**
+   * GET /api/public/quote/:destinationId?seats=N
+   * Price seats with the station's pricing rules
+   * Called by Central Server so online bookings charge the same fare as the station
+   */
+  async getPriceQuote(req: Request, res: Response): Promise<void> {
+    try {
+      const destinationId = String(req.params.destinationId);
+      const seats = req.query.seats ? parseInt(req.query.seats as string, 10) : 1;
+
+      if (!Number.isInteger(seats) || seats < 1) {
+        res.status(400).json({
+          success: false,
+          error: 'seats must be a positive integer'
+        });
+        return;
+      }
+
+      const quote = await pricingService.quote(destinationId, seats);
+
+      res.json({
+        success: true,
+        data: quote
+      });
+    } catch (error) {
+      console.error('❌ Error computing price quote:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to compute price quote',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   async getStationConfig(req: Request, res: Response): Promise<void> {
     try {
       const stationConfig = await prisma.stationConfig.findFirst();
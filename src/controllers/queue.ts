@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { createQueueService } from '../services/queueService';
 import { WebSocketService } from '../websocket/webSocketService';
+import { auditService } from '../services/auditService';
 
 export class QueueController {
   private queueService: ReturnType<typeof createQueueService>;
@@ -348,6 +349,151 @@ export class QueueController {
       });
     }
   }
+
+  /**
+   * Move a vehicle to a given position in its destination queue
+   * PUT /api/queue/entries/:queueId/position
+   */
+  async moveQueueEntry(req: Request, res: Response): Promise<void> {
+    try {
+      const position = Number(req.body?.position);
+
+      if (!Number.isInteger(position)) {
+        res.status(400).json({
+          success: false,
+          error: 'Position must be an integer'
+        });
+        return;
+      }
+
+      const result = await this.queueService.moveToPosition(String(req.params.queueId), position, auditService.contextFromRequest(req));
+
+      if (result.success) {
+        res.status(200).json({
+          success: true,
+          message: `Vehicle moved to position ${position}`,
+          data: result.queue
+        });
+      } else {
+        res.status(400).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+    } catch (error) {
+      console.error('❌ Error in moveQueueEntry controller:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Swap the positions of two vehicles in the same destination queue
+   * POST /api/queue/swap
+   */
+  async swapQueueEntries(req: Request, res: Response): Promise<void> {
+    try {
+      const { firstQueueId, secondQueueId } = req.body;
+
+      if (!firstQueueId || !secondQueueId) {
+        res.status(400).json({
+          success: false,
+          error: 'firstQueueId and secondQueueId are required'
+        });
+        return;
+      }
+
+      const result = await this.queueService.swapPositions(firstQueueId, secondQueueId, auditService.contextFromRequest(req));
+
+      if (result.success) {
+        res.status(200).json({
+          success: true,
+          message: 'Vehicles swapped successfully',
+          data: result.queue
+        });
+      } else {
+        res.status(400).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+    } catch (error) {
+      console.error('❌ Error in swapQueueEntries controller:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Put a vehicle on hold without losing its position
+   * POST /api/queue/entries/:queueId/hold
+   */
+  async holdQueueEntry(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.queueService.holdVehicle(
+        String(req.params.queueId),
+        req.staff.id,
+        req.body?.reason,
+        auditService.contextFromRequest(req)
+      );
+
+      if (result.success) {
+        res.status(200).json({
+          success: true,
+          message: `Vehicle ${result.queueEntry?.licensePlate} is on hold`,
+          data: result.queueEntry
+        });
+      } else {
+        res.status(400).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+    } catch (error) {
+      console.error('❌ Error in holdQueueEntry controller:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Release a held vehicle
+   * POST /api/queue/entries/:queueId/release
+   */
+  async releaseQueueEntry(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.queueService.releaseVehicle(String(req.params.queueId), req.staff.id, auditService.contextFromRequest(req));
+
+      if (result.success) {
+        res.status(200).json({
+          success: true,
+          message: `Vehicle ${result.queueEntry?.licensePlate} released`,
+          data: result.queueEntry
+        });
+      } else {
+        res.status(400).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+    } catch (error) {
+      console.error('❌ Error in releaseQueueEntry controller:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
 }
 
 // Export a function to create queue controller instance
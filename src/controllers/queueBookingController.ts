@@ -3,6 +3,7 @@ import { createQueueBookingService } from '../services/queueBookingService';
 import { WebSocketService } from '../websocket/webSocketService';
 import { prisma } from '../config/database';
 import { LoggingService } from '../services/loggingService';
+import { permissionService } from '../services/permissionService';
 
 export class QueueBookingController {
   private queueBookingService: ReturnType<typeof createQueueBookingService>;
@@ -327,7 +328,7 @@ export class QueueBookingController {
   async cancelBooking(req: Request, res: Response): Promise<void> {
     try {
       const { bookingId } = req.params;
-      const { seatsToCancel } = req.body; // Optional: number of seats to cancel (if not provided, cancels entire booking)
+      const { seatsToCancel, reason } = req.body; // Optional: number of seats to cancel (if not provided, cancels entire booking)
       const staffId = req.staff?.id;
 
       if (!bookingId) {
@@ -359,7 +360,7 @@ export class QueueBookingController {
 
       console.log(`🚫 Staff ${staffId} cancelling booking ${bookingId}${seatsToCancel ? `, ${seatsToCancel} seats` : ' (completely)'}`);
 
-      const result = await this.queueBookingService.cancelBooking(bookingId, seatsToCancel, staffId);
+      const result = await this.queueBookingService.cancelBooking(bookingId, seatsToCancel, staffId, reason);
 
       if (result.success) {
         res.status(200).json({
@@ -368,7 +369,8 @@ export class QueueBookingController {
           data: {
             cancelledCompletely: result.cancelledCompletely,
             seatsRestored: result.seatsRestored,
-            updatedBooking: result.updatedBooking
+            updatedBooking: result.updatedBooking,
+            refund: result.refund
           }
         });
       } else {
@@ -471,7 +473,7 @@ export class QueueBookingController {
       }
 
       // Validate that this is coming from central server
-      const isCentralServer = req.headers['x-central-server'] === 'true';
+      const isCentralServer = permissionService.isCentralServer(req.staff?.role);
       if (!isCentralServer) {
         res.status(403).json({
           success: false,
@@ -550,7 +552,7 @@ export class QueueBookingController {
       }
 
       // Validate that this is coming from central server
-      const isCentralServer = req.headers['x-central-server'] === 'true';
+      const isCentralServer = permissionService.isCentralServer(req.staff?.role);
       if (!isCentralServer) {
         res.status(403).json({
           success: false,
@@ -2,6 +2,8 @@ import { Request, Response } from 'express';
 import { routeService } from '../services/routeService';
 import { prisma } from '../config/database';
 import { configService } from '../config/supervisorConfig';
+import { auditService } from '../services/auditService';
+import { permissionService } from '../services/permissionService';
 
 export class RouteController {
   /**
@@ -78,10 +80,10 @@ export class RouteController {
 
       const { role, station } = req.staff;
       console.log(req.staff);
-      if (role !== 'SUPERVISOR') {
+      if (!permissionService.hasPermission(role, 'route:price:update')) {
         res.status(403).json({
           success: false,
-          message: 'Only supervisors can update route prices',
+          message: 'Missing permission: route:price:update',
           code: 'INSUFFICIENT_PERMISSIONS'
         });
         return;
@@ -132,7 +134,7 @@ export class RouteController {
 
 
 
-      const updatedRoute = await routeService.updateRoutePrice(id, basePrice, supervisorStationId);
+      const updatedRoute = await routeService.updateRoutePrice(id, basePrice, supervisorStationId, auditService.contextFromRequest(req));
       
       if (!updatedRoute) {
         res.status(404).json({
@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { createSimpleCashBookingService } from '../services/simpleCashBookingService';
 import { WebSocketService } from '../websocket/webSocketService';
 import { prisma } from '../config/database';
+import { OperationTimeoutError } from '../services/concurrencyManager';
 
 export class SimpleCashBookingController {
   private cashBookingService: ReturnType<typeof createSimpleCashBookingService>;
@@ -84,7 +85,9 @@ export class SimpleCashBookingController {
    */
   async createCashBooking(req: Request, res: Response): Promise<void> {
     try {
-      const { destinationId, seatsRequested } = req.body;
+      const { destinationId, queueId, seatNumbers } = req.body;
+      // Seats picked on the seat map give the passenger count
+      const seatsRequested = Array.isArray(seatNumbers) && seatNumbers.length > 0 ? seatNumbers.length : req.body.seatsRequested;
       const staffId = req.staff?.id;
 
       // Validate input
@@ -112,10 +115,20 @@ export class SimpleCashBookingController {
         return;
       }
 
+      if (seatNumbers !== undefined && (!Array.isArray(seatNumbers) || !queueId)) {
+        res.status(400).json({
+          success: false,
+          error: 'seatNumbers must be an array of seat numbers on the vehicle given by queueId'
+        });
+        return;
+      }
+
       const bookingRequest = {
         destinationId,
         seatsRequested,
-        staffId
+        staffId,
+        queueId,
+        seatNumbers
       };
 
       const result = await this.cashBookingService.createCashBooking(bookingRequest);
@@ -144,6 +157,17 @@ export class SimpleCashBookingController {
       }
 
     } catch (error) {
+      if (error instanceof OperationTimeoutError) {
+        // The seat assignment may still go through: the idempotency key stays claimed until it does
+        console.warn(`⏳ Cash booking still pending after timeout: ${error.message}`);
+        res.locals.pendingOperation = error;
+        res.status(504).json({
+          success: false,
+          error: 'The booking is still being processed, check the recent bookings before selling again'
+        });
+        return;
+      }
+
       console.error('❌ Error in createCashBooking controller:', error);
       res.status(500).json({
         success: false,
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { prisma } from '../config/database';
+import { operatingHoursService } from '../services/operatingHoursService';
 
 export const getStationConfig = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -18,6 +19,9 @@ export const getStationConfig = async (req: Request, res: Response): Promise<voi
       stationId: stationConfig.stationId,
       stationName: stationConfig.stationName
     });
+
+    const schedule = await operatingHoursService.getSchedule();
+    const today = await operatingHoursService.getOperatingHours();
     
     res.json({
       success: true,
@@ -29,9 +33,17 @@ export const getStationConfig = async (req: Request, res: Response): Promise<voi
         address: stationConfig.address,
         operatingHours: {
           openingTime: stationConfig.openingTime,
-          closingTime: stationConfig.closingTime
+          closingTime: stationConfig.closingTime,
+          weekly: schedule.weekly,
+          overrides: schedule.overrides,
+          overnightAdmissionMinutes: schedule.overnightAdmissionMinutes,
+          today
         },
         serviceFee: stationConfig.serviceFee,
+        refundPolicy: {
+          serviceFeeRefundable: stationConfig.refundServiceFee,
+          approvalThreshold: stationConfig.refundApprovalThreshold
+        },
         isOperational: stationConfig.isOperational,
         isOnline: stationConfig.isOnline,
         lastSync: stationConfig.lastSync,
@@ -57,6 +69,7 @@ export const updateStationConfig = async (req: Request, res: Response): Promise<
       address,
       operatingHours,
       serviceFee,
+      refundPolicy,
       isOperational 
     } = req.body;
 
@@ -69,42 +82,40 @@ export const updateStationConfig = async (req: Request, res: Response): Promise<
       return;
     }
 
-    // Validate operating hours
+    // Validate operating hours (default hours, per-day hours and holiday/Ramadan overrides)
     if (operatingHours) {
-      const { openingTime, closingTime } = operatingHours;
-      if (!openingTime || !closingTime) {
-        res.status(400).json({
-          success: false,
-          message: 'Both opening and closing times are required'
-        });
-        return;
+      const { openingTime, closingTime, weekly, overrides, overnightAdmissionMinutes } = operatingHours;
+      let validationError = operatingHoursService.validateTimeRange(openingTime, closingTime);
+      if (!validationError && weekly) {
+        validationError = operatingHoursService.validateWeeklyHours(weekly);
       }
-
-      // Validate time format (HH:MM)
-      const timeRegex = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
-      if (!timeRegex.test(openingTime) || !timeRegex.test(closingTime)) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid time format. Use HH:MM format (e.g., 06:00)'
-        });
-        return;
+      if (!validationError && overrides) {
+        validationError = operatingHoursService.validateOverrides(overrides);
+      }
+      if (!validationError && overnightAdmissionMinutes !== undefined
+        && !(Number.isInteger(overnightAdmissionMinutes) && overnightAdmissionMinutes >= 0)) {
+        validationError = 'overnightAdmissionMinutes must be a positive whole number';
       }
 
-      // Validate that closing time is after opening time
-      const [openHour, openMin] = openingTime.split(':').map(Number);
-      const [closeHour, closeMin] = closingTime.split(':').map(Number);
-      const openMinutes = openHour * 60 + openMin;
-      const closeMinutes = closeHour * 60 + closeMin;
-      
-      if (openMinutes >= closeMinutes) {
+      if (validationError) {
         res.status(400).json({
           success: false,
-          message: 'Closing time must be after opening time'
+          message: validationError
         });
         return;
       }
     }
 
+    // Validate refund policy
+    if (refundPolicy?.approvalThreshold !== undefined
+      && !(typeof refundPolicy.approvalThreshold === 'number' && refundPolicy.approvalThreshold >= 0)) {
+      res.status(400).json({
+        success: false,
+        message: 'Refund approval threshold must be a positive amount'
+      });
+      return;
+    }
+
     // Update or create station config
     const updatedConfig = await prisma.stationConfig.upsert({
       where: {
@@ -117,7 +128,15 @@ export const updateStationConfig = async (req: Request, res: Response): Promise<
         address: address || null,
         openingTime: operatingHours?.openingTime || '06:00',
         closingTime: operatingHours?.closingTime || '22:00',
+        ...(operatingHours?.weekly !== undefined && {
+          weeklyHours: operatingHours.weekly ? JSON.stringify(operatingHours.weekly) : null
+        }),
+        ...(operatingHours?.overnightAdmissionMinutes !== undefined && {
+          overnightAdmissionMinutes: operatingHours.overnightAdmissionMinutes
+        }),
         serviceFee: serviceFee !== undefined ? serviceFee : 0.200,
+        ...(typeof refundPolicy?.serviceFeeRefundable === 'boolean' && { refundServiceFee: refundPolicy.serviceFeeRefundable }),
+        ...(refundPolicy?.approvalThreshold !== undefined && { refundApprovalThreshold: refundPolicy.approvalThreshold }),
         isOperational: isOperational !== undefined ? isOperational : true,
         updatedAt: new Date()
       },
@@ -129,12 +148,23 @@ export const updateStationConfig = async (req: Request, res: Response): Promise<
         address: address || null,
         openingTime: operatingHours?.openingTime || '06:00',
         closingTime: operatingHours?.closingTime || '22:00',
+        weeklyHours: operatingHours?.weekly ? JSON.stringify(operatingHours.weekly) : null,
+        overnightAdmissionMinutes: operatingHours?.overnightAdmissionMinutes ?? 120,
         serviceFee: serviceFee !== undefined ? serviceFee : 0.200,
+        refundServiceFee: refundPolicy?.serviceFeeRefundable === true,
+        refundApprovalThreshold: refundPolicy?.approvalThreshold ?? 20,
         isOperational: isOperational !== undefined ? isOperational : true,
         serverVersion: '1.0.0'
       }
     });
 
+    // Holiday and Ramadan overrides are replaced as a whole when provided
+    if (operatingHours?.overrides !== undefined) {
+      await operatingHoursService.replaceOverrides(operatingHours.overrides || []);
+    }
+
+    const schedule = await operatingHoursService.getSchedule();
+
     res.json({
       success: true,
       message: 'Station configuration updated successfully',
@@ -146,9 +176,16 @@ export const updateStationConfig = async (req: Request, res: Response): Promise<
         address: updatedConfig.address,
         operatingHours: {
           openingTime: updatedConfig.openingTime,
-          closingTime: updatedConfig.closingTime
+          closingTime: updatedConfig.closingTime,
+          weekly: schedule.weekly,
+          overrides: schedule.overrides,
+          overnightAdmissionMinutes: schedule.overnightAdmissionMinutes
         },
         serviceFee: updatedConfig.serviceFee,
+        refundPolicy: {
+          serviceFeeRefundable: updatedConfig.refundServiceFee,
+          approvalThreshold: updatedConfig.refundApprovalThreshold
+        },
         isOperational: updatedConfig.isOperational,
         isOnline: updatedConfig.isOnline,
         updatedAt: updatedConfig.updatedAt
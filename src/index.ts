@@ -10,6 +10,7 @@ import { configService } from './config/supervisorConfig';
 import authRoutes from './routes/auth';
 import createQueueRouter from './routes/queue';
 import createOvernightQueueRouter from './routes/overnightQueue';
+import createPlateDetectionRouter from './routes/plateDetection';
 import createQueueBookingRouter from './routes/queueBooking';
 import createCashBookingRouter from './routes/cashBooking';
 import createWebSocketRouter from './routes/websocket';
@@ -17,14 +18,27 @@ import bookingRoutes from './routes/booking';
 import localBookingRoutes from './routes/localBooking';
 import vehicleRoutes from './routes/vehicle';
 import stationRoutes from './routes/station';
-import syncRoutes from './routes/sync';
+import { createSyncRouter } from './routes/sync';
 import { createDashboardRouter } from './routes/dashboard';
 import staffRoutes from './routes/staff';
+import shiftRoutes from './routes/shift';
 import routeRoutes from './routes/route';
 import driverTicketsRoutes from './routes/driverTickets';
 import dayPassRoutes from './routes/dayPass';
 import publicRoutes from './routes/public';
 import configSyncRoutes from './routes/configSync';
+import printingRoutes from './routes/printing';
+import refundRoutes from './routes/refund';
+import auditRoutes from './routes/audit';
+import exitGateRoutes from './routes/exitGate';
+import pricingRoutes from './routes/pricing';
+import concurrencyRoutes from './routes/concurrency';
+import roleRoutes from './routes/roles';
+import terminalRoutes from './routes/terminals';
+import sessionRoutes from './routes/sessions';
+import driverStatementRoutes from './routes/driverStatements';
+import reportRoutes from './routes/reports';
+import jobRoutes from './routes/jobs';
 
 // Import middleware
 import { errorHandler } from './middleware/errorHandler';
@@ -38,13 +52,18 @@ import { AutoTripSyncService } from './services/autoTripSyncService';
 import { EnhancedMQTTService } from './services/enhancedMqttService';
 import { mqttConfig, validateMqttConfig } from './config/mqttConfig';
 import { createAutoTripSyncRouter } from './routes/autoTripSync';
-import { setEnhancedMqttService } from './services/simpleCashBookingService';
+import { setBookingCoreTransports } from './services/bookingCoreService';
 import { cronService } from './services/cronService';
+import { concurrencyManager } from './services/concurrencyManager';
+import { permissionService } from './services/permissionService';
+import { sessionService, setSessionTransports } from './services/sessionService';
 
 import * as dashboardController from './controllers/dashboardController';
 
 const app = express();
 
+app.set('trust proxy', env.TRUST_PROXY);
+
 // Security middleware
 app.use(helmet());
 
@@ -54,7 +73,8 @@ if (env.ENABLE_CORS) {
     credentials: true,
     origin: true, // Allow all origins for Tauri app compatibility
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization']
+    allowedHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key'],
+    exposedHeaders: ['Idempotent-Replayed']
   }));
 }
 
@@ -100,20 +120,32 @@ const startServer = async () => {
       process.exit(1);
     }
 
+    // Load staff roles, their permissions and the session idle timeout before serving any request
+    await permissionService.initialize();
+    await sessionService.initialize();
+
     // Initialize sync service
     syncService = new SyncService();
     await syncService.initialize();
 
     // Initialize WebSocket service for central server communication
     webSocketService = new WebSocketService();
+    // Catch up on central changes missed while disconnected
+    webSocketService.on('authenticated', () => {
+      syncService.pullChanges('reconnect').catch(() => {});
+    });
     await webSocketService.connect();
+    setBookingCoreTransports({ webSocketService });
     
     // Initialize auto trip sync service
-    autoTripSyncService = new AutoTripSyncService(webSocketService);
+    autoTripSyncService = new AutoTripSyncService(webSocketService, syncService);
     await autoTripSyncService.start();
 
     // Initialize cron service for scheduled tasks
-    cronService.initialize();
+    await cronService.initialize();
+
+    // Replay or fail operations interrupted by the last shutdown
+    await concurrencyManager.recoverInterruptedOperations();
 
 
     
@@ -132,13 +164,26 @@ const startServer = async () => {
     app.use('/api/bookings', localBookingRoutes);
     app.use('/api/vehicles', vehicleRoutes);
     app.use('/api/station', stationRoutes);
-    app.use('/api/sync', syncRoutes);
+    app.use('/api/sync', createSyncRouter(syncService));
+    app.use('/api/staff/shifts', shiftRoutes);
     app.use('/api/staff', staffRoutes);
     app.use('/api/routes', routeRoutes);
     app.use('/api/driver-tickets', driverTicketsRoutes);
     app.use('/api/day-pass', dayPassRoutes);
     app.use('/api/public', publicRoutes);
     app.use('/api/config', configSyncRoutes);
+    app.use('/api/print', printingRoutes);
+    app.use('/api/refunds', refundRoutes);
+    app.use('/api/audit', auditRoutes);
+    app.use('/api/exit-gate', exitGateRoutes);
+    app.use('/api/pricing', pricingRoutes);
+    app.use('/api/concurrency', concurrencyRoutes);
+    app.use('/api/roles', roleRoutes);
+    app.use('/api/terminals', terminalRoutes);
+    app.use('/api/sessions', sessionRoutes);
+    app.use('/api/driver-statements', driverStatementRoutes);
+    app.use('/api/reports', reportRoutes);
+    app.use('/api/jobs', jobRoutes);
     // Initialize queue routes with WebSocket service
     const queueRoutes = createQueueRouter(webSocketService);
     app.use('/api/queue', queueRoutes);
@@ -147,6 +192,9 @@ const startServer = async () => {
     const overnightQueueRoutes = createOvernightQueueRouter(webSocketService);
     app.use('/api/overnight-queue', overnightQueueRoutes);
 
+    // Initialize plate detection review routes with WebSocket service
+    app.use('/api/plate-detections', createPlateDetectionRouter(webSocketService));
+
     // Initialize queue booking routes with WebSocket service
     const queueBookingRoutes = createQueueBookingRouter(webSocketService);
     app.use('/api/queue-booking', queueBookingRoutes);
@@ -195,6 +243,8 @@ const startServer = async () => {
     const { setBookingControllerWebSocket, setBookingControllerWebSocketService } = await import('./controllers/localBooking');
     setBookingControllerWebSocket(localWebSocketServer);
     setBookingControllerWebSocketService(webSocketService);
+    setBookingCoreTransports({ localWebSocketServer });
+    setSessionTransports({ localWebSocketServer });
     
     const { setPublicControllerWebSocket } = await import('./controllers/publicController');
     setPublicControllerWebSocket(localWebSocketServer);
@@ -203,14 +253,16 @@ const startServer = async () => {
 
     // Initialize Enhanced MQTT Service for desktop app communication (replacing WebSocket)
     if (validateMqttConfig()) {
-      const { createQueueService } = await import('./services/queueService');
+      const { createQueueService, setQueueMqttService } = await import('./services/queueService');
       const queueService = createQueueService(webSocketService);
       
       enhancedMqttService = new EnhancedMQTTService(mqttConfig, queueService);
       await enhancedMqttService.connect();
       
-      // Set the MQTT service for cash booking service
-      setEnhancedMqttService(enhancedMqttService);
+      // Set the MQTT service for booking notifications
+      setBookingCoreTransports({ mqttService: enhancedMqttService });
+      setSessionTransports({ mqttService: enhancedMqttService });
+      setQueueMqttService(enhancedMqttService);
       
       // Set up MQTT event listeners
       enhancedMqttService.on('plateDetected', (data: any) => {
@@ -281,6 +333,9 @@ const startServer = async () => {
           await enhancedMqttService.disconnect();
           console.log('📡 Enhanced MQTT Service disconnected');
         }
+
+        concurrencyManager.cleanup();
+        cronService.stop();
         
         // Close database connection
         await import('./config/database').then(db => db.prisma.$disconnect());
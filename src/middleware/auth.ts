@@ -1,7 +1,10 @@
+import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import { getAuthService } from '../services/authService';
 import { WebSocketService } from '../websocket/webSocketService';
 import { configService } from '../config/supervisorConfig';
+import { env, DEFAULT_API_SECRET } from '../config/environment';
+import { permissionService, Permission } from '../services/permissionService';
 
 // Extend Express Request interface to include staff
 declare global {
@@ -24,16 +27,89 @@ const getAuthServiceInstance = () => {
   return authService;
 };
 
+/**
+ * Resolve the staff member behind a session token (used by the WebSocket and MQTT servers)
+ */
+export const verifyStaffToken = async (token: string | undefined): Promise<any | null> => {
+  if (!token) return null;
+  const verificationResult = await getAuthServiceInstance().verifyToken(token);
+  return verificationResult.valid ? verificationResult.staff : null;
+};
+
+/*
+ * Central server requests
+ *
+ * The central server calls the station API (online bookings, payment confirmations)
+ * without a staff token. It marks these requests with `X-Central-Server: true` and
+ * signs them with the API_SECRET the station and central share:
+ *
+ *   X-Central-Timestamp: <milliseconds since epoch when the request was sent>
+ *   X-Central-Signature: hex(HMAC-SHA256(API_SECRET, `${timestamp}.${METHOD}.${path}`))
+ *
+ * METHOD is upper case and path is the request path with its query string, as sent
+ * (e.g. `1735689600000.POST./api/bookings/create`). Timestamps more than five minutes
+ * away from the station clock are refused, which limits replays.
+ *
+ * Until central signs every request, only an invalid signature is refused and unsigned
+ * requests are still let through with a warning; set CENTRAL_SIGNATURE_REQUIRED=true
+ * to refuse them too. Central server requests are always refused while API_SECRET is
+ * the built-in placeholder, since anyone could then produce a valid signature.
+ */
+
+// How far a central server request timestamp may drift from local time
+const CENTRAL_SIGNATURE_MAX_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * Check the signature the central server puts on its requests (see above)
+ */
+const hasValidCentralSignature = (req: Request): boolean => {
+  const signature = req.get('X-Central-Signature');
+  const timestamp = req.get('X-Central-Timestamp');
+  if (!signature || !timestamp || !/^\d+$/.test(timestamp)) return false;
+  if (Math.abs(Date.now() - Number(timestamp)) > CENTRAL_SIGNATURE_MAX_AGE_MS) return false;
+
+  const expected = crypto
+    .createHmac('sha256', env.API_SECRET)
+    .update(`${timestamp}.${req.method}.${req.originalUrl}`)
+    .digest('hex');
+
+  return signature.length === expected.length
+    && crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+};
+
 /**
  * Middleware to authenticate requests using JWT tokens
  * Checks local database first, then falls back to central server if connected
- * Allows central server requests to bypass authentication
+ * Central server requests are authenticated by their signature instead of a token
  */
 export const authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    // Allow central server requests to bypass authentication
     if (req.headers['x-central-server'] === 'true') {
-      console.log('🔐 Central server request - bypassing authentication');
+      if (env.API_SECRET === DEFAULT_API_SECRET) {
+        console.warn(`🚫 Rejected central server request, API_SECRET is not configured: ${req.method} ${req.originalUrl}`);
+        res.status(401).json({
+          success: false,
+          message: 'Central server access is not configured on this station',
+          code: 'CENTRAL_SECRET_NOT_CONFIGURED'
+        });
+        return;
+      }
+
+      const signed = !!req.get('X-Central-Signature');
+      if ((signed || env.CENTRAL_SIGNATURE_REQUIRED) && !hasValidCentralSignature(req)) {
+        console.warn(`🚫 Rejected ${signed ? 'badly signed' : 'unsigned'} central server request: ${req.method} ${req.originalUrl}`);
+        res.status(401).json({
+          success: false,
+          message: 'Invalid central server signature',
+          code: 'INVALID_CENTRAL_SIGNATURE'
+        });
+        return;
+      }
+
+      if (!signed) {
+        console.warn(`⚠️ Unsigned central server request accepted (CENTRAL_SIGNATURE_REQUIRED is off): ${req.method} ${req.originalUrl}`);
+      }
+
       req.staff = {
         role: 'CENTRAL_SERVER',
         station: { id: configService.getStationId() }
@@ -137,6 +213,50 @@ export const requireRole = (allowedRoles: string[]) => {
   };
 };
 
+/**
+ * Require every listed permission (see permissionService for the role matrix)
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.staff) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+        code: 'AUTH_REQUIRED'
+      });
+      return;
+    }
+
+    const missing = permissions.filter(permission => !permissionService.hasPermission(req.staff.role, permission));
+    if (missing.length > 0) {
+      res.status(403).json({
+        success: false,
+        message: `Access denied. Missing permission: ${missing.join(', ')}`,
+        code: 'INSUFFICIENT_PERMISSIONS'
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Require a signed central server request (see authenticate)
+ */
+export const requireCentralServer = (req: Request, res: Response, next: NextFunction): void => {
+  if (!permissionService.isCentralServer(req.staff?.role)) {
+    res.status(403).json({
+      success: false,
+      message: 'This endpoint is only accessible by the central server',
+      code: 'CENTRAL_SERVER_ONLY'
+    });
+    return;
+  }
+
+  next();
+};
+
 /**
  * Require supervisor role or higher
  */
@@ -148,16 +268,9 @@ export const requireSupervisor = requireRole(['SUPERVISOR', 'ADMIN']);
 export const requireAdmin = requireRole(['ADMIN']);
 
 /**
- * Require worker role or higher (anyone) or central server
+ * Require any known staff role or the central server
  */
 export const requireStaff = (req: Request, res: Response, next: NextFunction): void => {
-  // Allow central server requests
-  if (req.staff?.role === 'CENTRAL_SERVER') {
-    next();
-    return;
-  }
-  
-  // For other requests, require staff role
   if (!req.staff) {
     res.status(401).json({
       success: false,
@@ -167,11 +280,10 @@ export const requireStaff = (req: Request, res: Response, next: NextFunction): v
     return;
   }
 
-  const allowedRoles = ['WORKER', 'SUPERVISOR', 'ADMIN'];
-  if (!allowedRoles.includes(req.staff.role)) {
+  if (!permissionService.isKnownRole(req.staff.role)) {
     res.status(403).json({
       success: false,
-      message: `Access denied. Required role: ${allowedRoles.join(' or ')}`,
+      message: `Access denied. Unknown role: ${req.staff.role}`,
       code: 'INSUFFICIENT_PERMISSIONS'
     });
     return;
@@ -0,0 +1,162 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import type { AddressInfo } from 'net';
+import express, { Request, Response } from 'express';
+import { idempotent, IdempotencyStore } from './idempotency';
+import { IdempotencyClaim } from '../services/idempotencyService';
+import { OperationOutcome, OperationTimeoutError } from '../services/concurrencyManager';
+
+/**
+ * Key store kept in memory, recording the calls the middleware makes
+ */
+const createStore = () => {
+  const keys = new Map<string, { status: 'IN_PROGRESS' | 'COMPLETED'; responseStatus?: number; responseBody?: any }>();
+  const calls: string[] = [];
+  const store: IdempotencyStore = {
+    begin: async (scope, key): Promise<IdempotencyClaim> => {
+      const existing = keys.get(`${scope}/${key}`);
+      if (!existing) {
+        keys.set(`${scope}/${key}`, { status: 'IN_PROGRESS' });
+        return { state: 'new' };
+      }
+      return existing.status === 'COMPLETED'
+        ? { state: 'replay', responseStatus: existing.responseStatus!, responseBody: existing.responseBody }
+        : { state: 'in_progress' };
+    },
+    complete: async (scope, key, responseStatus, responseBody) => {
+      calls.push(`complete ${responseStatus}`);
+      keys.set(`${scope}/${key}`, { status: 'COMPLETED', responseStatus, responseBody });
+    },
+    release: async (scope, key) => {
+      calls.push('release');
+      keys.delete(`${scope}/${key}`);
+    },
+    extendLease: async (_scope, _key, durationMs) => {
+      calls.push(`extendLease ${durationMs}`);
+    }
+  };
+  return { store, keys, calls };
+};
+
+/**
+ * App with one idempotent sale endpoint answering with `handler`; returns a client for it
+ */
+const startApp = async (
+  t: { after: (fn: () => void) => void },
+  store: IdempotencyStore,
+  handler: (req: Request, res: Response) => void
+) => {
+  let runs = 0;
+  const app = express();
+  app.use(express.json());
+  app.post('/sale', idempotent('cash_booking', store), (req, res) => {
+    runs++;
+    handler(req, res);
+  });
+
+  const server = app.listen(0);
+  await once(server, 'listening');
+  t.after(() => server.close());
+  const { port } = server.address() as AddressInfo;
+
+  const send = async (key?: string, body: any = { seats: 2 }) => {
+    const response = await fetch(`http://127.0.0.1:${port}/sale`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(key && { 'Idempotency-Key': key }) },
+      body: JSON.stringify(body)
+    });
+    const json: any = await response.json();
+    // The key is settled once the response has gone out
+    await new Promise(resolve => setImmediate(resolve));
+    return { status: response.status, replayed: response.headers.get('Idempotent-Replayed'), body: json };
+  };
+
+  return { send, runs: () => runs };
+};
+
+test('a retried sale gets the first response back instead of selling again', async (t) => {
+  const { store } = createStore();
+  let sales = 0;
+  const app = await startApp(t, store, (_req, res) => { res.status(201).json({ success: true, sale: ++sales }); });
+
+  const first = await app.send('key-1');
+  const retry = await app.send('key-1');
+
+  assert.deepEqual(first, { status: 201, replayed: null, body: { success: true, sale: 1 } });
+  assert.deepEqual(retry, { status: 201, replayed: 'true', body: { success: true, sale: 1 } });
+  assert.equal(app.runs(), 1);
+});
+
+test('requests without a key are not deduplicated', async (t) => {
+  const { store, calls } = createStore();
+  const app = await startApp(t, store, (_req, res) => { res.json({ success: true }); });
+
+  await app.send();
+  await app.send();
+
+  assert.equal(app.runs(), 2);
+  assert.deepEqual(calls, []);
+});
+
+test('a server error releases the key so the sale can be retried', async (t) => {
+  const { store, calls } = createStore();
+  let failing = true;
+  const app = await startApp(t, store, (_req, res) => {
+    res.status(failing ? 500 : 201).json({ success: !failing });
+  });
+
+  assert.equal((await app.send('key-1')).status, 500);
+  failing = false;
+  assert.equal((await app.send('key-1')).status, 201);
+
+  assert.equal(app.runs(), 2);
+  assert.deepEqual(calls, ['release', 'complete 201']);
+});
+
+test('a retry while the first request is still running is refused', async (t) => {
+  const { store, keys } = createStore();
+  keys.set('cash_booking/key-1', { status: 'IN_PROGRESS' });
+  const app = await startApp(t, store, (_req, res) => { res.json({ success: true }); });
+
+  const retry = await app.send('key-1');
+
+  assert.equal(retry.status, 409);
+  assert.equal(retry.body.code, 'IDEMPOTENCY_KEY_IN_PROGRESS');
+  assert.equal(app.runs(), 0);
+});
+
+test('an oversized key is rejected before anything runs', async (t) => {
+  const { store, calls } = createStore();
+  const app = await startApp(t, store, (_req, res) => { res.json({ success: true }); });
+
+  const response = await app.send('k'.repeat(256));
+
+  assert.equal(response.status, 400);
+  assert.equal(response.body.code, 'INVALID_IDEMPOTENCY_KEY');
+  assert.equal(app.runs(), 0);
+  assert.deepEqual(calls, []);
+});
+
+test('a sale that times out keeps its key until the operation finishes', async (t) => {
+  const { store, keys, calls } = createStore();
+  let finishOperation: (outcome: OperationOutcome | null) => void = () => {};
+  const outcome = new Promise<OperationOutcome | null>(resolve => { finishOperation = resolve; });
+  const app = await startApp(t, store, (_req, res) => {
+    res.locals.pendingOperation = new OperationTimeoutError('Operation did not finish within 30s', 'op-1', outcome, 300000);
+    res.status(504).json({ success: false });
+  });
+
+  assert.equal((await app.send('key-1')).status, 504);
+  assert.deepEqual(calls, ['extendLease 300000']);
+  assert.equal((await app.send('key-1')).status, 409, 'the operation may still sell');
+
+  finishOperation({ success: true, data: { bookingId: 'booking-1' } });
+  await new Promise(resolve => setImmediate(resolve));
+
+  const retry = await app.send('key-1');
+  assert.equal(retry.status, 409);
+  assert.equal(retry.body.code, 'IDEMPOTENT_REQUEST_COMPLETED_LATE');
+  assert.equal(keys.get('cash_booking/key-1')?.status, 'COMPLETED');
+  assert.equal(app.runs(), 1);
+});
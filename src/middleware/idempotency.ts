@@ -0,0 +1,118 @@
+import { Request, Response, NextFunction } from 'express';
+import { idempotencyService, IdempotencyService } from '../services/idempotencyService';
+import type { OperationTimeoutError } from '../services/concurrencyManager';
+
+// Key storage used by the middleware
+export type IdempotencyStore = Pick<IdempotencyService, 'begin' | 'complete' | 'release' | 'extendLease'>;
+
+/**
+ * Honour the Idempotency-Key header on a money-moving endpoint.
+ * Requests without the header run as before.
+ */
+export const idempotent = (scope: string, store: IdempotencyStore = idempotencyService) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = req.get('Idempotency-Key');
+    if (!key) {
+      return next();
+    }
+
+    if (key.length > 255) {
+      res.status(400).json({
+        success: false,
+        message: 'Idempotency-Key must be at most 255 characters',
+        code: 'INVALID_IDEMPOTENCY_KEY'
+      });
+      return;
+    }
+
+    try {
+      const claim = await store.begin(scope, key, req.body, req.staff?.id);
+
+      if (claim.state === 'replay') {
+        res.set('Idempotent-Replayed', 'true');
+        res.status(claim.responseStatus).json(claim.responseBody);
+        return;
+      }
+
+      if (claim.state === 'mismatch') {
+        res.status(422).json({
+          success: false,
+          message: 'Idempotency-Key was already used with a different request',
+          code: 'IDEMPOTENCY_KEY_REUSED'
+        });
+        return;
+      }
+
+      if (claim.state === 'in_progress') {
+        res.status(409).json({
+          success: false,
+          message: 'A request with this Idempotency-Key is still being processed',
+          code: 'IDEMPOTENCY_KEY_IN_PROGRESS'
+        });
+        return;
+      }
+
+      // The claim is held until the handler answers, even if the client disconnects meanwhile,
+      // so a retry cannot start a second sale. Server errors stay retryable with the same key,
+      // unless the handler left an operation running (res.locals.pendingOperation) that may still sell.
+      let settled = false;
+      let responseBody: any = null;
+      const settle = () => {
+        if (settled) return;
+        settled = true;
+        const pendingOperation: OperationTimeoutError | undefined = res.locals.pendingOperation;
+        if (res.statusCode < 500) {
+          store.complete(scope, key, res.statusCode, responseBody);
+        } else if (pendingOperation) {
+          holdUntilSettled(store, scope, key, pendingOperation);
+        } else {
+          store.release(scope, key);
+        }
+      };
+
+      const originalJson = res.json;
+      res.json = function(body: any) {
+        responseBody = body;
+        const result = originalJson.call(this, body);
+        // 'finish' never fires once the client is gone, but the outcome is known now
+        if (res.destroyed) {
+          settle();
+        }
+        return result;
+      };
+
+      res.on('finish', settle);
+
+      next();
+    } catch (error) {
+      console.error('❌ Idempotency check error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Idempotency check error',
+        code: 'IDEMPOTENCY_ERROR'
+      });
+    }
+  };
+};
+
+/**
+ * Keep a key claimed while an operation its request submitted is still pending. If the
+ * operation goes through, retries are answered with a conflict instead of selling again;
+ * if it fails, the key is released. With no outcome, the lease runs out on its own.
+ */
+const holdUntilSettled = (store: IdempotencyStore, scope: string, key: string, pending: OperationTimeoutError): void => {
+  store.extendLease(scope, key, pending.outcomeTimeoutMs);
+
+  pending.outcome.then(async (outcome) => {
+    if (!outcome) return;
+    if (outcome.success) {
+      await store.complete(scope, key, 409, {
+        success: false,
+        message: 'This request completed after it timed out, check the recent bookings instead of retrying',
+        code: 'IDEMPOTENT_REQUEST_COMPLETED_LATE'
+      });
+    } else {
+      await store.release(scope, key);
+    }
+  }).catch(error => console.error('❌ Could not settle a pending idempotent request:', error));
+};
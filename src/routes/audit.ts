@@ -0,0 +1,64 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { auditService, AuditQuery } from '../services/auditService';
+
+const router = Router();
+
+// All routes require supervisor authentication
+router.use(authenticate, requirePermission('audit:view'));
+
+const parseFilters = (req: Request): AuditQuery => {
+  const { actorId, action, entityType, entityId, from, to } = req.query as {
+    actorId?: string; action?: string; entityType?: string; entityId?: string; from?: string; to?: string;
+  };
+
+  const parseDate = (value?: string) => {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  };
+
+  return { actorId, action, entityType, entityId, from: parseDate(from), to: parseDate(to) };
+};
+
+/**
+ * @route GET /api/audit
+ * @desc List audit entries (filters: actorId, action, entityType, entityId, from, to, limit, offset)
+ * @access Private (Supervisor only)
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { limit, offset } = req.query as { limit?: string; offset?: string };
+
+    const { entries, total } = await auditService.query({
+      ...parseFilters(req),
+      limit: Math.min(parseInt(limit || '100', 10) || 100, 1000),
+      offset: parseInt(offset || '0', 10) || 0
+    });
+
+    res.json({ success: true, data: entries, count: entries.length, total });
+  } catch (error) {
+    console.error('❌ Error listing audit entries:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route GET /api/audit/export
+ * @desc Export audit entries as CSV (same filters as the list)
+ * @access Private (Supervisor only)
+ */
+router.get('/export', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { entries } = await auditService.query({ ...parseFilters(req), limit: 10000 });
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="audit_${new Date().toISOString().slice(0, 10)}.csv"`);
+    res.send(auditService.toCsv(entries));
+  } catch (error) {
+    console.error('❌ Error exporting audit entries:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
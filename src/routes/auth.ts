@@ -1,6 +1,9 @@
 import { Router, Request, Response } from 'express';
 import { getAuthService } from '../services/authService';
 import { WebSocketService } from '../websocket/webSocketService';
+import { permissionService } from '../services/permissionService';
+import { terminalService } from '../services/terminalService';
+import { authenticate } from '../middleware/auth';
 
 const router = Router();
 
@@ -20,10 +23,10 @@ const initializeServices = () => {
   return getAuthService(webSocketService);
 };
 
-// Login with CIN and password
+// Login with CIN and password (terminalId + terminalKey bind the session to a registered terminal)
 router.post('/login', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { cin, password } = req.body;
+    const { cin, password, terminalId, terminalKey } = req.body;
     
     if (!cin || typeof cin !== 'string' || cin.length !== 8) {
       res.status(400).json({
@@ -43,11 +46,24 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    let terminal: any = null;
+    if (terminalId || terminalKey) {
+      terminal = await terminalService.authenticateTerminal({ terminalId, terminalKey });
+      if (!terminal) {
+        res.status(401).json({
+          success: false,
+          message: 'Unknown or deactivated terminal',
+          code: 'INVALID_TERMINAL'
+        });
+        return;
+      }
+    }
+
     const authService = initializeServices();
 
     console.log(`🔐 Processing login request for CIN: ${cin}`);
 
-    const result = await authService.login(cin, password);
+    const result = await authService.login(cin, password, terminal?.id);
 
     if (!result.success) {
       res.status(400).json({
@@ -62,7 +78,8 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
       success: true,
       message: result.message,
       token: result.token,
-      staff: result.staff
+      staff: result.staff,
+      permissions: permissionService.getPermissions(result.staff?.role)
     });
   } catch (error) {
     console.error('❌ Login error:', error);
@@ -74,6 +91,123 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+// Staff who can switch in with a PIN on this terminal
+router.post('/terminal/staff', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const terminal = await terminalService.authenticateTerminal(req.body || {});
+    if (!terminal) {
+      res.status(401).json({
+        success: false,
+        message: 'Unknown or deactivated terminal',
+        code: 'INVALID_TERMINAL'
+      });
+      return;
+    }
+
+    const authService = initializeServices();
+    const staff = await authService.getPinStaff();
+
+    res.json({ success: true, terminal: { id: terminal.id, name: terminal.name }, staff });
+  } catch (error) {
+    console.error('❌ Terminal staff list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+});
+
+// Quick-switch login with a PIN on a registered terminal (short-lived token)
+router.post('/pin-login', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { terminalId, terminalKey, staffId, pin } = req.body || {};
+
+    if (!staffId || typeof pin !== 'string') {
+      res.status(400).json({
+        success: false,
+        message: 'staffId and pin are required',
+        code: 'MISSING_CREDENTIALS'
+      });
+      return;
+    }
+
+    const terminal = await terminalService.authenticateTerminal({ terminalId, terminalKey });
+    if (!terminal) {
+      res.status(401).json({
+        success: false,
+        message: 'Unknown or deactivated terminal',
+        code: 'INVALID_TERMINAL'
+      });
+      return;
+    }
+
+    const authService = initializeServices();
+    const result = await authService.loginWithPin(terminal.id, String(staffId), pin);
+
+    if (!result.success) {
+      res.status(result.locked ? 423 : 401).json({
+        success: false,
+        message: result.message,
+        code: result.locked ? 'PIN_LOCKED' : 'PIN_LOGIN_FAILED'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: result.message,
+      token: result.token,
+      staff: result.staff,
+      permissions: permissionService.getPermissions(result.staff?.role)
+    });
+  } catch (error) {
+    console.error('❌ PIN login error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+});
+
+// Set or replace the logged-in staff member's quick-switch PIN
+router.post('/pin', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { password, pin } = req.body || {};
+
+    if (!password || typeof pin !== 'string') {
+      res.status(400).json({
+        success: false,
+        message: 'Password and pin are required',
+        code: 'MISSING_FIELDS'
+      });
+      return;
+    }
+
+    const authService = initializeServices();
+    const result = await authService.setPin(req.staff.id, password, pin);
+
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        message: result.message,
+        code: 'PIN_CHANGE_FAILED'
+      });
+      return;
+    }
+
+    res.json({ success: true, message: result.message });
+  } catch (error) {
+    console.error('❌ Set PIN error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+});
+
 // Change password
 router.post('/change-password', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -179,6 +313,7 @@ router.get('/verify-token', async (req: Request, res: Response): Promise<void> =
       success: true,
       message: 'Token is valid',
       staff: result.staff,
+      permissions: permissionService.getPermissions(result.staff?.role),
       source: result.source
     });
   } catch (error) {
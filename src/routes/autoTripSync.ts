@@ -1,22 +1,25 @@
 import { Router } from 'express';
 import { AutoTripSyncController } from '../controllers/autoTripSyncController';
 import { AutoTripSyncService } from '../services/autoTripSyncService';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 export const createAutoTripSyncRouter = (autoSyncService: AutoTripSyncService): Router => {
   const router = Router();
   const controller = new AutoTripSyncController(autoSyncService);
 
+  router.use(authenticate);
+
   // Get sync status
   router.get('/status', controller.getStatus.bind(controller));
 
   // Force sync now
-  router.post('/sync-now', controller.forceSyncNow.bind(controller));
+  router.post('/sync-now', requirePermission('sync:manage'), controller.forceSyncNow.bind(controller));
 
   // Start auto sync service
-  router.post('/start', controller.start.bind(controller));
+  router.post('/start', requirePermission('sync:manage'), controller.start.bind(controller));
 
   // Stop auto sync service
-  router.post('/stop', controller.stop.bind(controller));
+  router.post('/stop', requirePermission('sync:manage'), controller.stop.bind(controller));
 
   return router;
 };
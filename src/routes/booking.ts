@@ -1,9 +1,13 @@
 import { Router, Request, Response } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
+// All routes require authentication
+router.use(authenticate);
+
 // Create new booking
-router.post('/', async (req: Request, res: Response): Promise<void> => {
+router.post('/', requirePermission('booking:create'), async (req: Request, res: Response): Promise<void> => {
   try {
     const { customerInfo, destination, seats, vehicleId } = req.body;
     
@@ -40,7 +44,7 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
 });
 
 // Get booking by ID
-router.get('/:bookingId', async (req: Request, res: Response): Promise<void> => {
+router.get('/:bookingId', requirePermission('booking:view'), async (req: Request, res: Response): Promise<void> => {
   try {
     const { bookingId } = req.params;
     
@@ -68,7 +72,7 @@ router.get('/:bookingId', async (req: Request, res: Response): Promise<void> =>
 });
 
 // Verify ticket
-router.post('/verify', async (req: Request, res: Response): Promise<void> => {
+router.post('/verify', requirePermission('booking:verify'), async (req: Request, res: Response): Promise<void> => {
   try {
     const { code, method } = req.body; // code can be QR or verification code
     
@@ -104,7 +108,7 @@ router.post('/verify', async (req: Request, res: Response): Promise<void> => {
 });
 
 // Cancel booking
-router.delete('/:bookingId', async (req: Request, res: Response): Promise<void> => {
+router.delete('/:bookingId', requirePermission('booking:cancel'), async (req: Request, res: Response): Promise<void> => {
   try {
     const { bookingId } = req.params;
     
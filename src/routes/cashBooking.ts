@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { createSimpleCashBookingController } from '../controllers/simpleCashBookingController';
-import { authenticate, requireStaff } from '../middleware/auth';
+import { authenticate, requireStaff, requirePermission } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
 import { WebSocketService } from '../websocket/webSocketService';
 
 // Create a function that returns the router with the controller
@@ -25,7 +26,7 @@ export default function createCashBookingRouter(webSocketService?: WebSocketServ
 
   /**
    * @route GET /api/cash-booking/destinations/:destinationId/seats
-   * @desc Get available seats for a specific destination
+   * @desc Get available seats for a specific destination, with the seat map of each vehicle
    * @access Private (Staff only)
    * @param {string} destinationId - The destination station ID
    */
@@ -34,18 +35,20 @@ export default function createCashBookingRouter(webSocketService?: WebSocketServ
   /**
    * @route POST /api/cash-booking/book
    * @desc Create a new cash booking (simplified - no customer info)
-   * @access Private (Staff only)
-   * @body { destinationId: string, seatsRequested: number }
+   * @access Private (booking:create permission)
+   * @body { destinationId: string, seatsRequested: number } or, to choose seats on the seat map,
+   *       { destinationId: string, queueId: string, seatNumbers: number[] }
+   * @header Idempotency-Key (optional) - retries with the same key return the original tickets
    */
-  router.post('/book', cashBookingController.createCashBooking.bind(cashBookingController));
+  router.post('/book', requirePermission('booking:create'), idempotent('cash-booking/book'), cashBookingController.createCashBooking.bind(cashBookingController));
 
   /**
    * @route POST /api/cash-booking/verify
    * @desc Verify cash ticket by ticket ID
-   * @access Private (Staff only)
+   * @access Private (booking:verify permission)
    * @body { ticketId: string }
    */
-  router.post('/verify', cashBookingController.verifyCashTicket.bind(cashBookingController));
+  router.post('/verify', requirePermission('booking:verify'), cashBookingController.verifyCashTicket.bind(cashBookingController));
 
   /**
    * @route GET /api/cash-booking/stats
@@ -0,0 +1,106 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { concurrencyManager } from '../services/concurrencyManager';
+import { auditService } from '../services/auditService';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @route GET /api/concurrency/locks
+ * @desc List held resource locks (a lock past its expiresAt is stuck)
+ * @access Private (concurrency:view permission)
+ */
+router.get('/locks', requirePermission('concurrency:view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const now = new Date();
+    const locks = await concurrencyManager.getResourceLocks();
+
+    res.json({
+      success: true,
+      data: locks.map(lock => ({ ...lock, isExpired: lock.expiresAt < now })),
+      count: locks.length
+    });
+  } catch (error) {
+    console.error('❌ Error listing resource locks:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route DELETE /api/concurrency/locks/:resourceId
+ * @desc Force-release a stuck lock
+ * @access Private (concurrency:manage permission)
+ */
+router.delete('/locks/:resourceId', requirePermission('concurrency:manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const resourceId = String(req.params.resourceId);
+    const lock = await concurrencyManager.forceReleaseLock(resourceId);
+
+    if (!lock) {
+      res.status(404).json({ success: false, message: 'No lock held on this resource' });
+      return;
+    }
+
+    await auditService.record({
+      action: 'RESOURCE_LOCK_FORCE_RELEASED',
+      entityType: 'RESOURCE_LOCK',
+      entityId: resourceId,
+      before: lock,
+      after: null
+    }, auditService.contextFromRequest(req));
+
+    res.json({ success: true, message: 'Lock released', data: lock });
+  } catch (error) {
+    console.error('❌ Error force-releasing lock:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route GET /api/concurrency/operations
+ * @desc Recent concurrency operations (filters: status, type, resourceId, limit)
+ * @access Private (concurrency:view permission)
+ */
+router.get('/operations', requirePermission('concurrency:view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status, type, resourceId, limit } = req.query as { status?: string; type?: string; resourceId?: string; limit?: string };
+
+    const operations = await concurrencyManager.listOperations({
+      status,
+      type,
+      resourceId,
+      limit: limit ? parseInt(limit, 10) || 50 : 50
+    });
+
+    res.json({ success: true, data: operations, count: operations.length });
+  } catch (error) {
+    console.error('❌ Error listing concurrency operations:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route GET /api/concurrency/operations/:operationId
+ * @desc Status and result of an operation, also after a restart
+ * @access Private (Staff only)
+ */
+router.get('/operations/:operationId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const operation = await concurrencyManager.getOperation(String(req.params.operationId));
+
+    if (!operation) {
+      res.status(404).json({ success: false, message: 'Operation not found' });
+      return;
+    }
+
+    res.json({ success: true, data: operation });
+  } catch (error) {
+    console.error('❌ Error getting concurrency operation:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
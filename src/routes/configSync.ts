@@ -3,6 +3,7 @@ import axios from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
@@ -37,7 +38,7 @@ interface LocalConfigFile {
 /**
  * @route POST /api/config/sync
  * @desc Sync station configuration from central server using CIN
- * @access Hidden endpoint (no auth required for initial setup)
+ * @access Public, only until the station is configured (no staff can sign in before that)
  */
 router.post('/sync', async (req: Request, res: Response) => {
   try {
@@ -179,9 +180,9 @@ router.post('/sync', async (req: Request, res: Response) => {
 /**
  * @route GET /api/config/status
  * @desc Get current configuration status
- * @access Hidden endpoint
+ * @access Private (station:config:update permission)
  */
-router.get('/status', (req: Request, res: Response) => {
+router.get('/status', authenticate, requirePermission('station:config:update'), (req: Request, res: Response) => {
   try {
     const configService = require('../config/supervisorConfig').configService;
     
@@ -224,9 +225,9 @@ router.get('/status', (req: Request, res: Response) => {
 /**
  * @route POST /api/config/reload
  * @desc Reload configuration from file
- * @access Hidden endpoint
+ * @access Private (station:config:update permission)
  */
-router.post('/reload', (req: Request, res: Response) => {
+router.post('/reload', authenticate, requirePermission('station:config:update'), (req: Request, res: Response) => {
   try {
     const configService = require('../config/supervisorConfig').configService;
     
@@ -7,7 +7,7 @@ import {
   getActivityLog,
   getSupervisorDashboard
 } from '../controllers/dashboardController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 const router = express.Router();
 
@@ -30,7 +30,7 @@ router.get('/bookings', getDashboardBookings);
 router.get('/activity', getActivityLog);
 
 // Supervisor dashboard
-router.get('/supervisor', getSupervisorDashboard);
+router.get('/supervisor', requirePermission('report:view'), getSupervisorDashboard);
 
 export default router;
 
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { dayPassController } from '../controllers/dayPassController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
 
 const router = Router();
 
@@ -10,9 +11,10 @@ router.use(authenticate);
 /**
  * @route POST /api/day-pass/purchase
  * @desc Purchase a day pass for a driver/vehicle
- * @access Private (Staff only)
+ * @access Private (daypass:sell permission)
+ * @header Idempotency-Key (optional) - retries with the same key return the original day pass
  */
-router.post('/purchase', dayPassController.purchaseDayPass.bind(dayPassController));
+router.post('/purchase', requirePermission('daypass:sell'), idempotent('day-pass/purchase'), dayPassController.purchaseDayPass.bind(dayPassController));
 
 /**
  * @route GET /api/day-pass/validate/:driverId
@@ -42,6 +44,27 @@ router.get('/status-by-license/:licensePlate', dayPassController.getDayPassStatu
  */
 router.get('/price', dayPassController.getDayPassPrice.bind(dayPassController));
 
+/**
+ * @route GET /api/day-pass/products
+ * @desc List pass products (day, weekly, monthly...)
+ * @access Private (Staff only)
+ */
+router.get('/products', dayPassController.getProducts.bind(dayPassController));
+
+/**
+ * @route POST /api/day-pass/products
+ * @desc Create a pass product
+ * @access Private (daypass:product:manage permission)
+ */
+router.post('/products', requirePermission('daypass:product:manage'), dayPassController.createProduct.bind(dayPassController));
+
+/**
+ * @route PUT /api/day-pass/products/:productId
+ * @desc Update a pass product's name, price, duration or availability
+ * @access Private (daypass:product:manage permission)
+ */
+router.put('/products/:productId', requirePermission('daypass:product:manage'), dayPassController.updateProduct.bind(dayPassController));
+
 /**
  * @route GET /api/day-pass/today
  * @desc Get all day passes for today
@@ -59,9 +82,9 @@ router.get('/stats', dayPassController.getDayPassStats.bind(dayPassController));
 /**
  * @route POST /api/day-pass/expire-all
  * @desc Manually expire all day passes
- * @access Private (Supervisor only)
+ * @access Private (daypass:expire permission)
  */
-router.post('/expire-all', dayPassController.expireAllDayPasses.bind(dayPassController));
+router.post('/expire-all', requirePermission('daypass:expire'), dayPassController.expireAllDayPasses.bind(dayPassController));
 
 /**
  * @route GET /api/day-pass/drivers-without-pass
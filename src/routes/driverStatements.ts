@@ -0,0 +1,178 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { prisma } from '../config/database';
+import { driverStatementService, parseStatementPeriod } from '../services/driverStatementService';
+import { formatDay } from '../utils/reporting';
+import { auditService } from '../services/auditService';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @route GET /api/driver-statements
+ * @desc Statement totals for every vehicle with activity in the period
+ * @access Private (statement:view permission)
+ * @query from? (YYYY-MM-DD, default today), to? (YYYY-MM-DD, inclusive, default from)
+ */
+router.get('/', requirePermission('statement:view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { from, to } = req.query as { from?: string; to?: string };
+    const period = parseStatementPeriod(from, to);
+    if (!period) {
+      res.status(400).json({ success: false, message: 'from and to must be YYYY-MM-DD days, in order, at most a year apart' });
+      return;
+    }
+
+    const statements = await driverStatementService.buildStatements(period);
+    const settled = await driverStatementService.listSettled({ from: period.start, to: period.end, limit: 1000 });
+    const settledPlates = new Set(settled.map(s => s.licensePlate));
+
+    res.json({
+      success: true,
+      data: statements.map(({ lines, ...statement }) => ({
+        ...statement,
+        hasSettledStatement: settledPlates.has(statement.vehicle.licensePlate)
+      })),
+      count: statements.length
+    });
+  } catch (error) {
+    console.error('❌ Error building driver statements:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route GET /api/driver-statements/settled
+ * @desc Settled statements, most recent period first
+ * @access Private (statement:view permission)
+ * @query licensePlate?, from?, to?, limit?
+ */
+router.get('/settled', requirePermission('statement:view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { licensePlate, from, to, limit } = req.query as { licensePlate?: string; from?: string; to?: string; limit?: string };
+    const period = from ? parseStatementPeriod(from, to) : null;
+    if (from && !period) {
+      res.status(400).json({ success: false, message: 'from and to must be YYYY-MM-DD days, in order, at most a year apart' });
+      return;
+    }
+
+    const statements = await driverStatementService.listSettled({
+      licensePlate,
+      from: period?.start,
+      to: period?.end,
+      limit: Math.min(parseInt(limit || '100', 10) || 100, 1000)
+    });
+
+    res.json({ success: true, data: statements, count: statements.length });
+  } catch (error) {
+    console.error('❌ Error listing settled driver statements:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route GET /api/driver-statements/:licensePlate
+ * @desc Ledger of one vehicle's driver for the period (the locked copy once settled)
+ * @access Private (statement:view permission)
+ * @query from?, to?, format? ('json' | 'csv' | 'html')
+ */
+router.get('/:licensePlate', requirePermission('statement:view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const licensePlate = String(req.params.licensePlate);
+    const { from, to, format } = req.query as { from?: string; to?: string; format?: string };
+    const period = parseStatementPeriod(from, to);
+    if (!period) {
+      res.status(400).json({ success: false, message: 'from and to must be YYYY-MM-DD days, in order, at most a year apart' });
+      return;
+    }
+
+    const statement = await driverStatementService.getStatement(licensePlate, period);
+    if (!statement) {
+      res.status(404).json({ success: false, message: `Vehicle ${licensePlate} not found` });
+      return;
+    }
+
+    const fileName = `statement_${licensePlate.replace(/[^A-Za-z0-9_-]/g, '_')}_${formatDay(period.start)}`;
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.csv"`);
+      res.send(driverStatementService.toCsv(statement));
+      return;
+    }
+
+    if (format === 'html') {
+      const stationConfig = await prisma.stationConfig.findFirst({ select: { stationName: true } });
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.send(driverStatementService.toHtml(statement, stationConfig?.stationName || 'Station'));
+      return;
+    }
+
+    res.json({ success: true, data: statement });
+  } catch (error) {
+    console.error('❌ Error building driver statement:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route POST /api/driver-statements/:licensePlate/settle
+ * @desc Settle the driver's statement for the period and lock its ledger
+ * @access Private (statement:settle permission)
+ * @body { from: 'YYYY-MM-DD', to?: 'YYYY-MM-DD', notes?: string }
+ */
+router.post('/:licensePlate/settle', requirePermission('statement:settle'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const licensePlate = String(req.params.licensePlate);
+    const { from, to, notes } = (req.body || {}) as { from?: string; to?: string; notes?: string };
+    const period = from ? parseStatementPeriod(from, to) : null;
+    if (!period) {
+      res.status(400).json({ success: false, message: 'from (and optional to) must be YYYY-MM-DD days, in order, at most a year apart' });
+      return;
+    }
+    if (period.end > new Date()) {
+      res.status(400).json({ success: false, message: 'Only periods that have ended can be settled' });
+      return;
+    }
+
+    let statement;
+    try {
+      statement = await driverStatementService.settle(licensePlate, period, req.staff!.id, notes);
+    } catch (error: any) {
+      if (error?.code === 'P2034' || (error instanceof Error && error.message.startsWith('Period overlaps'))) {
+        res.status(409).json({ success: false, message: error.code === 'P2034' ? 'Statement is being settled by someone else, try again' : error.message });
+        return;
+      }
+      throw error;
+    }
+
+    if (!statement) {
+      res.status(404).json({ success: false, message: `Vehicle ${licensePlate} not found` });
+      return;
+    }
+
+    await auditService.record({
+      action: 'DRIVER_STATEMENT_SETTLED',
+      entityType: 'DRIVER_STATEMENT',
+      entityId: statement.id,
+      after: {
+        licensePlate,
+        driverCin: statement.driver?.cin ?? null,
+        periodStart: statement.periodStart,
+        periodEnd: statement.periodEnd,
+        grossFares: statement.totals.grossFares,
+        stationFees: statement.totals.stationFees,
+        netPayable: statement.totals.netPayable
+      }
+    }, auditService.contextFromRequest(req));
+
+    res.status(201).json({ success: true, message: 'Driver statement settled', data: statement });
+  } catch (error) {
+    console.error('❌ Error settling driver statement:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
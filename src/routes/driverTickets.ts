@@ -8,15 +8,16 @@ import {
   searchVehicleByCIN,
   getDriverIncomeForDate
 } from '../controllers/driverTicketController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
 
 const router = Router();
 
-// Generate entry ticket for driver
-router.post('/entry', authenticate, generateEntryTicket);
+// Generate entry ticket for driver (honours Idempotency-Key so a retried print does not charge twice)
+router.post('/entry', authenticate, requirePermission('driver-ticket:issue'), idempotent('driver-tickets/entry'), generateEntryTicket);
 
 // Generate exit ticket for driver
-router.post('/exit', authenticate, generateExitTicket);
+router.post('/exit', authenticate, requirePermission('driver-ticket:issue'), generateExitTicket);
 
 // Get all tickets for a specific vehicle
 router.get('/vehicle/:licensePlate', authenticate, getDriverTickets);
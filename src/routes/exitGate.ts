@@ -0,0 +1,55 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { exitGateService } from '../services/exitGateService';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @route GET /api/exit-gate/events
+ * @desc Exit gate log (filters: status=CLEARED|ALERT|ACKNOWLEDGED, licensePlate, date=YYYY-MM-DD, limit)
+ * @access Private (Staff only)
+ */
+router.get('/events', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status, licensePlate, date, limit } = req.query as { status?: string; licensePlate?: string; date?: string; limit?: string };
+
+    const events = await exitGateService.listEvents({
+      status,
+      licensePlate,
+      date,
+      limit: limit ? parseInt(limit, 10) || 50 : 50
+    });
+
+    res.json({ success: true, data: events, count: events.length });
+  } catch (error) {
+    console.error('❌ Error listing exit gate events:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route POST /api/exit-gate/events/:eventId/acknowledge
+ * @desc Acknowledge an exit gate alert
+ * @access Private (exit-gate:acknowledge permission)
+ * @body { notes?: string }
+ */
+router.post('/events/:eventId/acknowledge', requirePermission('exit-gate:acknowledge'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await exitGateService.acknowledge(String(req.params.eventId), req.staff.id, req.body?.notes);
+
+    if (!result.success) {
+      res.status(result.error === 'Exit gate event not found' ? 404 : 400).json({ success: false, message: result.error });
+      return;
+    }
+
+    res.json({ success: true, message: 'Exit gate alert acknowledged', data: result.event });
+  } catch (error) {
+    console.error('❌ Error acknowledging exit gate event:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
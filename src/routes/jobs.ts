@@ -0,0 +1,117 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { cronService } from '../services/cronService';
+import { auditService } from '../services/auditService';
+
+const router = Router();
+
+// All routes require authentication and job:manage
+router.use(authenticate, requirePermission('job:manage'));
+
+/**
+ * @route GET /api/jobs
+ * @desc Scheduled jobs with their schedule, next run and last run outcome
+ * @access Private (job:manage permission)
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const jobs = await cronService.getStatus();
+    res.json({ success: true, data: jobs, count: jobs.length });
+  } catch (error) {
+    console.error('❌ Error listing scheduled jobs:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route POST /api/jobs/:name/run
+ * @desc Run a job now (also works while it is paused) and wait for its outcome
+ * @access Private (job:manage permission)
+ */
+router.post('/:name/run', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const name = String(req.params.name);
+    if (!cronService.hasJob(name)) {
+      res.status(404).json({ success: false, message: `Unknown job: ${name}` });
+      return;
+    }
+
+    const outcome = await cronService.runJob(name, 'MANUAL');
+
+    await auditService.record({
+      action: 'SCHEDULED_JOB_RUN',
+      entityType: 'SCHEDULED_JOB',
+      entityId: name,
+      after: { success: outcome.success, error: outcome.error ?? null }
+    }, auditService.contextFromRequest(req));
+
+    if (!outcome.success) {
+      const alreadyRunning = outcome.error?.includes('already running');
+      res.status(alreadyRunning ? 409 : 500).json({ success: false, message: outcome.error });
+      return;
+    }
+
+    res.json({ success: true, message: `Job ${name} completed`, data: outcome.result });
+  } catch (error) {
+    console.error('❌ Error running scheduled job:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route POST /api/jobs/:name/pause
+ * @desc Stop scheduling a job until it is resumed
+ * @access Private (job:manage permission)
+ */
+router.post('/:name/pause', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const name = String(req.params.name);
+    if (!(await cronService.pauseJob(name))) {
+      res.status(404).json({ success: false, message: `Unknown job: ${name}` });
+      return;
+    }
+
+    await auditService.record({
+      action: 'SCHEDULED_JOB_PAUSED',
+      entityType: 'SCHEDULED_JOB',
+      entityId: name,
+      before: { isPaused: false },
+      after: { isPaused: true }
+    }, auditService.contextFromRequest(req));
+
+    res.json({ success: true, message: `Job ${name} paused` });
+  } catch (error) {
+    console.error('❌ Error pausing scheduled job:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route POST /api/jobs/:name/resume
+ * @desc Schedule a paused job again
+ * @access Private (job:manage permission)
+ */
+router.post('/:name/resume', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const name = String(req.params.name);
+    if (!(await cronService.resumeJob(name))) {
+      res.status(404).json({ success: false, message: `Unknown job: ${name}` });
+      return;
+    }
+
+    await auditService.record({
+      action: 'SCHEDULED_JOB_RESUMED',
+      entityType: 'SCHEDULED_JOB',
+      entityId: name,
+      before: { isPaused: true },
+      after: { isPaused: false }
+    }, auditService.contextFromRequest(req));
+
+    res.json({ success: true, message: `Job ${name} resumed` });
+  } catch (error) {
+    console.error('❌ Error resuming scheduled job:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,12 +1,13 @@
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
 import { localBookingController, calculateETD } from '../controllers/localBooking';
+import { authenticate, requireCentralServer, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
 /**
  * @route POST /api/bookings/create
  * @desc Create a new booking at the local station
- * @access Internal (Called by Central Server)
+ * @access Private (Central Server, signed as described in middleware/auth.ts; booking:create permission)
  * @body {
  *   userId: string,
  *   userFullName: string,
@@ -23,16 +24,15 @@ const router = Router();
  *   }>
  * }
  */
-router.post('/create', localBookingController.createBooking.bind(localBookingController));
+router.post('/create', authenticate, requireCentralServer, requirePermission('booking:create'), localBookingController.createBooking.bind(localBookingController));
 
 /**
  * @route GET /api/bookings/verify/:verificationCode
  * @desc Verify and complete a booking (mark as used/completed)
- * @access Staff (when passenger shows ticket at station)
+ * @access Private (booking:verify permission, when passenger shows ticket at station)
  * @param {string} verificationCode - The verification code
- * @body {staffId?: string} - Optional staff member ID who verified the ticket
  */
-router.post('/verify/:verificationCode', localBookingController.verifyBooking.bind(localBookingController));
+router.post('/verify/:verificationCode', authenticate, requirePermission('booking:verify'), localBookingController.verifyBooking.bind(localBookingController));
 
 /**
  * @route GET /api/bookings/check/:verificationCode
@@ -45,14 +45,14 @@ router.get('/check/:verificationCode', localBookingController.checkBooking.bind(
 /**
  * @route GET /api/bookings/station/summary
  * @desc Get booking summary for the station
- * @access Internal
+ * @access Private (booking:view permission)
  */
-router.get('/station/summary', localBookingController.getStationBookingSummary.bind(localBookingController));
+router.get('/station/summary', authenticate, requirePermission('booking:view'), localBookingController.getStationBookingSummary.bind(localBookingController));
 
 /**
  * @route POST /api/bookings/confirm-payment
  * @desc Confirm payment and update booking status
- * @access Internal (Called by Central Server after payment webhook)
+ * @access Private (Central Server after payment webhook, signed as described in middleware/auth.ts; booking:create permission)
  * @body {
  *   verificationCode: string,
  *   paymentReference: string,
@@ -62,18 +62,18 @@ router.get('/station/summary', localBookingController.getStationBookingSummary.b
  *   updateData?: any
  * }
  */
-router.post('/confirm-payment', localBookingController.confirmPayment.bind(localBookingController));
+router.post('/confirm-payment', authenticate, requireCentralServer, requirePermission('booking:create'), localBookingController.confirmPayment.bind(localBookingController));
 
 /**
  * @route GET /api/bookings/eta/:destinationId
  * @desc Test route to calculate Estimated Time of Arrival for a destination
- * @access Public (for testing purposes)
+ * @access Private (booking:view permission, for testing purposes)
  * @param {string} destinationId - The destination station ID
  * @returns {object} ETA calculation result with queue information
  */
-router.get('/eta/:destinationId', async (req, res) => {
+router.get('/eta/:destinationId', authenticate, requirePermission('booking:view'), async (req: Request, res: Response) => {
   try {
-    const { destinationId } = req.params;
+    const destinationId = String(req.params.destinationId);
 
     if (!destinationId) {
       res.status(400).json({
@@ -167,7 +167,7 @@ router.get('/eta/:destinationId', async (req, res) => {
  * Health check for local booking service
  * GET /api/bookings/health
  */
-router.get('/health', (_req, res) => {
+router.get('/health', (_req: Request, res: Response) => {
   res.json({
     success: true,
     message: 'Local Booking service is healthy',
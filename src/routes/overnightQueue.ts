@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { createOvernightQueueController } from '../controllers/overnightQueueController';
-import { authenticate, requireSupervisor } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 import { WebSocketService } from '../websocket/webSocketService';
 
 // Create a function that returns the router with the controller
@@ -14,7 +14,7 @@ export default function createOvernightQueueRouter(webSocketService?: WebSocketS
 
   // Apply authentication and supervisor authorization to all routes
   router.use(authenticate);
-  router.use(requireSupervisor);
+  router.use(requirePermission('queue:overnight'));
 
   /**
    * @route POST /api/overnight-queue/add
@@ -0,0 +1,111 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { WebSocketService } from '../websocket/webSocketService';
+import { createQueueService } from '../services/queueService';
+import { plateDetectionService } from '../services/plateDetectionService';
+
+// Create a function that returns the router with the queue service
+export default function createPlateDetectionRouter(webSocketService?: WebSocketService) {
+  const router = Router();
+
+  const queueService = createQueueService(webSocketService || new WebSocketService());
+
+  // All routes require authentication
+  router.use(authenticate);
+
+  /**
+   * @route GET /api/plate-detections
+   * @desc List plate reads (default: those waiting for confirmation; filters: status, limit)
+   * @access Private (Staff only)
+   */
+  router.get('/', async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { status, limit } = req.query as { status?: string; limit?: string };
+
+      const detections = await plateDetectionService.list({
+        status,
+        limit: limit ? parseInt(limit, 10) || 50 : 50
+      });
+
+      res.json({ success: true, data: detections, count: detections.length });
+    } catch (error) {
+      console.error('❌ Error listing plate detections:', error);
+      res.status(500).json({ success: false, message: 'Internal server error' });
+    }
+  });
+
+  /**
+   * @route GET /api/plate-detections/:detectionId
+   * @desc Get a plate read, including the camera image
+   * @access Private (Staff only)
+   */
+  router.get('/:detectionId', async (req: Request, res: Response): Promise<void> => {
+    try {
+      const detection = await plateDetectionService.getDetection(String(req.params.detectionId));
+
+      if (!detection) {
+        res.status(404).json({ success: false, message: 'Plate detection not found' });
+        return;
+      }
+
+      res.json({ success: true, data: detection });
+    } catch (error) {
+      console.error('❌ Error getting plate detection:', error);
+      res.status(500).json({ success: false, message: 'Internal server error' });
+    }
+  });
+
+  /**
+   * @route POST /api/plate-detections/:detectionId/confirm
+   * @desc Accept a plate read, optionally correcting the plate, and enter the vehicle into its queue
+   * @access Private (plate:review permission)
+   * @body { licensePlate?: string }
+   */
+  router.post('/:detectionId/confirm', requirePermission('plate:review'), async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await plateDetectionService.confirm(
+        String(req.params.detectionId),
+        req.staff.id,
+        queueService,
+        req.body?.licensePlate
+      );
+
+      if (!result.success) {
+        res.status(result.error === 'Plate detection not found' ? 404 : 400).json({ success: false, message: result.error });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `Vehicle ${result.detection.confirmedPlate} entered queue`,
+        data: { detection: result.detection, queueEntry: result.queueEntry }
+      });
+    } catch (error) {
+      console.error('❌ Error confirming plate detection:', error);
+      res.status(500).json({ success: false, message: 'Internal server error' });
+    }
+  });
+
+  /**
+   * @route POST /api/plate-detections/:detectionId/reject
+   * @desc Dismiss a plate read
+   * @access Private (plate:review permission)
+   */
+  router.post('/:detectionId/reject', requirePermission('plate:review'), async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await plateDetectionService.reject(String(req.params.detectionId), req.staff.id);
+
+      if (!result.success) {
+        res.status(result.error === 'Plate detection not found' ? 404 : 400).json({ success: false, message: result.error });
+        return;
+      }
+
+      res.json({ success: true, message: 'Plate detection rejected', data: result.detection });
+    } catch (error) {
+      console.error('❌ Error rejecting plate detection:', error);
+      res.status(500).json({ success: false, message: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
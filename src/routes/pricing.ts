@@ -0,0 +1,133 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { pricingService } from '../services/pricingService';
+import { auditService } from '../services/auditService';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @route GET /api/pricing/quote
+ * @desc Price a booking and explain how the total was computed
+ * @access Private (Staff only)
+ * @query destinationId, seats (default 1), at (ISO date, default now)
+ */
+router.get('/quote', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { destinationId, seats, at } = req.query as { destinationId?: string; seats?: string; at?: string };
+    const seatCount = seats ? parseInt(seats, 10) : 1;
+    const quotedAt = at ? new Date(at) : new Date();
+
+    if (!destinationId) {
+      res.status(400).json({ success: false, message: 'destinationId is required' });
+      return;
+    }
+
+    if (!Number.isInteger(seatCount) || seatCount < 1) {
+      res.status(400).json({ success: false, message: 'seats must be a positive integer' });
+      return;
+    }
+
+    if (isNaN(quotedAt.getTime())) {
+      res.status(400).json({ success: false, message: 'Invalid at date' });
+      return;
+    }
+
+    const quote = await pricingService.quote(destinationId, seatCount, { at: quotedAt });
+
+    res.json({ success: true, data: quote });
+  } catch (error) {
+    console.error('❌ Error computing price quote:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route GET /api/pricing/rules
+ * @desc List pricing rules (filters: destinationId, includeInactive=true)
+ * @access Private (Staff only)
+ */
+router.get('/rules', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { destinationId, includeInactive } = req.query as { destinationId?: string; includeInactive?: string };
+
+    const rules = await pricingService.listRules({
+      destinationId,
+      includeInactive: includeInactive === 'true'
+    });
+
+    res.json({ success: true, data: rules, count: rules.length });
+  } catch (error) {
+    console.error('❌ Error listing price rules:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route POST /api/pricing/rules
+ * @desc Create a pricing rule for a destination
+ * @access Private (pricing:rule:manage permission)
+ * @body { destinationId, name, ruleType: PEAK|DAY_OF_WEEK|HOLIDAY|NIGHT, daysOfWeek?, startTime?, endTime?,
+ *         startDate?, endDate?, adjustmentType: FIXED|AMOUNT|PERCENT, adjustmentValue, priority?, isActive? }
+ */
+router.post('/rules', requirePermission('pricing:rule:manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await pricingService.createRule(req.body || {}, auditService.contextFromRequest(req));
+
+    if (!result.success) {
+      res.status(400).json({ success: false, message: result.error });
+      return;
+    }
+
+    res.status(201).json({ success: true, message: 'Price rule created', data: result.rule });
+  } catch (error) {
+    console.error('❌ Error creating price rule:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route PUT /api/pricing/rules/:ruleId
+ * @desc Update a pricing rule (same fields as creation, destination excepted)
+ * @access Private (pricing:rule:manage permission)
+ */
+router.put('/rules/:ruleId', requirePermission('pricing:rule:manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await pricingService.updateRule(String(req.params.ruleId), req.body || {}, auditService.contextFromRequest(req));
+
+    if (!result.success) {
+      res.status(result.error === 'Price rule not found' ? 404 : 400).json({ success: false, message: result.error });
+      return;
+    }
+
+    res.json({ success: true, message: 'Price rule updated', data: result.rule });
+  } catch (error) {
+    console.error('❌ Error updating price rule:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route DELETE /api/pricing/rules/:ruleId
+ * @desc Delete a pricing rule
+ * @access Private (pricing:rule:manage permission)
+ */
+router.delete('/rules/:ruleId', requirePermission('pricing:rule:manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await pricingService.deleteRule(String(req.params.ruleId), auditService.contextFromRequest(req));
+
+    if (!result.success) {
+      res.status(result.error === 'Price rule not found' ? 404 : 400).json({ success: false, message: result.error });
+      return;
+    }
+
+    res.json({ success: true, message: 'Price rule deleted' });
+  } catch (error) {
+    console.error('❌ Error deleting price rule:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,137 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { ticketPrintService, TICKET_TYPE_PATHS, PrintableTicketType } from '../services/ticketPrintService';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+const resolveTicketType = (req: Request, res: Response): PrintableTicketType | null => {
+  const ticketType = TICKET_TYPE_PATHS[String(req.params.ticketType)];
+  if (!ticketType) {
+    res.status(400).json({
+      success: false,
+      message: `Unknown ticket type. Use one of: ${Object.keys(TICKET_TYPE_PATHS).join(', ')}`
+    });
+    return null;
+  }
+  return ticketType;
+};
+
+/**
+ * @route GET /api/print/:ticketType/:ticketId/preview
+ * @desc Plain-text preview of a ticket (booking, day-pass, entry, exit) as its next print would come out;
+ *       a ticket that was already printed shows as a duplicate
+ * @access Private (Staff only)
+ */
+router.get('/:ticketType/:ticketId/preview', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ticketType = resolveTicketType(req, res);
+    if (!ticketType) return;
+
+    const ticketId = String(req.params.ticketId);
+    const result = await ticketPrintService.preview(ticketType, ticketId);
+    if (!result) {
+      res.status(404).json({ success: false, message: 'Ticket not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ticketType,
+        ticketId,
+        preview: result.preview,
+        printCount: result.status?.printCount || 0,
+        reprintCount: result.status?.reprintCount || 0
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error rendering ticket preview:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route POST /api/print/:ticketType/:ticketId/escpos
+ * @desc Raw ESC/POS byte stream of a ticket, for clients that print locally. Counted as a print:
+ *       every download after the first is a numbered duplicate.
+ * @access Private (print:ticket permission)
+ * @body { reason?: string } - Reprint reason, recorded when the ticket was already printed
+ */
+router.post('/:ticketType/:ticketId/escpos', requirePermission('print:ticket'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ticketType = resolveTicketType(req, res);
+    if (!ticketType) return;
+
+    const reason: string | undefined = req.body?.reason;
+    const result = await ticketPrintService.print(ticketType, String(req.params.ticketId), req.staff.id, {
+      clientPrint: true,
+      ...(reason && { reason })
+    });
+    if (!result.success || !result.escpos) {
+      res.status(result.error === 'Ticket not found' ? 404 : 500).json({ success: false, message: result.error });
+      return;
+    }
+
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('Content-Disposition', `attachment; filename="${ticketType.toLowerCase()}_${result.ticketId}.bin"`);
+    res.setHeader('X-Reprint-Count', String(result.reprintCount || 0));
+    res.send(result.escpos);
+  } catch (error) {
+    console.error('❌ Error rendering ESC/POS ticket:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route POST /api/print/:ticketType/:ticketId/print
+ * @desc Print a ticket on the configured station printer
+ * @access Private (print:ticket permission)
+ */
+router.post('/:ticketType/:ticketId/print', requirePermission('print:ticket'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ticketType = resolveTicketType(req, res);
+    if (!ticketType) return;
+
+    const result = await ticketPrintService.print(ticketType, String(req.params.ticketId), req.staff.id);
+    if (!result.success) {
+      res.status(result.error === 'Ticket not found' ? 404 : 502).json({ success: false, message: result.error });
+      return;
+    }
+
+    res.json({ success: true, message: 'Ticket printed', data: result });
+  } catch (error) {
+    console.error('❌ Error printing ticket:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route POST /api/print/:ticketType/:ticketId/reprint
+ * @desc Reprint a ticket as a duplicate and increment its reprint counter
+ * @access Private (print:ticket permission)
+ */
+router.post('/:ticketType/:ticketId/reprint', requirePermission('print:ticket'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ticketType = resolveTicketType(req, res);
+    if (!ticketType) return;
+
+    const result = await ticketPrintService.print(ticketType, String(req.params.ticketId), req.staff.id, {
+      reprint: true,
+      reason: req.body?.reason
+    });
+    if (!result.success) {
+      res.status(result.error === 'Ticket not found' ? 404 : 502).json({ success: false, message: result.error });
+      return;
+    }
+
+    res.json({ success: true, message: 'Ticket reprinted', data: result });
+  } catch (error) {
+    console.error('❌ Error reprinting ticket:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
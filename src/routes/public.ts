@@ -36,6 +36,15 @@ router.get('/overnight', publicController.getAvailableOvernightDestinations.bind
 router.get('/overnight/:destinationId', publicController.getOvernightQueueForDestination.bind(publicController));
 
 
+/**
+ * @route GET /api/public/quote/:destinationId
+ * @desc Price seats to a destination with the station's pricing rules
+ * @access Public (Called by Central Server)
+ * @param {string} destinationId - The destination station ID
+ * @query {number} seats - Number of seats (default 1)
+ */
+router.get('/quote/:destinationId', publicController.getPriceQuote.bind(publicController));
+
 /**
  * @route GET /api/public/station/status
  * @desc Get station status and basic info
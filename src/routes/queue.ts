@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { createQueueController } from '../controllers/queue';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 import { WebSocketService } from '../websocket/webSocketService';
 
 // Create a function that returns the router with the controller
@@ -54,6 +54,37 @@ export default function createQueueRouter(webSocketService?: WebSocketService) {
    */
   router.get('/stats', queueController.getQueueStats.bind(queueController));
 
+  /**
+   * @route POST /api/queue/swap
+   * @desc Swap the positions of two vehicles in the same destination queue
+   * @access Private (queue:reorder permission)
+   * @body { firstQueueId: string, secondQueueId: string }
+   */
+  router.post('/swap', requirePermission('queue:reorder'), queueController.swapQueueEntries.bind(queueController));
+
+  /**
+   * @route PUT /api/queue/entries/:queueId/position
+   * @desc Move a vehicle to a given position in its destination queue
+   * @access Private (queue:reorder permission)
+   * @body { position: number }
+   */
+  router.put('/entries/:queueId/position', requirePermission('queue:reorder'), queueController.moveQueueEntry.bind(queueController));
+
+  /**
+   * @route POST /api/queue/entries/:queueId/hold
+   * @desc Hold a vehicle: it keeps its position but takes no bookings until released
+   * @access Private (queue:reorder permission)
+   * @body { reason?: string }
+   */
+  router.post('/entries/:queueId/hold', requirePermission('queue:reorder'), queueController.holdQueueEntry.bind(queueController));
+
+  /**
+   * @route POST /api/queue/entries/:queueId/release
+   * @desc Release a held vehicle
+   * @access Private (queue:reorder permission)
+   */
+  router.post('/entries/:queueId/release', requirePermission('queue:reorder'), queueController.releaseQueueEntry.bind(queueController));
+
   /**
    * @route GET /api/queue/:destinationId
    * @desc Get detailed queue for a specific destination
@@ -65,10 +96,10 @@ export default function createQueueRouter(webSocketService?: WebSocketService) {
   /**
    * @route PUT /api/queue/status
    * @desc Update vehicle status in queue
-   * @access Private (Authenticated staff)
+   * @access Private (queue:manage permission)
    * @body { licensePlate: string, status: 'WAITING' | 'LOADING' | 'READY' | 'DEPARTED' }
    */
-  router.put('/status', queueController.updateVehicleStatus.bind(queueController));
+  router.put('/status', requirePermission('queue:manage'), queueController.updateVehicleStatus.bind(queueController));
 
   /**
    * @route GET /api/queue/vehicle/:licensePlate/destinations
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { createQueueBookingController } from '../controllers/queueBookingController';
-import { authenticate, requireStaff } from '../middleware/auth';
+import { authenticate, requireStaff, requirePermission, requireCentralServer } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
 import { WebSocketService } from '../websocket/webSocketService';
 
 // Create a function that returns the router with the controller
@@ -42,10 +43,11 @@ export default function createQueueBookingRouter(webSocketService?: WebSocketSer
   /**
    * @route POST /api/queue-booking/book
    * @desc Create a new booking with intelligent seat allocation
-   * @access Private (Staff only)
+   * @access Private (booking:create permission)
    * @body { destinationId: string, seatsRequested: number, customerName: string, customerPhone?: string, paymentMethod?: string }
+   * @header Idempotency-Key (optional) - retries with the same key return the original booking
    */
-  router.post('/book', queueBookingController.createBooking.bind(queueBookingController));
+  router.post('/book', requirePermission('booking:create'), idempotent('queue-booking/book'), queueBookingController.createBooking.bind(queueBookingController));
 
   /**
    * @route GET /api/queue-booking/verify/:verificationCode
@@ -58,37 +60,37 @@ export default function createQueueBookingRouter(webSocketService?: WebSocketSer
   /**
    * @route POST /api/queue-booking/verify
    * @desc Verify and mark ticket as used
-   * @access Private (Staff only)
+   * @access Private (booking:verify permission)
    * @body { verificationCode: string }
    */
-  router.post('/verify', queueBookingController.verifyTicket.bind(queueBookingController));
+  router.post('/verify', requirePermission('booking:verify'), queueBookingController.verifyTicket.bind(queueBookingController));
 
   /**
    * @route DELETE /api/queue-booking/cancel/:bookingId
    * @route PUT /api/queue-booking/cancel/:bookingId
    * @desc Cancel booking completely or remove specific number of seats
-   * @access Private (Staff only)
+   * @access Private (booking:cancel permission)
    * @param {string} bookingId - The booking ID to cancel
    * @body { seatsToCancel?: number } - Optional number of seats to cancel (if not provided, cancels entire booking)
    */
-  router.delete('/cancel/:bookingId', queueBookingController.cancelBooking.bind(queueBookingController));
-  router.put('/cancel/:bookingId', queueBookingController.cancelBooking.bind(queueBookingController));
+  router.delete('/cancel/:bookingId', requirePermission('booking:cancel'), queueBookingController.cancelBooking.bind(queueBookingController));
+  router.put('/cancel/:bookingId', requirePermission('booking:cancel'), queueBookingController.cancelBooking.bind(queueBookingController));
 
   /**
    * @route POST /api/queue-booking/online
    * @desc Create online booking from central server
-   * @access Private (Central Server only)
+   * @access Private (Central Server, booking:create permission)
    * @body { destinationId: string, seatsRequested: number, customerPhone: string, onlineTicketId: string, vehicleAllocations: array }
    */
-  router.post('/online', queueBookingController.createOnlineBooking.bind(queueBookingController));
+  router.post('/online', requireCentralServer, requirePermission('booking:create'), queueBookingController.createOnlineBooking.bind(queueBookingController));
 
   /**
    * @route PUT /api/queue-booking/online/:onlineTicketId/payment
    * @desc Update online booking payment status
-   * @access Private (Central Server only)
+   * @access Private (Central Server, booking:create permission)
    * @body { paymentStatus: 'PAID' | 'FAILED' | 'CANCELLED' }
    */
-  router.put('/online/:onlineTicketId/payment', queueBookingController.updateOnlineBookingPaymentStatus.bind(queueBookingController));
+  router.put('/online/:onlineTicketId/payment', requireCentralServer, requirePermission('booking:create'), queueBookingController.updateOnlineBookingPaymentStatus.bind(queueBookingController));
 
   /**
    * @route GET /api/queue-booking/stats
@@ -0,0 +1,111 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { refundService } from '../services/refundService';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @route GET /api/refunds
+ * @desc List refunds (filters: status, staffId, date=YYYY-MM-DD, limit)
+ * @access Private (refund:approve permission)
+ */
+router.get('/', requirePermission('refund:approve'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status, staffId, date, limit } = req.query as { status?: string; staffId?: string; date?: string; limit?: string };
+
+    const refunds = await refundService.listRefunds({
+      status,
+      staffId,
+      date,
+      limit: limit ? parseInt(limit, 10) || 50 : 50
+    });
+
+    res.json({ success: true, data: refunds, count: refunds.length });
+  } catch (error) {
+    console.error('❌ Error listing refunds:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route GET /api/refunds/policy
+ * @desc Current refund policy (service fee refundable, approval threshold)
+ * @access Private (Staff only)
+ */
+router.get('/policy', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const policy = await refundService.getPolicy();
+    res.json({ success: true, data: policy });
+  } catch (error) {
+    console.error('❌ Error getting refund policy:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route GET /api/refunds/:refundId
+ * @desc Get a refund
+ * @access Private (Staff only)
+ */
+router.get('/:refundId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const refund = await refundService.getRefund(String(req.params.refundId));
+
+    if (!refund) {
+      res.status(404).json({ success: false, message: 'Refund not found' });
+      return;
+    }
+
+    res.json({ success: true, data: refund });
+  } catch (error) {
+    console.error('❌ Error getting refund:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route POST /api/refunds/:refundId/approve
+ * @desc Approve a refund above the approval threshold
+ * @access Private (refund:approve permission)
+ */
+router.post('/:refundId/approve', requirePermission('refund:approve'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await refundService.approveRefund(String(req.params.refundId), req.staff.id, req.body?.notes);
+
+    if (!result.success) {
+      res.status(400).json({ success: false, message: result.error });
+      return;
+    }
+
+    res.json({ success: true, message: 'Refund approved', data: result.refund });
+  } catch (error) {
+    console.error('❌ Error approving refund:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route POST /api/refunds/:refundId/reject
+ * @desc Reject a refund above the approval threshold (no cash is paid out)
+ * @access Private (refund:approve permission)
+ */
+router.post('/:refundId/reject', requirePermission('refund:approve'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await refundService.rejectRefund(String(req.params.refundId), req.staff.id, req.body?.notes);
+
+    if (!result.success) {
+      res.status(400).json({ success: false, message: result.error });
+      return;
+    }
+
+    res.json({ success: true, message: 'Refund rejected', data: result.refund });
+  } catch (error) {
+    console.error('❌ Error rejecting refund:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,167 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { reportService, ReportPeriod } from '../services/reportService';
+import { dailyLedgerService } from '../services/dailyLedgerService';
+
+const router = Router();
+
+// All routes require authentication and report:view
+router.use(authenticate, requirePermission('report:view'));
+
+const sendReport = async (req: Request, res: Response, period: ReportPeriod | null, invalidMessage: string): Promise<void> => {
+  try {
+    if (!period) {
+      res.status(400).json({ success: false, message: invalidMessage });
+      return;
+    }
+
+    const report = await reportService.buildReport(period);
+
+    if ((req.query as { format?: string }).format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="report_${report.period.type}_${report.period.from}_${report.period.to}.csv"`);
+      res.send(reportService.toCsv(report));
+      return;
+    }
+
+    res.json({ success: true, data: report });
+  } catch (error) {
+    console.error('❌ Error building financial report:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+};
+
+/**
+ * @route GET /api/reports/weekly
+ * @desc Financial report for a week (Monday to Sunday), compared with the week before
+ * @access Private (report:view permission)
+ * @query date? (YYYY-MM-DD, any day of the week, default today), format? ('json' | 'csv')
+ */
+router.get('/weekly', async (req: Request, res: Response): Promise<void> => {
+  const { date } = req.query as { date?: string };
+  await sendReport(req, res, reportService.weeklyPeriod(date), 'date must be YYYY-MM-DD');
+});
+
+/**
+ * @route GET /api/reports/monthly
+ * @desc Financial report for a calendar month, compared with the month before
+ * @access Private (report:view permission)
+ * @query month? (YYYY-MM, default this month), format? ('json' | 'csv')
+ */
+router.get('/monthly', async (req: Request, res: Response): Promise<void> => {
+  const { month } = req.query as { month?: string };
+  await sendReport(req, res, reportService.monthlyPeriod(month), 'month must be YYYY-MM');
+});
+
+/**
+ * @route GET /api/reports/range
+ * @desc Financial report for a range of days, compared with the same number of days before it
+ * @access Private (report:view permission)
+ * @query from (YYYY-MM-DD), to? (YYYY-MM-DD, inclusive, default from), format? ('json' | 'csv')
+ */
+router.get('/range', async (req: Request, res: Response): Promise<void> => {
+  const { from, to } = req.query as { from?: string; to?: string };
+  await sendReport(req, res, reportService.customPeriod(from, to), 'from and to must be YYYY-MM-DD days, in order, at most a year apart');
+});
+
+/**
+ * @route GET /api/reports/archive
+ * @desc Reports generated by the scheduled jobs (close of day, weekly summary), most recent first
+ * @access Private (report:view permission)
+ * @query type? ('CLOSE_OF_DAY' | 'WEEKLY_SUMMARY'), limit?
+ */
+router.get('/archive', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { type, limit } = req.query as { type?: string; limit?: string };
+    const reports = await reportService.listArchived({ type, limit: Math.min(parseInt(limit || '50', 10) || 50, 500) });
+
+    res.json({ success: true, data: reports, count: reports.length });
+  } catch (error) {
+    console.error('❌ Error listing archived reports:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route GET /api/reports/archive/:id
+ * @desc An archived report as it was generated
+ * @access Private (report:view permission)
+ * @query format? ('json' | 'csv')
+ */
+router.get('/archive/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const archived = await reportService.getArchived(String(req.params.id));
+    if (!archived) {
+      res.status(404).json({ success: false, message: 'Archived report not found' });
+      return;
+    }
+
+    if ((req.query as { format?: string }).format === 'csv') {
+      const { report } = archived;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="report_${report.period.type}_${report.period.from}_${report.period.to}.csv"`);
+      res.send(reportService.toCsv(report));
+      return;
+    }
+
+    res.json({ success: true, data: archived });
+  } catch (error) {
+    console.error('❌ Error fetching archived report:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route GET /api/reports/ledgers
+ * @desc Frozen daily ledgers (totals only, each checked against its content hash), most recent day first
+ * @access Private (report:view permission)
+ * @query from? (YYYY-MM-DD, default the last 30 days), to? (YYYY-MM-DD, inclusive, default from)
+ */
+router.get('/ledgers', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { from, to } = req.query as { from?: string; to?: string };
+    const today = reportService.dailyPeriod()!.start;
+    const lastMonth = new Date(today);
+    lastMonth.setDate(lastMonth.getDate() - 30);
+
+    const period = from ? reportService.customPeriod(from, to) : { start: lastMonth, end: today };
+    if (!period) {
+      res.status(400).json({ success: false, message: 'from and to must be YYYY-MM-DD days, in order, at most a year apart' });
+      return;
+    }
+
+    const ledgers = await dailyLedgerService.listLedgers(period.start, period.end);
+    res.json({ success: true, data: ledgers, count: ledgers.length });
+  } catch (error) {
+    console.error('❌ Error listing daily ledgers:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route GET /api/reports/ledgers/:date
+ * @desc Frozen ledger of a day with its full figures; hashValid is false if the stored figures were altered
+ * @access Private (report:view permission)
+ */
+router.get('/ledgers/:date', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const period = reportService.dailyPeriod(String(req.params.date));
+    if (!period) {
+      res.status(400).json({ success: false, message: 'date must be YYYY-MM-DD' });
+      return;
+    }
+
+    const ledger = await dailyLedgerService.getLedger(period.start);
+    if (!ledger) {
+      res.status(404).json({ success: false, message: 'No frozen ledger for this day' });
+      return;
+    }
+
+    res.json({ success: true, data: ledger });
+  } catch (error) {
+    console.error('❌ Error fetching daily ledger:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
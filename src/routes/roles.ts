@@ -0,0 +1,200 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { permissionService, PERMISSIONS, Permission } from '../services/permissionService';
+import { auditService } from '../services/auditService';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+const ROLE_NAME_PATTERN = /^[A-Z][A-Z0-9_]{1,31}$/;
+
+/**
+ * Validate a permission list from a request body; returns the unknown keys
+ */
+const unknownPermissions = (permissions: unknown): string[] | null => {
+  if (!Array.isArray(permissions) || permissions.some(p => typeof p !== 'string')) {
+    return null;
+  }
+  return permissions.filter(p => !permissionService.isPermission(p));
+};
+
+/**
+ * @route GET /api/roles/me
+ * @desc Role and permissions of the logged-in staff member (used by the apps to hide actions)
+ * @access Private
+ */
+router.get('/me', (req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    data: {
+      role: req.staff.role,
+      permissions: permissionService.getPermissions(req.staff.role)
+    }
+  });
+});
+
+/**
+ * @route GET /api/roles/permissions
+ * @desc Catalog of permission keys with descriptions
+ * @access Private (role:manage permission)
+ */
+router.get('/permissions', requirePermission('role:manage'), (req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    data: Object.entries(PERMISSIONS).map(([key, description]) => ({ key, description }))
+  });
+});
+
+/**
+ * @route GET /api/roles
+ * @desc List roles with their permissions and how many staff members hold them
+ * @access Private (role:manage permission)
+ */
+router.get('/', requirePermission('role:manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const roles = await permissionService.listRoles();
+    res.json({ success: true, data: roles, count: roles.length });
+  } catch (error) {
+    console.error('❌ Error listing roles:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route POST /api/roles
+ * @desc Create a custom role
+ * @access Private (role:manage permission)
+ * @body { name: string (e.g. CASHIER_NIGHT), permissions: string[], description?: string }
+ */
+router.post('/', requirePermission('role:manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, permissions, description } = req.body || {};
+
+    if (typeof name !== 'string' || !ROLE_NAME_PATTERN.test(name)) {
+      res.status(400).json({ success: false, message: 'Role name must be 2-32 upper-case letters, digits or underscores' });
+      return;
+    }
+
+    const unknown = unknownPermissions(permissions);
+    if (unknown === null) {
+      res.status(400).json({ success: false, message: 'permissions must be an array of permission keys' });
+      return;
+    }
+    if (unknown.length > 0) {
+      res.status(400).json({ success: false, message: `Unknown permission(s): ${unknown.join(', ')}` });
+      return;
+    }
+
+    if (await permissionService.getRole(name)) {
+      res.status(409).json({ success: false, message: 'A role with this name already exists' });
+      return;
+    }
+
+    const role = await permissionService.createRole(name, permissions as Permission[], description);
+
+    await auditService.record({
+      action: 'STAFF_ROLE_CREATED',
+      entityType: 'STAFF_ROLE',
+      entityId: name,
+      before: null,
+      after: role
+    }, auditService.contextFromRequest(req));
+
+    res.status(201).json({ success: true, message: 'Role created', data: role });
+  } catch (error) {
+    console.error('❌ Error creating role:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route PUT /api/roles/:name
+ * @desc Replace the permissions and/or description of a role (ADMIN always keeps every permission)
+ * @access Private (role:manage permission)
+ * @body { permissions?: string[], description?: string }
+ */
+router.put('/:name', requirePermission('role:manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const name = String(req.params.name);
+    const { permissions, description } = req.body || {};
+
+    const existing = await permissionService.getRole(name);
+    if (!existing) {
+      res.status(404).json({ success: false, message: 'Role not found' });
+      return;
+    }
+
+    if (permissions !== undefined) {
+      if (name === 'ADMIN') {
+        res.status(400).json({ success: false, message: 'ADMIN permissions cannot be changed' });
+        return;
+      }
+
+      const unknown = unknownPermissions(permissions);
+      if (unknown === null) {
+        res.status(400).json({ success: false, message: 'permissions must be an array of permission keys' });
+        return;
+      }
+      if (unknown.length > 0) {
+        res.status(400).json({ success: false, message: `Unknown permission(s): ${unknown.join(', ')}` });
+        return;
+      }
+    }
+
+    const role = await permissionService.updateRole(name, { permissions, description });
+
+    await auditService.record({
+      action: 'STAFF_ROLE_UPDATED',
+      entityType: 'STAFF_ROLE',
+      entityId: name,
+      before: existing,
+      after: role
+    }, auditService.contextFromRequest(req));
+
+    res.json({ success: true, message: 'Role updated', data: role });
+  } catch (error) {
+    console.error('❌ Error updating role:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route DELETE /api/roles/:name
+ * @desc Delete a custom role that no staff member holds
+ * @access Private (role:manage permission)
+ */
+router.delete('/:name', requirePermission('role:manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const name = String(req.params.name);
+    const existing = await permissionService.getRole(name);
+
+    if (!existing) {
+      res.status(404).json({ success: false, message: 'Role not found' });
+      return;
+    }
+
+    try {
+      await permissionService.deleteRole(name);
+    } catch (error) {
+      res.status(400).json({ success: false, message: error instanceof Error ? error.message : 'Cannot delete role' });
+      return;
+    }
+
+    await auditService.record({
+      action: 'STAFF_ROLE_DELETED',
+      entityType: 'STAFF_ROLE',
+      entityId: name,
+      before: existing,
+      after: null
+    }, auditService.contextFromRequest(req));
+
+    res.json({ success: true, message: 'Role deleted' });
+  } catch (error) {
+    console.error('❌ Error deleting role:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { routeController } from '../controllers/routeController';
-import { authenticate, requireSupervisor } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
@@ -20,7 +20,7 @@ router.get('/:id', routeController.getRouteById.bind(routeController));
  * PUT /api/routes/:id
  * Update route price (SUPERVISOR only)
  */
-router.put('/:id', authenticate, requireSupervisor, routeController.updateRoutePrice.bind(routeController));
+router.put('/:id', authenticate, requirePermission('route:price:update'), routeController.updateRoutePrice.bind(routeController));
 
 /**
  * GET /api/routes/station/:stationId
@@ -0,0 +1,133 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { sessionService } from '../services/sessionService';
+import { auditService } from '../services/auditService';
+
+const router = Router();
+
+// All routes require authentication and session:manage
+router.use(authenticate, requirePermission('session:manage'));
+
+/**
+ * @route GET /api/sessions
+ * @desc Staff sessions with their terminal, most recently used first
+ * @access Private (session:manage permission)
+ * @query staffId?, terminalId?, includeInactive? (true to include revoked, expired and idle sessions), limit?
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { staffId, terminalId, includeInactive, limit } = req.query as {
+      staffId?: string; terminalId?: string; includeInactive?: string; limit?: string;
+    };
+
+    const sessions = await sessionService.listSessions({
+      staffId,
+      terminalId,
+      includeInactive: includeInactive === 'true',
+      limit: limit ? Math.min(parseInt(limit, 10) || 200, 1000) : undefined
+    });
+
+    res.json({ success: true, data: sessions, count: sessions.length });
+  } catch (error) {
+    console.error('❌ Error listing sessions:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route GET /api/sessions/settings
+ * @desc Session settings (idle timeout)
+ * @access Private (session:manage permission)
+ */
+router.get('/settings', (req: Request, res: Response): void => {
+  res.json({ success: true, data: { idleTimeoutMinutes: sessionService.getIdleTimeoutMinutes() } });
+});
+
+/**
+ * @route PUT /api/sessions/settings
+ * @desc Change the idle timeout; sessions unused for longer are closed on their next request
+ * @access Private (session:manage permission)
+ * @body { idleTimeoutMinutes: number (5 - 1440) }
+ */
+router.put('/settings', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const idleTimeoutMinutes = Number(req.body?.idleTimeoutMinutes);
+    if (!Number.isInteger(idleTimeoutMinutes) || idleTimeoutMinutes < 5 || idleTimeoutMinutes > 1440) {
+      res.status(400).json({ success: false, message: 'idleTimeoutMinutes must be a whole number between 5 and 1440' });
+      return;
+    }
+
+    const before = sessionService.getIdleTimeoutMinutes();
+    await sessionService.setIdleTimeoutMinutes(idleTimeoutMinutes);
+
+    await auditService.record({
+      action: 'SESSION_IDLE_TIMEOUT_UPDATED',
+      entityType: 'STATION_CONFIG',
+      before: { sessionIdleTimeoutMinutes: before },
+      after: { sessionIdleTimeoutMinutes: idleTimeoutMinutes }
+    }, auditService.contextFromRequest(req));
+
+    res.json({ success: true, message: 'Session settings updated', data: { idleTimeoutMinutes } });
+  } catch (error) {
+    console.error('❌ Error updating session settings:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route DELETE /api/sessions/staff/:staffId
+ * @desc Log a staff member out everywhere
+ * @access Private (session:manage permission)
+ */
+router.delete('/staff/:staffId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const staffId = String(req.params.staffId);
+    const revokedCount = await sessionService.revokeStaffSessions(staffId, 'Logged out by a supervisor');
+
+    if (revokedCount > 0) {
+      await auditService.record({
+        action: 'STAFF_SESSIONS_REVOKED',
+        entityType: 'STAFF',
+        entityId: staffId,
+        after: { revokedCount }
+      }, auditService.contextFromRequest(req));
+    }
+
+    res.json({ success: true, message: `${revokedCount} session(s) revoked`, data: { revokedCount } });
+  } catch (error) {
+    console.error('❌ Error revoking staff sessions:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route DELETE /api/sessions/:sessionId
+ * @desc Revoke a single session
+ * @access Private (session:manage permission)
+ */
+router.delete('/:sessionId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const sessionId = String(req.params.sessionId);
+    const session = await sessionService.revokeSession(sessionId, 'Session revoked by a supervisor');
+
+    if (!session) {
+      res.status(404).json({ success: false, message: 'No active session with this ID' });
+      return;
+    }
+
+    await auditService.record({
+      action: 'SESSION_REVOKED',
+      entityType: 'SESSION',
+      entityId: sessionId,
+      before: { staffId: session.staffId, terminalId: session.terminalId, isActive: true },
+      after: { isActive: false }
+    }, auditService.contextFromRequest(req));
+
+    res.json({ success: true, message: 'Session revoked' });
+  } catch (error) {
+    console.error('❌ Error revoking session:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,155 @@
+import { Router } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { shiftService } from '../services/shiftService';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(authenticate);
+
+/**
+ * Open a shift for the logged-in staff member
+ * POST /api/staff/shifts/open
+ * Body: { openingFloat, notes? }
+ * Access: Any authenticated staff
+ */
+router.post('/open', async (req, res) => {
+  try {
+    const { openingFloat, notes } = req.body;
+
+    const result = await shiftService.openShift(req.staff.id, Number(openingFloat || 0), notes);
+
+    if (!result.success) {
+      res.status(400).json({ success: false, message: result.error, data: result.shift });
+      return;
+    }
+
+    res.status(201).json({ success: true, message: 'Shift opened', data: result.shift });
+  } catch (error: any) {
+    console.error('Error opening shift:', error);
+    res.status(500).json({ success: false, message: 'Failed to open shift', error: error?.message || 'Unknown error' });
+  }
+});
+
+/**
+ * Get the logged-in staff member's open shift with running totals
+ * GET /api/staff/shifts/current
+ * Access: Any authenticated staff
+ */
+router.get('/current', async (req, res) => {
+  try {
+    const result = await shiftService.getCurrentShift(req.staff.id);
+
+    if (!result.success) {
+      res.status(404).json({ success: false, message: result.error });
+      return;
+    }
+
+    res.json({ success: true, data: { shift: result.shift, totals: result.totals } });
+  } catch (error: any) {
+    console.error('Error fetching current shift:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch current shift', error: error?.message || 'Unknown error' });
+  }
+});
+
+/**
+ * List shifts
+ * GET /api/staff/shifts?staffId=&status=&date=YYYY-MM-DD&limit=
+ * Access: shift:approve permission
+ */
+router.get('/', requirePermission('shift:approve'), async (req, res) => {
+  try {
+    const { staffId, status, date, limit } = req.query as { staffId?: string; status?: string; date?: string; limit?: string };
+
+    const shifts = await shiftService.listShifts({
+      staffId,
+      status,
+      date,
+      limit: limit ? parseInt(limit, 10) || 50 : 50
+    });
+
+    res.json({ success: true, data: shifts, count: shifts.length });
+  } catch (error: any) {
+    console.error('Error listing shifts:', error);
+    res.status(500).json({ success: false, message: 'Failed to list shifts', error: error?.message || 'Unknown error' });
+  }
+});
+
+/**
+ * Get a shift with its totals
+ * GET /api/staff/shifts/:shiftId
+ * Access: Shift owner, SUPERVISOR, ADMIN
+ */
+router.get('/:shiftId', async (req, res) => {
+  try {
+    const result = await shiftService.getShift(String(req.params.shiftId));
+
+    if (!result.success) {
+      res.status(404).json({ success: false, message: result.error });
+      return;
+    }
+
+    if (result.shift.staffId !== req.staff.id && !['SUPERVISOR', 'ADMIN'].includes(req.staff.role)) {
+      res.status(403).json({ success: false, message: 'Insufficient permissions' });
+      return;
+    }
+
+    res.json({ success: true, data: { shift: result.shift, totals: result.totals } });
+  } catch (error: any) {
+    console.error('Error fetching shift:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch shift', error: error?.message || 'Unknown error' });
+  }
+});
+
+/**
+ * Close a shift with the declared cash count
+ * POST /api/staff/shifts/:shiftId/close
+ * Body: { declaredCash, notes? }
+ * Access: Shift owner, SUPERVISOR, ADMIN
+ */
+router.post('/:shiftId/close', async (req, res) => {
+  try {
+    const { declaredCash, notes } = req.body;
+
+    if (declaredCash === undefined || declaredCash === null || declaredCash === '') {
+      res.status(400).json({ success: false, message: 'declaredCash is required' });
+      return;
+    }
+
+    const result = await shiftService.closeShift(String(req.params.shiftId), req.staff, Number(declaredCash), notes);
+
+    if (!result.success) {
+      res.status(400).json({ success: false, message: result.error });
+      return;
+    }
+
+    res.json({ success: true, message: 'Shift closed', data: { shift: result.shift, totals: result.totals } });
+  } catch (error: any) {
+    console.error('Error closing shift:', error);
+    res.status(500).json({ success: false, message: 'Failed to close shift', error: error?.message || 'Unknown error' });
+  }
+});
+
+/**
+ * Supervisor sign-off on a closed shift
+ * POST /api/staff/shifts/:shiftId/approve
+ * Body: { notes? }
+ * Access: shift:approve permission
+ */
+router.post('/:shiftId/approve', requirePermission('shift:approve'), async (req, res) => {
+  try {
+    const result = await shiftService.approveShift(String(req.params.shiftId), req.staff.id, req.body?.notes);
+
+    if (!result.success) {
+      res.status(400).json({ success: false, message: result.error });
+      return;
+    }
+
+    res.json({ success: true, message: 'Shift approved', data: result.shift });
+  } catch (error: any) {
+    console.error('Error approving shift:', error);
+    res.status(500).json({ success: false, message: 'Failed to approve shift', error: error?.message || 'Unknown error' });
+  }
+});
+
+export default router;
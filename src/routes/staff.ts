@@ -1,11 +1,14 @@
 import { Router } from 'express';
 import bcrypt from 'bcrypt';
-import { authenticate, requireSupervisor, requireCentralConnection } from '../middleware/auth';
+import { authenticate, requirePermission, requireCentralConnection } from '../middleware/auth';
 import { EnhancedLocalWebSocketServer } from '../websocket/LocalWebSocketServer';
 import prisma from '../config/database';
 import { randomUUID } from 'crypto';
 import axios from 'axios';
 import env from '../config/environment';
+import { auditService } from '../services/auditService';
+import { permissionService } from '../services/permissionService';
+import { sessionService } from '../services/sessionService';
 
 const router = Router();
 
@@ -29,9 +32,9 @@ const broadcastStaffUpdate = (action: string, staffData: any) => {
 /**
  * Get all staff members for the station
  * GET /api/staff
- * Access: SUPERVISOR, ADMIN
+ * Access: staff:view permission
  */
-router.get('/', requireSupervisor, async (req, res) => {
+router.get('/', requirePermission('staff:view'), async (req, res) => {
   try {
     const { role, status } = req.query as { role?: string; status?: string };
 
@@ -62,9 +65,9 @@ router.get('/', requireSupervisor, async (req, res) => {
 /**
  * Get staff member by ID
  * GET /api/staff/:id
- * Access: SUPERVISOR, ADMIN
+ * Access: staff:view permission
  */
-router.get('/:id', requireSupervisor, async (req, res) => {
+router.get('/:id', requirePermission('staff:view'), async (req, res) => {
   try {
     const { id } = req.params;
     const staff = await prisma.staff.findUnique({ where: { id } });
@@ -94,9 +97,9 @@ router.get('/:id', requireSupervisor, async (req, res) => {
 /**
  * Create new worker (staff member)
  * POST /api/staff
- * Access: SUPERVISOR, ADMIN
+ * Access: staff:manage permission
  */
-router.post('/', requireSupervisor, requireCentralConnection, async (req, res) => {
+router.post('/', requirePermission('staff:manage'), requireCentralConnection, async (req, res) => {
   try {
     const { firstName, lastName, phoneNumber, cin } = req.body as {
       firstName?: string;
@@ -195,9 +198,9 @@ router.post('/', requireSupervisor, requireCentralConnection, async (req, res) =
 /**
  * Update staff member
  * PUT /api/staff/:id
- * Access: SUPERVISOR, ADMIN
+ * Access: staff:manage permission
  */
-router.put('/:id', requireSupervisor, async (req, res) => {
+router.put('/:id', requirePermission('staff:manage'), async (req, res) => {
   try {
     const { id } = req.params;
     const { firstName, lastName, phoneNumber, role, isActive } = req.body as {
@@ -214,6 +217,25 @@ router.put('/:id', requireSupervisor, async (req, res) => {
       return;
     }
 
+    if (role !== undefined && role !== existing.role) {
+      if (!permissionService.isKnownRole(role) || role === 'CENTRAL_SERVER') {
+        res.status(400).json({ success: false, message: `Unknown role: ${role}` });
+        return;
+      }
+
+      // Nobody hands out permissions they do not hold themselves
+      const actorPermissions = permissionService.getPermissions(req.staff.role);
+      const escalated = permissionService.getPermissions(role).filter(p => !actorPermissions.includes(p));
+      if (escalated.length > 0) {
+        res.status(403).json({
+          success: false,
+          message: `Cannot assign role ${role}: it grants permissions you do not have (${escalated.join(', ')})`,
+          code: 'INSUFFICIENT_PERMISSIONS'
+        });
+        return;
+      }
+    }
+
     const updated = await prisma.staff.update({
       where: { id },
       data: {
@@ -228,6 +250,14 @@ router.put('/:id', requireSupervisor, async (req, res) => {
 
     broadcastStaffUpdate('updated', updated);
 
+    await auditService.record({
+      action: 'STAFF_UPDATED',
+      entityType: 'STAFF',
+      entityId: String(id),
+      before: existing,
+      after: updated,
+    }, auditService.contextFromRequest(req));
+
     res.json({
       success: true,
       data: updated,
@@ -246,9 +276,9 @@ router.put('/:id', requireSupervisor, async (req, res) => {
 /**
  * Toggle staff member status (freeze/unfreeze)
  * PATCH /api/staff/:id/toggle-status
- * Access: SUPERVISOR, ADMIN
+ * Access: staff:manage permission
  */
-router.patch('/:id/toggle-status', requireSupervisor, async (req, res) => {
+router.patch('/:id/toggle-status', requirePermission('staff:manage'), async (req, res) => {
   try {
     const { id } = req.params;
 
@@ -263,8 +293,20 @@ router.patch('/:id/toggle-status', requireSupervisor, async (req, res) => {
       data: { isActive: !existing.isActive, syncedAt: new Date() },
     });
 
+    if (!updated.isActive) {
+      await sessionService.revokeStaffSessions(updated.id, 'Staff account deactivated');
+    }
+
     broadcastStaffUpdate('status_toggled', updated);
 
+    await auditService.record({
+      action: 'STAFF_STATUS_TOGGLED',
+      entityType: 'STAFF',
+      entityId: String(id),
+      before: { isActive: existing.isActive },
+      after: { isActive: updated.isActive },
+    }, auditService.contextFromRequest(req));
+
     res.json({
       success: true,
       data: updated,
@@ -283,9 +325,9 @@ router.patch('/:id/toggle-status', requireSupervisor, async (req, res) => {
 /**
  * Delete staff member
  * DELETE /api/staff/:id
- * Access: SUPERVISOR, ADMIN
+ * Access: staff:manage permission
  */
-router.delete('/:id', requireSupervisor, async (req, res) => {
+router.delete('/:id', requirePermission('staff:manage'), async (req, res) => {
   try {
     const { id } = req.params;
 
@@ -328,7 +370,7 @@ export default router;
  * GET /api/staff/report/daily?date=YYYY-MM-DD
  * Returns daily report for all staff who have activity (bookings or day passes)
  */
-router.get('/report/daily', requireSupervisor, async (req, res) => {
+router.get('/report/daily', requirePermission('report:view'), async (req, res) => {
   try {
     const { date } = req.query as { date?: string };
     const target = date ? new Date(`${date}T00:00:00`) : new Date();
@@ -341,13 +383,28 @@ router.get('/report/daily', requireSupervisor, async (req, res) => {
 
     // Fetch bookings grouped by staff (need seats to compute service fee)
     const bookings = await prisma.booking.findMany({
-      where: { createdAt: { gte: startOfDay, lt: endOfDay }, createdBy: { not: null } },
+      where: { createdAt: { gte: startOfDay, lt: endOfDay }, createdBy: { not: null }, paymentStatus: { not: 'CANCELLED' } },
       select: {
         createdBy: true,
         seatsBooked: true,
       }
     });
 
+    // Service fees kept on seats sold that day and cancelled afterwards
+    const retainedFees = await prisma.refund.findMany({
+      where: {
+        booking: { createdAt: { gte: startOfDay, lt: endOfDay }, createdBy: { not: null } },
+        OR: [{ serviceFeeRefunded: false }, { status: 'REJECTED' }]
+      },
+      select: { serviceFeeAmount: true, booking: { select: { createdBy: true } } }
+    });
+
+    // Refunds paid out by each staff member that day
+    const refunds = await prisma.refund.findMany({
+      where: { createdAt: { gte: startOfDay, lt: endOfDay }, status: 'COMPLETED' },
+      select: { refundedBy: true, amount: true }
+    });
+
     // Fetch day passes grouped by staff
     const dayPasses = await prisma.dayPass.findMany({
       where: { purchaseDate: { gte: startOfDay, lt: endOfDay } },
@@ -358,6 +415,8 @@ router.get('/report/daily', requireSupervisor, async (req, res) => {
     const activeStaffIds = new Set<string>();
     bookings.forEach(b => { if (b.createdBy) activeStaffIds.add(b.createdBy); });
     dayPasses.forEach(dp => { if (dp.createdBy) activeStaffIds.add(dp.createdBy); });
+    retainedFees.forEach(r => { if (r.booking.createdBy) activeStaffIds.add(r.booking.createdBy); });
+    refunds.forEach(r => activeStaffIds.add(r.refundedBy));
 
     if (activeStaffIds.size === 0) {
       res.json({ success: true, data: { date: `${startOfDay.getFullYear()}-${String(startOfDay.getMonth()+1).padStart(2,'0')}-${String(startOfDay.getDate()).padStart(2,'0')}`, staff: [] } });
@@ -371,9 +430,9 @@ router.get('/report/daily', requireSupervisor, async (req, res) => {
     const staffMap = new Map(staffList.map(s => [s.id, s]));
 
     // Aggregate (service fees only for bookings)
-    const staffAgg = new Map<string, { serviceFees: number; dayPass: number; income: number }>();
+    const staffAgg = new Map<string, { serviceFees: number; dayPass: number; income: number; refunds: number }>();
     const ensure = (id: string) => {
-      if (!staffAgg.has(id)) staffAgg.set(id, { serviceFees: 0, dayPass: 0, income: 0 });
+      if (!staffAgg.has(id)) staffAgg.set(id, { serviceFees: 0, dayPass: 0, income: 0, refunds: 0 });
       return staffAgg.get(id)!;
     };
 
@@ -386,6 +445,13 @@ router.get('/report/daily', requireSupervisor, async (req, res) => {
       agg.income += feeAmt;
     });
 
+    retainedFees.forEach(r => {
+      if (!r.booking.createdBy) return;
+      const agg = ensure(r.booking.createdBy);
+      agg.serviceFees += r.serviceFeeAmount;
+      agg.income += r.serviceFeeAmount;
+    });
+
     dayPasses.forEach(dp => {
       if (!dp.createdBy) return;
       const agg = ensure(dp.createdBy);
@@ -394,11 +460,15 @@ router.get('/report/daily', requireSupervisor, async (req, res) => {
       agg.income += amt;
     });
 
+    refunds.forEach(r => {
+      ensure(r.refundedBy).refunds += r.amount;
+    });
+
     const result = Array.from(staffAgg.entries()).map(([id, agg]) => {
       const s = staffMap.get(id)!;
       return {
         staff: { id: s.id, cin: s.cin, firstName: s.firstName, lastName: s.lastName, role: s.role },
-        totals: { serviceFees: agg.serviceFees, dayPass: agg.dayPass, income: agg.income, serviceFeeRate: serviceFee },
+        totals: { serviceFees: agg.serviceFees, dayPass: agg.dayPass, income: agg.income, refunds: agg.refunds, serviceFeeRate: serviceFee },
       };
     });
 
@@ -411,9 +481,9 @@ router.get('/report/daily', requireSupervisor, async (req, res) => {
 /**
  * Get staff transactions and totals (for a specific day)
  * GET /api/staff/:id/transactions?date=YYYY-MM-DD
- * Access: SUPERVISOR, ADMIN
+ * Access: report:view permission
  */
-router.get('/:id/transactions', requireSupervisor, async (req, res) => {
+router.get('/:id/transactions', requirePermission('report:view'), async (req, res) => {
   try {
     const { id } = req.params;
     const { date } = req.query as { date?: string };
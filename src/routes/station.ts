@@ -1,16 +1,20 @@
 import { Router } from 'express';
 import { getStationConfig, updateStationConfig } from '../controllers/stationController';
 import { TunisiaDataService } from '../utils/tunisiaData';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
+// All routes require authentication
+router.use(authenticate);
+
 // Get station configuration
 router.get('/config', getStationConfig);
 
 // Update station configuration
-router.put('/config', updateStationConfig);
+router.put('/config', requirePermission('station:config:update'), updateStationConfig);
 
-// Get all governorates (public endpoint)
+// Get all governorates
 router.get('/governorates', (req, res) => {
   try {
     const tunisiaData = TunisiaDataService.getInstance();
@@ -29,7 +33,7 @@ router.get('/governorates', (req, res) => {
   }
 });
 
-// Get delegations by governorate (public endpoint)
+// Get delegations by governorate
 router.get('/delegations/:governorate', (req, res) => {
   try {
     const { governorate } = req.params;
@@ -57,7 +61,7 @@ router.get('/delegations/:governorate', (req, res) => {
   }
 });
 
-// Get all governorates with their delegations (public endpoint)
+// Get all governorates with their delegations
 router.get('/locations', (req, res) => {
   try {
     const tunisiaData = TunisiaDataService.getInstance();
@@ -1,139 +1,196 @@
 import { Router, Request, Response } from 'express';
+import { SyncService } from '../services/syncService';
+import { authenticate, requirePermission } from '../middleware/auth';
 
-const router = Router();
-
-// Get sync status
-router.get('/status', async (req: Request, res: Response): Promise<void> => {
-  try {
-    // TODO: Get actual sync status from SyncService
-    res.json({
-      success: true,
-      data: {
-        lastSync: new Date(Date.now() - 5 * 60 * 1000).toISOString(),
-        status: 'connected',
-        pendingChanges: 3,
-        centralServerUrl: process.env.CENTRAL_SERVER_URL || 'ws://localhost:8080',
-        nextSyncIn: 60 // seconds
+export const createSyncRouter = (syncService: SyncService): Router => {
+  const router = Router();
+
+  // All routes require authentication; triggering or configuring sync needs sync:manage
+  router.use(authenticate);
+
+  // Get sync status
+  router.get('/status', async (req: Request, res: Response): Promise<void> => {
+    try {
+      const status = await syncService.getStatus();
+
+      res.json({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      console.error('❌ Error getting sync status:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  });
+
+  // Force manual sync
+  router.post('/force', requirePermission('sync:manage'), async (req: Request, res: Response): Promise<void> => {
+    try {
+      const startedAt = new Date();
+      const result = await syncService.syncNow('manual');
+
+      res.status(result.success ? 200 : 502).json({
+        success: result.success,
+        message: result.success ? 'Manual sync completed' : (result.error || 'Manual sync failed'),
+        data: {
+          syncId: `sync_${startedAt.getTime()}`,
+          startedAt: startedAt.toISOString(),
+          changes: result.changes,
+          failed: result.failed || 0
+        }
+      });
+    } catch (error) {
+      console.error('❌ Error forcing sync:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  });
+
+  // Pull central staff, route and vehicle changes since the last cursors (reset pulls everything again)
+  router.post('/pull', requirePermission('sync:manage'), async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { reset } = (req.body || {}) as { reset?: boolean };
+      const result = await syncService.pullChanges('manual', { reset: reset === true });
+
+      res.status(result.success ? 200 : 502).json({
+        success: result.success,
+        message: result.success ? 'Delta pull completed' : (result.error || `Delta pull finished with ${result.failed} skipped change(s)`),
+        data: {
+          downloaded: result.downloaded,
+          failed: result.failed,
+          entities: result.entities
+        }
+      });
+    } catch (error) {
+      console.error('❌ Error pulling central changes:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  });
+
+  // Get delta pull cursors per entity type
+  router.get('/cursors', async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.json({
+        success: true,
+        data: await syncService.getPullCursors()
+      });
+    } catch (error) {
+      console.error('❌ Error fetching sync cursors:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  });
+
+  // Get sync history
+  router.get('/history', async (req: Request, res: Response): Promise<void> => {
+    try {
+      const limit = parseInt(String(req.query.limit || '10'), 10) || 10;
+
+      res.json({
+        success: true,
+        data: syncService.getHistory(limit)
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  });
+
+  // Configure sync settings
+  router.put('/config', requirePermission('sync:manage'), async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { interval, enabled, centralServerUrl } = req.body;
+
+      if (interval !== undefined) {
+        const intervalSeconds = Number(interval);
+        if (!Number.isFinite(intervalSeconds) || intervalSeconds < 5) {
+          res.status(400).json({
+            success: false,
+            message: 'Interval must be a number of seconds (minimum 5)'
+          });
+          return;
+        }
+        syncService.setSyncInterval(intervalSeconds * 1000);
       }
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      message: 'Internal server error'
-    });
-  }
-});
-
-// Force manual sync
-router.post('/force', async (req: Request, res: Response): Promise<void> => {
-  try {
-    // TODO: Trigger manual sync via SyncService
-    res.json({
-      success: true,
-      message: 'Manual sync initiated',
-      data: {
-        syncId: `sync_${Date.now()}`,
-        startedAt: new Date().toISOString()
+
+      if (typeof enabled === 'boolean') {
+        syncService.setEnabled(enabled);
       }
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      message: 'Internal server error'
-    });
-  }
-});
-
-// Get sync history
-router.get('/history', async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { limit = 10 } = req.query;
-    
-    // TODO: Fetch sync history from database
-    res.json({
-      success: true,
-      data: [
-        {
-          id: 'sync_001',
-          timestamp: new Date(Date.now() - 5 * 60 * 1000).toISOString(),
-          type: 'automatic',
-          status: 'success',
-          duration: 1.2,
-          changesUploaded: 2,
-          changesDownloaded: 1
-        },
-        {
-          id: 'sync_002',
-          timestamp: new Date(Date.now() - 35 * 60 * 1000).toISOString(),
-          type: 'automatic',
-          status: 'success',
-          duration: 0.8,
-          changesUploaded: 0,
-          changesDownloaded: 3
-        }
-      ]
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      message: 'Internal server error'
-    });
-  }
-});
-
-// Configure sync settings
-router.put('/config', async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { interval, enabled, centralServerUrl } = req.body;
-    
-    // TODO: Update sync configuration
-    res.json({
-      success: true,
-      message: 'Sync configuration updated',
-      data: {
-        interval: interval || 30,
-        enabled: enabled !== false,
-        centralServerUrl: centralServerUrl || process.env.CENTRAL_SERVER_URL,
-        updatedAt: new Date().toISOString()
+
+      if (centralServerUrl) {
+        syncService.setCentralServerUrl(centralServerUrl);
       }
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      message: 'Internal server error'
-    });
-  }
-});
-
-// Get pending changes
-router.get('/pending', async (req: Request, res: Response): Promise<void> => {
-  try {
-    // TODO: Get pending changes from database
-    res.json({
-      success: true,
-      data: [
-        {
-          id: 'change_1',
-          type: 'booking',
-          action: 'create',
-          recordId: 'BK123456',
-          timestamp: new Date(Date.now() - 2 * 60 * 1000).toISOString()
-        },
-        {
-          id: 'change_2',
-          type: 'vehicle',
-          action: 'update',
-          recordId: 'vehicle_1',
-          timestamp: new Date(Date.now() - 1 * 60 * 1000).toISOString()
+
+      const status = await syncService.getStatus();
+
+      res.json({
+        success: true,
+        message: 'Sync configuration updated',
+        data: {
+          interval: status.intervalSeconds,
+          enabled: status.enabled,
+          centralServerUrl: status.centralServerUrl,
+          updatedAt: new Date().toISOString()
         }
-      ]
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      message: 'Internal server error'
-    });
-  }
-});
-
-export default router; 
\ No newline at end of file
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  });
+
+  // Get pending changes
+  router.get('/pending', async (req: Request, res: Response): Promise<void> => {
+    try {
+      const limit = parseInt(String(req.query.limit || '100'), 10) || 100;
+      const changes = await syncService.getPendingChanges(limit);
+
+      res.json({
+        success: true,
+        data: changes,
+        count: changes.length
+      });
+    } catch (error) {
+      console.error('❌ Error getting pending changes:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  });
+
+  // Reset failed changes so the worker retries them
+  router.post('/retry-failed', requirePermission('sync:manage'), async (req: Request, res: Response): Promise<void> => {
+    try {
+      const count = await syncService.retryFailedChanges();
+
+      res.json({
+        success: true,
+        message: `${count} failed change(s) queued for retry`,
+        data: { count }
+      });
+    } catch (error) {
+      console.error('❌ Error retrying failed changes:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  });
+
+  return router;
+};
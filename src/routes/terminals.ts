@@ -0,0 +1,91 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { terminalService } from '../services/terminalService';
+import { auditService } from '../services/auditService';
+
+const router = Router();
+
+// All routes require authentication and terminal:manage
+router.use(authenticate, requirePermission('terminal:manage'));
+
+/**
+ * @route GET /api/terminals
+ * @desc List registered terminals with the staff member currently signed in on each
+ * @access Private (terminal:manage permission)
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const terminals = await terminalService.listTerminals();
+    res.json({ success: true, data: terminals, count: terminals.length });
+  } catch (error) {
+    console.error('❌ Error listing terminals:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route POST /api/terminals
+ * @desc Register a terminal for PIN quick-switch; the device key is returned only once
+ * @access Private (terminal:manage permission)
+ * @body { name: string }
+ */
+router.post('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+    if (!name) {
+      res.status(400).json({ success: false, message: 'Terminal name is required' });
+      return;
+    }
+
+    const { terminal, deviceKey } = await terminalService.registerTerminal(name, req.staff?.id || null);
+
+    await auditService.record({
+      action: 'TERMINAL_REGISTERED',
+      entityType: 'TERMINAL',
+      entityId: terminal.id,
+      before: null,
+      after: terminal
+    }, auditService.contextFromRequest(req));
+
+    res.status(201).json({
+      success: true,
+      message: 'Terminal registered. Store the device key on the terminal; it cannot be shown again.',
+      data: { terminal, deviceKey }
+    });
+  } catch (error) {
+    console.error('❌ Error registering terminal:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @route DELETE /api/terminals/:terminalId
+ * @desc Deactivate a terminal and end the sessions opened on it
+ * @access Private (terminal:manage permission)
+ */
+router.delete('/:terminalId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const terminalId = String(req.params.terminalId);
+    const terminal = await terminalService.deactivateTerminal(terminalId);
+
+    if (!terminal) {
+      res.status(404).json({ success: false, message: 'Terminal not found' });
+      return;
+    }
+
+    await auditService.record({
+      action: 'TERMINAL_DEACTIVATED',
+      entityType: 'TERMINAL',
+      entityId: terminalId,
+      before: { isActive: true },
+      after: { isActive: false }
+    }, auditService.contextFromRequest(req));
+
+    res.json({ success: true, message: 'Terminal deactivated', data: terminal });
+  } catch (error) {
+    console.error('❌ Error deactivating terminal:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
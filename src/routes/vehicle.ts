@@ -3,16 +3,23 @@ import { vehicleSyncService } from '../services/vehicleSyncService';
 import { env } from '../config/environment';
 import { configService } from '../config/supervisorConfig';
 import prisma from '../config/database';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { auditService } from '../services/auditService';
+import { driverStatementService, parseStatementPeriod } from '../services/driverStatementService';
+import { formatDay } from '../utils/reporting';
 
 const router = Router();
 
+// All routes require authentication; changes to vehicles need vehicle:manage
+router.use(authenticate);
+
 // ================== PROXY ENDPOINTS TO CENTRAL SERVER ==================
 
 /**
  * POST /api/vehicles/request
  * Forward driver account request to central server, sync local DB on success
  */
-router.post('/request', async (req: Request, res: Response) => {
+router.post('/request', requirePermission('vehicle:manage'), async (req: Request, res: Response) => {
   try {
     const result = await vehicleSyncService.forwardDriverRequest(req.body);
     if (result.success && result.vehicle) {
@@ -44,7 +51,7 @@ router.get('/pending', async (req: Request, res: Response) => {
  * POST /api/vehicles/:id/approve
  * Forward approve request to central server, sync local DB on success
  */
-router.post('/:id/approve', async (req: Request, res: Response) => {
+router.post('/:id/approve', requirePermission('vehicle:manage'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const authHeader = req.headers['authorization'];
@@ -63,7 +70,7 @@ router.post('/:id/approve', async (req: Request, res: Response) => {
  * POST /api/vehicles/:id/deny
  * Forward deny request to central server, update local DB if needed
  */
-router.post('/:id/deny', async (req: Request, res: Response) => {
+router.post('/:id/deny', requirePermission('vehicle:manage'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const authHeader = req.headers['authorization'];
@@ -79,17 +86,17 @@ router.post('/:id/deny', async (req: Request, res: Response) => {
  * POST /api/vehicles/:id/ban
  * Ban a vehicle locally and sync to central server
  */
-router.post('/:id/ban', async (req: Request, res: Response) => {
+router.post('/:id/ban', requirePermission('vehicle:manage'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const result = await vehicleSyncService.banVehicle(id);
+    const result = await vehicleSyncService.banVehicle(id, auditService.contextFromRequest(req));
     res.json(result);
   } catch (error) {
     res.status(500).json({ success: false, message: 'Failed to ban vehicle', error: error instanceof Error ? error.message : 'Unknown error' });
   }
 });
 
-// ================== PUBLIC PROXY ENDPOINTS TO CENTRAL SERVER ==================
+// ================== REFERENCE DATA PROXY ENDPOINTS TO CENTRAL SERVER ==================
 
 /**
  * GET /api/vehicles/governorates
@@ -135,7 +142,7 @@ router.get('/stations', async (req: Request, res: Response) => {
  * POST /api/vehicles/stations/create
  * Forward station creation request to central server, sync local DB on success
  */
-router.post('/stations/create', async (req: Request, res: Response) => {
+router.post('/stations/create', requirePermission('vehicle:manage'), async (req: Request, res: Response) => {
   try {
     const authHeader = req.headers['authorization'];
     const result = await vehicleSyncService.forwardCreateStation(req.body, authHeader);
@@ -379,86 +386,52 @@ router.get('/trips/daily', async (req: Request, res: Response) => {
 
 /**
  * GET /api/vehicles/trips/daily-exit-income?date=YYYY-MM-DD
- * Aggregates exit passes by vehicle (licensePlate) and destination for the day.
- * Income per exit = vehicle.capacity * route.basePrice (no service fees).
+ * One-day driver statements of the vehicles that departed that day, with their destinations.
+ * totalIncome is trip fares without service fees; grossIncome adds the service fees passengers paid and
+ * netPayable is after station fees (see /api/driver-statements).
  */
 router.get('/trips/daily-exit-income', async (req: Request, res: Response) => {
   try {
     const { date } = req.query as { date?: string };
-    const target = date ? (() => { const [y,m,d] = date.split('-').map(Number); return new Date(y, (m || 1) - 1, d || 1, 0, 0, 0, 0); })() : new Date();
-    const startOfDay = new Date(target); startOfDay.setHours(0,0,0,0);
-    const endOfDay = new Date(startOfDay); endOfDay.setDate(endOfDay.getDate() + 1);
-
-    // Fetch today's exit passes
-    const exits = await prisma.exitPass.findMany({
-      where: { currentExitTime: { gte: startOfDay, lt: endOfDay } },
-      select: {
-        id: true,
-        vehicleId: true,
-        licensePlate: true,
-        destinationId: true,
-        destinationName: true,
-        currentExitTime: true
-      },
-      orderBy: [{ licensePlate: 'asc' }, { currentExitTime: 'asc' }]
-    });
-
-    if (exits.length === 0) {
-      res.json({ success: true, data: { date: `${startOfDay.getFullYear()}-${String(startOfDay.getMonth()+1).padStart(2,'0')}-${String(startOfDay.getDate()).padStart(2,'0')}`, vehicles: [] } });
+    const period = parseStatementPeriod(date);
+    if (!period) {
+      res.status(400).json({ success: false, message: 'date must be YYYY-MM-DD' });
       return;
     }
 
-    // Load vehicle capacities
-    const vehicleIds = Array.from(new Set(exits.map(e => e.vehicleId)));
-    const vehicles = await prisma.vehicle.findMany({ where: { id: { in: vehicleIds } }, select: { id: true, licensePlate: true, capacity: true } });
-    const vehicleMap = new Map(vehicles.map(v => [v.id, v]));
+    const statements = (await driverStatementService.buildStatements(period)).filter(s => s.totals.trips > 0);
 
-    // Load driver info
-    const drivers = await prisma.driver.findMany({ where: { vehicleId: { in: vehicleIds } }, select: { vehicleId: true, cin: true, accountStatus: true } });
+    const drivers = await prisma.driver.findMany({
+      where: { vehicleId: { in: statements.map(s => s.vehicle.id) } },
+      select: { vehicleId: true, cin: true, accountStatus: true }
+    });
     const driverMap = new Map(drivers.map(d => [d.vehicleId, d]));
 
-    // Load basePrice by destinationId via Route (stationId)
-    const destinationIds = Array.from(new Set(exits.map(e => e.destinationId)));
-    const routes = await prisma.route.findMany({ where: { stationId: { in: destinationIds } }, select: { stationId: true, basePrice: true } });
-    const basePriceByStation = new Map(routes.map(r => [r.stationId, Number(r.basePrice || 0)]));
-
-    // Aggregate
-    type DestAgg = { name: string; count: number };
-    const licenseToAgg = new Map<string, { vehicleId: string; licensePlate: string; driver?: { cin: string; accountStatus: string } | null; totalIncome: number; destCounts: Map<string, DestAgg> }>();
-
-    exits.forEach(e => {
-      const v = vehicleMap.get(e.vehicleId);
-      const capacity = Number(v?.capacity || 0);
-      const basePrice = basePriceByStation.get(e.destinationId) || 0;
-      const amount = capacity * basePrice;
-
-      const key = e.licensePlate;
-      const agg = licenseToAgg.get(key) || {
-        vehicleId: e.vehicleId,
-        licensePlate: e.licensePlate,
-        driver: driverMap.get(e.vehicleId) || null,
-        totalIncome: 0,
-        destCounts: new Map<string, DestAgg>()
+    const result = statements.map(statement => {
+      const destCounts = new Map<string, number>();
+      statement.lines.filter(line => line.type === 'TRIP').forEach(line => {
+        const name = line.destinationName || '—';
+        destCounts.set(name, (destCounts.get(name) || 0) + 1);
+      });
+      const driver = driverMap.get(statement.vehicle.id);
+
+      return {
+        vehicle: {
+          id: statement.vehicle.id,
+          licensePlate: statement.vehicle.licensePlate,
+          driver: driver ? { cin: driver.cin, accountStatus: driver.accountStatus } : null,
+        },
+        totals: {
+          totalIncome: statement.totals.fares,
+          grossIncome: statement.totals.grossFares,
+          stationFees: statement.totals.stationFees,
+          netPayable: statement.totals.netPayable
+        },
+        destinations: Array.from(destCounts.entries()).map(([destination, count]) => ({ destination, count }))
       };
-      agg.totalIncome += amount;
-      const dKey = e.destinationName || '—';
-      const d = agg.destCounts.get(dKey) || { name: dKey, count: 0 };
-      d.count += 1;
-      agg.destCounts.set(dKey, d);
-      licenseToAgg.set(key, agg);
     });
 
-    const result = Array.from(licenseToAgg.values()).map(v => ({
-      vehicle: {
-        id: v.vehicleId,
-        licensePlate: v.licensePlate,
-        driver: v.driver ? { cin: v.driver.cin, accountStatus: v.driver.accountStatus } : null,
-      },
-      totals: { totalIncome: v.totalIncome },
-      destinations: Array.from(v.destCounts.values()).map(d => ({ destination: d.name, count: d.count }))
-    }));
-
-    res.json({ success: true, data: { date: `${startOfDay.getFullYear()}-${String(startOfDay.getMonth()+1).padStart(2,'0')}-${String(startOfDay.getDate()).padStart(2,'0')}`, vehicles: result } });
+    res.json({ success: true, data: { date: formatDay(period.start), vehicles: result } });
   } catch (error: any) {
     console.error('Error fetching daily exit income:', error);
     res.status(500).json({ success: false, message: 'Failed to fetch daily exit income', error: error?.message || 'Unknown error' });
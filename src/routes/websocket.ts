@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { WebSocketService } from '../websocket/webSocketService';
 import { EnhancedLocalWebSocketServer } from '../websocket/EnhancedLocalWebSocketServer';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 let localWebSocketServer: EnhancedLocalWebSocketServer | null = null;
 
@@ -92,9 +93,9 @@ export default function createWebSocketRouter(webSocketService: WebSocketService
   /**
    * @route POST /api/websocket/reconnect
    * @desc Force reconnection to central server
-   * @access Public
+   * @access Private (sync:manage permission)
    */
-  router.post('/reconnect', (req, res) => {
+  router.post('/reconnect', authenticate, requirePermission('sync:manage'), (req, res) => {
     // Force reconnection
     webSocketService.forceReconnect();
     
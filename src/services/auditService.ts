@@ -0,0 +1,193 @@
+import { Request } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { csvRow } from '../utils/reporting';
+
+export type AuditEntityType = 'ROUTE' | 'VEHICLE' | 'STAFF' | 'VEHICLE_QUEUE' | 'STATION_CONFIG' | 'RESOURCE_LOCK' | 'STAFF_ROLE' | 'TERMINAL' | 'SESSION' | 'DRIVER_STATEMENT' | 'SCHEDULED_JOB';
+
+/**
+ * Who performed an action and from where
+ */
+export interface AuditContext {
+  actorId: string | null;
+  actorRole: string | null;
+  ipAddress: string | null;
+  clientId: string | null;
+  terminalId: string | null;
+}
+
+export interface AuditEntry {
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  before?: any;
+  after?: any;
+}
+
+export interface AuditFieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+export interface AuditQuery {
+  actorId?: string | undefined;
+  action?: string | undefined;
+  entityType?: string | undefined;
+  entityId?: string | undefined;
+  from?: Date | undefined;
+  to?: Date | undefined;
+  limit?: number;
+  offset?: number;
+}
+
+// Never store these fields in snapshots
+const REDACTED_FIELDS = ['password', 'pin', 'pinHash', 'token', 'deviceKeyHash'];
+
+const SYSTEM_CONTEXT: AuditContext = { actorId: null, actorRole: 'SYSTEM', ipAddress: null, clientId: null, terminalId: null };
+
+class AuditService {
+  /**
+   * Build the audit context (actor, IP, client ID) of a request
+   */
+  contextFromRequest(req: Request): AuditContext {
+    const ipAddress = req.ip || req.socket?.remoteAddress || null;
+    const clientId = req.headers['x-client-id'];
+
+    return {
+      actorId: req.staff?.id || null,
+      actorRole: req.staff?.role || null,
+      ipAddress,
+      clientId: (Array.isArray(clientId) ? clientId[0] : clientId) || null,
+      terminalId: req.staff?.terminalId || null
+    };
+  }
+
+  /**
+   * Record an audited action. Never throws, so auditing cannot break the audited operation.
+   */
+  async record(entry: AuditEntry, context: AuditContext = SYSTEM_CONTEXT): Promise<void> {
+    try {
+      const before = entry.before !== undefined ? this.sanitize(entry.before) : undefined;
+      const after = entry.after !== undefined ? this.sanitize(entry.after) : undefined;
+      const changes = this.diff(before, after);
+
+      await prisma.auditLog.create({
+        data: {
+          actorId: context.actorId,
+          actorRole: context.actorRole,
+          action: entry.action,
+          entityType: entry.entityType,
+          entityId: entry.entityId || null,
+          before: before !== undefined ? JSON.stringify(before) : null,
+          after: after !== undefined ? JSON.stringify(after) : null,
+          changes: changes.length > 0 ? JSON.stringify(changes) : null,
+          ipAddress: context.ipAddress,
+          clientId: context.clientId,
+          terminalId: context.terminalId
+        }
+      });
+    } catch (error) {
+      console.error('❌ Failed to record audit entry:', error);
+    }
+  }
+
+  /**
+   * Query audit entries, newest first
+   */
+  async query(filters: AuditQuery = {}): Promise<{ entries: any[]; total: number }> {
+    const where: Prisma.AuditLogWhereInput = {};
+    if (filters.actorId) where.actorId = filters.actorId;
+    if (filters.action) where.action = filters.action;
+    if (filters.entityType) where.entityType = filters.entityType;
+    if (filters.entityId) where.entityId = filters.entityId;
+    if (filters.from || filters.to) {
+      where.createdAt = {
+        ...(filters.from && { gte: filters.from }),
+        ...(filters.to && { lte: filters.to })
+      };
+    }
+
+    const [rows, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit || 100,
+        skip: filters.offset || 0
+      }),
+      prisma.auditLog.count({ where })
+    ]);
+
+    const entries = rows.map(row => ({
+      ...row,
+      before: row.before ? JSON.parse(row.before) : null,
+      after: row.after ? JSON.parse(row.after) : null,
+      changes: row.changes ? JSON.parse(row.changes) : []
+    }));
+
+    return { entries, total };
+  }
+
+  /**
+   * Render audit entries as CSV (one row per entry, changes flattened)
+   */
+  toCsv(entries: any[]): string {
+    const header = ['createdAt', 'actorId', 'actorRole', 'action', 'entityType', 'entityId', 'changes', 'ipAddress', 'clientId', 'terminalId'];
+    const lines = entries.map(entry => csvRow([
+      entry.createdAt instanceof Date ? entry.createdAt.toISOString() : entry.createdAt,
+      entry.actorId,
+      entry.actorRole,
+      entry.action,
+      entry.entityType,
+      entry.entityId,
+      (entry.changes || []).map((c: AuditFieldChange) => `${c.field}: ${JSON.stringify(c.from)} -> ${JSON.stringify(c.to)}`).join('; '),
+      entry.ipAddress,
+      entry.clientId,
+      entry.terminalId
+    ]));
+
+    return [header.join(','), ...lines].join('\n');
+  }
+
+  /**
+   * Field-level differences between two snapshots
+   */
+  private diff(before: any, after: any): AuditFieldChange[] {
+    if (!this.isPlainObject(before) && !this.isPlainObject(after)) {
+      return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ field: '*', from: before ?? null, to: after ?? null }];
+    }
+
+    const previous = this.isPlainObject(before) ? before : {};
+    const next = this.isPlainObject(after) ? after : {};
+    const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    const changes: AuditFieldChange[] = [];
+
+    for (const field of fields) {
+      if (field === 'updatedAt' || field === 'syncedAt') continue;
+      if (JSON.stringify(previous[field]) !== JSON.stringify(next[field])) {
+        changes.push({ field, from: previous[field] ?? null, to: next[field] ?? null });
+      }
+    }
+
+    return changes;
+  }
+
+  private sanitize(snapshot: any): any {
+    if (!this.isPlainObject(snapshot)) {
+      return snapshot ?? null;
+    }
+
+    const copy: Record<string, any> = {};
+    for (const [key, value] of Object.entries(snapshot)) {
+      if (REDACTED_FIELDS.includes(key)) continue;
+      copy[key] = value;
+    }
+    return copy;
+  }
+
+  private isPlainObject(value: any): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+  }
+}
+
+export const auditService = new AuditService();
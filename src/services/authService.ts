@@ -2,6 +2,8 @@ import { PrismaClient } from '@prisma/client';
 import { WebSocketService } from '../websocket/webSocketService';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcrypt';
+import { env } from '../config/environment';
+import { sessionService } from './sessionService';
 
 const prisma = new PrismaClient();
 
@@ -17,8 +19,17 @@ export interface TokenPayload {
   cin: string;
   role: string;
   stationId: string;
+  terminalId?: string | undefined;
 }
 
+// Options of a session being opened
+interface SessionOptions {
+  terminalId?: string | null | undefined;
+  authMethod?: 'PASSWORD' | 'PIN';
+}
+
+const PIN_PATTERN = /^\d{4,6}$/;
+
 export class LocalAuthService {
   private webSocketService: WebSocketService;
   private jwtSecret: string;
@@ -37,14 +48,14 @@ export class LocalAuthService {
   }
 
   /**
-   * Login with CIN and password
+   * Login with CIN and password (terminalId binds the session to a registered terminal)
    */
-  async login(cin: string, password: string): Promise<LoginResponse> {
+  async login(cin: string, password: string, terminalId?: string | null): Promise<LoginResponse> {
     try {
       console.log(`🔐 Attempting login for CIN: ${cin}`);
 
       // First try local authentication
-      const localResult = await this.loginLocally(cin, password);
+      const localResult = await this.loginLocally(cin, password, terminalId);
       if (localResult.success) {
         return localResult;
       }
@@ -56,7 +67,7 @@ export class LocalAuthService {
         
         if (centralResult.success) {
           // Store session locally for future use
-          const sessionResult = await this.storeSession(centralResult.data.token, centralResult.data.staff);
+          const sessionResult = await this.storeSession(centralResult.data.token, centralResult.data.staff, { terminalId });
           
           if (!sessionResult.success) {
             console.error('❌ Failed to store session locally:', sessionResult.error);
@@ -98,7 +109,7 @@ export class LocalAuthService {
   /**
    * Login using local database
    */
-  private async loginLocally(cin: string, password: string): Promise<LoginResponse> {
+  private async loginLocally(cin: string, password: string, terminalId?: string | null): Promise<LoginResponse> {
     try {
       // Find staff member in local database
       const staff = await prisma.staff.findUnique({
@@ -127,15 +138,16 @@ export class LocalAuthService {
         staffId: staff.id,
         cin: staff.cin,
         role: staff.role,
-        stationId: 'local' // Local station ID
+        stationId: 'local', // Local station ID
+        terminalId: terminalId || undefined
       };
 
       const token = jwt.sign(tokenPayload, this.jwtSecret, { expiresIn: '30d' });
 
-      // Update last login time
+      // Update last login time; a password login also lifts a PIN lockout
       await prisma.staff.update({
         where: { id: staff.id },
-        data: { lastLogin: new Date() }
+        data: { lastLogin: new Date(), failedPinAttempts: 0, pinLockedUntil: null }
       });
 
       // Store session in database for token verification
@@ -146,7 +158,7 @@ export class LocalAuthService {
         lastName: staff.lastName,
         role: staff.role,
         phoneNumber: staff.phoneNumber
-      });
+      }, { terminalId });
 
       if (!sessionResult.success) {
         console.error('❌ Failed to store session locally:', sessionResult.error);
@@ -177,6 +189,168 @@ export class LocalAuthService {
     }
   }
 
+  /**
+   * Quick-switch login with a PIN on a registered terminal (already authenticated by the caller).
+   * Issues a short-lived token and closes the previous worker's session on that terminal.
+   */
+  async loginWithPin(terminalId: string, staffId: string, pin: string): Promise<LoginResponse & { locked?: boolean }> {
+    try {
+      const staff = await prisma.staff.findUnique({ where: { id: staffId } });
+
+      if (!staff || !staff.isActive || !staff.pinHash) {
+        return { success: false, message: 'Invalid staff or PIN' };
+      }
+
+      if (staff.pinLockedUntil && staff.pinLockedUntil > new Date()) {
+        return {
+          success: false,
+          locked: true,
+          message: `PIN locked until ${staff.pinLockedUntil.toISOString()}. Log in with your password to unlock it.`
+        };
+      }
+
+      const isValidPin = await bcrypt.compare(pin, staff.pinHash);
+
+      if (!isValidPin) {
+        // Counted in the database so parallel wrong PINs cannot all read the same count
+        const { failedPinAttempts } = await prisma.staff.update({
+          where: { id: staff.id },
+          data: { failedPinAttempts: { increment: 1 } },
+          select: { failedPinAttempts: true }
+        });
+        const locked = failedPinAttempts >= env.PIN_MAX_ATTEMPTS;
+
+        if (locked) {
+          await prisma.staff.updateMany({
+            where: { id: staff.id, failedPinAttempts: { gte: env.PIN_MAX_ATTEMPTS } },
+            data: { failedPinAttempts: 0, pinLockedUntil: new Date(Date.now() + env.PIN_LOCKOUT_MINUTES * 60 * 1000) }
+          });
+        }
+
+        if (locked) {
+          console.warn(`🔒 PIN locked for staff ${staff.id} after ${failedPinAttempts} failed attempts on terminal ${terminalId}`);
+          return {
+            success: false,
+            locked: true,
+            message: `Too many wrong PINs. PIN locked for ${env.PIN_LOCKOUT_MINUTES} minutes.`
+          };
+        }
+
+        return {
+          success: false,
+          message: `Invalid staff or PIN (${env.PIN_MAX_ATTEMPTS - failedPinAttempts} attempt(s) left)`
+        };
+      }
+
+      const tokenPayload: TokenPayload = {
+        staffId: staff.id,
+        cin: staff.cin,
+        role: staff.role,
+        stationId: 'local',
+        terminalId
+      };
+
+      const token = jwt.sign(tokenPayload, this.jwtSecret, { expiresIn: `${env.PIN_SESSION_MINUTES}m` });
+      const staffInfo = {
+        id: staff.id,
+        cin: staff.cin,
+        firstName: staff.firstName,
+        lastName: staff.lastName,
+        role: staff.role,
+        phoneNumber: staff.phoneNumber
+      };
+
+      // One worker per terminal: the previous session on it ends here
+      await sessionService.deactivateSessions({ terminalId }, 'Another staff member signed in on this terminal');
+
+      await prisma.$transaction([
+        prisma.staff.update({
+          where: { id: staff.id },
+          data: { lastLogin: new Date(), failedPinAttempts: 0, pinLockedUntil: null }
+        }),
+        prisma.session.create({
+          data: {
+            staffId: staff.id,
+            token,
+            staffData: JSON.stringify(staffInfo),
+            isActive: true,
+            lastActivity: new Date(),
+            expiresAt: new Date(Date.now() + env.PIN_SESSION_MINUTES * 60 * 1000),
+            terminalId,
+            authMethod: 'PIN'
+          }
+        })
+      ]);
+
+      console.log(`✅ PIN switch on terminal ${terminalId}: ${staff.firstName} ${staff.lastName}`);
+
+      return {
+        success: true,
+        message: 'Login successful',
+        token,
+        staff: { ...staffInfo, terminalId, authMethod: 'PIN' }
+      };
+
+    } catch (error) {
+      console.error('❌ PIN login error:', error);
+      return {
+        success: false,
+        message: 'Login failed. Please try again.'
+      };
+    }
+  }
+
+  /**
+   * Set or replace the quick-switch PIN (the current password confirms the change)
+   */
+  async setPin(staffId: string, password: string, pin: string): Promise<{ success: boolean; message: string }> {
+    try {
+      if (!PIN_PATTERN.test(pin)) {
+        return { success: false, message: 'PIN must be 4 to 6 digits' };
+      }
+
+      const staff = await prisma.staff.findUnique({ where: { id: staffId } });
+      if (!staff) {
+        return { success: false, message: 'Staff member not found' };
+      }
+
+      const isValidPassword = await bcrypt.compare(password, staff.password);
+      if (!isValidPassword) {
+        return { success: false, message: 'Password is incorrect' };
+      }
+
+      await prisma.staff.update({
+        where: { id: staffId },
+        data: {
+          pinHash: await bcrypt.hash(pin, this.saltRounds),
+          failedPinAttempts: 0,
+          pinLockedUntil: null
+        }
+      });
+
+      console.log(`🔢 PIN set for staff: ${staffId}`);
+      return { success: true, message: 'PIN set successfully' };
+
+    } catch (error) {
+      console.error('❌ Error setting PIN:', error);
+      return { success: false, message: 'Failed to set PIN' };
+    }
+  }
+
+  /**
+   * Staff members who can switch in with a PIN (shown on the terminal's switch screen)
+   */
+  async getPinStaff(): Promise<Array<{ id: string; firstName: string; lastName: string; role: string; locked: boolean }>> {
+    const staff = await prisma.staff.findMany({
+      where: { isActive: true, pinHash: { not: null } },
+      select: { id: true, firstName: true, lastName: true, role: true, pinLockedUntil: true },
+      orderBy: [{ firstName: 'asc' }, { lastName: 'asc' }]
+    });
+
+    const now = new Date();
+    return staff.map(({ pinLockedUntil, ...rest }) => ({ ...rest, locked: !!pinLockedUntil && pinLockedUntil > now }));
+  }
+
   /**
    * Verify token (check locally first, then central if needed)
    */
@@ -208,7 +382,7 @@ export class LocalAuthService {
   /**
    * Store session in local database for offline use
    */
-  private async storeSession(token: string, staff: any): Promise<{ success: boolean; error?: string }> {
+  private async storeSession(token: string, staff: any, options: SessionOptions = {}): Promise<{ success: boolean; error?: string }> {
     try {
       // Decode token to get expiration
       const decoded = jwt.decode(token) as any;
@@ -261,10 +435,7 @@ export class LocalAuthService {
       });
 
       // Deactivate old sessions for this staff
-      await prisma.session.updateMany({
-        where: { staffId: staff.id, isActive: true },
-        data: { isActive: false }
-      });
+      await sessionService.deactivateSessions({ staffId: staff.id }, 'Signed in again');
 
       // Create new session
       await prisma.session.create({
@@ -275,7 +446,9 @@ export class LocalAuthService {
           isActive: true,
           lastActivity: new Date(),
           expiresAt: expiresAt,
-          createdOffline: false
+          createdOffline: false,
+          terminalId: options.terminalId || null,
+          authMethod: options.authMethod || 'PASSWORD'
         }
       });
 
@@ -305,15 +478,18 @@ export class LocalAuthService {
 
       // Check if session is expired
       if (session.expiresAt && session.expiresAt < new Date()) {
-        // Mark session as inactive
-        await prisma.session.update({
-          where: { id: session.id },
-          data: { isActive: false }
-        });
-        
+        await sessionService.deactivateSessions({ id: session.id }, 'Session expired');
+
         return { valid: false, error: 'Session expired' };
       }
 
+      // Close sessions left unused longer than the station's idle timeout
+      if (sessionService.isIdle(session.lastActivity)) {
+        await sessionService.deactivateSessions({ id: session.id }, 'Session timed out after inactivity');
+
+        return { valid: false, error: 'Session timed out after inactivity' };
+      }
+
       // Check if staff is still active
       if (!session.staff.isActive) {
         return { valid: false, error: 'Staff account is deactivated' };
@@ -337,7 +513,10 @@ export class LocalAuthService {
           lastName: session.staff.lastName,
           role: session.staff.role,
           phoneNumber: session.staff.phoneNumber,
-          ...staffData // Include any additional data from central server
+          ...staffData, // Include any additional data from central server
+          terminalId: session.terminalId,
+          authMethod: session.authMethod,
+          sessionId: session.id
         }
       };
 
@@ -352,15 +531,9 @@ export class LocalAuthService {
    */
   async logout(token: string): Promise<{ success: boolean; message: string }> {
     try {
-      const result = await prisma.session.updateMany({
-        where: { token, isActive: true },
-        data: { 
-          isActive: false,
-          lastActivity: new Date()
-        }
-      });
+      const sessionIds = await sessionService.deactivateSessions({ token }, 'Logged out');
 
-      if (result.count > 0) {
+      if (sessionIds.length > 0) {
         console.log(`✅ Staff logged out successfully`);
         return { success: true, message: 'Logged out successfully' };
       }
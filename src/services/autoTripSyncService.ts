@@ -1,6 +1,6 @@
 import { EventEmitter } from 'events';
 import { prisma } from '../config/database';
-import { createQueueBookingService } from './queueBookingService';
+import { SyncService, SyncTrigger } from './syncService';
 import { WebSocketService } from '../websocket/webSocketService';
 import axios from 'axios';
 import { configService } from '../config/supervisorConfig';
@@ -17,7 +17,7 @@ export class AutoTripSyncService extends EventEmitter {
   private isRunning = false;
   private syncInterval: NodeJS.Timeout | null = null;
   private connectionCheckInterval: NodeJS.Timeout | null = null;
-  private queueBookingService: any;
+  private syncService: SyncService;
   private webSocketService: WebSocketService;
   
   // Configuration
@@ -37,9 +37,10 @@ export class AutoTripSyncService extends EventEmitter {
     consecutiveFailures: 0
   };
 
-  constructor(webSocketService: WebSocketService) {
+  constructor(webSocketService: WebSocketService, syncService: SyncService) {
     super();
     this.webSocketService = webSocketService;
+    this.syncService = syncService;
     this.centralServerUrl = process.env.CENTRAL_SERVER_URL || 'http://localhost:5000';
     
     // Use config service to get station ID instead of environment variable
@@ -49,9 +50,6 @@ export class AutoTripSyncService extends EventEmitter {
     this.connectionCheckIntervalMs = parseInt(process.env.CONNECTION_CHECK_INTERVAL_MS || '10000'); // 10 seconds
     this.maxRetryAttempts = parseInt(process.env.MAX_SYNC_RETRY_ATTEMPTS || '3');
     this.retryDelayMs = parseInt(process.env.SYNC_RETRY_DELAY_MS || '5000'); // 5 seconds
-    
-    // Initialize queue booking service
-    this.queueBookingService = createQueueBookingService(webSocketService);
   }
 
   /**
@@ -230,12 +228,12 @@ export class AutoTripSyncService extends EventEmitter {
   }
 
   /**
-   * Sync pending trips to central server
+   * Sync pending trips to central server. Trips travel through the sync queue like every
+   * other change, so this runs a SyncService push rather than sending them itself.
    */
-  private async syncPendingTrips(): Promise<boolean> {
+  private async syncPendingTrips(type: SyncTrigger = 'automatic'): Promise<boolean> {
     try {
-      // Use the queue booking service sync method
-      await this.queueBookingService.syncPendingTrips();
+      await this.syncService.syncNow(type);
       
       // Check if any trips are still pending after sync attempt
       const remainingPendingTrips = await prisma.trip.count({
@@ -285,7 +283,7 @@ export class AutoTripSyncService extends EventEmitter {
       this.currentStatus.lastSyncAttempt = new Date();
 
       // Perform sync
-      const success = await this.syncPendingTrips();
+      const success = await this.syncPendingTrips('manual');
       
       if (success) {
         const finalPendingCount = await prisma.trip.count({
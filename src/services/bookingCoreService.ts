@@ -0,0 +1,564 @@
+import crypto from 'crypto';
+import { Booking, Vehicle, VehicleQueue } from '@prisma/client';
+import { prisma } from '../config/database';
+import { configService } from '../config/supervisorConfig';
+import { WebSocketService } from '../websocket/webSocketService';
+import { EnhancedLocalWebSocketServer } from '../websocket/EnhancedLocalWebSocketServer';
+import { EnhancedMQTTService } from './enhancedMqttService';
+import { enqueueSyncChange } from './syncService';
+import { shiftService } from './shiftService';
+import { pricingService, PriceQuote } from './pricingService';
+import { LoggingService } from './loggingService';
+import { seatMapService } from './seatMapService';
+
+const loggingService = new LoggingService();
+
+/**
+ * Booking Core
+ *
+ * Single booking implementation behind every sales channel: the cash counter
+ * (cash booking and queue booking routes), online bookings relayed by the central
+ * server, and desktop apps sending `create_booking` over MQTT. Seat allocation,
+ * pricing, seat accounting, trip records and notifications live here; the channel
+ * only decides how the booking is paid and recorded.
+ */
+
+export type BookingChannel = 'CASH_STATION' | 'ONLINE' | 'MQTT';
+
+interface ChannelPolicy {
+  bookingSource: string;
+  bookingType: 'CASH' | 'ONLINE';
+  paymentStatus: string;
+  paymentMethod: string;
+  idPrefix: string;
+  recordsShift: boolean; // Cash sales count towards the seller's open shift
+}
+
+const CHANNEL_POLICIES: Record<BookingChannel, ChannelPolicy> = {
+  CASH_STATION: { bookingSource: 'CASH_STATION', bookingType: 'CASH', paymentStatus: 'PAID', paymentMethod: 'CASH', idPrefix: 'cash', recordsShift: true },
+  MQTT: { bookingSource: 'CASH_STATION', bookingType: 'CASH', paymentStatus: 'PAID', paymentMethod: 'CASH', idPrefix: 'cash', recordsShift: true },
+  ONLINE: { bookingSource: 'ONLINE', bookingType: 'ONLINE', paymentStatus: 'PENDING', paymentMethod: 'ONLINE', idPrefix: 'online', recordsShift: false }
+};
+
+export interface BookingCoreRequest {
+  channel: BookingChannel;
+  destinationId: string;
+  seatsRequested: number;
+  staffId?: string | null | undefined;
+  customerName?: string | undefined; // Shown in booking announcements only
+  customerPhone?: string | null | undefined;
+  userId?: string | null | undefined;
+  onlineTicketId?: string | null | undefined;
+  paymentMethod?: string | undefined;
+  includeOvernight?: boolean | undefined; // Sell overnight queue seats first (cash counter)
+  vehicleAllocations?: VehicleAllocation[] | undefined; // Seats already placed by the caller
+  expectedTotalAmount?: number | undefined; // Amount charged upstream, checked against the station quote
+}
+
+export interface VehicleAllocation {
+  queueId: string;
+  seatsToBook: number;
+  seatNumbers?: number[] | undefined; // Seats chosen by the passenger, otherwise the first free ones
+}
+
+export interface BookingCoreLine {
+  booking: Booking;
+  seatNumbers: number[];
+  queueEntry: VehicleQueue & { vehicle: Vehicle }; // After the seats were taken
+  pricePerSeat: number;
+  baseAmount: number;
+  serviceFeeAmount: number;
+}
+
+export interface BookingCoreResult {
+  success: boolean;
+  lines?: BookingCoreLine[];
+  totalAmount?: number;
+  groupCode?: string;
+  quote?: PriceQuote;
+  exitPasses?: any[];
+  error?: string;
+}
+
+const CODE_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+const VERIFICATION_CODE_LENGTH = 6;
+const GROUP_CODE_LENGTH = 10;
+
+type ConflictType = 'insufficient_seats' | 'booking_conflict' | 'seat_taken';
+
+let webSocketService: WebSocketService | null = null;
+let localWebSocketServer: EnhancedLocalWebSocketServer | null = null;
+let enhancedMqttService: EnhancedMQTTService | null = null;
+
+// Transports are created at different stages of startup, each is registered when ready
+export function setBookingCoreTransports(transports: {
+  webSocketService?: WebSocketService;
+  localWebSocketServer?: EnhancedLocalWebSocketServer;
+  mqttService?: EnhancedMQTTService;
+}) {
+  if (transports.webSocketService) webSocketService = transports.webSocketService;
+  if (transports.localWebSocketServer) localWebSocketServer = transports.localWebSocketServer;
+  if (transports.mqttService) enhancedMqttService = transports.mqttService;
+}
+
+class BookingCoreService {
+  /**
+   * Book seats to a destination: allocate them across queued vehicles (front of the queue
+   * first, or as placed by the caller), price them, take them atomically, then update
+   * vehicle statuses, trip records and every connected client.
+   */
+  async createBooking(request: BookingCoreRequest): Promise<BookingCoreResult> {
+    const policy = CHANNEL_POLICIES[request.channel];
+
+    try {
+      console.log(`🎫 [${request.channel}] Booking ${request.seatsRequested} seat(s) to ${request.destinationId}`);
+
+      const result = await prisma.$transaction(async (tx) => {
+        const queueEntries = await tx.vehicleQueue.findMany({
+          where: {
+            destinationId: request.destinationId,
+            status: { in: ['WAITING', 'LOADING', 'READY'] },
+            heldAt: null, // Held vehicles keep their place but take no bookings
+            ...(request.vehicleAllocations
+              ? { id: { in: request.vehicleAllocations.map(a => a.queueId) } }
+              : !request.includeOvernight && { queueType: 'REGULAR' })
+          },
+          include: { vehicle: true },
+          orderBy: [
+            { queueType: 'desc' }, // OVERNIGHT first when included
+            { queuePosition: 'asc' }
+          ]
+        });
+
+        if (queueEntries.length === 0) {
+          throw new Error('No vehicles available for this destination');
+        }
+
+        const allocation = request.vehicleAllocations
+          ? this.checkAllocations(queueEntries, request.vehicleAllocations)
+          : this.allocateSeats(queueEntries, request.seatsRequested);
+
+        const seatsBooked = allocation.reduce((sum, a) => sum + a.seatsToBook, 0);
+        const quote = await pricingService.quote(
+          request.destinationId,
+          seatsBooked,
+          { fallbackBasePrice: queueEntries[0].basePrice },
+          tx
+        );
+
+        const shiftId = policy.recordsShift ? await shiftService.getOpenShiftId(request.staffId, tx) : null;
+        // Ties together the bookings of this purchase when its seats span several vehicles
+        const groupCode = this.generateCode(GROUP_CODE_LENGTH);
+        const lines: BookingCoreLine[] = [];
+
+        for (const [index, { entry, seatsToBook, seatNumbers: requestedSeats }] of allocation.entries()) {
+          const baseAmount = seatsToBook * quote.pricePerSeat;
+          const serviceFeeAmount = seatsToBook * quote.serviceFeePerSeat;
+
+          const booking = await tx.booking.create({
+            data: {
+              id: `${policy.idPrefix}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+              queueId: entry.id,
+              seatsBooked: seatsToBook,
+              totalAmount: baseAmount + serviceFeeAmount,
+              pricePerSeat: quote.pricePerSeat,
+              appliedPriceRules: pricingService.serializeAppliedRules(quote),
+              bookingSource: policy.bookingSource,
+              bookingType: policy.bookingType,
+              userId: request.userId || null,
+              customerPhone: request.customerPhone || null,
+              onlineTicketId: this.onlineTicketIdFor(request.onlineTicketId, index),
+              paymentStatus: policy.paymentStatus,
+              paymentMethod: request.paymentMethod || policy.paymentMethod,
+              verificationCode: this.generateCode(VERIFICATION_CODE_LENGTH),
+              groupCode,
+              createdBy: request.staffId || null,
+              shiftId
+            }
+          });
+          await enqueueSyncChange('bookings', booking.id, 'INSERT', booking, tx);
+
+          // Take the seats only if they are still free (optimistic locking)
+          const updatedQueue = await tx.vehicleQueue.updateMany({
+            where: { id: entry.id, availableSeats: { gte: seatsToBook } },
+            data: { availableSeats: { decrement: seatsToBook }, syncedAt: new Date() }
+          });
+
+          if (updatedQueue.count === 0) {
+            throw new Error(`Booking conflict: Seats on vehicle ${entry.vehicle.licensePlate} were just booked by another user. Please try again.`);
+          }
+
+          const seatNumbers = await seatMapService.assignSeats(tx, entry, booking.id, seatsToBook, requestedSeats);
+
+          const queueEntry = await tx.vehicleQueue.findUniqueOrThrow({
+            where: { id: entry.id },
+            include: { vehicle: true }
+          });
+
+          lines.push({ booking, seatNumbers, queueEntry, pricePerSeat: quote.pricePerSeat, baseAmount, serviceFeeAmount });
+          console.log(`✅ Booked ${seatsToBook} seat(s) on vehicle ${queueEntry.vehicle.licensePlate} (${queueEntry.availableSeats} remaining)`);
+        }
+
+        return { lines, quote, groupCode };
+      });
+
+      const { lines, quote, groupCode } = result;
+      const totalAmount = lines.reduce((sum, line) => sum + line.booking.totalAmount, 0);
+
+      if (request.expectedTotalAmount !== undefined && Math.abs(request.expectedTotalAmount - totalAmount) > 0.001) {
+        console.warn(`⚠️ Upstream total ${request.expectedTotalAmount} TND differs from station quote ${totalAmount} TND, station quote kept`);
+        await loggingService.log('ONLINE_BOOKING_PRICE_MISMATCH', {
+          channel: request.channel,
+          onlineTicketId: request.onlineTicketId,
+          expectedTotalAmount: request.expectedTotalAmount,
+          stationTotalAmount: totalAmount,
+          appliedRules: quote.appliedRules.map(rule => rule.name)
+        });
+      }
+
+      const exitPasses = await this.afterSeatsTaken(lines, request.staffId || undefined);
+
+      this.announceBooking(request, lines, totalAmount);
+      await this.emitFinancialUpdate();
+
+      console.log(`🎉 [${request.channel}] Booking completed: ${lines.reduce((sum, l) => sum + l.booking.seatsBooked, 0)} seat(s) across ${lines.length} vehicle(s), total ${totalAmount} TND`);
+
+      return { success: true, lines, totalAmount, groupCode, quote, exitPasses };
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred during booking';
+      console.error(`❌ [${request.channel}] Booking failed:`, errorMessage);
+
+      const conflictType = this.classifyConflict(errorMessage);
+      if (conflictType) {
+        this.broadcastBookingConflict(request.destinationId, errorMessage, conflictType);
+      }
+
+      // Refresh every client so nobody keeps selling seats that are gone
+      this.broadcastSeatChange(request.destinationId, policy.bookingType);
+
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * Tell clients and the central server that seat availability changed for a destination
+   */
+  broadcastSeatChange(destinationId: string, bookingType?: 'CASH' | 'ONLINE'): void {
+    const stationId = configService.getStationId();
+    const timestamp = new Date().toISOString();
+
+    try {
+      if (webSocketService) {
+        webSocketService.emit('queue_updated', { destinationId, timestamp });
+        webSocketService.emit('booking_update', { destinationId, stationId, bookingType, timestamp });
+        webSocketService.emit('queue_update', { destinationId, stationId, updateType: 'booking_created', timestamp });
+        webSocketService.emit('seat_availability_changed', { destinationId, stationId, updateType: 'seat_availability_changed', bookingType, timestamp });
+        if (bookingType === 'CASH') {
+          webSocketService.emit('cash_booking_updated', { destinationId, timestamp });
+        }
+        webSocketService.sendQueueUpdate({ destinationId, stationId, timestamp });
+        if (bookingType) {
+          webSocketService.sendBookingUpdate({ destinationId, stationId, bookingType, timestamp });
+        }
+      }
+
+      if (enhancedMqttService) {
+        enhancedMqttService.publish('seat_availability_changed', { destination_id: destinationId, timestamp });
+        enhancedMqttService.publish('destination_list_update', { timestamp });
+      }
+
+      console.log(`📡 Broadcast seat availability change for destination: ${destinationId}`);
+    } catch (error) {
+      console.error('❌ Error broadcasting seat change:', error);
+    }
+  }
+
+  /**
+   * Real-time financial refresh for the supervisor dashboard (figures are fetched by the dashboard API)
+   */
+  async emitFinancialUpdate(): Promise<void> {
+    try {
+      const payload = { financial: null, recentTransactions: null, timestamp: new Date().toISOString() };
+
+      webSocketService?.emit('financial_update', payload);
+      enhancedMqttService?.broadcast({
+        type: 'financial_update',
+        payload,
+        timestamp: payload.timestamp
+      });
+
+      console.log('📊 Sent real-time financial update');
+    } catch (error) {
+      console.error('❌ Error sending financial update:', error);
+    }
+  }
+
+  /**
+   * Record the trip of a vehicle that just filled up (once per queue entry)
+   */
+  async createTripRecord(queueEntry: VehicleQueue & { vehicle: Vehicle }): Promise<void> {
+    try {
+      const existingTrip = await prisma.trip.findFirst({ where: { queueId: queueEntry.id }, select: { id: true } });
+      if (existingTrip) {
+        return;
+      }
+
+      console.log(`🚛 Creating trip record for vehicle ${queueEntry.vehicle.licensePlate}`);
+
+      const bookedSeats = await prisma.booking.aggregate({
+        where: {
+          queueId: queueEntry.id,
+          paymentStatus: { in: ['PAID', 'PENDING'] } // Include both paid and pending bookings
+        },
+        _sum: { seatsBooked: true }
+      });
+
+      const trip = await prisma.trip.create({
+        data: {
+          vehicleId: queueEntry.vehicleId,
+          licensePlate: queueEntry.vehicle.licensePlate,
+          destinationId: queueEntry.destinationId,
+          destinationName: queueEntry.destinationName,
+          queueId: queueEntry.id,
+          seatsBooked: bookedSeats._sum.seatsBooked || 0,
+          startTime: new Date(),
+          syncStatus: 'PENDING'
+        }
+      });
+      // Delivered to the central server by SyncService
+      await enqueueSyncChange('trips', trip.id, 'INSERT', trip);
+
+      console.log(`✅ Trip record created: ${trip.id} for vehicle ${trip.licensePlate} to ${trip.destinationName} (${trip.seatsBooked} seats)`);
+
+    } catch (error) {
+      console.error('❌ Error creating trip record:', error);
+    }
+  }
+
+  /**
+   * Front-of-queue allocation: fill each vehicle before moving to the next one
+   */
+  private allocateSeats<T extends VehicleQueue & { vehicle: Vehicle }>(entries: T[], seatsRequested: number): Array<{ entry: T; seatsToBook: number; seatNumbers?: number[] | undefined }> {
+    const totalAvailableSeats = entries.reduce((sum, entry) => sum + entry.availableSeats, 0);
+    if (totalAvailableSeats < seatsRequested) {
+      throw new Error(`Not enough seats available. Requested: ${seatsRequested}, Available: ${totalAvailableSeats}`);
+    }
+
+    const allocation: Array<{ entry: T; seatsToBook: number }> = [];
+    let remainingSeats = seatsRequested;
+
+    for (const entry of entries) {
+      if (remainingSeats <= 0) break;
+      if (entry.availableSeats <= 0) continue;
+
+      const seatsToBook = Math.min(remainingSeats, entry.availableSeats);
+      allocation.push({ entry, seatsToBook });
+      remainingSeats -= seatsToBook;
+
+      console.log(`📋 Allocated ${seatsToBook} seats to vehicle ${entry.vehicle.licensePlate} (position ${entry.queuePosition})`);
+    }
+
+    return allocation;
+  }
+
+  /**
+   * Validate seats placed by the caller against the bookable queue entries
+   */
+  private checkAllocations<T extends VehicleQueue & { vehicle: Vehicle }>(entries: T[], allocations: VehicleAllocation[]): Array<{ entry: T; seatsToBook: number; seatNumbers?: number[] | undefined }> {
+    return allocations.map(allocation => {
+      const entry = entries.find(e => e.id === allocation.queueId);
+
+      if (!entry) {
+        throw new Error(`Vehicle queue ${allocation.queueId} no longer exists or is not bookable`);
+      }
+
+      if (!Number.isInteger(allocation.seatsToBook) || allocation.seatsToBook < 1) {
+        throw new Error(`Invalid seat count for vehicle ${entry.vehicle.licensePlate}`);
+      }
+
+      if (entry.availableSeats < allocation.seatsToBook) {
+        throw new Error(`Insufficient seats on vehicle ${entry.vehicle.licensePlate}. Available: ${entry.availableSeats}, Requested: ${allocation.seatsToBook}`);
+      }
+
+      return { entry, seatsToBook: allocation.seatsToBook, seatNumbers: allocation.seatNumbers };
+    });
+  }
+
+  /**
+   * Status changes, exit passes and trip records for the vehicles that took seats.
+   * Runs outside the booking transaction to avoid conflicts.
+   */
+  private async afterSeatsTaken(lines: BookingCoreLine[], staffId?: string): Promise<any[]> {
+    const exitPasses: any[] = [];
+    const queueIds = [...new Set(lines.map(line => line.queueEntry.id))];
+
+    for (const queueId of queueIds) {
+      if (webSocketService) {
+        try {
+          const { createQueueService } = await import('./queueService');
+          const queueService = createQueueService(webSocketService);
+          const update = await queueService.updateVehicleStatusBasedOnBookings(queueId, staffId);
+          if (update.exitPass) {
+            exitPasses.push(update.exitPass);
+          }
+        } catch (error) {
+          console.error('❌ Error updating vehicle status after booking:', error);
+        }
+      }
+
+      const queueEntry = await prisma.vehicleQueue.findUnique({
+        where: { id: queueId },
+        include: { vehicle: true }
+      });
+
+      if (queueEntry && queueEntry.availableSeats === 0 && ['READY', 'DEPARTED'].includes(queueEntry.status)) {
+        await this.createTripRecord(queueEntry);
+      }
+    }
+
+    return exitPasses;
+  }
+
+  /**
+   * Seat and booking notifications, identical for every channel
+   */
+  private announceBooking(request: BookingCoreRequest, lines: BookingCoreLine[], totalAmount: number): void {
+    const policy = CHANNEL_POLICIES[request.channel];
+    const firstLine = lines[0];
+    const seatsBooked = lines.reduce((sum, line) => sum + line.booking.seatsBooked, 0);
+
+    this.broadcastSeatChange(request.destinationId, policy.bookingType);
+
+    try {
+      if (enhancedMqttService && firstLine) {
+        enhancedMqttService.publish('cash_booking_updated', {
+          type: 'booking_created',
+          channel: request.channel,
+          bookingType: policy.bookingType,
+          bookingId: firstLine.booking.id,
+          seatsBooked,
+          totalAmount,
+          destinationName: firstLine.queueEntry.destinationName,
+          vehicleLicensePlate: firstLine.queueEntry.vehicle.licensePlate,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      if (localWebSocketServer && firstLine) {
+        this.broadcastLocal('booking_created', {
+          channel: request.channel,
+          bookingType: policy.bookingType,
+          verificationCodes: lines.map(line => line.booking.verificationCode),
+          customerName: request.customerName,
+          destinationId: request.destinationId,
+          destinationName: firstLine.queueEntry.destinationName,
+          numberOfSeats: seatsBooked,
+          totalAmount,
+          stationName: configService.getStationName()
+        });
+
+        for (const { booking, seatNumbers, queueEntry } of lines) {
+          const isNowFull = queueEntry.availableSeats === 0;
+
+          this.broadcastLocal('vehicle_queue_updated', {
+            vehicleId: queueEntry.vehicleId,
+            queueId: queueEntry.id,
+            licensePlate: queueEntry.vehicle.licensePlate,
+            previousAvailableSeats: queueEntry.availableSeats + booking.seatsBooked,
+            newAvailableSeats: queueEntry.availableSeats,
+            seatsBooked: booking.seatsBooked,
+            seatNumbers,
+            isNowFull,
+            queuePosition: queueEntry.queuePosition,
+            estimatedDeparture: queueEntry.estimatedDeparture,
+            timestamp: new Date().toISOString()
+          });
+
+          if (isNowFull) {
+            this.broadcastLocal('vehicle_status_changed', {
+              vehicleId: queueEntry.vehicleId,
+              licensePlate: queueEntry.vehicle.licensePlate,
+              oldStatus: 'WAITING',
+              newStatus: 'READY',
+              reason: 'VEHICLE_FULL',
+              estimatedDeparture: queueEntry.estimatedDeparture,
+              message: `Vehicle ${queueEntry.vehicle.licensePlate} is now full and ready for departure`
+            });
+          }
+        }
+
+        this.broadcastLocal('seats_updated', {
+          totalSeatsBooked: seatsBooked,
+          affectedVehicles: lines.map(({ booking, queueEntry }) => ({
+            licensePlate: queueEntry.vehicle.licensePlate,
+            seatsBooked: booking.seatsBooked,
+            newAvailableSeats: queueEntry.availableSeats,
+            isNowFull: queueEntry.availableSeats === 0
+          })),
+          summary: {
+            totalVehiclesAffected: lines.length,
+            vehiclesNowFull: lines.filter(line => line.queueEntry.availableSeats === 0).length
+          }
+        });
+      }
+    } catch (error) {
+      console.error('❌ Error announcing booking:', error);
+    }
+  }
+
+  private broadcastLocal(updateType: 'booking_created' | 'seats_updated' | 'vehicle_queue_updated' | 'vehicle_status_changed', data: any): void {
+    localWebSocketServer?.broadcast({
+      type: 'booking_update',
+      payload: {
+        updateType,
+        data,
+        timestamp: new Date().toISOString()
+      },
+      timestamp: Date.now()
+    });
+  }
+
+  private broadcastBookingConflict(destinationId: string, message: string, conflictType: ConflictType): void {
+    const payload = { destinationId, conflictType, message, timestamp: new Date().toISOString() };
+
+    webSocketService?.emit('booking_conflict', payload);
+    localWebSocketServer?.broadcast({
+      type: 'booking_conflict',
+      payload,
+      timestamp: Date.now()
+    });
+  }
+
+  private classifyConflict(errorMessage: string): ConflictType | null {
+    if (errorMessage.includes('Booking conflict') || errorMessage.includes('were just booked by another user')) {
+      return 'booking_conflict';
+    }
+    if (errorMessage.includes('Not enough seats available') || errorMessage.includes('Insufficient seats')) {
+      return 'insufficient_seats';
+    }
+    if (errorMessage.includes('no longer exists') || errorMessage.includes('already taken')) {
+      return 'seat_taken';
+    }
+    return null;
+  }
+
+  /**
+   * Online ticket IDs are unique per booking: the first vehicle keeps the central ID,
+   * the next ones get a numbered suffix (TICKET-2, TICKET-3...)
+   */
+  onlineTicketIdFor(onlineTicketId: string | null | undefined, index: number): string | null {
+    if (!onlineTicketId) return null;
+    return index === 0 ? onlineTicketId : `${onlineTicketId}-${index + 1}`;
+  }
+
+  private generateCode(length: number): string {
+    let code = '';
+    for (let i = 0; i < length; i++) {
+      code += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+    }
+    return code;
+  }
+}
+
+export const bookingCoreService = new BookingCoreService();
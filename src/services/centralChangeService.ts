@@ -0,0 +1,220 @@
+import { prisma } from '../config/database';
+import { vehicleSyncService } from './vehicleSyncService';
+import { sessionService } from './sessionService';
+
+/**
+ * Central Change Service
+ *
+ * Applies one change of central data (staff, routes, station, vehicles, geography) to
+ * the local tables. Used for changes pushed over the central WebSocket (instant sync)
+ * and for changes pulled after downtime (delta sync), so both paths write the same way.
+ */
+
+export type CentralDataType = 'staff' | 'route' | 'station' | 'vehicle' | 'destination' | 'governorate' | 'delegation';
+
+/**
+ * Apply a 'create' | 'update' | 'delete' change; unknown data types are logged and ignored
+ */
+export async function applyCentralChange(dataType: string, operation: string, data: any, stationId: string): Promise<void> {
+  switch (dataType) {
+    case 'staff':
+      await applyStaffChange(operation, data);
+      break;
+    case 'route':
+      await applyRouteChange(operation, data);
+      break;
+    case 'station':
+      await applyStationChange(operation, data);
+      break;
+    case 'vehicle':
+      await applyVehicleChange(operation, data, stationId);
+      break;
+    case 'destination':
+    case 'governorate':
+    case 'delegation':
+      await applyGeographicChange(dataType, operation, data);
+      break;
+    default:
+      console.warn(`⚠️ Unhandled sync data type: ${dataType}`);
+  }
+}
+
+/**
+ * Handle staff sync
+ */
+async function applyStaffChange(operation: string, staffData: any): Promise<void> {
+  switch (operation) {
+    case 'create':
+      await prisma.staff.upsert({
+        where: { cin: staffData.cin },
+        update: {
+          firstName: staffData.firstName,
+          lastName: staffData.lastName,
+          phoneNumber: staffData.phoneNumber,
+          role: staffData.role,
+          isActive: staffData.isActive,
+          syncedAt: new Date()
+        },
+        create: {
+          id: staffData.id,
+          cin: staffData.cin,
+          firstName: staffData.firstName,
+          lastName: staffData.lastName,
+          phoneNumber: staffData.phoneNumber,
+          password: staffData.password || '$2b$12$default', // Placeholder password
+          role: staffData.role,
+          isActive: staffData.isActive,
+          syncedAt: new Date()
+        }
+      });
+      console.log(`✅ Staff synced: ${staffData.firstName} ${staffData.lastName} (${staffData.cin})`);
+      break;
+    case 'update':
+      await prisma.staff.update({
+        where: { id: staffData.id },
+        data: {
+          firstName: staffData.firstName,
+          lastName: staffData.lastName,
+          phoneNumber: staffData.phoneNumber,
+          role: staffData.role,
+          isActive: staffData.isActive,
+          syncedAt: new Date()
+        }
+      });
+      console.log(`✅ Staff updated: ${staffData.firstName} ${staffData.lastName}`);
+      break;
+    case 'delete':
+      // Shifts, tickets, refunds and sessions keep referencing the staff member, so the row stays
+      await prisma.staff.updateMany({
+        where: { id: staffData.id },
+        data: { isActive: false, syncedAt: new Date() }
+      });
+      await sessionService.revokeStaffSessions(staffData.id, 'Staff account removed');
+      console.log(`✅ Staff deactivated: ${staffData.id}`);
+      break;
+  }
+}
+
+/**
+ * Handle route sync
+ */
+async function applyRouteChange(operation: string, routeData: any): Promise<void> {
+  switch (operation) {
+    case 'create':
+      await prisma.route.upsert({
+        where: { id: routeData.id },
+        update: {
+          stationId: routeData.destinationStationId,
+          stationName: routeData.destinationStation?.name || 'Unknown',
+          basePrice: routeData.basePrice,
+          isActive: routeData.isActive,
+          syncedAt: new Date()
+        },
+        create: {
+          id: routeData.id,
+          stationId: routeData.destinationStationId,
+          stationName: routeData.destinationStation?.name || 'Unknown',
+          basePrice: routeData.basePrice,
+          isActive: routeData.isActive,
+          syncedAt: new Date()
+        }
+      });
+      console.log(`✅ Route synced: ${routeData.departureStation?.name} → ${routeData.destinationStation?.name}`);
+      break;
+    case 'update':
+      await prisma.route.update({
+        where: { id: routeData.id },
+        data: {
+          basePrice: routeData.basePrice,
+          isActive: routeData.isActive,
+          syncedAt: new Date()
+        }
+      });
+      console.log(`✅ Route updated: ${routeData.id}`);
+      break;
+    case 'delete':
+      await prisma.route.delete({
+        where: { id: routeData.id }
+      });
+      console.log(`✅ Route deleted: ${routeData.id}`);
+      break;
+  }
+}
+
+/**
+ * Handle station config sync 
+ */
+async function applyStationChange(operation: string, stationData: any): Promise<void> {
+  switch (operation) {
+    case 'create':
+    case 'update':
+      await prisma.stationConfig.upsert({
+        where: { stationId: stationData.id },
+        update: {
+          stationName: stationData.name,
+          governorate: stationData.governorate?.name || 'Unknown',
+          delegation: stationData.delegation?.name || 'Unknown',
+          address: stationData.address,
+          isOperational: stationData.isActive
+        },
+        create: {
+          stationId: stationData.id,
+          stationName: stationData.name,
+          governorate: stationData.governorate?.name || 'Unknown',
+          delegation: stationData.delegation?.name || 'Unknown',
+          address: stationData.address,
+          isOperational: stationData.isActive,
+          serverVersion: '1.0.0'
+        }
+      });
+      console.log(`✅ Station config synced: ${stationData.name}`);
+      break;
+    case 'delete':
+      await prisma.stationConfig.delete({
+        where: { stationId: stationData.id }
+      });
+      console.log(`✅ Station config deleted: ${stationData.id}`);
+      break;
+  }
+}
+
+/**
+ * Handle vehicle sync (through the vehicle sync service)
+ */
+async function applyVehicleChange(operation: string, vehicleData: any, stationId: string): Promise<void> {
+  switch (operation) {
+    case 'create':
+    case 'update':
+      await vehicleSyncService.handleVehicleUpdate(vehicleData, stationId || 'unknown');
+      break;
+    case 'delete':
+      await vehicleSyncService.handleVehicleDelete(vehicleData.id);
+      break;
+  }
+}
+
+/**
+ * Handle geographic data sync (destinations, governorates, delegations)
+ * Note: Local node stores these as strings, not separate models
+ */
+async function applyGeographicChange(dataType: string, operation: string, data: any): Promise<void> {
+  // For the local node, geographic data is stored as strings in other models
+  // We'll log this for now and could update related records if needed
+  console.log(`📍 Geographic ${dataType} ${operation}: ${data.name || data.id} (stored as strings in local models)`);
+  
+  // Could potentially update route governorate/delegation fields if needed
+  if (dataType === 'governorate' || dataType === 'delegation') {
+    // Update route records that reference this geographic data
+    try {
+      if (operation === 'update' && dataType === 'governorate') {
+        await prisma.route.updateMany({
+          where: { governorate: data.oldName || data.name },
+          data: { governorate: data.name }
+        });
+      }
+      // Similar logic could be added for delegation updates
+    } catch (error) {
+      console.warn(`⚠️ Could not update geographic reference: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import type { PrismaClient } from '@prisma/client';
+import { ConcurrencyManager } from './concurrencyManager';
+
+/**
+ * Database stand-in holding operations in memory; vehicle updates go through `updateVehicle`
+ */
+const createDb = (updateVehicle: (args: any) => Promise<any> = async ({ data }) => data) => {
+  const operations = new Map<string, any>();
+  const db = {
+    operations,
+    resourceLock: {
+      create: async ({ data }: any) => data,
+      deleteMany: async () => ({ count: 0 }),
+      findUnique: async () => null,
+      findMany: async () => []
+    },
+    concurrencyOperation: {
+      upsert: async ({ where, create, update }: any) => {
+        const record = { ...(operations.get(where.id) || create), ...update };
+        operations.set(where.id, record);
+        return record;
+      },
+      update: async ({ where, data }: any) => {
+        const record = { ...operations.get(where.id), ...data };
+        operations.set(where.id, record);
+        return record;
+      },
+      findMany: async ({ where }: any) => Array.from(operations.values())
+        .filter(record => where.status.in.includes(record.status))
+    },
+    vehicle: { update: updateVehicle },
+    booking: {
+      findUnique: async ({ where }: any) => ({ id: where.id, paymentStatus: 'PENDING' }),
+      update: async ({ where, data }: any) => ({ id: where.id, ...data })
+    },
+    $transaction: async (run: (tx: any) => Promise<any>) => run(db)
+  };
+  return db;
+};
+
+const startManager = (t: { after: (fn: () => void) => void }, db: ReturnType<typeof createDb>) => {
+  const manager = new ConcurrencyManager(db as unknown as PrismaClient);
+  t.after(() => manager.cleanup());
+  return manager;
+};
+
+test('force-releasing a lock unblocks the operations waiting on it', async (t) => {
+  let finishStuckUpdate: () => void = () => {};
+  const stuck = new Promise<void>(resolve => { finishStuckUpdate = resolve; });
+  t.after(() => finishStuckUpdate());
+
+  // The status update hangs while holding the vehicle lock, like a client that went away mid-operation
+  const db = createDb(async ({ data }) => {
+    await stuck;
+    return data;
+  });
+  const manager = startManager(t, db);
+
+  const lockAcquired = once(manager, 'lock_acquired');
+  const first = await manager.submitOperation('vehicle_status', 'vehicle-1', 'client-1', { vehicleId: 'vehicle-1', status: 'available' }, 8);
+  assert.equal(first.status, 'immediate');
+  await lockAcquired;
+
+  const waiting = manager.submitAndWait('payment', 'vehicle-1', 'client-2', { bookingId: 'booking-1', paymentMethod: 'CASH' });
+  let settled = false;
+  waiting.then(() => { settled = true; }, () => { settled = true; });
+
+  await new Promise(resolve => setTimeout(resolve, 200));
+  assert.equal(settled, false, 'the payment must wait for the vehicle lock');
+
+  // What DELETE /api/concurrency/locks/:resourceId does
+  const released = await manager.forceReleaseLock('vehicle-1');
+  assert.equal(released?.operationId, first.operationId);
+
+  assert.deepEqual(await waiting, {
+    success: true,
+    data: { bookingId: 'booking-1', paymentStatus: 'PAID', paymentMethod: 'CASH' }
+  });
+});
+
+test('startup recovery replays queued operations that are safe to repeat and fails the rest', async (t) => {
+  const db = createDb();
+  const stored = (id: string, type: string, status: string) => db.operations.set(id, {
+    id, type, status, resourceId: 'vehicle-1', clientId: 'client-1', priority: 1,
+    data: JSON.stringify({ bookingId: 'booking-1' }), retryCount: 0, createdAt: new Date()
+  });
+  stored('queued-payment', 'payment', 'pending');
+  stored('queued-booking', 'booking', 'pending');
+  stored('running-payment', 'payment', 'processing');
+
+  const manager = startManager(t, db);
+
+  const result = await manager.recoverInterruptedOperations();
+  assert.deepEqual(result, { replayed: 1, failed: 2, locksCleared: 0 });
+
+  assert.equal(db.operations.get('queued-payment').retryCount, 1);
+  assert.notEqual(db.operations.get('queued-payment').status, 'failed');
+  assert.equal(db.operations.get('queued-booking').status, 'failed');
+  assert.match(db.operations.get('running-payment').error, /while running/);
+});
@@ -1,105 +1,224 @@
 import * as cron from 'node-cron';
+import { addDays, startOfDay, startOfWeek } from 'date-fns';
+import { prisma } from '../config/database';
+import { env } from '../config/environment';
 import { dayPassService } from './dayPassService';
+import { idempotencyService } from './idempotencyService';
+import { reportService } from './reportService';
+import { dailyLedgerService } from './dailyLedgerService';
+import { sessionService } from './sessionService';
 import { LoggingService } from './loggingService';
 
 const loggingService = new LoggingService();
 
+const TIMEZONE = 'Africa/Tunis';
+
+// Days of missing ledgers and close-of-day reports filled in when the server was down
+const CLOSE_OF_DAY_BACKFILL_DAYS = 7;
+
+export type JobTrigger = 'SCHEDULE' | 'STARTUP' | 'MANUAL';
+
+export interface CronJobDefinition {
+  name: string;
+  description: string;
+  schedule: string;
+  /** Whether a run was missed while the server was down and should happen at startup */
+  catchUp?: (lastRunAt: Date | null, now: Date) => boolean;
+  /** Does the work; the returned summary is stored as the job's last result */
+  run: () => Promise<Record<string, any>>;
+}
+
+export interface CronJobStatus {
+  name: string;
+  description: string;
+  schedule: string;
+  isPaused: boolean;
+  isRunning: boolean;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  lastFinishedAt: Date | null;
+  lastStatus: string | null;
+  lastError: string | null;
+  lastTrigger: string | null;
+  lastResult: any;
+}
+
+export interface JobRunResult {
+  success: boolean;
+  result?: Record<string, any>;
+  error?: string;
+}
+
 class CronService {
+  private jobs: Map<string, CronJobDefinition> = new Map();
   private tasks: Map<string, cron.ScheduledTask> = new Map();
+  private running: Set<string> = new Set();
+
+  constructor() {
+    this.registerBuiltInJobs();
+  }
 
   /**
-   * Initialize all cron jobs
+   * Add a job to the registry (before initialize)
    */
-  initialize() {
-    console.log('🕐 Initializing cron jobs...');
-    
-    // Schedule day pass expiration at midnight every day
-    this.scheduleDayPassExpiration();
-    // Run a catch-up expiration once at startup (in case the server was down at midnight)
-    this.triggerDayPassExpiration().catch(() => {});
-    
-    console.log('✅ Cron jobs initialized successfully');
+  register(job: CronJobDefinition) {
+    if (!cron.validate(job.schedule)) {
+      throw new Error(`Invalid cron expression for job ${job.name}: ${job.schedule}`);
+    }
+    this.jobs.set(job.name, job);
   }
 
   /**
-   * Schedule day pass expiration at midnight
+   * Initialize all cron jobs: schedule them (paused jobs stay stopped) and run the missed ones
    */
-  private scheduleDayPassExpiration() {
-    // Run at 00:00:00 every day
-    const task = cron.schedule('0 0 * * *', async () => {
-      console.log('🕛 Running daily day pass expiration...');
-      
-      try {
-        const result = await dayPassService.expireAllDayPasses();
-        
-        await loggingService.log('CRON_DAY_PASS_EXPIRATION', {
-          expiredCount: result.expiredCount,
-          timestamp: new Date().toISOString()
-        });
-        
-        console.log(`✅ Day pass expiration completed. ${result.expiredCount} passes expired.`);
-        
-      } catch (error) {
-        console.error('❌ Error during day pass expiration:', error);
-        
-        await loggingService.log('CRON_DAY_PASS_EXPIRATION_ERROR', {
-          error: error instanceof Error ? error.message : 'Unknown error',
-          timestamp: new Date().toISOString()
-        });
-      }
-    }, {
-      timezone: 'Africa/Tunis'
+  async initialize() {
+    console.log('🕐 Initializing cron jobs...');
+
+    // A run cut short by the last shutdown never recorded its outcome
+    await prisma.scheduledJob.updateMany({
+      where: { lastStatus: 'RUNNING' },
+      data: { lastStatus: 'FAILED', lastError: 'Interrupted by server shutdown', lastFinishedAt: new Date() }
     });
 
-    this.tasks.set('dayPassExpiration', task);
-    task.start();
-    
-    console.log('📅 Day pass expiration scheduled for midnight (Africa/Tunis timezone)');
+    const states = await prisma.scheduledJob.findMany();
+    const stateByName = new Map(states.map(state => [state.name, state]));
+    const now = new Date();
+    const catchUps: string[] = [];
+
+    for (const job of this.jobs.values()) {
+      const state = stateByName.get(job.name);
+      const task = cron.createTask(job.schedule, () => this.runJob(job.name, 'SCHEDULE'), { timezone: TIMEZONE, name: job.name });
+      this.tasks.set(job.name, task);
+
+      if (state?.isPaused) {
+        console.log(`⏸️ Cron job paused: ${job.name}`);
+        continue;
+      }
+
+      task.start();
+      if (job.catchUp?.(state?.lastRunAt ?? null, now)) {
+        catchUps.push(job.name);
+      }
+    }
+
+    // Catch-up runs happen in the background, one after the other, so startup is not held up
+    if (catchUps.length > 0) {
+      console.log(`⏩ Catching up missed cron jobs: ${catchUps.join(', ')}`);
+      (async () => {
+        for (const name of catchUps) {
+          await this.runJob(name, 'STARTUP');
+        }
+      })().catch(() => {});
+    }
+
+    console.log(`✅ ${this.tasks.size} cron jobs initialized (${TIMEZONE} timezone)`);
   }
 
   /**
-   * Manually trigger day pass expiration (for testing)
+   * Run a job now, recording its outcome. A job never runs twice at the same time.
    */
-  async triggerDayPassExpiration() {
-    console.log('🔄 Manually triggering day pass expiration...');
-    
+  async runJob(name: string, trigger: JobTrigger): Promise<JobRunResult> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      return { success: false, error: `Unknown job: ${name}` };
+    }
+    if (this.running.has(name)) {
+      return { success: false, error: `Job ${name} is already running` };
+    }
+
+    this.running.add(name);
+    const startedAt = new Date();
+
     try {
-      const result = await dayPassService.expireAllDayPasses();
-      
-      await loggingService.log('MANUAL_DAY_PASS_EXPIRATION', {
-        expiredCount: result.expiredCount,
-        timestamp: new Date().toISOString()
+      await prisma.scheduledJob.upsert({
+        where: { name },
+        create: { name, lastRunAt: startedAt, lastStatus: 'RUNNING', lastTrigger: trigger },
+        update: { lastRunAt: startedAt, lastStatus: 'RUNNING', lastTrigger: trigger, lastError: null }
       });
-      
-      console.log(`✅ Manual day pass expiration completed. ${result.expiredCount} passes expired.`);
-      
-      return result;
-      
+
+      const result = await job.run();
+
+      await prisma.scheduledJob.update({
+        where: { name },
+        data: { lastStatus: 'SUCCESS', lastFinishedAt: new Date(), lastResult: JSON.stringify(result), lastError: null }
+      });
+
+      console.log(`✅ Cron job ${name} completed in ${Date.now() - startedAt.getTime()}ms`, result);
+      return { success: true, result };
     } catch (error) {
-      console.error('❌ Error during manual day pass expiration:', error);
-      
-      await loggingService.log('MANUAL_DAY_PASS_EXPIRATION_ERROR', {
-        error: error instanceof Error ? error.message : 'Unknown error',
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Cron job ${name} failed:`, error);
+
+      await prisma.scheduledJob.update({
+        where: { name },
+        data: { lastStatus: 'FAILED', lastFinishedAt: new Date(), lastError: message, lastResult: null }
+      }).catch(() => {});
+
+      await loggingService.log('CRON_JOB_FAILED', {
+        job: name,
+        trigger,
+        error: message,
         timestamp: new Date().toISOString()
       });
-      
-      throw error;
+
+      return { success: false, error: message };
+    } finally {
+      this.running.delete(name);
     }
   }
 
+  /**
+   * Stop scheduling a job until it is resumed (survives restarts)
+   */
+  async pauseJob(name: string): Promise<boolean> {
+    if (!this.jobs.has(name)) return false;
+
+    await prisma.scheduledJob.upsert({ where: { name }, create: { name, isPaused: true }, update: { isPaused: true } });
+    await this.tasks.get(name)?.stop();
+    console.log(`⏸️ Cron job paused: ${name}`);
+    return true;
+  }
+
+  async resumeJob(name: string): Promise<boolean> {
+    if (!this.jobs.has(name)) return false;
+
+    await prisma.scheduledJob.upsert({ where: { name }, create: { name, isPaused: false }, update: { isPaused: false } });
+    await this.tasks.get(name)?.start();
+    console.log(`▶️ Cron job resumed: ${name}`);
+    return true;
+  }
+
+  hasJob(name: string): boolean {
+    return this.jobs.has(name);
+  }
+
   /**
    * Get status of all cron jobs
    */
-  getStatus() {
-    const status: { [key: string]: { running: boolean; nextRun?: Date | undefined } } = {};
-    
-    for (const [name, task] of this.tasks) {
-      status[name] = {
-        running: task.getStatus() === 'scheduled'
+  async getStatus(): Promise<CronJobStatus[]> {
+    const states = await prisma.scheduledJob.findMany();
+    const stateByName = new Map(states.map(state => [state.name, state]));
+
+    return Array.from(this.jobs.values()).map(job => {
+      const state = stateByName.get(job.name);
+      const task = this.tasks.get(job.name);
+      const isPaused = state?.isPaused ?? false;
+
+      return {
+        name: job.name,
+        description: job.description,
+        schedule: job.schedule,
+        isPaused,
+        isRunning: this.running.has(job.name),
+        nextRunAt: task && !isPaused ? task.getNextRun() : null,
+        lastRunAt: state?.lastRunAt ?? null,
+        lastFinishedAt: state?.lastFinishedAt ?? null,
+        lastStatus: state?.lastStatus ?? null,
+        lastError: state?.lastError ?? null,
+        lastTrigger: state?.lastTrigger ?? null,
+        lastResult: state?.lastResult ? JSON.parse(state.lastResult) : null
       };
-    }
-    
-    return status;
+    });
   }
 
   /**
@@ -107,24 +226,116 @@ class CronService {
    */
   stop() {
     console.log('🛑 Stopping all cron jobs...');
-    
+
     for (const [name, task] of this.tasks) {
-      task.stop();
+      task.destroy();
       console.log(`✅ Stopped cron job: ${name}`);
     }
-    
+
     this.tasks.clear();
   }
 
   /**
    * Restart all cron jobs
    */
-  restart() {
+  async restart() {
     console.log('🔄 Restarting all cron jobs...');
-    
+
     this.stop();
-    this.initialize();
+    await this.initialize();
+  }
+
+  private registerBuiltInJobs() {
+    // Midnight expiration; always re-run at startup in case the server was down at midnight
+    this.register({
+      name: 'dayPassExpiration',
+      description: 'Expire day passes that are no longer valid',
+      schedule: '0 0 * * *',
+      catchUp: () => true,
+      run: async () => {
+        const result = await dayPassService.expireAllDayPasses();
+        return { expiredCount: result.expiredCount };
+      }
+    });
+
+    this.register({
+      name: 'idempotencyKeyPurge',
+      description: 'Remove expired idempotency keys',
+      schedule: '15 * * * *',
+      run: async () => ({ purgedCount: await idempotencyService.purgeExpired() })
+    });
+
+    this.register({
+      name: 'closeOfDayReport',
+      description: 'Freeze the daily ledger of closed days and archive their financial report (last week included)',
+      schedule: '5 0 * * *',
+      catchUp: (lastRunAt, now) => !lastRunAt || lastRunAt < startOfDay(now),
+      run: async () => {
+        const frozenDays = await dailyLedgerService.findUnfrozenDays(CLOSE_OF_DAY_BACKFILL_DAYS);
+        for (const day of frozenDays) {
+          await dailyLedgerService.freeze(day);
+        }
+
+        // Reports are built after freezing so they read the ledger
+        const today = startOfDay(new Date());
+        const archivedIds: string[] = [];
+        for (let daysAgo = CLOSE_OF_DAY_BACKFILL_DAYS; daysAgo >= 1; daysAgo--) {
+          const day = addDays(today, -daysAgo);
+          const archived = await prisma.reportArchive.findUnique({
+            where: { type_periodStart: { type: 'CLOSE_OF_DAY', periodStart: day } },
+            select: { id: true }
+          });
+          if (archived) continue;
+
+          const { id } = await reportService.archive('CLOSE_OF_DAY', { type: 'daily', start: day, end: addDays(day, 1) });
+          archivedIds.push(id);
+        }
+
+        return { ledgersFrozen: frozenDays.length, archivedCount: archivedIds.length, archivedIds };
+      }
+    });
+
+    this.register({
+      name: 'weeklySummary',
+      description: 'Archive the financial report of the week that just ended',
+      schedule: '30 0 * * 1',
+      catchUp: (lastRunAt, now) => !lastRunAt || lastRunAt < startOfWeek(now, { weekStartsOn: 1 }),
+      run: async () => {
+        const start = startOfWeek(addDays(new Date(), -7), { weekStartsOn: 1 });
+        const { id, report } = await reportService.archive('WEEKLY_SUMMARY', { type: 'weekly', start, end: addDays(start, 7) });
+        return { archivedId: id, from: report.period.from, to: report.period.to, totalIncome: report.summary.current.totalIncome };
+      }
+    });
+
+    this.register({
+      name: 'staleSessionCleanup',
+      description: 'Close expired and idle sessions, delete old closed sessions',
+      schedule: '*/30 * * * *',
+      catchUp: () => true,
+      run: () => sessionService.cleanupStaleSessions()
+    });
+
+    this.register({
+      name: 'logPruning',
+      description: `Delete operation logs, synced sync-queue entries and finished concurrency operations older than ${env.LOG_RETENTION_DAYS} days`,
+      schedule: '45 3 * * *',
+      catchUp: (lastRunAt, now) => !lastRunAt || now.getTime() - lastRunAt.getTime() > 24 * 60 * 60 * 1000,
+      run: async () => {
+        const cutoff = addDays(new Date(), -env.LOG_RETENTION_DAYS);
+        const [operationLogs, syncQueue, concurrencyOperations] = await Promise.all([
+          prisma.operationLog.deleteMany({ where: { createdAt: { lt: cutoff } } }),
+          prisma.syncQueue.deleteMany({ where: { syncStatus: 'SYNCED', createdAt: { lt: cutoff } } }),
+          // Pending and running operations have no completedAt and are left for startup recovery
+          prisma.concurrencyOperation.deleteMany({ where: { completedAt: { lt: cutoff } } })
+        ]);
+        return {
+          operationLogsDeleted: operationLogs.count,
+          syncQueueDeleted: syncQueue.count,
+          concurrencyOperationsDeleted: concurrencyOperations.count
+        };
+      }
+    });
   }
 }
 
-export const cronService = new CronService();
\ No newline at end of file
+export const cronService = new CronService();
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { hashLedger, HashedLedger } from './dailyLedgerService';
+
+const ledger: HashedLedger = {
+  stationId: 'station-tunis',
+  businessDate: new Date(2026, 2, 1),
+  bookings: 120,
+  seats: 310,
+  bookingRevenue: 3255.5,
+  serviceFees: 155,
+  totalIncome: 3300.5,
+  data: JSON.stringify({ bookingRevenue: 3255.5, bookings: 120 })
+};
+
+test('the same ledger always hashes the same', () => {
+  assert.equal(hashLedger(ledger), hashLedger({ ...ledger, businessDate: new Date(ledger.businessDate) }));
+  assert.match(hashLedger(ledger), /^[0-9a-f]{64}$/);
+});
+
+test('editing a total column breaks the hash', () => {
+  for (const field of ['bookings', 'seats', 'bookingRevenue', 'serviceFees', 'totalIncome'] as const) {
+    assert.notEqual(hashLedger({ ...ledger, [field]: ledger[field] + 1 }), hashLedger(ledger), field);
+  }
+});
+
+test('editing the figures, the day or the station breaks the hash', () => {
+  const hash = hashLedger(ledger);
+  assert.notEqual(hashLedger({ ...ledger, data: JSON.stringify({ bookingRevenue: 3000, bookings: 120 }) }), hash);
+  assert.notEqual(hashLedger({ ...ledger, businessDate: new Date(2026, 2, 2) }), hash);
+  assert.notEqual(hashLedger({ ...ledger, stationId: 'station-sfax' }), hash);
+});
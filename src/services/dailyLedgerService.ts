@@ -0,0 +1,230 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { addDays, startOfDay } from 'date-fns';
+import { prisma } from '../config/database';
+import { roundAmount } from '../utils/reporting';
+import { reportService, PeriodFigures } from './reportService';
+import { enqueueSyncChange } from './syncService';
+
+/**
+ * Daily Ledger Service
+ *
+ * Freezes the figures of a closed business day into a DailyLedger row. A ledger is
+ * written once and never updated; its content hash, which covers the total columns
+ * as well as the full figures, lets anyone check the stored figures were not edited
+ * afterwards. The frozen row is queued for central sync.
+ */
+
+export interface StaffDayTotals {
+  label: string;
+  bookings: number;
+  seats: number;
+  bookingRevenue: number;
+  dayPassesSold: number;
+  dayPassIncome: number;
+  entryTickets: number;
+  entryTicketFees: number;
+  exitTickets: number;
+  refunds: number;
+  refundAmount: number;
+}
+
+export interface DailyLedgerData extends PeriodFigures {
+  tripsByDestination: Record<string, { label: string; trips: number; seats: number }>;
+  staffTotals: Record<string, StaffDayTotals>;
+}
+
+// Everything the content hash covers
+export type HashedLedger = {
+  stationId: string;
+  businessDate: Date;
+  bookings: number;
+  seats: number;
+  bookingRevenue: number;
+  serviceFees: number;
+  totalIncome: number;
+  data: string;
+};
+
+/**
+ * Content hash of a frozen ledger, checked again whenever the ledger is read
+ */
+export function hashLedger(ledger: HashedLedger): string {
+  const totals = [ledger.bookings, ledger.seats, ledger.bookingRevenue, ledger.serviceFees, ledger.totalIncome].join('|');
+  return crypto
+    .createHash('sha256')
+    .update(`${ledger.stationId}|${ledger.businessDate.toISOString()}|${totals}|${ledger.data}`)
+    .digest('hex');
+}
+
+class DailyLedgerService {
+  /**
+   * Freeze a closed day; returns the existing ledger when the day is already frozen
+   */
+  async freeze(day: Date): Promise<{ ledger: any; created: boolean }> {
+    const businessDate = startOfDay(day);
+    if (businessDate >= startOfDay(new Date())) {
+      throw new Error('Only days that have ended can be frozen');
+    }
+
+    const existing = await prisma.dailyLedger.findUnique({ where: { businessDate } });
+    if (existing) {
+      return { ledger: this.toPublic(existing), created: false };
+    }
+
+    const stationConfig = await prisma.stationConfig.findFirst({ select: { stationId: true } });
+    if (!stationConfig) {
+      throw new Error('Station configuration not found');
+    }
+
+    const data = await this.collect(businessDate, addDays(businessDate, 1));
+    const serialized = JSON.stringify(data);
+
+    const content: HashedLedger = {
+      stationId: stationConfig.stationId,
+      businessDate,
+      bookings: data.bookings,
+      seats: data.seats,
+      bookingRevenue: data.bookingRevenue,
+      serviceFees: data.serviceFees,
+      totalIncome: roundAmount(data.bookingRevenue + data.refunds.retainedAmount + data.dayPassIncome + data.entryTicketFees),
+      data: serialized
+    };
+
+    try {
+      const ledger = await prisma.$transaction(async (tx) => {
+        const created = await tx.dailyLedger.create({
+          data: { ...content, contentHash: hashLedger(content) }
+        });
+        await enqueueSyncChange('daily_ledgers', created.id, 'INSERT', { ...created, data }, tx);
+        return created;
+      });
+
+      console.log(`📒 Daily ledger frozen for ${businessDate.toDateString()}: ${ledger.totalIncome} TND`);
+      return { ledger: this.toPublic(ledger), created: true };
+    } catch (error) {
+      // Frozen concurrently by another run
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const ledger = await prisma.dailyLedger.findUnique({ where: { businessDate } });
+        if (ledger) return { ledger: this.toPublic(ledger), created: false };
+      }
+      throw error;
+    }
+  }
+
+  async getLedger(day: Date): Promise<any | null> {
+    const ledger = await prisma.dailyLedger.findUnique({ where: { businessDate: startOfDay(day) } });
+    return ledger ? this.toPublic(ledger) : null;
+  }
+
+  async listLedgers(from: Date, to: Date): Promise<any[]> {
+    const ledgers = await prisma.dailyLedger.findMany({
+      where: { businessDate: { gte: from, lt: to } },
+      orderBy: { businessDate: 'desc' },
+      select: {
+        id: true, stationId: true, businessDate: true, bookings: true, seats: true, bookingRevenue: true,
+        serviceFees: true, totalIncome: true, data: true, contentHash: true, frozenAt: true
+      }
+    });
+    // Totals only, but still checked against the hash
+    return ledgers.map(({ data, ...ledger }) => ({
+      ...ledger,
+      hashValid: hashLedger({ ...ledger, data }) === ledger.contentHash
+    }));
+  }
+
+  /**
+   * Days before today, within the last `days`, that have no ledger yet
+   */
+  async findUnfrozenDays(days: number): Promise<Date[]> {
+    const today = startOfDay(new Date());
+    const from = addDays(today, -days);
+    const frozen = await prisma.dailyLedger.findMany({
+      where: { businessDate: { gte: from, lt: today } },
+      select: { businessDate: true }
+    });
+    const frozenTimes = new Set(frozen.map(ledger => ledger.businessDate.getTime()));
+
+    const missing: Date[] = [];
+    for (let day = from; day < today; day = addDays(day, 1)) {
+      if (!frozenTimes.has(day.getTime())) missing.push(day);
+    }
+    return missing;
+  }
+
+  private async collect(start: Date, end: Date): Promise<DailyLedgerData> {
+    const range = { gte: start, lt: end };
+    const [figures, trips, bookings, dayPasses, entryTickets, exitTickets, refunds, staff] = await Promise.all([
+      reportService.collectFigures(start, end),
+      prisma.trip.findMany({ where: { startTime: range }, select: { destinationId: true, destinationName: true, seatsBooked: true } }),
+      prisma.booking.groupBy({
+        by: ['createdBy'],
+        where: { createdAt: range, paymentStatus: { in: ['PAID', 'COMPLETED'] }, createdBy: { not: null } },
+        _count: { id: true },
+        _sum: { seatsBooked: true, totalAmount: true }
+      }),
+      prisma.dayPass.groupBy({ by: ['createdBy'], where: { purchaseDate: range }, _count: { id: true }, _sum: { price: true } }),
+      prisma.driverEntryTicket.groupBy({ by: ['createdBy'], where: { entryTime: range }, _count: { id: true }, _sum: { ticketPrice: true } }),
+      prisma.driverExitTicket.groupBy({ by: ['createdBy'], where: { exitTime: range }, _count: { id: true } }),
+      prisma.refund.groupBy({ by: ['refundedBy'], where: { createdAt: range, status: 'COMPLETED' }, _count: { id: true }, _sum: { amount: true } }),
+      prisma.staff.findMany({ select: { id: true, firstName: true, lastName: true } })
+    ]);
+
+    const tripsByDestination: DailyLedgerData['tripsByDestination'] = {};
+    for (const trip of trips) {
+      const entry = tripsByDestination[trip.destinationId] || { label: trip.destinationName, trips: 0, seats: 0 };
+      entry.trips += 1;
+      entry.seats += trip.seatsBooked;
+      tripsByDestination[trip.destinationId] = entry;
+    }
+
+    const names = new Map(staff.map(member => [member.id, `${member.firstName} ${member.lastName}`]));
+    const staffTotals: Record<string, StaffDayTotals> = {};
+    const totalsFor = (staffId: string): StaffDayTotals => {
+      staffTotals[staffId] = staffTotals[staffId] || {
+        label: names.get(staffId) || staffId,
+        bookings: 0, seats: 0, bookingRevenue: 0, dayPassesSold: 0, dayPassIncome: 0,
+        entryTickets: 0, entryTicketFees: 0, exitTickets: 0, refunds: 0, refundAmount: 0
+      };
+      return staffTotals[staffId]!;
+    };
+
+    for (const row of bookings) {
+      if (!row.createdBy) continue;
+      const totals = totalsFor(row.createdBy);
+      totals.bookings = row._count.id;
+      totals.seats = row._sum.seatsBooked || 0;
+      totals.bookingRevenue = roundAmount(row._sum.totalAmount || 0);
+    }
+    for (const row of dayPasses) {
+      const totals = totalsFor(row.createdBy);
+      totals.dayPassesSold = row._count.id;
+      totals.dayPassIncome = roundAmount(row._sum.price || 0);
+    }
+    for (const row of entryTickets) {
+      const totals = totalsFor(row.createdBy);
+      totals.entryTickets = row._count.id;
+      totals.entryTicketFees = roundAmount(row._sum.ticketPrice || 0);
+    }
+    for (const row of exitTickets) {
+      totalsFor(row.createdBy).exitTickets = row._count.id;
+    }
+    for (const row of refunds) {
+      const totals = totalsFor(row.refundedBy);
+      totals.refunds = row._count.id;
+      totals.refundAmount = roundAmount(row._sum.amount || 0);
+    }
+
+    return { ...figures, tripsByDestination, staffTotals };
+  }
+
+  private toPublic(ledger: HashedLedger & { contentHash: string } & Record<string, any>) {
+    return {
+      ...ledger,
+      data: JSON.parse(ledger.data) as DailyLedgerData,
+      hashValid: hashLedger(ledger) === ledger.contentHash
+    };
+  }
+}
+
+export const dailyLedgerService = new DailyLedgerService();
@@ -1,7 +1,8 @@
-import { PrismaClient } from '@prisma/client';
+import { prisma } from '../config/database';
 import { LoggingService } from './loggingService';
+import { enqueueSyncChange } from './syncService';
+import { shiftService } from './shiftService';
 
-const prisma = new PrismaClient();
 const loggingService = new LoggingService();
 
 export interface DayPassData {
@@ -9,6 +10,23 @@ export interface DayPassData {
   vehicleId: string;
   licensePlate: string;
   createdBy: string;
+  productCode?: string | undefined; // Defaults to the single day pass
+}
+
+export interface DayPassProductData {
+  code: string;
+  name: string;
+  durationDays: number;
+  price: number;
+  isActive?: boolean | undefined;
+}
+
+export interface DayPassProductStats {
+  code: string;
+  name: string;
+  durationDays: number;
+  sold: number;
+  revenue: number;
 }
 
 export interface DayPassValidationResult {
@@ -18,51 +36,56 @@ export interface DayPassValidationResult {
 }
 
 class DayPassService {
-  private readonly DAY_PASS_PRICE = 2.0; // 2 TND
+  private readonly DAY_PASS_PRICE = 2.0; // 2 TND, price of the default single day product
+  private readonly DEFAULT_PRODUCT_CODE = 'DAY';
 
   /**
-   * Purchase a day pass for a driver/vehicle
+   * Purchase a pass (single day, weekly, monthly or N-day product) for a driver/vehicle
    */
   async purchaseDayPass(data: DayPassData): Promise<{ success: boolean; dayPass?: any; error?: string }> {
     try {
+      const product = await this.getProductByCode(data.productCode || this.DEFAULT_PRODUCT_CODE);
+      if (!product || !product.isActive) {
+        return {
+          success: false,
+          error: `Produit de pass introuvable ou inactif: ${data.productCode}`
+        };
+      }
+
       const now = new Date();
       const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
+      const endDate = new Date(today);
+      endDate.setDate(endDate.getDate() + product.durationDays);
 
-      // Check if driver already has a valid day pass for today
-      const existingDayPass = await prisma.dayPass.findFirst({
-        where: {
-          driverId: data.driverId,
-          purchaseDate: {
-            gte: today,
-            lt: tomorrow
-          },
-          isActive: true,
-          isExpired: false
-        }
-      });
+      // Check if driver already has a pass covering today
+      const existingDayPass = await this.findCurrentPass(data.driverId, now);
 
       if (existingDayPass) {
         return {
           success: false,
-          error: 'Le chauffeur a déjà un pass journalier valide pour aujourd\'hui'
+          error: `Le chauffeur a déjà un pass valide jusqu'au ${existingDayPass.validUntil.toLocaleDateString('fr-FR')}`
         };
       }
 
+      // Day pass sales are recorded against the seller's open shift (if any)
+      const shiftId = await shiftService.getOpenShiftId(data.createdBy);
+
       // Create new day pass
       const dayPass = await prisma.dayPass.create({
         data: {
           driverId: data.driverId,
           vehicleId: data.vehicleId,
           licensePlate: data.licensePlate,
-          price: this.DAY_PASS_PRICE,
+          productId: product.id,
+          durationDays: product.durationDays,
+          price: product.price,
           purchaseDate: now,
           validFrom: today, // 00:00:00 today
-          validUntil: new Date(tomorrow.getTime() - 1), // 23:59:59 today
+          validUntil: new Date(endDate.getTime() - 1), // 23:59:59 on the last day
           isActive: true,
           isExpired: false,
-          createdBy: data.createdBy
+          createdBy: data.createdBy,
+          shiftId
         },
         include: {
           driver: {
@@ -85,6 +108,9 @@ class DayPassService {
         }
       });
 
+      const { driver: _driver, vehicle: _vehicle, createdByStaff: _createdByStaff, ...dayPassRecord } = dayPass;
+      await enqueueSyncChange('day_passes', dayPass.id, 'INSERT', dayPassRecord);
+
       // Update driver's day pass status
       await prisma.driver.update({
         where: { id: data.driverId },
@@ -99,7 +125,8 @@ class DayPassService {
         driverId: data.driverId,
         vehicleId: data.vehicleId,
         licensePlate: data.licensePlate,
-        price: this.DAY_PASS_PRICE,
+        productCode: product.code,
+        price: product.price,
         validUntil: dayPass.validUntil,
         createdBy: data.createdBy
       });
@@ -130,20 +157,17 @@ class DayPassService {
   async validateDayPass(driverId: string): Promise<DayPassValidationResult> {
     try {
       const now = new Date();
-      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
 
+      // Latest active pass that has started; multi-day passes stay valid after their purchase day
       const dayPass = await prisma.dayPass.findFirst({
         where: {
           driverId,
-          purchaseDate: {
-            gte: today,
-            lt: new Date(today.getTime() + 24 * 60 * 60 * 1000) // Tomorrow
-          },
+          validFrom: { lte: now },
           isActive: true,
           isExpired: false
         },
         orderBy: {
-          createdAt: 'desc'
+          validUntil: 'desc'
         }
       });
 
@@ -207,6 +231,13 @@ class DayPassService {
           isExpired: false
         },
         include: {
+          product: {
+            select: {
+              code: true,
+              name: true,
+              durationDays: true
+            }
+          },
           driver: {
             select: {
               cin: true
@@ -220,7 +251,7 @@ class DayPassService {
           }
         },
         orderBy: {
-          createdAt: 'desc'
+          validUntil: 'desc'
         }
       });
 
@@ -236,7 +267,7 @@ class DayPassService {
   }
 
   /**
-   * Get all active day passes for today
+   * Get all active passes valid today (including multi-day passes bought earlier)
    */
   async getTodayDayPasses(): Promise<any[]> {
     try {
@@ -246,13 +277,17 @@ class DayPassService {
 
       return await prisma.dayPass.findMany({
         where: {
-          purchaseDate: {
-            gte: startOfDay,
-            lt: endOfDay
-          },
+          ...this.validOnDayWhere(startOfDay, endOfDay),
           isActive: true
         },
         include: {
+          product: {
+            select: {
+              code: true,
+              name: true,
+              durationDays: true
+            }
+          },
           driver: {
             select: {
               cin: true
@@ -324,8 +359,12 @@ class DayPassService {
 
         const driverIds = Array.from(new Set(dayPassesToExpire.map(dp => dp.driverId)));
         if (driverIds.length > 0) {
+          // Keep the cache for drivers still covered by another (longer) pass
           await tx.driver.updateMany({
-            where: { id: { in: driverIds } },
+            where: {
+              id: { in: driverIds },
+              dayPasses: { none: { isActive: true, isExpired: false, validUntil: { gte: today } } }
+            },
             data: { hasValidDayPass: false, dayPassExpiresAt: null }
           });
         }
@@ -356,20 +395,23 @@ class DayPassService {
     totalRevenue: number;
     activePasses: number;
     expiredPasses: number;
+    validPasses: number;
+    byProduct: DayPassProductStats[];
   }> {
     try {
       const targetDate = date || new Date();
       const startOfDay = new Date(targetDate.getFullYear(), targetDate.getMonth(), targetDate.getDate());
       const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000);
 
-      const [totalSold, activePasses, expiredPasses] = await Promise.all([
-        prisma.dayPass.count({
+      const [soldPasses, activePasses, expiredPasses, validPasses, products] = await Promise.all([
+        prisma.dayPass.findMany({
           where: {
             purchaseDate: {
               gte: startOfDay,
               lt: endOfDay
             }
-          }
+          },
+          select: { productId: true, durationDays: true, price: true }
         }),
         prisma.dayPass.count({
           where: {
@@ -389,16 +431,45 @@ class DayPassService {
             },
             isExpired: true
           }
-        })
+        }),
+        // Passes covering the day, whenever they were bought
+        prisma.dayPass.count({
+          where: {
+            ...this.validOnDayWhere(startOfDay, endOfDay),
+            OR: [{ isActive: true }, { isExpired: true }]
+          }
+        }),
+        this.getProducts(true)
       ]);
 
-      const totalRevenue = totalSold * this.DAY_PASS_PRICE;
+      const byProduct: DayPassProductStats[] = products.map(product => {
+        const sold = soldPasses.filter(pass => pass.productId === product.id);
+        return {
+          code: product.code,
+          name: product.name,
+          durationDays: product.durationDays,
+          sold: sold.length,
+          revenue: sold.reduce((sum, pass) => sum + pass.price, 0)
+        };
+      });
+
+      // Passes sold before products existed count as single day passes
+      const legacyPasses = soldPasses.filter(pass => !pass.productId);
+      const dayProduct = byProduct.find(product => product.code === this.DEFAULT_PRODUCT_CODE);
+      if (dayProduct && legacyPasses.length > 0) {
+        dayProduct.sold += legacyPasses.length;
+        dayProduct.revenue += legacyPasses.reduce((sum, pass) => sum + pass.price, 0);
+      }
+
+      const totalRevenue = soldPasses.reduce((sum, pass) => sum + pass.price, 0);
 
       return {
-        totalSold,
+        totalSold: soldPasses.length,
         totalRevenue,
         activePasses,
-        expiredPasses
+        expiredPasses,
+        validPasses,
+        byProduct
       };
 
     } catch (error) {
@@ -407,16 +478,165 @@ class DayPassService {
         totalSold: 0,
         totalRevenue: 0,
         activePasses: 0,
-        expiredPasses: 0
+        expiredPasses: 0,
+        validPasses: 0,
+        byProduct: []
       };
     }
   }
 
   /**
-   * Get day pass price
+   * Get the single day pass price
+   */
+  async getDayPassPrice(): Promise<number> {
+    const product = await this.getProductByCode(this.DEFAULT_PRODUCT_CODE);
+    return product?.price ?? this.DAY_PASS_PRICE;
+  }
+
+  /**
+   * Pass products, shortest first. The single day product is created on first use.
+   */
+  async getProducts(includeInactive: boolean = false) {
+    await this.ensureDefaultProduct();
+
+    return prisma.dayPassProduct.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      orderBy: [{ durationDays: 'asc' }, { price: 'asc' }]
+    });
+  }
+
+  /**
+   * Create a pass product (weekly, monthly, N-day...)
+   */
+  async createProduct(data: DayPassProductData): Promise<{ success: boolean; product?: any; error?: string }> {
+    const validationError = this.validateProduct(data);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const code = data.code.trim().toUpperCase();
+    const existing = await prisma.dayPassProduct.findUnique({ where: { code } });
+    if (existing) {
+      return { success: false, error: `Un produit avec le code ${code} existe déjà` };
+    }
+
+    const product = await prisma.dayPassProduct.create({
+      data: {
+        code,
+        name: data.name.trim(),
+        durationDays: data.durationDays,
+        price: data.price,
+        isActive: data.isActive ?? true
+      }
+    });
+
+    await loggingService.log('DAY_PASS_PRODUCT_CREATED', product);
+
+    return { success: true, product };
+  }
+
+  /**
+   * Update a pass product. Passes already sold keep their price and validity.
+   */
+  async updateProduct(productId: string, data: {
+    name?: string | undefined;
+    durationDays?: number | undefined;
+    price?: number | undefined;
+    isActive?: boolean | undefined;
+  }): Promise<{ success: boolean; product?: any; error?: string }> {
+    const existing = await prisma.dayPassProduct.findUnique({ where: { id: productId } });
+    if (!existing) {
+      return { success: false, error: 'Produit de pass introuvable' };
+    }
+
+    const merged = {
+      code: existing.code,
+      name: data.name ?? existing.name,
+      durationDays: data.durationDays ?? existing.durationDays,
+      price: data.price ?? existing.price
+    };
+    const validationError = this.validateProduct(merged);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    if (existing.code === this.DEFAULT_PRODUCT_CODE && (data.isActive === false || merged.durationDays !== 1)) {
+      return { success: false, error: 'Le pass journalier ne peut pas être désactivé ni changer de durée' };
+    }
+
+    const product = await prisma.dayPassProduct.update({
+      where: { id: productId },
+      data: {
+        name: merged.name.trim(),
+        durationDays: merged.durationDays,
+        price: merged.price,
+        ...(typeof data.isActive === 'boolean' && { isActive: data.isActive })
+      }
+    });
+
+    await loggingService.log('DAY_PASS_PRODUCT_UPDATED', { before: existing, after: product });
+
+    return { success: true, product };
+  }
+
+  private async getProductByCode(code: string) {
+    await this.ensureDefaultProduct();
+    return prisma.dayPassProduct.findUnique({ where: { code: code.trim().toUpperCase() } });
+  }
+
+  private async ensureDefaultProduct(): Promise<void> {
+    await prisma.dayPassProduct.upsert({
+      where: { code: this.DEFAULT_PRODUCT_CODE },
+      create: {
+        code: this.DEFAULT_PRODUCT_CODE,
+        name: 'Pass journalier',
+        durationDays: 1,
+        price: this.DAY_PASS_PRICE
+      },
+      update: {}
+    });
+  }
+
+  private validateProduct(data: { code: string; name: string; durationDays: number; price: number }): string | null {
+    if (!data.code || !/^[A-Za-z0-9_-]{1,20}$/.test(data.code.trim())) {
+      return 'Code produit invalide (lettres, chiffres, - et _, 20 caractères max)';
+    }
+    if (!data.name || !data.name.trim()) {
+      return 'Le nom du produit est requis';
+    }
+    if (!Number.isInteger(data.durationDays) || data.durationDays < 1 || data.durationDays > 366) {
+      return 'La durée doit être un nombre entier de jours entre 1 et 366';
+    }
+    if (typeof data.price !== 'number' || !(data.price >= 0)) {
+      return 'Le prix doit être un nombre positif';
+    }
+    return null;
+  }
+
+  /**
+   * Active pass of a driver covering the given moment
+   */
+  private async findCurrentPass(driverId: string, at: Date) {
+    return prisma.dayPass.findFirst({
+      where: {
+        driverId,
+        validFrom: { lte: at },
+        validUntil: { gte: at },
+        isActive: true,
+        isExpired: false
+      },
+      orderBy: { validUntil: 'desc' }
+    });
+  }
+
+  /**
+   * Passes whose validity window overlaps [startOfDay, endOfDay)
    */
-  getDayPassPrice(): number {
-    return this.DAY_PASS_PRICE;
+  private validOnDayWhere(startOfDay: Date, endOfDay: Date) {
+    return {
+      validFrom: { lt: endOfDay },
+      validUntil: { gte: startOfDay }
+    };
   }
 }
 
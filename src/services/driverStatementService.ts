@@ -0,0 +1,483 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { csvRow, formatDay, parseDay, roundAmount } from '../utils/reporting';
+
+/**
+ * Driver Statement Service
+ *
+ * Per-driver settlement ledger for any date range. Each departure (trip or exit pass)
+ * contributes what passengers paid for it; the station keeps the booking service fees,
+ * day passes and entry tickets, and the rest is payable to the driver. Once a statement
+ * is settled its ledger is stored and returned as-is, whatever happens to the records
+ * behind it afterwards.
+ */
+
+export type StatementLineType = 'TRIP' | 'DAY_PASS' | 'ENTRY_TICKET';
+
+export interface StatementLine {
+  date: Date | string;
+  type: StatementLineType;
+  reference: string;
+  description: string;
+  destinationId: string | null;
+  destinationName: string | null;
+  seats: number | null;
+  // Every departure counts the vehicle full at its seat price ('BOOKINGS' only appears in statements settled before that)
+  fareSource: 'BOOKINGS' | 'CAPACITY_ESTIMATE' | null;
+  grossFare: number;
+  stationFee: number;
+  net: number;
+}
+
+export interface StatementTotals {
+  trips: number;
+  fares: number; // Trip fares without service fees
+  grossFares: number;
+  serviceFees: number;
+  dayPassFees: number;
+  entryTicketFees: number;
+  stationFees: number;
+  netPayable: number;
+}
+
+export interface DriverStatement {
+  id: string | null;
+  status: 'OPEN' | 'SETTLED';
+  vehicle: { id: string; licensePlate: string; capacity: number | null };
+  driver: { id: string; cin: string } | null;
+  periodStart: Date;
+  periodEnd: Date; // Exclusive
+  totals: StatementTotals;
+  lines: StatementLine[];
+  notes: string | null;
+  settledAt: Date | null;
+  settledBy: { id: string; firstName: string; lastName: string } | null;
+}
+
+export interface StatementPeriod {
+  start: Date;
+  end: Date; // Exclusive
+}
+
+// Booking payments that count as money received for the trip
+const PAID_BOOKING_STATUSES = ['PAID', 'COMPLETED'];
+
+const MAX_PERIOD_DAYS = 366;
+
+/**
+ * Build a period from YYYY-MM-DD days (both inclusive, station local time).
+ * `to` defaults to `from`, `from` defaults to today. Returns null when the dates are invalid.
+ */
+export function parseStatementPeriod(from?: string, to?: string): StatementPeriod | null {
+  const start = parseDay(from);
+  const last = parseDay(to || from);
+  if (!start || !last || last < start) {
+    return null;
+  }
+
+  const end = new Date(last);
+  end.setDate(end.getDate() + 1);
+  if ((end.getTime() - start.getTime()) / 86400000 > MAX_PERIOD_DAYS) {
+    return null;
+  }
+
+  return { start, end };
+}
+
+class DriverStatementService {
+  /**
+   * Statement for one vehicle; the settled snapshot when exactly this period was settled
+   */
+  async getStatement(licensePlate: string, period: StatementPeriod): Promise<DriverStatement | null> {
+    const vehicle = await prisma.vehicle.findUnique({ where: { licensePlate }, select: { id: true } });
+    if (!vehicle) {
+      return null;
+    }
+
+    const settled = await prisma.driverStatement.findFirst({
+      where: { vehicleId: vehicle.id, periodStart: period.start, periodEnd: period.end },
+      include: { settledBy: { select: { id: true, firstName: true, lastName: true } } }
+    });
+    if (settled) {
+      return this.fromSnapshot(settled);
+    }
+
+    const [statement] = await this.buildStatements(period, { vehicleIds: [vehicle.id], includeEmpty: true });
+    return statement || null;
+  }
+
+  /**
+   * Live statements for every vehicle with activity in the period (or only the given vehicles)
+   */
+  async buildStatements(
+    period: StatementPeriod,
+    options: { vehicleIds?: string[] | undefined; includeEmpty?: boolean | undefined } = {},
+    client: Prisma.TransactionClient = prisma
+  ): Promise<DriverStatement[]> {
+    const vehicleFilter = options.vehicleIds ? { vehicleId: { in: options.vehicleIds } } : {};
+
+    const [trips, exitPasses, dayPasses, entryTickets] = await Promise.all([
+      client.trip.findMany({
+        where: { ...vehicleFilter, startTime: { gte: period.start, lt: period.end } },
+        select: { id: true, vehicleId: true, queueId: true, destinationId: true, destinationName: true, startTime: true }
+      }),
+      client.exitPass.findMany({
+        where: { ...vehicleFilter, currentExitTime: { gte: period.start, lt: period.end } },
+        select: { id: true, vehicleId: true, queueId: true, destinationId: true, destinationName: true, currentExitTime: true }
+      }),
+      client.dayPass.findMany({
+        where: { ...vehicleFilter, purchaseDate: { gte: period.start, lt: period.end } },
+        select: { id: true, vehicleId: true, price: true, durationDays: true, purchaseDate: true }
+      }),
+      client.driverEntryTicket.findMany({
+        where: { ...vehicleFilter, entryTime: { gte: period.start, lt: period.end } },
+        select: { id: true, vehicleId: true, ticketNumber: true, ticketPrice: true, stationName: true, entryTime: true }
+      })
+    ]);
+
+    // One departure per queue entry: a trip and its exit pass describe the same departure
+    type Departure = { reference: string; vehicleId: string; queueId: string | null; destinationId: string; destinationName: string; time: Date };
+    const departures = new Map<string, Departure>();
+    for (const trip of trips) {
+      departures.set(trip.queueId, {
+        reference: trip.id,
+        vehicleId: trip.vehicleId,
+        queueId: trip.queueId,
+        destinationId: trip.destinationId,
+        destinationName: trip.destinationName,
+        time: trip.startTime
+      });
+    }
+    for (const pass of exitPasses) {
+      const key = pass.queueId || pass.id;
+      if (departures.has(key)) continue;
+      departures.set(key, {
+        reference: pass.id,
+        vehicleId: pass.vehicleId,
+        queueId: pass.queueId,
+        destinationId: pass.destinationId,
+        destinationName: pass.destinationName,
+        time: pass.currentExitTime
+      });
+    }
+
+    const vehicleIds = options.vehicleIds || Array.from(new Set([
+      ...Array.from(departures.values()).map(d => d.vehicleId),
+      ...dayPasses.map(p => p.vehicleId),
+      ...entryTickets.map(t => t.vehicleId)
+    ]));
+    if (vehicleIds.length === 0) {
+      return [];
+    }
+
+    const queueIds = Array.from(departures.values()).map(d => d.queueId).filter((id): id is string => !!id);
+    const destinationIds = Array.from(new Set(Array.from(departures.values()).map(d => d.destinationId)));
+
+    const [vehicles, bookings, queues, routes] = await Promise.all([
+      client.vehicle.findMany({
+        where: { id: { in: vehicleIds } },
+        select: { id: true, licensePlate: true, capacity: true, driver: { select: { id: true, cin: true } } }
+      }),
+      queueIds.length > 0
+        ? client.booking.findMany({
+            where: { queueId: { in: queueIds }, paymentStatus: { in: PAID_BOOKING_STATUSES } },
+            select: { queueId: true, seatsBooked: true, totalAmount: true, pricePerSeat: true }
+          })
+        : Promise.resolve([]),
+      queueIds.length > 0
+        ? client.vehicleQueue.findMany({ where: { id: { in: queueIds } }, select: { id: true, basePrice: true } })
+        : Promise.resolve([]),
+      destinationIds.length > 0
+        ? client.route.findMany({ where: { stationId: { in: destinationIds } }, select: { stationId: true, basePrice: true } })
+        : Promise.resolve([])
+    ]);
+
+    const basePriceByStation = new Map(routes.map(r => [r.stationId, Number(r.basePrice || 0)]));
+    const basePriceByQueue = new Map(queues.map(q => [q.id, Number(q.basePrice || 0)]));
+    const bookingsByQueue = new Map<string, typeof bookings>();
+    for (const booking of bookings) {
+      const list = bookingsByQueue.get(booking.queueId) || [];
+      list.push(booking);
+      bookingsByQueue.set(booking.queueId, list);
+    }
+
+    const linesByVehicle = new Map<string, StatementLine[]>(vehicleIds.map(id => [id, []]));
+    const capacityByVehicle = new Map(vehicles.map(v => [v.id, Number(v.capacity || 0)]));
+
+    // A departure leaves full, so every one counts its capacity at the seat price of its queue entry
+    // (the route price when there is none); paid bookings only add the service fees passengers paid on top
+    for (const departure of departures.values()) {
+      const tripBookings = departure.queueId ? bookingsByQueue.get(departure.queueId) || [] : [];
+      const seatPrice = (departure.queueId && basePriceByQueue.get(departure.queueId)) || basePriceByStation.get(departure.destinationId) || 0;
+      const seats = capacityByVehicle.get(departure.vehicleId) || 0;
+
+      const serviceFees = roundAmount(Math.max(
+        tripBookings.reduce((sum, b) => sum + b.totalAmount - (b.pricePerSeat ?? seatPrice) * b.seatsBooked, 0),
+        0
+      ));
+
+      linesByVehicle.get(departure.vehicleId)?.push(
+        this.line(departure.time, 'TRIP', departure.reference, `Departure to ${departure.destinationName}`, {
+          destinationId: departure.destinationId,
+          destinationName: departure.destinationName,
+          seats,
+          fareSource: 'CAPACITY_ESTIMATE',
+          grossFare: roundAmount(seats * seatPrice + serviceFees),
+          stationFee: serviceFees
+        })
+      );
+    }
+
+    for (const pass of dayPasses) {
+      linesByVehicle.get(pass.vehicleId)?.push(this.line(pass.purchaseDate, 'DAY_PASS', pass.id,
+        `Day pass (${pass.durationDays} day${pass.durationDays > 1 ? 's' : ''})`, { grossFare: 0, stationFee: roundAmount(pass.price) }));
+    }
+
+    for (const ticket of entryTickets) {
+      linesByVehicle.get(ticket.vehicleId)?.push(this.line(ticket.entryTime, 'ENTRY_TICKET', ticket.ticketNumber,
+        `Entry ticket at ${ticket.stationName}`, { grossFare: 0, stationFee: roundAmount(ticket.ticketPrice) }));
+    }
+
+    return vehicles
+      .map(vehicle => {
+        const lines = (linesByVehicle.get(vehicle.id) || []).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+        return {
+          id: null,
+          status: 'OPEN' as const,
+          vehicle: { id: vehicle.id, licensePlate: vehicle.licensePlate, capacity: vehicle.capacity },
+          driver: vehicle.driver ? { id: vehicle.driver.id, cin: vehicle.driver.cin } : null,
+          periodStart: period.start,
+          periodEnd: period.end,
+          totals: this.totals(lines),
+          lines,
+          notes: null,
+          settledAt: null,
+          settledBy: null
+        };
+      })
+      .filter(statement => options.includeEmpty || statement.lines.length > 0)
+      .sort((a, b) => a.vehicle.licensePlate.localeCompare(b.vehicle.licensePlate));
+  }
+
+  /**
+   * Lock the statement of a vehicle for a period. Periods of a vehicle cannot overlap
+   * once settled, so no departure or fee is paid out twice.
+   */
+  async settle(licensePlate: string, period: StatementPeriod, settledById: string, notes?: string | null): Promise<DriverStatement | null> {
+    const vehicle = await prisma.vehicle.findUnique({ where: { licensePlate }, select: { id: true } });
+    if (!vehicle) {
+      return null;
+    }
+
+    const row = await prisma.$transaction(async (tx) => {
+      const overlapping = await tx.driverStatement.findFirst({
+        where: { vehicleId: vehicle.id, periodStart: { lt: period.end }, periodEnd: { gt: period.start } },
+        select: { id: true, periodStart: true, periodEnd: true }
+      });
+      if (overlapping) {
+        const lastDay = new Date(overlapping.periodEnd);
+        lastDay.setDate(lastDay.getDate() - 1);
+        throw new Error(`Period overlaps statement ${overlapping.id} settled for ${formatDay(overlapping.periodStart)} to ${formatDay(lastDay)}`);
+      }
+
+      const [statement] = await this.buildStatements(period, { vehicleIds: [vehicle.id], includeEmpty: true }, tx);
+      if (!statement) {
+        throw new Error('Vehicle not found');
+      }
+
+      return tx.driverStatement.create({
+        data: {
+          vehicleId: vehicle.id,
+          licensePlate: statement.vehicle.licensePlate,
+          driverId: statement.driver?.id ?? null,
+          driverCin: statement.driver?.cin ?? null,
+          periodStart: period.start,
+          periodEnd: period.end,
+          grossFares: statement.totals.grossFares,
+          stationFees: statement.totals.stationFees,
+          netPayable: statement.totals.netPayable,
+          lines: JSON.stringify(statement.lines),
+          notes: notes || null,
+          settledById
+        },
+        include: { settledBy: { select: { id: true, firstName: true, lastName: true } } }
+      });
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    console.log(`🧾 Driver statement settled for ${row.licensePlate}: ${row.netPayable} TND (${formatDay(period.start)})`);
+    return this.fromSnapshot(row);
+  }
+
+  /**
+   * Settled statements, most recent period first
+   */
+  async listSettled(filters: { licensePlate?: string | undefined; from?: Date | undefined; to?: Date | undefined; limit?: number | undefined } = {}): Promise<any[]> {
+    const where: Prisma.DriverStatementWhereInput = {};
+    if (filters.licensePlate) where.licensePlate = filters.licensePlate;
+    if (filters.from) where.periodEnd = { gt: filters.from };
+    if (filters.to) where.periodStart = { lt: filters.to };
+
+    const rows = await prisma.driverStatement.findMany({
+      where,
+      orderBy: [{ periodStart: 'desc' }, { licensePlate: 'asc' }],
+      take: filters.limit || 100,
+      include: { settledBy: { select: { id: true, firstName: true, lastName: true } } }
+    });
+
+    return rows.map(({ lines, ...row }) => row);
+  }
+
+  /**
+   * Render a statement as CSV (one row per ledger line, totals last)
+   */
+  toCsv(statement: DriverStatement): string {
+    const header = ['date', 'type', 'reference', 'description', 'seats', 'grossFare', 'stationFee', 'net'];
+    const lines = statement.lines.map(line => csvRow([
+      new Date(line.date).toISOString(),
+      line.type,
+      line.reference,
+      line.description,
+      line.seats,
+      line.grossFare,
+      line.stationFee,
+      line.net
+    ]));
+
+    const totals = ['', 'TOTAL', '', '', '', statement.totals.grossFares, statement.totals.stationFees, statement.totals.netPayable];
+    return [header.join(','), ...lines, csvRow(totals)].join('\n');
+  }
+
+  /**
+   * Render a statement as a printable HTML page (A4, ready for the browser's "Save as PDF")
+   */
+  toHtml(statement: DriverStatement, stationName: string): string {
+    const escape = (value: any) => String(value ?? '')
+      .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    const money = (amount: number) => amount.toFixed(3);
+    const lastDay = new Date(statement.periodEnd);
+    lastDay.setDate(lastDay.getDate() - 1);
+    const period = statement.periodStart.getTime() === lastDay.getTime()
+      ? formatDay(statement.periodStart)
+      : `${formatDay(statement.periodStart)} to ${formatDay(lastDay)}`;
+    const { totals } = statement;
+
+    const rows = statement.lines.map(line => `
+        <tr>
+          <td>${escape(new Date(line.date).toLocaleString('fr-TN'))}</td>
+          <td>${escape(line.description)}${line.fareSource === 'CAPACITY_ESTIMATE' ? ' *' : ''}</td>
+          <td class="num">${line.seats ?? ''}</td>
+          <td class="num">${money(line.grossFare)}</td>
+          <td class="num">${money(line.stationFee)}</td>
+          <td class="num">${money(line.net)}</td>
+        </tr>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Driver statement ${escape(statement.vehicle.licensePlate)} ${escape(period)}</title>
+  <style>
+    @page { size: A4; margin: 15mm; }
+    body { font-family: Arial, sans-serif; font-size: 11px; color: #000; }
+    h1 { font-size: 16px; margin: 0 0 4px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 12px; }
+    th, td { border: 1px solid #999; padding: 4px 6px; text-align: left; }
+    th { background: #eee; }
+    .num { text-align: right; white-space: nowrap; }
+    .totals td { font-weight: bold; }
+    .status { float: right; font-weight: bold; }
+    .signatures { margin-top: 40px; display: flex; justify-content: space-between; }
+    .signatures div { width: 40%; border-top: 1px solid #000; padding-top: 4px; }
+  </style>
+</head>
+<body>
+  <span class="status">${statement.status === 'SETTLED' ? `SETTLED ${escape(statement.settledAt ? new Date(statement.settledAt).toLocaleString('fr-TN') : '')}` : 'PROVISIONAL'}</span>
+  <h1>${escape(stationName)} - Driver statement</h1>
+  <div>Vehicle: <strong>${escape(statement.vehicle.licensePlate)}</strong></div>
+  <div>Driver CIN: <strong>${escape(statement.driver?.cin || '-')}</strong></div>
+  <div>Period: <strong>${escape(period)}</strong></div>
+  <table>
+    <thead>
+      <tr><th>Date</th><th>Description</th><th class="num">Seats</th><th class="num">Gross (TND)</th><th class="num">Station fee (TND)</th><th class="num">Net (TND)</th></tr>
+    </thead>
+    <tbody>${rows}
+      <tr class="totals">
+        <td colspan="3">Total (${totals.trips} trip${totals.trips === 1 ? '' : 's'})</td>
+        <td class="num">${money(totals.grossFares)}</td>
+        <td class="num">${money(totals.stationFees)}</td>
+        <td class="num">${money(totals.netPayable)}</td>
+      </tr>
+    </tbody>
+  </table>
+  <p>Station fees: service fees ${money(totals.serviceFees)}, day passes ${money(totals.dayPassFees)}, entry tickets ${money(totals.entryTicketFees)} TND.</p>
+  ${statement.lines.some(line => line.fareSource === 'CAPACITY_ESTIMATE') ? '<p>* Fare estimated at full vehicle capacity and the seat price; service fees from paid bookings.</p>' : ''}
+  ${statement.notes ? `<p>Notes: ${escape(statement.notes)}</p>` : ''}
+  <div class="signatures"><div>Station</div><div>Driver</div></div>
+</body>
+</html>`;
+  }
+
+  private line(
+    date: Date,
+    type: StatementLineType,
+    reference: string,
+    description: string,
+    amounts: Partial<Pick<StatementLine, 'destinationId' | 'destinationName' | 'seats' | 'fareSource'>> & { grossFare: number; stationFee: number }
+  ): StatementLine {
+    return {
+      date,
+      type,
+      reference,
+      description,
+      destinationId: amounts.destinationId ?? null,
+      destinationName: amounts.destinationName ?? null,
+      seats: amounts.seats ?? null,
+      fareSource: amounts.fareSource ?? null,
+      grossFare: amounts.grossFare,
+      stationFee: amounts.stationFee,
+      net: roundAmount(amounts.grossFare - amounts.stationFee)
+    };
+  }
+
+  private totals(lines: StatementLine[]): StatementTotals {
+    const sum = (items: StatementLine[], field: 'grossFare' | 'stationFee') => roundAmount(items.reduce((total, line) => total + line[field], 0));
+    const trips = lines.filter(line => line.type === 'TRIP');
+    const grossFares = sum(lines, 'grossFare');
+    const stationFees = sum(lines, 'stationFee');
+    const serviceFees = sum(trips, 'stationFee');
+
+    return {
+      trips: trips.length,
+      fares: roundAmount(sum(trips, 'grossFare') - serviceFees),
+      grossFares,
+      serviceFees,
+      dayPassFees: sum(lines.filter(line => line.type === 'DAY_PASS'), 'stationFee'),
+      entryTicketFees: sum(lines.filter(line => line.type === 'ENTRY_TICKET'), 'stationFee'),
+      stationFees,
+      netPayable: roundAmount(grossFares - stationFees)
+    };
+  }
+
+  private fromSnapshot(row: {
+    id: string; vehicleId: string; licensePlate: string; driverId: string | null; driverCin: string | null;
+    periodStart: Date; periodEnd: Date; lines: string; notes: string | null; settledAt: Date;
+    settledBy: { id: string; firstName: string; lastName: string };
+  }): DriverStatement {
+    const lines: StatementLine[] = JSON.parse(row.lines);
+    return {
+      id: row.id,
+      status: 'SETTLED',
+      vehicle: { id: row.vehicleId, licensePlate: row.licensePlate, capacity: null },
+      driver: row.driverId && row.driverCin ? { id: row.driverId, cin: row.driverCin } : null,
+      periodStart: row.periodStart,
+      periodEnd: row.periodEnd,
+      totals: this.totals(lines),
+      lines,
+      notes: row.notes,
+      settledAt: row.settledAt,
+      settledBy: row.settledBy
+    };
+  }
+}
+
+export const driverStatementService = new DriverStatementService();
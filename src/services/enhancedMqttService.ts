@@ -1,6 +1,22 @@
 import mqtt, { MqttClient } from 'mqtt';
 import { EventEmitter } from 'events';
 import { QueueService } from './queueService';
+import { plateDetectionService } from './plateDetectionService';
+import { exitGateService } from './exitGateService';
+import { bookingCoreService } from './bookingCoreService';
+import { idempotencyService } from './idempotencyService';
+import { permissionService, Permission } from './permissionService';
+import { verifyStaffToken } from '../middleware/auth';
+
+const MQTT_BOOKING_SCOPE = 'mqtt/create_booking';
+
+// Staff permission required by each client command; these commands run as the authenticated staff member
+const COMMAND_PERMISSIONS: Partial<Record<string, Permission>> = {
+  get_queue_data: 'queue:view',
+  create_booking: 'booking:create',
+  confirm_plate_detection: 'plate:review',
+  reject_plate_detection: 'plate:review'
+};
 
 export interface MqttMessage {
   type: string;
@@ -17,6 +33,7 @@ export interface MqttMessage {
   target?: string;
   broadcast?: boolean;
   clientId?: string;
+  token?: string; // Session token, required on client commands that need a permission
 }
 
 export interface ConnectionMetrics {
@@ -39,6 +56,9 @@ export interface ClientConnection {
   connectedAt: Date;
   lastActivity: Date;
   isAuthenticated: boolean;
+  staffId?: string | undefined;
+  role?: string | undefined;
+  sessionId?: string | undefined;
   subscriptions: Set<string>;
   latency: number;
   messagesSent: number;
@@ -62,6 +82,7 @@ interface MQTTConfig {
   clientId: string;
   topics: {
     plateDetection: string;
+    exitPlateDetection: string;
     stationStatus: string;
     systemCommands: string;
     // New topics for replacing WebSocket functionality
@@ -275,6 +296,8 @@ export class EnhancedMQTTService extends EventEmitter {
       // Route message based on topic
       if (topic === this.config.topics.plateDetection) {
         await this.handlePlateDetection(parsedMessage);
+      } else if (topic === this.config.topics.exitPlateDetection) {
+        await this.handlePlateDetection(parsedMessage, true);
       } else if (topic === this.config.topics.systemCommands) {
         await this.handleSystemCommand(parsedMessage);
       } else if (topic === this.config.topics.clientCommands) {
@@ -308,6 +331,31 @@ export class EnhancedMQTTService extends EventEmitter {
     try {
       console.log(`🎛️ Client command received:`, message);
 
+      const requiredPermission = COMMAND_PERMISSIONS[message.type];
+      if (requiredPermission) {
+        // Anyone on the shared topic can write a clientId, so the command must also carry the
+        // session token the client authenticated with; the clientId only says where to reply
+        const client = message.clientId ? this.connectedClients.get(message.clientId) : undefined;
+        const staff = client?.isAuthenticated ? await verifyStaffToken(message.token) : null;
+        const sessionMatches = !!staff && staff.id === client?.staffId && staff.sessionId === client?.sessionId;
+
+        if (!sessionMatches || !permissionService.hasPermission(staff.role, requiredPermission)) {
+          console.warn(`🚫 Client ${message.clientId} (${staff?.role || 'unauthenticated'}) lacks ${requiredPermission} for ${message.type}`);
+          if (message.clientId) {
+            this.sendToClient(message.clientId, {
+              type: 'permission_denied',
+              payload: { command: message.type, permission: requiredPermission, timestamp: new Date().toISOString() },
+              timestamp: new Date().toISOString(),
+              source: 'local_node'
+            });
+          }
+          return;
+        }
+
+        // The command acts as the staff member behind the client's session, not whoever the payload names
+        message.payload = { ...message.payload, staffId: staff.id };
+      }
+
       switch (message.type) {
         case 'test_message':
           await this.handleTestMessage(message);
@@ -324,6 +372,12 @@ export class EnhancedMQTTService extends EventEmitter {
         case 'create_booking':
           await this.handleCreateBooking(message);
           break;
+        case 'confirm_plate_detection':
+          await this.handlePlateReview(message, true);
+          break;
+        case 'reject_plate_detection':
+          await this.handlePlateReview(message, false);
+          break;
         default:
           console.log(`ℹ️ Unknown client command type: ${message.type}`);
       }
@@ -348,14 +402,16 @@ export class EnhancedMQTTService extends EventEmitter {
         return;
       }
 
-      // Validate token (implement your token validation logic here)
-      const isValid = await this.validateToken(token);
+      const staff = await verifyStaffToken(token);
 
-      if (isValid) {
+      if (staff) {
         // Register authenticated client
         this.registerClient(clientId, {
           clientType: authData?.clientType || 'desktop-app',
-          isAuthenticated: true
+          isAuthenticated: true,
+          staffId: staff.id,
+          role: staff.role,
+          sessionId: staff.sessionId
         });
 
         // Send authentication confirmation
@@ -363,6 +419,8 @@ export class EnhancedMQTTService extends EventEmitter {
           type: 'authenticated',
           payload: {
             clientId,
+            role: staff.role,
+            permissions: permissionService.getPermissions(staff.role),
             timestamp: new Date().toISOString(),
             serverCapabilities: {
               maxMessageSize: 1024 * 1024,
@@ -576,36 +634,103 @@ export class EnhancedMQTTService extends EventEmitter {
   }
 
   /**
-   * Handle booking creation
+   * Handle booking creation from a desktop app (cash sale at the counter)
+   * payload: { destinationId, seatsRequested, staffId, idempotencyKey? }
+   * A retried command carrying the same idempotencyKey gets the original reply back.
    */
   private async handleCreateBooking(message: MqttMessage): Promise<void> {
+    const { destinationId, seatsRequested, staffId, idempotencyKey } = message.payload || {};
+    let claimed = false;
+
     try {
       console.log(`🎫 Booking creation request from client ${message.clientId}`);
-      
-      // Process booking creation logic here
-      // This would integrate with your existing booking controllers
-      
-      if (message.clientId) {
-        this.sendToClient(message.clientId, {
-          type: 'booking_created',
-          payload: {
-            success: true,
-            bookingId: `booking_${Date.now()}`,
-            timestamp: new Date().toISOString()
-          },
-          timestamp: new Date().toISOString(),
-          source: 'local_node'
+
+      const seats = Number(seatsRequested);
+
+      if (!destinationId || !staffId || !Number.isInteger(seats) || seats < 1) {
+        this.replyBooking(message.clientId, 'booking_failed', {
+          success: false,
+          error: 'destinationId, staffId and a positive seatsRequested are required'
         });
+        return;
       }
+
+      if (idempotencyKey) {
+        const claim = await idempotencyService.begin(
+          MQTT_BOOKING_SCOPE, String(idempotencyKey), { destinationId, seatsRequested: seats }, staffId
+        );
+
+        if (claim.state === 'replay') {
+          const { type, payload } = claim.responseBody;
+          this.replyBooking(message.clientId, type, { ...payload, replayed: true });
+          return;
+        }
+
+        if (claim.state !== 'new') {
+          this.replyBooking(message.clientId, 'booking_failed', {
+            success: false,
+            error: claim.state === 'mismatch'
+              ? 'idempotencyKey was already used with a different booking'
+              : 'A booking with this idempotencyKey is still being processed'
+          });
+          return;
+        }
+        claimed = true;
+      }
+
+      const result = await bookingCoreService.createBooking({
+        channel: 'MQTT',
+        destinationId,
+        seatsRequested: seats,
+        staffId
+      });
+
+      const reply: { type: 'booking_created' | 'booking_failed'; payload: any } = result.success && result.lines
+        ? {
+            type: 'booking_created',
+            payload: {
+              success: true,
+              bookingIds: result.lines.map(line => line.booking.id),
+              verificationCodes: result.lines.map(line => line.booking.verificationCode),
+              seatsBooked: result.lines.reduce((sum, line) => sum + line.booking.seatsBooked, 0),
+              totalAmount: result.totalAmount
+            }
+          }
+        : { type: 'booking_failed', payload: { success: false, error: result.error } };
+
+      if (claimed) {
+        // Only a sale is replayed; a rejected booking (no seats left...) may succeed when retried
+        if (reply.type === 'booking_created') {
+          await idempotencyService.complete(MQTT_BOOKING_SCOPE, String(idempotencyKey), 201, reply);
+        } else {
+          await idempotencyService.release(MQTT_BOOKING_SCOPE, String(idempotencyKey));
+        }
+      }
+
+      this.replyBooking(message.clientId, reply.type, reply.payload);
     } catch (error) {
       console.error('❌ Error creating booking:', error);
+      if (claimed) {
+        await idempotencyService.release(MQTT_BOOKING_SCOPE, String(idempotencyKey));
+      }
     }
   }
 
+  private replyBooking(clientId: string | undefined, type: 'booking_created' | 'booking_failed', payload: any): void {
+    if (!clientId) return;
+
+    this.sendToClient(clientId, {
+      type,
+      payload: { ...payload, timestamp: new Date().toISOString() },
+      timestamp: new Date().toISOString(),
+      source: 'local_node'
+    });
+  }
+
   /**
    * Handle license plate detection (existing functionality)
    */
-  private async handlePlateDetection(messageStr: string | MqttMessage): Promise<void> {
+  private async handlePlateDetection(messageStr: string | MqttMessage, exitLane: boolean = false): Promise<void> {
     try {
       let detection: LicensePlateDetection;
       
@@ -624,6 +749,12 @@ export class EnhancedMQTTService extends EventEmitter {
         return;
       }
 
+      // Exit lane reads (exit topic or an exit camera) close the vehicle's queue entry
+      if (exitLane || exitGateService.isExitCamera(detection.cameraId)) {
+        await this.processExitDetection(detection);
+        return;
+      }
+
       // Process the detection
       await this.processPlateDetection(detection);
 
@@ -633,72 +764,41 @@ export class EnhancedMQTTService extends EventEmitter {
   }
 
   /**
-   * Process license plate detection (existing functionality)
+   * Process license plate detection. Confident reads of known vehicles are entered automatically,
+   * other reads wait for staff confirmation.
    */
   private async processPlateDetection(detection: LicensePlateDetection): Promise<void> {
     try {
-      // Check if vehicle is already in queue
-      let vehicleInQueue = false;
-      if (this.queueService) {
-        const existingQueue = await this.queueService.getAvailableQueues();
-        
-        if (existingQueue.success && existingQueue.queues) {
-          for (const queue of existingQueue.queues) {
-            const queueDetails = await this.queueService.getDestinationQueue(queue.destinationId);
-            if (queueDetails.success && queueDetails.queue) {
-              const found = queueDetails.queue.some((queueEntry: any) => 
-                queueEntry.licensePlate === detection.licensePlate
-              );
-              if (found) {
-                vehicleInQueue = true;
-                break;
-              }
-            }
-          }
-        }
-      }
-
-      if (vehicleInQueue) {
-        console.log(`ℹ️ Vehicle ${detection.licensePlate} already in queue`);
-        
-        // Broadcast detection event
-        this.broadcast({
-          type: 'plate_detection',
-          payload: {
-            licensePlate: detection.licensePlate,
-            confidence: detection.confidence,
-            timestamp: detection.timestamp,
-            status: 'already_in_queue',
-            cameraId: detection.cameraId
-          },
-          timestamp: new Date().toISOString(),
-          source: 'local_node'
-        });
-        
-        return;
+      const decision = await plateDetectionService.evaluate(detection);
+
+      switch (decision.action) {
+        case 'duplicate':
+          console.log(`ℹ️ Repeated read of ${decision.licensePlate} ignored`);
+          return;
+
+        case 'already_in_queue':
+          console.log(`ℹ️ Vehicle ${decision.licensePlate} already in queue`);
+          this.broadcastPlateDetection(detection, 'already_in_queue');
+          return;
+
+        case 'review':
+          console.log(`⚠️ Plate ${decision.licensePlate} needs staff confirmation (${decision.detection.status}, confidence: ${detection.confidence})`);
+          this.broadcastPlateDetection(detection, decision.detection.status === 'UNKNOWN_VEHICLE' ? 'unknown_vehicle' : 'pending_confirmation', {
+            detectionId: decision.detection.id,
+            readCount: decision.detection.readCount
+          });
+          return;
       }
 
       // Auto-enter vehicle to queue
       if (this.queueService) {
-        const enterResult = await this.queueService.enterQueue(detection.licensePlate, {});
+        const enterResult = await this.queueService.enterQueue(decision.licensePlate, {});
 
         if (enterResult.success) {
-          console.log(`✅ Vehicle ${detection.licensePlate} automatically entered queue`);
+          console.log(`✅ Vehicle ${decision.licensePlate} automatically entered queue`);
           
           // Broadcast successful detection and queue entry
-          this.broadcast({
-            type: 'plate_detection',
-            payload: {
-              licensePlate: detection.licensePlate,
-              confidence: detection.confidence,
-              timestamp: detection.timestamp,
-              status: 'entered_queue',
-              cameraId: detection.cameraId,
-              queueEntry: enterResult.queueEntry
-            },
-            timestamp: new Date().toISOString(),
-            source: 'local_node'
-          });
+          this.broadcastPlateDetection(detection, 'entered_queue', { queueEntry: enterResult.queueEntry });
 
           // Emit event for other services
           this.emit('plateDetected', {
@@ -707,7 +807,7 @@ export class EnhancedMQTTService extends EventEmitter {
           });
 
         } else {
-          console.error(`❌ Failed to enter vehicle ${detection.licensePlate} to queue:`, enterResult.error);
+          console.error(`❌ Failed to enter vehicle ${decision.licensePlate} to queue:`, enterResult.error);
         }
       }
 
@@ -716,6 +816,89 @@ export class EnhancedMQTTService extends EventEmitter {
     }
   }
 
+  /**
+   * Process a plate read at the exit gate and alert clients on unauthorized departures
+   */
+  private async processExitDetection(detection: LicensePlateDetection): Promise<void> {
+    try {
+      const result = await exitGateService.recordExit(detection, this.queueService);
+      if (!result) return;
+
+      this.broadcast({
+        type: result.alerts.length > 0 ? 'exit_gate_alert' : 'exit_gate_event',
+        payload: {
+          ...result.event,
+          departedFromQueue: result.departedFromQueue
+        },
+        timestamp: new Date().toISOString(),
+        source: 'local_node'
+      });
+
+      this.emit('vehicleExited', result);
+
+    } catch (error) {
+      console.error('❌ Error processing exit detection:', error);
+    }
+  }
+
+  /**
+   * Broadcast the outcome of a plate read to clients
+   */
+  private broadcastPlateDetection(detection: LicensePlateDetection, status: string, extra: Record<string, any> = {}): void {
+    this.broadcast({
+      type: 'plate_detection',
+      payload: {
+        licensePlate: detection.licensePlate,
+        confidence: detection.confidence,
+        timestamp: detection.timestamp,
+        status,
+        cameraId: detection.cameraId,
+        ...extra
+      },
+      timestamp: new Date().toISOString(),
+      source: 'local_node'
+    });
+  }
+
+  /**
+   * Handle staff confirmation, correction or rejection of a pending plate read
+   * payload: { detectionId, staffId, licensePlate? }
+   */
+  private async handlePlateReview(message: MqttMessage, accept: boolean): Promise<void> {
+    try {
+      const { detectionId, staffId, licensePlate } = message.payload || {};
+
+      if (!detectionId || !staffId || (accept && !this.queueService)) {
+        console.warn('⚠️ Plate review requires detectionId and staffId');
+        return;
+      }
+
+      const result = accept
+        ? await plateDetectionService.confirm(detectionId, staffId, this.queueService!, licensePlate)
+        : await plateDetectionService.reject(detectionId, staffId);
+
+      if (message.clientId) {
+        this.sendToClient(message.clientId, {
+          type: accept ? 'plate_detection_confirmed' : 'plate_detection_rejected',
+          payload: result,
+          timestamp: new Date().toISOString(),
+          source: 'local_node'
+        });
+      }
+
+      if (result.success) {
+        this.broadcast({
+          type: 'plate_detection_reviewed',
+          payload: { detectionId, status: result.detection?.status, licensePlate: result.detection?.confirmedPlate || result.detection?.licensePlate },
+          timestamp: new Date().toISOString(),
+          source: 'local_node'
+        });
+      }
+    } catch (error) {
+      console.error('❌ Error handling plate review:', error);
+    }
+  }
+
   /**
    * Handle system commands (existing functionality)
    */
@@ -744,13 +927,19 @@ export class EnhancedMQTTService extends EventEmitter {
   /**
    * Register a new client connection
    */
-  private registerClient(clientId: string, options: { clientType?: string; isAuthenticated?: boolean } = {}): void {
+  private registerClient(
+    clientId: string,
+    options: { clientType?: string; isAuthenticated?: boolean; staffId?: string; role?: string; sessionId?: string } = {}
+  ): void {
     const client: ClientConnection = {
       id: clientId,
       clientType: options.clientType || 'unknown',
       connectedAt: new Date(),
       lastActivity: new Date(),
       isAuthenticated: options.isAuthenticated || false,
+      staffId: options.staffId,
+      role: options.role,
+      sessionId: options.sessionId,
       subscriptions: new Set(),
       latency: 0,
       messagesSent: 0,
@@ -800,6 +989,33 @@ export class EnhancedMQTTService extends EventEmitter {
     });
   }
 
+  /**
+   * Tell clients signed in with revoked sessions and forget them until they authenticate again
+   */
+  public dropSessions(sessionIds: string[], reason: string): number {
+    const revoked = new Set(sessionIds);
+    let dropped = 0;
+
+    for (const [clientId, client] of this.connectedClients) {
+      if (!client.sessionId || !revoked.has(client.sessionId)) continue;
+
+      this.sendToClient(clientId, {
+        type: 'session_revoked',
+        payload: { reason, timestamp: new Date().toISOString() },
+        timestamp: new Date().toISOString(),
+        source: 'local_node'
+      });
+      this.connectedClients.delete(clientId);
+      dropped++;
+    }
+
+    if (dropped > 0) {
+      this.metrics.connectedClients = this.connectedClients.size;
+      console.log(`🚪 Dropped ${dropped} MQTT client(s) with revoked sessions`);
+    }
+    return dropped;
+  }
+
   /**
    * Broadcast message to all authenticated clients
    */
@@ -874,15 +1090,6 @@ export class EnhancedMQTTService extends EventEmitter {
     this.client.publish(ackTopic, JSON.stringify(ackMessage), { qos: 0 });
   }
 
-  /**
-   * Validate authentication token
-   */
-  private async validateToken(token: string): Promise<boolean> {
-    // Implement your token validation logic here
-    // For now, return true if token exists
-    return !!token;
-  }
-
   /**
    * Start heartbeat mechanism
    */
@@ -0,0 +1,237 @@
+import { prisma } from '../config/database';
+import { operatingHoursService } from './operatingHoursService';
+
+export interface ETDQueueInfo {
+  total_vehicles: number;
+  available_seats?: number;
+  total_seats?: number;
+}
+
+export interface ETDOvernightInfo {
+  is_overnight: boolean;
+  station_opening_time: string;
+  station_closing_time: string;
+  next_opening?: string;
+  wait_hours: number;
+}
+
+export interface ETDPredictionResponse {
+  estimated_etd: string;
+  etd_hours: number;
+  confidence_level: number;
+  model_used: string;
+  destination_id: string;
+  seats_requested: number;
+  prediction_time: string;
+  queue_info?: ETDQueueInfo;
+  overnight_info?: ETDOvernightInfo;
+  ai_details?: {
+    method: string;
+    prophet_prediction?: number;
+    sklearn_prediction?: number;
+    ensemble_weights?: Record<string, number>;
+    training_metrics?: Record<string, any>;
+  };
+  error?: string;
+}
+
+const HISTORY_DAYS = 28;
+const MAX_HORIZON_HOURS = 24;
+const DEFAULT_SEATS_PER_HOUR = 4; // Used when a destination has no booking history at all
+const DEFAULT_VEHICLE_CAPACITY = 8;
+
+/**
+ * Local ETD estimator used when the external ETD service is unreachable.
+ *
+ * Works only from the local database:
+ * - Booking timestamps give the seat fill rate per hour of day for the destination
+ * - Trip start times give how full vehicles usually are when they leave
+ * - Current VehicleQueue seat fill gives how many seats remain ahead of the passenger
+ */
+class ETDEstimatorService {
+  async estimate(destinationId: string, seatsNeeded: number = 1, isOvernight: boolean = false): Promise<ETDPredictionResponse> {
+    const now = new Date();
+    const since = new Date(now.getTime() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+
+    const [bookings, trips, queueEntries] = await Promise.all([
+      prisma.booking.findMany({
+        where: {
+          createdAt: { gte: since },
+          paymentStatus: { not: 'CANCELLED' },
+          queue: { destinationId }
+        },
+        select: { seatsBooked: true, createdAt: true }
+      }),
+      prisma.trip.findMany({
+        where: { destinationId, startTime: { gte: since } },
+        select: { seatsBooked: true, startTime: true, queue: { select: { totalSeats: true } } }
+      }),
+      prisma.vehicleQueue.findMany({
+        where: {
+          destinationId,
+          queueType: isOvernight ? 'OVERNIGHT' : 'REGULAR',
+          status: { in: ['WAITING', 'LOADING', 'READY'] }
+        },
+        select: { availableSeats: true, totalSeats: true },
+        orderBy: { queuePosition: 'asc' }
+      })
+    ]);
+
+    // Seats sold per hour of day, from booking timestamps (or departed trips when bookings are missing)
+    let seatsPerHour = this.hourlyRate(bookings.map(b => ({ at: b.createdAt, seats: b.seatsBooked })));
+    if (!seatsPerHour.some(rate => rate > 0)) {
+      seatsPerHour = this.hourlyRate(trips.map(t => ({ at: t.startTime, seats: t.seatsBooked })));
+    }
+    if (!seatsPerHour.some(rate => rate > 0)) {
+      seatsPerHour.fill(DEFAULT_SEATS_PER_HOUR);
+    }
+
+    // How full vehicles usually are when they depart (they often leave before being full)
+    const fillRatios = trips
+      .filter(t => t.queue?.totalSeats)
+      .map(t => Math.min(t.seatsBooked / t.queue.totalSeats, 1));
+    const departureFill = fillRatios.length > 0
+      ? fillRatios.reduce((sum, r) => sum + r, 0) / fillRatios.length
+      : 1;
+
+    // Seats that must be sold before the passenger's vehicle leaves
+    const seatsToFill = this.seatsToFill(queueEntries, seatsNeeded, departureFill);
+
+    // Overnight passengers wait for the station to open before any seat is sold
+    let startAt = now;
+    let overnightInfo: ETDOvernightInfo | undefined;
+    if (isOvernight) {
+      const nextOpening = await this.getNextOpening(now);
+      startAt = nextOpening.at;
+      overnightInfo = {
+        is_overnight: true,
+        station_opening_time: nextOpening.openTime,
+        station_closing_time: nextOpening.closeTime,
+        next_opening: nextOpening.at.toISOString(),
+        wait_hours: this.round((nextOpening.at.getTime() - now.getTime()) / 3600000)
+      };
+    }
+
+    const fillHours = this.simulateFill(startAt, seatsToFill, seatsPerHour);
+    const etd = new Date(startAt.getTime() + fillHours * 3600000);
+    const etdHours = this.round((etd.getTime() - now.getTime()) / 3600000);
+
+    // Confidence grows with the amount of history available for the destination
+    const sampleScore = Math.min(bookings.length / 200, 1) * 0.3 + Math.min(trips.length / 50, 1) * 0.2;
+    const confidence = this.round(Math.min(0.35 + sampleScore, 0.8));
+
+    return {
+      estimated_etd: etd.toISOString(),
+      etd_hours: etdHours,
+      confidence_level: confidence,
+      model_used: 'local_statistical',
+      destination_id: destinationId,
+      seats_requested: seatsNeeded,
+      prediction_time: now.toISOString(),
+      queue_info: {
+        total_vehicles: queueEntries.length,
+        available_seats: queueEntries.reduce((sum, e) => sum + e.availableSeats, 0),
+        total_seats: queueEntries.reduce((sum, e) => sum + e.totalSeats, 0)
+      },
+      ...(overnightInfo && { overnight_info: overnightInfo }),
+      ai_details: {
+        method: 'local_statistical',
+        training_metrics: {
+          history_days: HISTORY_DAYS,
+          bookings_sampled: bookings.length,
+          trips_sampled: trips.length,
+          departure_fill_ratio: this.round(departureFill),
+          seats_to_fill: seatsToFill,
+          seats_per_hour_now: this.round(seatsPerHour[startAt.getHours()] ?? 0)
+        }
+      }
+    };
+  }
+
+  /**
+   * Average seats per hour of day over the days that had any activity
+   */
+  private hourlyRate(samples: { at: Date; seats: number }[]): number[] {
+    const rates = new Array<number>(24).fill(0);
+    const activeDays = new Set(samples.map(s => s.at.toDateString()));
+    const dayCount = Math.max(activeDays.size, 1);
+
+    for (const sample of samples) {
+      rates[sample.at.getHours()] += sample.seats / dayCount;
+    }
+
+    return rates;
+  }
+
+  /**
+   * Seats left to sell up to (and including) the first vehicle that can take the passenger
+   */
+  private seatsToFill(
+    queueEntries: { availableSeats: number; totalSeats: number }[],
+    seatsNeeded: number,
+    departureFill: number
+  ): number {
+    let seats = 0;
+
+    for (const entry of queueEntries) {
+      // Seats still to be sold before this vehicle usually departs
+      const bookedSeats = entry.totalSeats - entry.availableSeats;
+      const remainingBeforeDeparture = Math.max(Math.ceil(entry.totalSeats * departureFill) - bookedSeats, 0);
+
+      if (entry.availableSeats >= seatsNeeded) {
+        return seats + Math.max(remainingBeforeDeparture - seatsNeeded, 0);
+      }
+      seats += remainingBeforeDeparture;
+    }
+
+    // No vehicle can take the passenger yet: the next one to arrive has to fill up
+    const capacity = queueEntries[queueEntries.length - 1]?.totalSeats || DEFAULT_VEHICLE_CAPACITY;
+    return seats + Math.max(Math.ceil(capacity * departureFill) - seatsNeeded, 0);
+  }
+
+  /**
+   * Walk forward hour by hour using the hourly seat rate until the seats are sold
+   */
+  private simulateFill(startAt: Date, seatsToFill: number, seatsPerHour: number[]): number {
+    let remaining = seatsToFill;
+    let elapsed = 0;
+    let cursor = new Date(startAt);
+
+    while (remaining > 0 && elapsed < MAX_HORIZON_HOURS) {
+      const rate = seatsPerHour[cursor.getHours()] ?? 0;
+      const hourFraction = 1 - cursor.getMinutes() / 60;
+
+      if (rate > 0 && remaining <= rate * hourFraction) {
+        return elapsed + remaining / rate;
+      }
+
+      remaining -= rate * hourFraction;
+      elapsed += hourFraction;
+      cursor = new Date(cursor.getTime() + hourFraction * 3600000);
+    }
+
+    return Math.min(elapsed, MAX_HORIZON_HOURS);
+  }
+
+  private async getNextOpening(now: Date): Promise<{ at: Date; openTime: string; closeTime: string }> {
+    for (let dayOffset = 0; dayOffset < 7; dayOffset++) {
+      const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + dayOffset);
+      const hours = await operatingHoursService.getOperatingHours(day);
+      if (hours.isClosedAllDay) continue;
+
+      const [openHour, openMinute] = hours.openTime.split(':').map(Number);
+      const openingAt = new Date(day.getFullYear(), day.getMonth(), day.getDate(), openHour || 0, openMinute || 0);
+      if (openingAt > now) {
+        return { at: openingAt, openTime: hours.openTime, closeTime: hours.closeTime };
+      }
+    }
+
+    return { at: now, openTime: '', closeTime: '' };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+export const etdEstimatorService = new ETDEstimatorService();
@@ -0,0 +1,268 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { env } from '../config/environment';
+import { QueueService } from './queueService';
+import { LoggingService } from './loggingService';
+import { enqueueSyncChange } from './syncService';
+import { PlateReadWindow, isLowConfidence, normalizeConfidence, normalizePlate } from '../utils/plateReads';
+
+const loggingService = new LoggingService();
+
+// A departed entry only matches an exit read this recent, so an old trip is never taken for today's
+const DEPARTED_ENTRY_LOOKBACK_HOURS = 6;
+
+export type ExitGateAlert = 'NO_EXIT_AUTHORIZATION' | 'UNBOOKED_SEATS' | 'NOT_IN_QUEUE' | 'UNKNOWN_VEHICLE' | 'LOW_CONFIDENCE';
+
+export interface ExitGateRead {
+  licensePlate: string;
+  confidence: number;
+  cameraId?: string | undefined;
+}
+
+export interface ExitGateResult {
+  event: any;
+  alerts: ExitGateAlert[];
+  departedFromQueue: boolean;
+}
+
+class ExitGateService {
+  private readWindow = new PlateReadWindow();
+  // Kept apart so a doubtful read never hides the clear read of the same plate that follows
+  private lowConfidenceWindow = new PlateReadWindow();
+
+  /**
+   * True when the camera belongs to the exit lane
+   */
+  isExitCamera(cameraId?: string): boolean {
+    return !!cameraId && env.EXIT_CAMERA_IDS.includes(cameraId);
+  }
+
+  /**
+   * Log a vehicle passing the exit gate: mark its queue entry as departed and check
+   * that it holds an exit pass or exit ticket and left without unbooked seats.
+   * Returns null for repeated reads of the same plate.
+   */
+  async recordExit(read: ExitGateRead, queueService: QueueService | null): Promise<ExitGateResult | null> {
+    const licensePlate = normalizePlate(read.licensePlate);
+    const confidence = normalizeConfidence(read.confidence);
+    const detectedAt = new Date();
+
+    const alerts: ExitGateAlert[] = [];
+    const data: Prisma.ExitGateEventUncheckedCreateInput = {
+      licensePlate,
+      confidence,
+      cameraId: read.cameraId || null,
+      detectedAt
+    };
+    let departedFromQueue = false;
+
+    if (isLowConfidence(confidence)) {
+      if (this.lowConfidenceWindow.isRepeatedRead(licensePlate)) {
+        return null;
+      }
+
+      // Don't touch the queue on a doubtful read, staff check the footage
+      alerts.push('LOW_CONFIDENCE');
+      return this.saveEvent(data, alerts, departedFromQueue);
+    }
+
+    if (this.readWindow.isRepeatedRead(licensePlate)) {
+      console.log(`ℹ️ Repeated exit read of ${licensePlate} ignored`);
+      return null;
+    }
+
+    const vehicle = await prisma.vehicle.findUnique({
+      where: { licensePlate },
+      select: { id: true }
+    });
+
+    if (!vehicle) {
+      alerts.push('UNKNOWN_VEHICLE');
+      return this.saveEvent(data, alerts, departedFromQueue);
+    }
+
+    data.vehicleId = vehicle.id;
+
+    const queueEntry = await this.findDepartingEntry(vehicle.id);
+    if (!queueEntry) {
+      alerts.push('NOT_IN_QUEUE');
+      return this.saveEvent(data, alerts, departedFromQueue);
+    }
+
+    data.queueEntryId = queueEntry.id;
+    data.unbookedSeats = queueEntry.availableSeats;
+
+    const [exitPass, exitTicket] = await Promise.all([
+      prisma.exitPass.findFirst({
+        where: { queueId: queueEntry.id },
+        select: { id: true },
+        orderBy: { currentExitTime: 'desc' }
+      }),
+      prisma.driverExitTicket.findFirst({
+        where: { vehicleId: vehicle.id, exitTime: { gte: queueEntry.enteredAt } },
+        select: { id: true },
+        orderBy: { exitTime: 'desc' }
+      })
+    ]);
+
+    data.exitPassId = exitPass?.id || null;
+    data.exitTicketId = exitTicket?.id || null;
+
+    if (!exitPass && !exitTicket) {
+      alerts.push('NO_EXIT_AUTHORIZATION');
+    }
+
+    if (queueEntry.availableSeats > 0) {
+      alerts.push('UNBOOKED_SEATS');
+    }
+
+    if (queueService) {
+      const departure = await queueService.recordGateDeparture(queueEntry.id, detectedAt);
+      departedFromQueue = !!departure.wasActive;
+    } else {
+      await prisma.$transaction(async (tx) => {
+        const departed = await tx.vehicleQueue.update({
+          where: { id: queueEntry.id },
+          data: { status: 'DEPARTED', actualDeparture: detectedAt }
+        });
+        await enqueueSyncChange('vehicle_queue', departed.id, 'UPDATE', departed, tx);
+      });
+      departedFromQueue = queueEntry.status !== 'DEPARTED';
+    }
+
+    return this.saveEvent(data, alerts, departedFromQueue);
+  }
+
+  /**
+   * Acknowledge an exit alert
+   */
+  async acknowledge(eventId: string, staffId: string, notes?: string): Promise<{ success: boolean; event?: any; error?: string }> {
+    try {
+      const event = await prisma.exitGateEvent.findUnique({ where: { id: eventId } });
+
+      if (!event) {
+        return { success: false, error: 'Exit gate event not found' };
+      }
+
+      if (event.status !== 'ALERT') {
+        return { success: false, error: `Exit gate event is ${event.status.toLowerCase()}, nothing to acknowledge` };
+      }
+
+      const updated = await prisma.exitGateEvent.update({
+        where: { id: eventId },
+        data: {
+          status: 'ACKNOWLEDGED',
+          acknowledgedBy: staffId,
+          acknowledgedAt: new Date(),
+          acknowledgeNotes: notes || null
+        }
+      });
+
+      await LoggingService.logOperation(staffId, 'EXIT_GATE_ALERT_ACKNOWLEDGED', {
+        eventId,
+        licensePlate: event.licensePlate,
+        alerts: this.parseAlerts(event.alerts),
+        notes
+      });
+
+      return { success: true, event: this.formatEvent(updated) };
+
+    } catch (error) {
+      console.error('❌ Error acknowledging exit gate event:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Exit gate log, newest first (filters: status, licensePlate, date=YYYY-MM-DD)
+   */
+  async listEvents(filters: { status?: string | undefined; licensePlate?: string | undefined; date?: string | undefined; limit?: number } = {}) {
+    const where: Prisma.ExitGateEventWhereInput = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.licensePlate) where.licensePlate = filters.licensePlate.trim().toUpperCase();
+    if (filters.date) {
+      const startOfDay = new Date(`${filters.date}T00:00:00`);
+      const endOfDay = new Date(startOfDay);
+      endOfDay.setDate(endOfDay.getDate() + 1);
+      where.detectedAt = { gte: startOfDay, lt: endOfDay };
+    }
+
+    const events = await prisma.exitGateEvent.findMany({
+      where,
+      orderBy: { detectedAt: 'desc' },
+      take: filters.limit || 50
+    });
+
+    return events.map(event => this.formatEvent(event));
+  }
+
+  /**
+   * Queue entry the vehicle is leaving with: its active entry, or its last recently departed
+   * entry that has not been seen at the gate yet (exit pass / exit ticket already archived it)
+   */
+  private async findDepartingEntry(vehicleId: string) {
+    const activeEntry = await prisma.vehicleQueue.findFirst({
+      where: { vehicleId, status: { in: ['WAITING', 'LOADING', 'READY'] } },
+      orderBy: { enteredAt: 'desc' }
+    });
+
+    if (activeEntry) {
+      return activeEntry;
+    }
+
+    const since = new Date(Date.now() - DEPARTED_ENTRY_LOOKBACK_HOURS * 60 * 60 * 1000);
+    const departedEntry = await prisma.vehicleQueue.findFirst({
+      where: {
+        vehicleId,
+        status: 'DEPARTED',
+        OR: [
+          { actualDeparture: { gte: since } },
+          { actualDeparture: null, enteredAt: { gte: since } }
+        ]
+      },
+      orderBy: { enteredAt: 'desc' }
+    });
+
+    if (!departedEntry) {
+      return null;
+    }
+
+    const alreadyExited = await prisma.exitGateEvent.count({ where: { queueEntryId: departedEntry.id } });
+    return alreadyExited > 0 ? null : departedEntry;
+  }
+
+  private async saveEvent(data: Prisma.ExitGateEventUncheckedCreateInput, alerts: ExitGateAlert[], departedFromQueue: boolean): Promise<ExitGateResult> {
+    const event = await prisma.exitGateEvent.create({
+      data: {
+        ...data,
+        alerts: alerts.length > 0 ? JSON.stringify(alerts) : null,
+        status: alerts.length > 0 ? 'ALERT' : 'CLEARED'
+      }
+    });
+
+    if (alerts.length > 0) {
+      console.warn(`🚨 Exit gate alert for ${event.licensePlate}: ${alerts.join(', ')}`);
+      await loggingService.log('EXIT_GATE_ALERT', {
+        eventId: event.id,
+        licensePlate: event.licensePlate,
+        queueEntryId: event.queueEntryId,
+        unbookedSeats: event.unbookedSeats,
+        alerts
+      });
+    } else {
+      console.log(`🚦 Vehicle ${event.licensePlate} left the station`);
+    }
+
+    return { event: this.formatEvent(event), alerts, departedFromQueue };
+  }
+
+  private formatEvent(event: any) {
+    return { ...event, alerts: this.parseAlerts(event.alerts) };
+  }
+
+  private parseAlerts(alerts: string | null): ExitGateAlert[] {
+    return alerts ? JSON.parse(alerts) : [];
+  }
+}
+
+export const exitGateService = new ExitGateService();
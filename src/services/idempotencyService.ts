@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { env } from '../config/environment';
+
+/**
+ * Idempotency Service
+ *
+ * Booking windows on unreliable Wi-Fi retry requests that may already have gone
+ * through. A client sends the same Idempotency-Key with each retry; the first
+ * response is stored and replayed for the TTL instead of selling twice.
+ * An unfinished claim holds a short lease, so a request that crashed or hung
+ * does not lock its key for the whole TTL.
+ */
+
+export type IdempotencyClaim =
+  | { state: 'new' }
+  | { state: 'replay'; responseStatus: number; responseBody: any }
+  | { state: 'in_progress' }
+  | { state: 'mismatch' };
+
+export class IdempotencyService {
+  /**
+   * Claim a key before running the request. Only a 'new' claim may run it.
+   */
+  async begin(scope: string, key: string, payload: any, staffId?: string | null): Promise<IdempotencyClaim> {
+    const requestHash = this.hash({ staffId: staffId || null, payload });
+    const expiresAt = new Date(Date.now() + env.IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000);
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        await prisma.idempotencyKey.create({
+          data: { scope, key, requestHash, staffId: staffId || null, expiresAt, leaseExpiresAt: this.leaseFrom(Date.now()) }
+        });
+        return { state: 'new' };
+      } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+          throw error;
+        }
+      }
+
+      const existing = await prisma.idempotencyKey.findUnique({ where: { scope_key: { scope, key } } });
+      if (!existing) {
+        continue; // Released in the meantime, claim again
+      }
+
+      if (existing.expiresAt < new Date()) {
+        await prisma.idempotencyKey.deleteMany({ where: { id: existing.id } });
+        continue;
+      }
+
+      if (existing.requestHash !== requestHash) {
+        return { state: 'mismatch' };
+      }
+
+      if (existing.status !== 'COMPLETED' || existing.responseStatus === null) {
+        // Take over a claim whose request stopped renewing its lease; only one retry wins
+        if (existing.leaseExpiresAt && existing.leaseExpiresAt < new Date()) {
+          const takenOver = await prisma.idempotencyKey.updateMany({
+            where: { id: existing.id, status: 'IN_PROGRESS', leaseExpiresAt: existing.leaseExpiresAt },
+            data: { leaseExpiresAt: this.leaseFrom(Date.now()), expiresAt }
+          });
+          if (takenOver.count === 1) {
+            console.warn(`⚠️ Idempotency key for ${scope} (${key}) taken over after its lease expired`);
+            return { state: 'new' };
+          }
+        }
+        return { state: 'in_progress' };
+      }
+
+      return {
+        state: 'replay',
+        responseStatus: existing.responseStatus,
+        responseBody: existing.responseBody ? JSON.parse(existing.responseBody) : null
+      };
+    }
+
+    return { state: 'in_progress' };
+  }
+
+  /**
+   * Keep a claim for `durationMs` more, while work it started is still pending
+   */
+  async extendLease(scope: string, key: string, durationMs: number): Promise<void> {
+    try {
+      await prisma.idempotencyKey.updateMany({
+        where: { scope, key, status: 'IN_PROGRESS' },
+        data: { leaseExpiresAt: new Date(Date.now() + durationMs) }
+      });
+    } catch (error) {
+      console.error(`❌ Could not extend idempotency lease for ${scope} (${key}):`, error);
+    }
+  }
+
+  /**
+   * Store the response returned for a claimed key
+   */
+  async complete(scope: string, key: string, responseStatus: number, responseBody: any): Promise<void> {
+    try {
+      await prisma.idempotencyKey.update({
+        where: { scope_key: { scope, key } },
+        data: {
+          status: 'COMPLETED',
+          responseStatus,
+          responseBody: JSON.stringify(responseBody ?? null)
+        }
+      });
+    } catch (error) {
+      console.error(`❌ Could not store idempotent response for ${scope} (${key}):`, error);
+    }
+  }
+
+  /**
+   * Drop a claim whose request failed (server error, thrown error)
+   * so the client can retry with the same key
+   */
+  async release(scope: string, key: string): Promise<void> {
+    try {
+      await prisma.idempotencyKey.deleteMany({ where: { scope, key, status: 'IN_PROGRESS' } });
+    } catch (error) {
+      console.error(`❌ Could not release idempotency key for ${scope} (${key}):`, error);
+    }
+  }
+
+  async purgeExpired(): Promise<number> {
+    const { count } = await prisma.idempotencyKey.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+    return count;
+  }
+
+  private leaseFrom(now: number): Date {
+    return new Date(now + env.IDEMPOTENCY_LEASE_SECONDS * 1000);
+  }
+
+  private hash(value: any): string {
+    return crypto.createHash('sha256').update(JSON.stringify(value)).digest('hex');
+  }
+}
+
+export const idempotencyService = new IdempotencyService();
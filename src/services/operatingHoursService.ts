@@ -0,0 +1,259 @@
+import { prisma } from '../config/database';
+
+export const WEEK_DAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+export type WeekDay = typeof WEEK_DAYS[number];
+
+export interface StationOperatingHours {
+  stationId: string;
+  date: string; // Format: "YYYY-MM-DD"
+  openTime: string; // Format: "HH:MM" (24-hour)
+  closeTime: string; // Format: "HH:MM" (24-hour)
+  isOpen: boolean; // Whether the station is open at the checked time
+  isClosedAllDay: boolean;
+  source: 'DEFAULT' | 'WEEKLY' | 'HOLIDAY' | 'RAMADAN';
+  overrideName?: string;
+}
+
+export interface DailyHours {
+  openingTime: string;
+  closingTime: string;
+  isClosed?: boolean;
+}
+
+export type WeeklyHours = Partial<Record<WeekDay, DailyHours>>;
+
+export interface ScheduleOverrideInput {
+  name: string;
+  type: 'HOLIDAY' | 'RAMADAN';
+  startDate: string;
+  endDate: string;
+  openingTime?: string | null;
+  closingTime?: string | null;
+  isClosed?: boolean;
+}
+
+const TIME_REGEX = /^([01][0-9]|2[0-3]):[0-5][0-9]$/; // HH:mm, zero-padded so it can be put into an ISO date
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_OPENING_TIME = '06:00';
+const DEFAULT_CLOSING_TIME = '22:00';
+
+class OperatingHoursService {
+  /**
+   * Resolve the operating hours that apply at a given moment.
+   * Priority: holiday/Ramadan override > weekly schedule > default opening/closing time.
+   */
+  async getOperatingHours(at: Date = new Date()): Promise<StationOperatingHours> {
+    const stationConfig = await prisma.stationConfig.findFirst();
+    const date = this.toDateKey(at);
+
+    let openTime = stationConfig?.openingTime || DEFAULT_OPENING_TIME;
+    let closeTime = stationConfig?.closingTime || DEFAULT_CLOSING_TIME;
+    let isClosedAllDay = false;
+    let source: StationOperatingHours['source'] = 'DEFAULT';
+    let overrideName: string | undefined;
+
+    const weekly = this.parseWeeklyHours(stationConfig?.weeklyHours);
+    const dayHours = weekly[WEEK_DAYS[at.getDay()]];
+    if (dayHours) {
+      openTime = dayHours.openingTime;
+      closeTime = dayHours.closingTime;
+      isClosedAllDay = !!dayHours.isClosed;
+      source = 'WEEKLY';
+    }
+
+    // Holidays take precedence over Ramadan when both cover the same day
+    const overrides = await prisma.stationScheduleOverride.findMany({
+      where: { startDate: { lte: date }, endDate: { gte: date } }
+    });
+    const override = overrides.find(o => o.type === 'HOLIDAY') || overrides[0];
+    if (override) {
+      openTime = override.openingTime || openTime;
+      closeTime = override.closingTime || closeTime;
+      isClosedAllDay = override.isClosed;
+      source = override.type === 'RAMADAN' ? 'RAMADAN' : 'HOLIDAY';
+      overrideName = override.name;
+    }
+
+    const minutes = at.getHours() * 60 + at.getMinutes();
+    const isOpen = !isClosedAllDay
+      && minutes >= this.toMinutes(openTime)
+      && minutes < this.toMinutes(closeTime);
+
+    return {
+      stationId: stationConfig?.stationId || '',
+      date,
+      openTime,
+      closeTime,
+      isOpen,
+      isClosedAllDay,
+      source,
+      ...(overrideName && { overrideName })
+    };
+  }
+
+  /**
+   * Whether the station is open at the given moment
+   */
+  async isStationOpen(at: Date = new Date()): Promise<boolean> {
+    const hours = await this.getOperatingHours(at);
+    return hours.isOpen;
+  }
+
+  /**
+   * Whether the given moment is the station's opening minute for the day
+   */
+  async isOpeningTime(at: Date = new Date()): Promise<boolean> {
+    const hours = await this.getOperatingHours(at);
+    return !hours.isClosedAllDay && at.getHours() * 60 + at.getMinutes() === this.toMinutes(hours.openTime);
+  }
+
+  /**
+   * Vehicles may join the overnight queue once the station is closed,
+   * or within the configured window before today's closing time.
+   */
+  async canAdmitOvernight(at: Date = new Date()): Promise<{ allowed: boolean; opensAt?: string; hours: StationOperatingHours }> {
+    const hours = await this.getOperatingHours(at);
+    if (!hours.isOpen) {
+      return { allowed: true, hours };
+    }
+
+    const stationConfig = await prisma.stationConfig.findFirst({ select: { overnightAdmissionMinutes: true } });
+    const windowMinutes = stationConfig?.overnightAdmissionMinutes ?? 120;
+    const admissionStart = Math.max(this.toMinutes(hours.closeTime) - windowMinutes, 0);
+    const minutes = at.getHours() * 60 + at.getMinutes();
+
+    return {
+      allowed: minutes >= admissionStart,
+      opensAt: this.fromMinutes(admissionStart),
+      hours
+    };
+  }
+
+  /**
+   * Get the weekly schedule and all schedule overrides
+   */
+  async getSchedule(): Promise<{ weekly: WeeklyHours; overrides: any[]; overnightAdmissionMinutes: number }> {
+    const stationConfig = await prisma.stationConfig.findFirst();
+    const overrides = await prisma.stationScheduleOverride.findMany({
+      orderBy: { startDate: 'asc' }
+    });
+
+    return {
+      weekly: this.parseWeeklyHours(stationConfig?.weeklyHours),
+      overrides,
+      overnightAdmissionMinutes: stationConfig?.overnightAdmissionMinutes ?? 120
+    };
+  }
+
+  /**
+   * Replace all holiday/Ramadan overrides with the given list
+   */
+  async replaceOverrides(overrides: ScheduleOverrideInput[]): Promise<void> {
+    await prisma.$transaction([
+      prisma.stationScheduleOverride.deleteMany({}),
+      prisma.stationScheduleOverride.createMany({
+        data: overrides.map(o => ({
+          name: o.name,
+          type: o.type,
+          startDate: o.startDate,
+          endDate: o.endDate,
+          openingTime: o.openingTime || null,
+          closingTime: o.closingTime || null,
+          isClosed: !!o.isClosed
+        }))
+      })
+    ]);
+  }
+
+  /**
+   * Validate a weekly schedule. Returns an error message or null.
+   */
+  validateWeeklyHours(weekly: any): string | null {
+    if (typeof weekly !== 'object' || Array.isArray(weekly)) {
+      return 'Weekly hours must be an object keyed by day name';
+    }
+
+    for (const [day, hours] of Object.entries<any>(weekly)) {
+      if (!WEEK_DAYS.includes(day as WeekDay)) {
+        return `Unknown day "${day}". Use: ${WEEK_DAYS.join(', ')}`;
+      }
+      if (hours?.isClosed) continue;
+      const error = this.validateTimeRange(hours?.openingTime, hours?.closingTime);
+      if (error) return `${day}: ${error}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate holiday/Ramadan overrides. Returns an error message or null.
+   */
+  validateOverrides(overrides: any): string | null {
+    if (!Array.isArray(overrides)) {
+      return 'Schedule overrides must be an array';
+    }
+
+    for (const override of overrides) {
+      if (!override?.name) {
+        return 'Each schedule override needs a name';
+      }
+      if (!['HOLIDAY', 'RAMADAN'].includes(override.type)) {
+        return `${override.name}: type must be HOLIDAY or RAMADAN`;
+      }
+      if (!DATE_REGEX.test(override.startDate || '') || !DATE_REGEX.test(override.endDate || '')) {
+        return `${override.name}: dates must use YYYY-MM-DD format`;
+      }
+      if (override.startDate > override.endDate) {
+        return `${override.name}: end date must not be before start date`;
+      }
+      if (override.isClosed) continue;
+      if (override.openingTime || override.closingTime) {
+        const error = this.validateTimeRange(override.openingTime, override.closingTime);
+        if (error) return `${override.name}: ${error}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate an opening/closing time pair. Returns an error message or null.
+   */
+  validateTimeRange(openingTime: any, closingTime: any): string | null {
+    if (!openingTime || !closingTime) {
+      return 'Both opening and closing times are required';
+    }
+    if (!TIME_REGEX.test(openingTime) || !TIME_REGEX.test(closingTime)) {
+      return 'Invalid time format. Use HH:MM format (e.g., 06:00)';
+    }
+    if (this.toMinutes(openingTime) >= this.toMinutes(closingTime)) {
+      return 'Closing time must be after opening time';
+    }
+    return null;
+  }
+
+  private parseWeeklyHours(raw?: string | null): WeeklyHours {
+    if (!raw) return {};
+    try {
+      return JSON.parse(raw) as WeeklyHours;
+    } catch (error) {
+      console.warn('⚠️ Invalid weekly hours stored in station config, ignoring:', error);
+      return {};
+    }
+  }
+
+  private toDateKey(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return (hours || 0) * 60 + (minutes || 0);
+  }
+
+  private fromMinutes(total: number): string {
+    return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+  }
+}
+
+export const operatingHoursService = new OperatingHoursService();
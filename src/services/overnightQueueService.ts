@@ -1,9 +1,12 @@
 import { prisma } from '../config/database';
 import { WebSocketService } from '../websocket/webSocketService';
-import { QueueEntry } from './queueService';
+import { QueueEntry, removeQueueEntry } from './queueService';
 import cron from 'node-cron';
 import { RouteService } from './routeService';
 import { configService } from '../config/supervisorConfig';
+import { operatingHoursService } from './operatingHoursService';
+
+export type { StationOperatingHours } from './operatingHoursService';
 
 export interface OvernightQueueEntry {
   id: string;
@@ -27,13 +30,6 @@ export interface OvernightQueueEntry {
   } | undefined;
 }
 
-export interface StationOperatingHours {
-  stationId: string;
-  openTime: string; // Format: "HH:MM" (24-hour)
-  closeTime: string; // Format: "HH:MM" (24-hour)
-  isOpen: boolean;
-}
-
 export class OvernightQueueService {
   private currentStationId: string;
   private webSocketService: WebSocketService;
@@ -58,6 +54,15 @@ export class OvernightQueueService {
     try {
       console.log(`🌙 Adding vehicle ${licensePlate} to overnight queue by supervisor ${supervisorId}`);
 
+      // Overnight admission only opens once the station closes (or shortly before)
+      const admission = await operatingHoursService.canAdmitOvernight();
+      if (!admission.allowed) {
+        return {
+          success: false,
+          error: `Overnight queue opens at ${admission.opensAt} today (station closes at ${admission.hours.closeTime})`
+        };
+      }
+
       // Find the vehicle in local database
       const vehicle = await prisma.vehicle.findUnique({
         where: { licensePlate },
@@ -151,10 +156,8 @@ export class OvernightQueueService {
             };
           }
           
-          // Delete from regular queue (now safe since no bookings exist)
-          await prisma.vehicleQueue.delete({
-            where: { id: existingQueueEntry.id }
-          });
+          // Remove from regular queue (now safe since no bookings exist)
+          await removeQueueEntry(existingQueueEntry.id);
 
           // Reorder the regular queue after removal
           await this.reorderRegularQueue(originalDestinationId);
@@ -277,10 +280,8 @@ export class OvernightQueueService {
 
       const destinationId = queueEntry.destinationId;
 
-      // Delete the queue entry
-      await prisma.vehicleQueue.delete({
-        where: { id: queueEntry.id }
-      });
+      // Remove the queue entry (archived when seats were already sold on it)
+      await removeQueueEntry(queueEntry.id);
 
       // Reorder remaining vehicles in the same overnight destination queue
       await this.reorderOvernightQueue(destinationId);
@@ -397,8 +398,9 @@ export class OvernightQueueService {
 
   /**
    * Transfer overnight queue vehicles to regular queue (automatic when station opens)
+   * Only vehicles that entered before `enteredBefore` are moved when it is given.
    */
-  async transferOvernightToRegular(): Promise<{
+  async transferOvernightToRegular(enteredBefore?: Date): Promise<{
     success: boolean;
     transferred: number;
     error?: string;
@@ -418,7 +420,8 @@ export class OvernightQueueService {
       const overnightEntries = await prisma.vehicleQueue.findMany({
         where: {
           queueType: 'OVERNIGHT',
-          status: { in: ['WAITING', 'LOADING', 'READY'] }
+          status: { in: ['WAITING', 'LOADING', 'READY'] },
+          ...(enteredBefore && { enteredAt: { lt: enteredBefore } })
         },
         include: {
           vehicle: {
@@ -511,32 +514,46 @@ export class OvernightQueueService {
   private startBackgroundJobs(): void {
     console.log('🤖 Starting overnight queue background jobs...');
     
-    // Run every minute to check if station should open
-    // In production, you might want to configure specific opening hours per station
+    // Run every minute to check if the station opens now (per-day hours, holidays and Ramadan included)
     cron.schedule('* * * * *', async () => {
-      const currentHour = new Date().getHours();
-      const currentMinute = new Date().getMinutes();
-      
-      // Default station hours: open at 6:00 AM
-      // You can make this configurable per station
-      if (currentHour === 6 && currentMinute === 0) {
-        console.log('🌅 Station opening time detected, initiating overnight queue transfer...');
-        await this.transferOvernightToRegular();
+      try {
+        if (await operatingHoursService.isOpeningTime()) {
+          console.log('🌅 Station opening time detected, initiating overnight queue transfer...');
+          await this.transferOvernightToRegular();
+        }
+      } catch (error) {
+        console.error('❌ Error checking station opening time:', error);
       }
     });
 
-    // Also run a check every 30 minutes during the day for any missed transfers
-    cron.schedule('*/30 6-18 * * *', async () => {
-      const overnightCount = await prisma.vehicleQueue.count({
-        where: {
-          queueType: 'OVERNIGHT',
-          status: { in: ['WAITING', 'LOADING', 'READY'] }
+    // Also run a check every 30 minutes while the station is open for any missed transfers
+    cron.schedule('*/30 * * * *', async () => {
+      try {
+        const hours = await operatingHoursService.getOperatingHours();
+        if (!hours.isOpen) {
+          return;
         }
-      });
 
-      if (overnightCount > 0) {
-        console.log(`🔄 Found ${overnightCount} vehicles in overnight queue during operating hours, transferring...`);
-        await this.transferOvernightToRegular();
+        // Vehicles admitted before closing today stay overnight until tomorrow's opening
+        const openedAt = new Date(`${hours.date}T${hours.openTime}:00`);
+        if (isNaN(openedAt.getTime())) {
+          throw new Error(`Invalid opening time ${hours.openTime} for ${hours.date}`);
+        }
+
+        const overnightCount = await prisma.vehicleQueue.count({
+          where: {
+            queueType: 'OVERNIGHT',
+            status: { in: ['WAITING', 'LOADING', 'READY'] },
+            enteredAt: { lt: openedAt }
+          }
+        });
+
+        if (overnightCount > 0) {
+          console.log(`🔄 Found ${overnightCount} vehicles in overnight queue during operating hours, transferring...`);
+          await this.transferOvernightToRegular(openedAt);
+        }
+      } catch (error) {
+        console.error('❌ Error checking for missed overnight queue transfers:', error);
       }
     });
   }
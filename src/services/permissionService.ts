@@ -0,0 +1,239 @@
+import { prisma } from '../config/database';
+
+/**
+ * Permission Service
+ *
+ * Staff.role names a StaffRole whose permission list decides what the staff member
+ * may do over REST, the local WebSocket server and MQTT commands. Built-in roles are
+ * seeded with the defaults below and can be edited (except ADMIN, which always holds
+ * every permission); custom roles such as a night-shift cashier are added by admins.
+ *
+ * Checks are synchronous against an in-memory copy of the table, refreshed on every change.
+ */
+
+export const PERMISSIONS = {
+  'booking:create': 'Sell tickets (cash, queue and online bookings)',
+  'booking:verify': 'Verify and board tickets',
+  'booking:cancel': 'Cancel bookings',
+  'booking:view': 'View bookings, destinations and seat maps',
+  'daypass:sell': 'Sell day passes',
+  'daypass:expire': 'Expire all day passes manually',
+  'daypass:product:manage': 'Create and edit day pass products',
+  'driver-ticket:issue': 'Issue driver entry and exit tickets',
+  'queue:view': 'View queues',
+  'queue:manage': 'Update vehicle status in queues',
+  'queue:reorder': 'Swap, move, hold and release queue entries',
+  'queue:overnight': 'Manage the overnight queue',
+  'plate:review': 'Confirm or reject plate detections',
+  'exit-gate:acknowledge': 'Acknowledge exit gate events',
+  'route:price:update': 'Change route base prices',
+  'pricing:rule:manage': 'Create, edit and delete pricing rules',
+  'vehicle:view': 'View vehicles, drivers and trips',
+  'vehicle:manage': 'Request, approve, deny and ban vehicles',
+  'station:config:update': 'Change station configuration',
+  'staff:view': 'View staff members',
+  'staff:manage': 'Create, edit and deactivate staff members',
+  'terminal:manage': 'Register and deactivate shared terminals',
+  'session:manage': 'List and revoke staff sessions, set the idle timeout',
+  'shift:approve': 'List and approve staff shifts',
+  'refund:approve': 'List, approve and reject refunds',
+  'report:view': 'View supervisor dashboards and reports',
+  'statement:view': 'View and export driver statements',
+  'statement:settle': 'Settle and lock driver statements',
+  'audit:view': 'View and export the audit log',
+  'print:ticket': 'Print and reprint tickets',
+  'sync:manage': 'Trigger and configure synchronization',
+  'job:manage': 'List, run, pause and resume scheduled jobs',
+  'concurrency:view': 'View resource locks and concurrency operations',
+  'concurrency:manage': 'Force-release resource locks',
+  'role:manage': 'Create and edit roles and their permissions'
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+const WORKER_PERMISSIONS: Permission[] = [
+  'booking:create', 'booking:verify', 'booking:cancel', 'booking:view',
+  'daypass:sell', 'driver-ticket:issue', 'queue:view', 'queue:manage',
+  'plate:review', 'vehicle:view', 'print:ticket'
+];
+
+export const BUILT_IN_ROLES: Record<string, { description: string; permissions: Permission[] }> = {
+  ADMIN: {
+    description: 'Full access',
+    permissions: ALL_PERMISSIONS
+  },
+  SUPERVISOR: {
+    description: 'Station supervisor',
+    permissions: ALL_PERMISSIONS.filter(p => p !== 'role:manage' && p !== 'concurrency:manage')
+  },
+  WORKER: {
+    description: 'Counter and gate worker',
+    permissions: WORKER_PERMISSIONS
+  },
+  CASHIER: {
+    description: 'Ticket counter only',
+    permissions: ['booking:create', 'booking:verify', 'booking:view', 'daypass:sell', 'queue:view', 'print:ticket']
+  },
+  GATE_AGENT: {
+    description: 'Entry and exit gates',
+    permissions: ['booking:verify', 'driver-ticket:issue', 'queue:view', 'queue:manage', 'plate:review', 'vehicle:view', 'print:ticket']
+  }
+};
+
+// Signed requests from the central server: online bookings and the lookups they need
+const CENTRAL_SERVER_ROLE = 'CENTRAL_SERVER';
+const CENTRAL_SERVER_PERMISSIONS: Permission[] = ['booking:create', 'booking:view', 'queue:view', 'vehicle:view'];
+
+export interface RoleDefinition {
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+  isBuiltIn: boolean;
+}
+
+class PermissionService {
+  private roles: Map<string, Set<Permission>> = new Map(
+    Object.entries(BUILT_IN_ROLES).map(([name, role]) => [name, new Set(role.permissions)])
+  );
+
+  /**
+   * Seed missing built-in roles and load every role into memory
+   */
+  async initialize(): Promise<void> {
+    await prisma.staffRole.createMany({
+      data: Object.entries(BUILT_IN_ROLES).map(([name, role]) => ({
+        name,
+        description: role.description,
+        permissions: JSON.stringify(role.permissions),
+        isBuiltIn: true
+      })),
+      skipDuplicates: true
+    });
+
+    await this.reload();
+    console.log(`🔑 Loaded ${this.roles.size} staff roles`);
+  }
+
+  async reload(): Promise<void> {
+    const rows = await prisma.staffRole.findMany();
+    const roles = new Map<string, Set<Permission>>();
+
+    for (const row of rows) {
+      roles.set(row.name, new Set(row.name === 'ADMIN' ? ALL_PERMISSIONS : this.parsePermissions(row.permissions)));
+    }
+
+    this.roles = roles;
+  }
+
+  hasPermission(role: string | null | undefined, permission: Permission): boolean {
+    if (!role) return false;
+    if (role === CENTRAL_SERVER_ROLE) return CENTRAL_SERVER_PERMISSIONS.includes(permission);
+    return this.roles.get(role)?.has(permission) ?? false;
+  }
+
+  isCentralServer(role: string | null | undefined): boolean {
+    return role === CENTRAL_SERVER_ROLE;
+  }
+
+  isKnownRole(role: string | null | undefined): boolean {
+    return !!role && (role === CENTRAL_SERVER_ROLE || this.roles.has(role));
+  }
+
+  getPermissions(role: string | null | undefined): Permission[] {
+    if (!role) return [];
+    if (role === CENTRAL_SERVER_ROLE) return [...CENTRAL_SERVER_PERMISSIONS];
+    return [...(this.roles.get(role) || [])];
+  }
+
+  isPermission(value: string): value is Permission {
+    return Object.prototype.hasOwnProperty.call(PERMISSIONS, value);
+  }
+
+  async listRoles(): Promise<Array<RoleDefinition & { staffCount: number }>> {
+    const [rows, counts] = await Promise.all([
+      prisma.staffRole.findMany({ orderBy: [{ isBuiltIn: 'desc' }, { name: 'asc' }] }),
+      prisma.staff.groupBy({ by: ['role'], _count: { _all: true } })
+    ]);
+
+    return rows.map(row => ({
+      ...this.toDefinition(row),
+      staffCount: counts.find(c => c.role === row.name)?._count._all || 0
+    }));
+  }
+
+  async getRole(name: string): Promise<RoleDefinition | null> {
+    const row = await prisma.staffRole.findUnique({ where: { name } });
+    return row ? this.toDefinition(row) : null;
+  }
+
+  async createRole(name: string, permissions: Permission[], description?: string | null): Promise<RoleDefinition> {
+    const row = await prisma.staffRole.create({
+      data: {
+        name,
+        description: description || null,
+        permissions: JSON.stringify([...new Set(permissions)]),
+        isBuiltIn: false
+      }
+    });
+
+    await this.reload();
+    return this.toDefinition(row);
+  }
+
+  async updateRole(name: string, changes: { permissions?: Permission[] | undefined; description?: string | null | undefined }): Promise<RoleDefinition> {
+    if (name === 'ADMIN' && changes.permissions) {
+      throw new Error('ADMIN permissions cannot be changed');
+    }
+
+    const row = await prisma.staffRole.update({
+      where: { name },
+      data: {
+        ...(changes.permissions && { permissions: JSON.stringify([...new Set(changes.permissions)]) }),
+        ...(changes.description !== undefined && { description: changes.description })
+      }
+    });
+
+    await this.reload();
+    return this.toDefinition(row);
+  }
+
+  async deleteRole(name: string): Promise<void> {
+    const role = await prisma.staffRole.findUnique({ where: { name } });
+    if (!role) {
+      throw new Error('Role not found');
+    }
+    if (role.isBuiltIn) {
+      throw new Error('Built-in roles cannot be deleted');
+    }
+
+    const assigned = await prisma.staff.count({ where: { role: name } });
+    if (assigned > 0) {
+      throw new Error(`Role is assigned to ${assigned} staff member(s)`);
+    }
+
+    await prisma.staffRole.delete({ where: { name } });
+    await this.reload();
+  }
+
+  private toDefinition(row: { name: string; description: string | null; permissions: string; isBuiltIn: boolean }): RoleDefinition {
+    return {
+      name: row.name,
+      description: row.description,
+      permissions: row.name === 'ADMIN' ? ALL_PERMISSIONS : this.parsePermissions(row.permissions),
+      isBuiltIn: row.isBuiltIn
+    };
+  }
+
+  private parsePermissions(raw: string): Permission[] {
+    try {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed.filter((p: any) => typeof p === 'string' && this.isPermission(p)) : [];
+    } catch {
+      return [];
+    }
+  }
+}
+
+export const permissionService = new PermissionService();
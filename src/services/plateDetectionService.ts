@@ -0,0 +1,227 @@
+import { prisma } from '../config/database';
+import { QueueService, QueueEntry } from './queueService';
+import { LoggingService } from './loggingService';
+import { PlateReadWindow, isLowConfidence, normalizeConfidence, normalizePlate } from '../utils/plateReads';
+
+export type PlateDetectionStatus = 'PENDING' | 'UNKNOWN_VEHICLE' | 'CONFIRMED' | 'CORRECTED' | 'REJECTED';
+
+// Detections still waiting for a staff decision
+const REVIEWABLE_STATUSES: PlateDetectionStatus[] = ['PENDING', 'UNKNOWN_VEHICLE'];
+
+export interface PlateRead {
+  licensePlate: string;
+  confidence: number;
+  cameraId?: string | undefined;
+  imageBase64?: string | undefined;
+}
+
+export type PlateReadDecision =
+  | { action: 'duplicate'; licensePlate: string }
+  | { action: 'already_in_queue'; licensePlate: string; queueEntryId: string }
+  | { action: 'review'; licensePlate: string; detection: any }
+  | { action: 'enter'; licensePlate: string };
+
+class PlateDetectionService {
+  private readWindow = new PlateReadWindow();
+
+  /**
+   * Decide what to do with a camera read: hold it for staff review (low confidence or unknown
+   * vehicle), ignore it as a repeat, report it as already queued or auto-enter it.
+   */
+  async evaluate(read: PlateRead): Promise<PlateReadDecision> {
+    const licensePlate = normalizePlate(read.licensePlate);
+    const confidence = normalizeConfidence(read.confidence);
+
+    if (isLowConfidence(confidence)) {
+      const detection = await this.storeForReview({ ...read, licensePlate, confidence }, 'PENDING');
+      return { action: 'review', licensePlate, detection };
+    }
+
+    if (this.readWindow.isRepeatedRead(licensePlate)) {
+      return { action: 'duplicate', licensePlate };
+    }
+
+    const queueEntry = await prisma.vehicleQueue.findFirst({
+      where: {
+        status: { in: ['WAITING', 'LOADING', 'READY'] },
+        vehicle: { licensePlate }
+      },
+      select: { id: true }
+    });
+
+    if (queueEntry) {
+      return { action: 'already_in_queue', licensePlate, queueEntryId: queueEntry.id };
+    }
+
+    const vehicle = await prisma.vehicle.findUnique({
+      where: { licensePlate },
+      select: { id: true }
+    });
+
+    if (!vehicle) {
+      const detection = await this.storeForReview({ ...read, licensePlate, confidence }, 'UNKNOWN_VEHICLE');
+      return { action: 'review', licensePlate, detection };
+    }
+
+    return { action: 'enter', licensePlate };
+  }
+
+  /**
+   * Accept a detection (optionally with a corrected plate) and enter the vehicle into its queue
+   */
+  async confirm(detectionId: string, staffId: string, queueService: QueueService, correctedPlate?: string): Promise<{
+    success: boolean;
+    detection?: any;
+    queueEntry?: QueueEntry | undefined;
+    error?: string;
+  }> {
+    try {
+      const detection = await prisma.plateDetection.findUnique({ where: { id: detectionId } });
+
+      if (!detection) {
+        return { success: false, error: 'Plate detection not found' };
+      }
+
+      if (!REVIEWABLE_STATUSES.includes(detection.status as PlateDetectionStatus)) {
+        return { success: false, error: `Plate detection is already ${detection.status.toLowerCase()}` };
+      }
+
+      const licensePlate = normalizePlate(correctedPlate || detection.licensePlate);
+      const enterResult = await queueService.enterQueue(licensePlate, {});
+
+      if (!enterResult.success) {
+        return { success: false, error: enterResult.error || `Failed to enter vehicle ${licensePlate} into queue` };
+      }
+
+      const status: PlateDetectionStatus = licensePlate === detection.licensePlate ? 'CONFIRMED' : 'CORRECTED';
+      const updated = await prisma.plateDetection.update({
+        where: { id: detectionId },
+        data: {
+          status,
+          confirmedPlate: licensePlate,
+          queueEntryId: enterResult.queueEntry?.id || null,
+          reviewedBy: staffId,
+          reviewedAt: new Date()
+        }
+      });
+
+      await LoggingService.logOperation(staffId, status === 'CONFIRMED' ? 'PLATE_DETECTION_CONFIRMED' : 'PLATE_DETECTION_CORRECTED', {
+        detectionId,
+        detectedPlate: detection.licensePlate,
+        confirmedPlate: licensePlate,
+        confidence: detection.confidence
+      });
+
+      return { success: true, detection: updated, queueEntry: enterResult.queueEntry };
+
+    } catch (error) {
+      console.error('❌ Error confirming plate detection:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Dismiss a detection (false read, vehicle not entering the station)
+   */
+  async reject(detectionId: string, staffId: string): Promise<{ success: boolean; detection?: any; error?: string }> {
+    try {
+      const detection = await prisma.plateDetection.findUnique({ where: { id: detectionId } });
+
+      if (!detection) {
+        return { success: false, error: 'Plate detection not found' };
+      }
+
+      if (!REVIEWABLE_STATUSES.includes(detection.status as PlateDetectionStatus)) {
+        return { success: false, error: `Plate detection is already ${detection.status.toLowerCase()}` };
+      }
+
+      const updated = await prisma.plateDetection.update({
+        where: { id: detectionId },
+        data: { status: 'REJECTED', reviewedBy: staffId, reviewedAt: new Date() }
+      });
+
+      await LoggingService.logOperation(staffId, 'PLATE_DETECTION_REJECTED', {
+        detectionId,
+        licensePlate: detection.licensePlate,
+        confidence: detection.confidence
+      });
+
+      return { success: true, detection: updated };
+
+    } catch (error) {
+      console.error('❌ Error rejecting plate detection:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Detections for review, newest first. Defaults to the ones still waiting for staff.
+   */
+  async list(filters: { status?: string | undefined; limit?: number } = {}) {
+    return prisma.plateDetection.findMany({
+      where: filters.status ? { status: filters.status } : { status: { in: REVIEWABLE_STATUSES } },
+      select: {
+        id: true,
+        licensePlate: true,
+        confidence: true,
+        cameraId: true,
+        status: true,
+        readCount: true,
+        detectedAt: true,
+        lastReadAt: true,
+        confirmedPlate: true,
+        queueEntryId: true,
+        reviewedBy: true,
+        reviewedAt: true
+      },
+      orderBy: { lastReadAt: 'desc' },
+      take: filters.limit || 50
+    });
+  }
+
+  async getDetection(detectionId: string) {
+    return prisma.plateDetection.findUnique({ where: { id: detectionId } });
+  }
+
+  /**
+   * Store a read for review. Repeated reads of a plate that is already waiting are merged into it.
+   */
+  private async storeForReview(read: PlateRead, status: PlateDetectionStatus) {
+    const now = new Date();
+    const existing = await prisma.plateDetection.findFirst({
+      where: { licensePlate: read.licensePlate, status: { in: REVIEWABLE_STATUSES } },
+      orderBy: { lastReadAt: 'desc' }
+    });
+
+    if (existing) {
+      return prisma.plateDetection.update({
+        where: { id: existing.id },
+        data: {
+          status,
+          readCount: { increment: 1 },
+          lastReadAt: now,
+          // Keep the best read (and its image) for the reviewer
+          ...(read.confidence > existing.confidence && {
+            confidence: read.confidence,
+            cameraId: read.cameraId || existing.cameraId,
+            imageBase64: read.imageBase64 || existing.imageBase64
+          })
+        }
+      });
+    }
+
+    return prisma.plateDetection.create({
+      data: {
+        licensePlate: read.licensePlate,
+        confidence: read.confidence,
+        cameraId: read.cameraId || null,
+        imageBase64: read.imageBase64 || null,
+        status,
+        detectedAt: now,
+        lastReadAt: now
+      }
+    });
+  }
+}
+
+export const plateDetectionService = new PlateDetectionService();
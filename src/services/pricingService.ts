@@ -0,0 +1,426 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { roundAmount } from '../utils/reporting';
+import { auditService, AuditContext } from './auditService';
+
+export type PriceRuleType = 'PEAK' | 'DAY_OF_WEEK' | 'HOLIDAY' | 'NIGHT';
+export type PriceAdjustmentType = 'FIXED' | 'AMOUNT' | 'PERCENT';
+
+const RULE_TYPES: PriceRuleType[] = ['PEAK', 'DAY_OF_WEEK', 'HOLIDAY', 'NIGHT'];
+const ADJUSTMENT_TYPES: PriceAdjustmentType[] = ['FIXED', 'AMOUNT', 'PERCENT'];
+const DEFAULT_SERVICE_FEE = 0.200;
+
+export interface PriceRuleInput {
+  destinationId: string;
+  name: string;
+  ruleType: PriceRuleType;
+  daysOfWeek?: number[] | null | undefined;
+  startTime?: string | null | undefined;
+  endTime?: string | null | undefined;
+  startDate?: string | Date | null | undefined;
+  endDate?: string | Date | null | undefined;
+  adjustmentType: PriceAdjustmentType;
+  adjustmentValue: number;
+  priority?: number | undefined;
+  isActive?: boolean | undefined;
+}
+
+export interface AppliedPriceRule {
+  id: string;
+  name: string;
+  ruleType: string;
+  adjustmentType: string;
+  adjustmentValue: number;
+  priceBefore: number;
+  priceAfter: number;
+}
+
+export interface PriceQuote {
+  destinationId: string;
+  destinationName: string | null;
+  seats: number;
+  quotedAt: Date;
+  basePrice: number; // Route fare before rules
+  pricePerSeat: number; // Fare after rules
+  serviceFeePerSeat: number;
+  baseAmount: number;
+  serviceFeeAmount: number;
+  totalAmount: number;
+  appliedRules: AppliedPriceRule[];
+  explanation: string[];
+}
+
+type PrismaClientLike = Prisma.TransactionClient | typeof prisma;
+
+class PricingService {
+  /**
+   * Price `seats` seats to a destination at a given moment. This is the single source of
+   * fares for cash, queue and online bookings.
+   * `fallbackBasePrice` is used when the destination has no priced route (queue entry price).
+   */
+  async quote(
+    destinationId: string,
+    seats: number,
+    options: { at?: Date | undefined; fallbackBasePrice?: number | undefined } = {},
+    tx?: Prisma.TransactionClient
+  ): Promise<PriceQuote> {
+    const client: PrismaClientLike = tx || prisma;
+    const at = options.at || new Date();
+
+    const [route, stationConfig, rules] = await Promise.all([
+      client.route.findUnique({ where: { stationId: destinationId } }),
+      client.stationConfig.findFirst({ select: { serviceFee: true } }),
+      client.routePriceRule.findMany({
+        where: { destinationId, isActive: true },
+        orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+      })
+    ]);
+
+    let basePrice = route && route.basePrice > 0 ? route.basePrice : 0;
+    let baseSource = route?.stationName ? `route ${route.stationName}` : 'route';
+
+    if (!basePrice) {
+      basePrice = options.fallbackBasePrice ?? await this.queueBasePrice(client, destinationId);
+      baseSource = 'vehicle queue';
+    }
+
+    const explanation = [`Base fare ${this.format(basePrice)} TND (${baseSource})`];
+    const appliedRules: AppliedPriceRule[] = [];
+    let pricePerSeat = basePrice;
+
+    for (const rule of rules) {
+      if (!this.matches(rule, at)) continue;
+
+      const priceBefore = pricePerSeat;
+      pricePerSeat = roundAmount(Math.max(this.adjust(pricePerSeat, rule.adjustmentType, rule.adjustmentValue), 0));
+
+      appliedRules.push({
+        id: rule.id,
+        name: rule.name,
+        ruleType: rule.ruleType,
+        adjustmentType: rule.adjustmentType,
+        adjustmentValue: rule.adjustmentValue,
+        priceBefore,
+        priceAfter: pricePerSeat
+      });
+      explanation.push(`${rule.name} (${rule.ruleType}): ${this.describeAdjustment(rule.adjustmentType, rule.adjustmentValue)} -> ${this.format(pricePerSeat)} TND`);
+    }
+
+    const serviceFeePerSeat = Number(stationConfig?.serviceFee ?? DEFAULT_SERVICE_FEE);
+    const baseAmount = roundAmount(pricePerSeat * seats);
+    const serviceFeeAmount = roundAmount(serviceFeePerSeat * seats);
+    const totalAmount = roundAmount(baseAmount + serviceFeeAmount);
+
+    explanation.push(`Fare ${this.format(pricePerSeat)} x ${seats} seat(s) = ${this.format(baseAmount)} TND`);
+    explanation.push(`Service fee ${this.format(serviceFeePerSeat)} x ${seats} seat(s) = ${this.format(serviceFeeAmount)} TND`);
+    explanation.push(`Total ${this.format(totalAmount)} TND`);
+
+    return {
+      destinationId,
+      destinationName: route?.stationName || null,
+      seats,
+      quotedAt: at,
+      basePrice,
+      pricePerSeat,
+      serviceFeePerSeat,
+      baseAmount,
+      serviceFeeAmount,
+      totalAmount,
+      appliedRules,
+      explanation
+    };
+  }
+
+  /**
+   * Applied rules as stored on a booking
+   */
+  serializeAppliedRules(quote: PriceQuote): string | null {
+    if (quote.appliedRules.length === 0) return null;
+    return JSON.stringify(quote.appliedRules.map(rule => ({
+      id: rule.id,
+      name: rule.name,
+      ruleType: rule.ruleType,
+      adjustmentType: rule.adjustmentType,
+      adjustmentValue: rule.adjustmentValue
+    })));
+  }
+
+  /**
+   * Pricing rules, by priority (all destinations unless one is given)
+   */
+  async listRules(filters: { destinationId?: string | undefined; includeInactive?: boolean } = {}) {
+    const rules = await prisma.routePriceRule.findMany({
+      where: {
+        ...(filters.destinationId && { destinationId: filters.destinationId }),
+        ...(!filters.includeInactive && { isActive: true })
+      },
+      orderBy: [{ destinationId: 'asc' }, { priority: 'asc' }, { createdAt: 'asc' }]
+    });
+
+    return rules.map(rule => this.formatRule(rule));
+  }
+
+  async createRule(input: PriceRuleInput, audit?: AuditContext): Promise<{ success: boolean; rule?: any; error?: string }> {
+    try {
+      const validationError = this.validateRule(input);
+      if (validationError) {
+        return { success: false, error: validationError };
+      }
+
+      const route = await prisma.route.findUnique({ where: { stationId: input.destinationId }, select: { id: true } });
+      if (!route) {
+        return { success: false, error: `No route found for destination ${input.destinationId}` };
+      }
+
+      const rule = await prisma.routePriceRule.create({
+        data: {
+          ...this.toRuleData(input),
+          destinationId: input.destinationId,
+          createdBy: audit?.actorId || null
+        }
+      });
+
+      await auditService.record({
+        action: 'ROUTE_PRICE_RULE_CREATED',
+        entityType: 'ROUTE',
+        entityId: route.id,
+        after: this.formatRule(rule)
+      }, audit);
+
+      return { success: true, rule: this.formatRule(rule) };
+
+    } catch (error) {
+      console.error('❌ Error creating price rule:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  async updateRule(ruleId: string, changes: Partial<PriceRuleInput>, audit?: AuditContext): Promise<{ success: boolean; rule?: any; error?: string }> {
+    try {
+      const existing = await prisma.routePriceRule.findUnique({ where: { id: ruleId } });
+      if (!existing) {
+        return { success: false, error: 'Price rule not found' };
+      }
+
+      const current = this.formatRule(existing);
+      const merged: PriceRuleInput = {
+        ...current,
+        ...Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)),
+        destinationId: existing.destinationId
+      };
+
+      const validationError = this.validateRule(merged);
+      if (validationError) {
+        return { success: false, error: validationError };
+      }
+
+      const rule = await prisma.routePriceRule.update({
+        where: { id: ruleId },
+        data: this.toRuleData(merged)
+      });
+
+      await auditService.record({
+        action: 'ROUTE_PRICE_RULE_UPDATED',
+        entityType: 'ROUTE',
+        entityId: await this.routeIdFor(existing.destinationId),
+        before: current,
+        after: this.formatRule(rule)
+      }, audit);
+
+      return { success: true, rule: this.formatRule(rule) };
+
+    } catch (error) {
+      console.error('❌ Error updating price rule:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  async deleteRule(ruleId: string, audit?: AuditContext): Promise<{ success: boolean; error?: string }> {
+    try {
+      const existing = await prisma.routePriceRule.findUnique({ where: { id: ruleId } });
+      if (!existing) {
+        return { success: false, error: 'Price rule not found' };
+      }
+
+      await prisma.routePriceRule.delete({ where: { id: ruleId } });
+
+      await auditService.record({
+        action: 'ROUTE_PRICE_RULE_DELETED',
+        entityType: 'ROUTE',
+        entityId: await this.routeIdFor(existing.destinationId),
+        before: this.formatRule(existing)
+      }, audit);
+
+      return { success: true };
+
+    } catch (error) {
+      console.error('❌ Error deleting price rule:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * True when every condition set on the rule holds at the given moment
+   */
+  private matches(rule: { daysOfWeek: string | null; startTime: string | null; endTime: string | null; startDate: Date | null; endDate: Date | null }, at: Date): boolean {
+    const minutes = at.getHours() * 60 + at.getMinutes();
+    let day = new Date(at.getFullYear(), at.getMonth(), at.getDate());
+
+    if (rule.startTime && rule.endTime) {
+      const start = this.toMinutes(rule.startTime);
+      const end = this.toMinutes(rule.endTime);
+
+      if (start < end) {
+        if (minutes < start || minutes >= end) return false;
+      } else if (start > end) {
+        if (minutes < start && minutes >= end) return false;
+        // After midnight, the band belongs to the day it started on
+        if (minutes < end) day = new Date(day.getFullYear(), day.getMonth(), day.getDate() - 1);
+      }
+    }
+
+    if (rule.daysOfWeek) {
+      const days = this.parseDays(rule.daysOfWeek);
+      if (!days.includes(day.getDay())) return false;
+    }
+
+    if (rule.startDate && day < this.startOfDay(rule.startDate)) return false;
+    if (rule.endDate && day > this.startOfDay(rule.endDate)) return false;
+
+    return true;
+  }
+
+  private adjust(price: number, adjustmentType: string, value: number): number {
+    switch (adjustmentType) {
+      case 'FIXED':
+        return value;
+      case 'AMOUNT':
+        return price + value;
+      case 'PERCENT':
+        return price * (1 + value / 100);
+      default:
+        return price;
+    }
+  }
+
+  private describeAdjustment(adjustmentType: string, value: number): string {
+    switch (adjustmentType) {
+      case 'FIXED':
+        return `fare set to ${this.format(value)} TND`;
+      case 'AMOUNT':
+        return `${value >= 0 ? '+' : '-'}${this.format(Math.abs(value))} TND`;
+      case 'PERCENT':
+        return `${value >= 0 ? '+' : ''}${value}%`;
+      default:
+        return 'no change';
+    }
+  }
+
+  private validateRule(input: PriceRuleInput): string | null {
+    if (!input.destinationId) return 'destinationId is required';
+    if (!input.name || !input.name.trim()) return 'name is required';
+    if (!RULE_TYPES.includes(input.ruleType)) return `ruleType must be one of ${RULE_TYPES.join(', ')}`;
+    if (!ADJUSTMENT_TYPES.includes(input.adjustmentType)) return `adjustmentType must be one of ${ADJUSTMENT_TYPES.join(', ')}`;
+    if (typeof input.adjustmentValue !== 'number' || !Number.isFinite(input.adjustmentValue)) return 'adjustmentValue must be a number';
+    if (input.adjustmentType === 'FIXED' && input.adjustmentValue <= 0) return 'A FIXED fare must be positive';
+    if (input.adjustmentType === 'PERCENT' && input.adjustmentValue <= -100) return 'A PERCENT adjustment must be above -100';
+
+    const hasTimeBand = !!(input.startTime || input.endTime);
+    if (hasTimeBand && !(this.isValidTime(input.startTime) && this.isValidTime(input.endTime))) {
+      return 'startTime and endTime must both be given as HH:mm';
+    }
+    if (input.daysOfWeek && (!Array.isArray(input.daysOfWeek) || input.daysOfWeek.some(d => !Number.isInteger(d) || d < 0 || d > 6))) {
+      return 'daysOfWeek must be a list of days from 0 (Sunday) to 6 (Saturday)';
+    }
+
+    const startDate = input.startDate ? this.parseDate(input.startDate) : null;
+    const endDate = input.endDate ? this.parseDate(input.endDate) : null;
+    if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) return 'Invalid startDate or endDate';
+    if (startDate && endDate && startDate > endDate) return 'startDate must be before endDate';
+
+    switch (input.ruleType) {
+      case 'PEAK':
+      case 'NIGHT':
+        if (!hasTimeBand) return `${input.ruleType} rules need startTime and endTime`;
+        break;
+      case 'DAY_OF_WEEK':
+        if (!input.daysOfWeek || input.daysOfWeek.length === 0) return 'DAY_OF_WEEK rules need daysOfWeek';
+        break;
+      case 'HOLIDAY':
+        if (!startDate || !endDate) return 'HOLIDAY rules need startDate and endDate';
+        break;
+    }
+
+    return null;
+  }
+
+  private toRuleData(input: PriceRuleInput) {
+    return {
+      name: input.name.trim(),
+      ruleType: input.ruleType,
+      daysOfWeek: input.daysOfWeek && input.daysOfWeek.length > 0 ? [...new Set(input.daysOfWeek)].sort().join(',') : null,
+      startTime: input.startTime || null,
+      endTime: input.endTime || null,
+      startDate: input.startDate ? this.startOfDay(this.parseDate(input.startDate)) : null,
+      endDate: input.endDate ? this.startOfDay(this.parseDate(input.endDate)) : null,
+      adjustmentType: input.adjustmentType,
+      adjustmentValue: input.adjustmentValue,
+      priority: input.priority ?? 0,
+      isActive: input.isActive ?? true
+    };
+  }
+
+  private formatRule(rule: any) {
+    return {
+      ...rule,
+      daysOfWeek: rule.daysOfWeek ? this.parseDays(rule.daysOfWeek) : null
+    };
+  }
+
+  private async queueBasePrice(client: PrismaClientLike, destinationId: string): Promise<number> {
+    const entry = await client.vehicleQueue.findFirst({
+      where: { destinationId, status: { in: ['WAITING', 'LOADING', 'READY'] } },
+      select: { basePrice: true },
+      orderBy: { queuePosition: 'asc' }
+    });
+    return entry?.basePrice || 0;
+  }
+
+  private async routeIdFor(destinationId: string): Promise<string> {
+    const route = await prisma.route.findUnique({ where: { stationId: destinationId }, select: { id: true } });
+    return route?.id || destinationId;
+  }
+
+  /**
+   * Plain YYYY-MM-DD dates are local days, not UTC midnight
+   */
+  private parseDate(value: string | Date): Date {
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return new Date(`${value}T00:00:00`);
+    }
+    return new Date(value);
+  }
+
+  private parseDays(daysOfWeek: string): number[] {
+    return daysOfWeek.split(',').map(d => parseInt(d, 10)).filter(d => !isNaN(d));
+  }
+
+  private isValidTime(time?: string | null): boolean {
+    return !!time && /^([01]\d|2[0-3]):[0-5]\d$/.test(time);
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return (hours || 0) * 60 + (minutes || 0);
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  }
+
+  private format(amount: number): string {
+    return amount.toFixed(3);
+  }
+}
+
+export const pricingService = new PricingService();
@@ -1,9 +1,13 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
 import { WebSocketService } from '../websocket/webSocketService';
 import { EnhancedLocalWebSocketServer } from '../websocket/EnhancedLocalWebSocketServer';
 import * as dashboardController from '../controllers/dashboardController';
 import { RouteService } from './routeService';
 import { configService } from '../config/supervisorConfig';
+import { enqueueSyncChange } from './syncService';
+import { EnhancedMQTTService } from './enhancedMqttService';
+import { auditService, AuditContext } from './auditService';
 
 export interface QueueEntry {
   id: string;
@@ -19,6 +23,8 @@ export interface QueueEntry {
   basePrice: number;
   estimatedDeparture?: Date;
   actualDeparture?: Date;
+  heldAt?: Date | undefined;
+  holdReason?: string | undefined;
   vehicle?: {
     model?: string | undefined;
     color?: string | undefined;
@@ -52,6 +58,14 @@ export function setLocalWebSocketServer(wsServer: EnhancedLocalWebSocketServer)
   localWebSocketServer = wsServer;
 }
 
+// Add a reference to the EnhancedMQTTService
+let enhancedMqttService: EnhancedMQTTService | null = null;
+
+// Function to set the EnhancedMQTTService instance
+export function setQueueMqttService(mqttService: EnhancedMQTTService) {
+  enhancedMqttService = mqttService;
+}
+
 // Function to notify about queue updates
 async function notifyQueueUpdate(queue: any) {
   if (localWebSocketServer) {
@@ -70,6 +84,29 @@ async function notifyQueueUpdate(queue: any) {
   }
 }
 
+/**
+ * Remove a queue entry that is leaving without departing (exit, destination change, overnight removal).
+ * Entries with any booking, trip or exit pass history are archived as REMOVED instead of deleted.
+ */
+export async function removeQueueEntry(queueId: string, tx?: Prisma.TransactionClient): Promise<void> {
+  const client = tx || prisma;
+  const [bookingCount, tripCount, exitPassCount] = await Promise.all([
+    client.booking.count({ where: { queueId } }),
+    client.trip.count({ where: { queueId } }),
+    client.exitPass.count({ where: { queueId } })
+  ]);
+
+  if (bookingCount + tripCount + exitPassCount > 0) {
+    await client.vehicleQueue.update({
+      where: { id: queueId },
+      data: { status: 'REMOVED' }
+    });
+    return;
+  }
+
+  await client.vehicleQueue.delete({ where: { id: queueId } });
+}
+
 export class QueueService {
   private currentStationId: string;
   private webSocketService: WebSocketService;
@@ -327,9 +364,7 @@ export class QueueService {
         const previousDestinationId = existingQueueEntry.destinationId;
 
         // Remove from current queue
-        await prisma.vehicleQueue.delete({
-          where: { id: existingQueueEntry.id }
-        });
+        await removeQueueEntry(existingQueueEntry.id);
 
         // Reorder the queue it was removed from
         await this.reorderQueue(previousDestinationId);
@@ -483,16 +518,13 @@ export class QueueService {
       });
 
       if (activeBookings > 0) {
-        console.log(`⚠️ Vehicle ${licensePlate} has ${activeBookings} active bookings, proceeding with cascade delete`);
-        // Note: With cascade delete in Prisma schema, related bookings will be automatically deleted
+        console.log(`⚠️ Vehicle ${licensePlate} has ${activeBookings} active bookings, archiving queue entry to keep them`);
       }
 
       const destinationId = queueEntry.destinationId;
 
-      // Delete the queue entry
-      await prisma.vehicleQueue.delete({
-        where: { id: queueEntry.id }
-      });
+      // Remove the queue entry (archived instead of deleted when it has booking history)
+      await removeQueueEntry(queueEntry.id);
 
       // Reorder remaining vehicles in the same destination queue
       await this.reorderQueue(destinationId);
@@ -897,6 +929,7 @@ export class QueueService {
               createdBy: creatorStaffId
             }
           });
+          await enqueueSyncChange('exit_passes', currentExitPass.id, 'INSERT', currentExitPass);
 
           const previousExitPass = await prisma.exitPass.findFirst({
             where: {
@@ -922,8 +955,8 @@ export class QueueService {
             totalAmount = totalPrice;
           }
 
-          // Remove from queue
-          await prisma.vehicleQueue.delete({ where: { id: updatedQueue.id } });
+          // Take the vehicle out of the active queue, keeping its bookings, trip and exit pass
+          await this.archiveDepartedEntry(updatedQueue.id);
           await this.reorderQueue(updatedQueue.destinationId);
 
           // Broadcast updates
@@ -1009,11 +1042,8 @@ export class QueueService {
         }
       });
 
-      // If vehicle departed, remove from queue and reorder
+      // If vehicle departed, it is no longer active (the entry stays as departure history) - reorder the rest
       if (status === 'DEPARTED') {
-        await prisma.vehicleQueue.delete({
-          where: { id: queueEntry.id }
-        });
         await this.reorderQueue(queueEntry.destinationId);
       }
 
@@ -1036,6 +1066,225 @@ export class QueueService {
     }
   }
 
+  /**
+   * Move a vehicle to a given position within its destination queue (supervisor)
+   */
+  async moveToPosition(queueId: string, position: number, audit?: AuditContext): Promise<{
+    success: boolean;
+    queue?: QueueEntry[];
+    error?: string;
+  }> {
+    try {
+      const queueEntry = await prisma.vehicleQueue.findUnique({ where: { id: queueId } });
+      if (!queueEntry || !['WAITING', 'LOADING', 'READY'].includes(queueEntry.status)) {
+        return { success: false, error: 'Vehicle is not in an active queue' };
+      }
+
+      const entries = await this.getOrderedEntries(queueEntry.destinationId, queueEntry.queueType);
+      if (!Number.isInteger(position) || position < 1 || position > entries.length) {
+        return { success: false, error: `Position must be between 1 and ${entries.length}` };
+      }
+
+      const moving = entries.find(entry => entry.id === queueId)!;
+      const reordered = entries.filter(entry => entry.id !== queueId);
+      reordered.splice(position - 1, 0, moving);
+
+      await this.applyQueueOrder(reordered);
+
+      await auditService.record({
+        action: 'QUEUE_POSITION_MOVED',
+        entityType: 'VEHICLE_QUEUE',
+        entityId: queueId,
+        before: this.positionSnapshot(entries),
+        after: this.positionSnapshot(reordered, reordered.map((_, index) => index + 1))
+      }, audit);
+
+      console.log(`↕️ Moved vehicle ${moving.vehicle.licensePlate} to position ${position} for ${queueEntry.destinationName}`);
+
+      this.broadcastQueueReorder(queueEntry.destinationId, 'moved', [queueId]);
+
+      return this.getDestinationQueue(queueEntry.destinationId);
+
+    } catch (error) {
+      console.error('❌ Error moving queue entry:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Swap the positions of two vehicles in the same destination queue (supervisor)
+   */
+  async swapPositions(firstQueueId: string, secondQueueId: string, audit?: AuditContext): Promise<{
+    success: boolean;
+    queue?: QueueEntry[];
+    error?: string;
+  }> {
+    try {
+      if (firstQueueId === secondQueueId) {
+        return { success: false, error: 'Cannot swap a vehicle with itself' };
+      }
+
+      const [first, second] = await Promise.all([
+        prisma.vehicleQueue.findUnique({ where: { id: firstQueueId }, include: { vehicle: { select: { licensePlate: true } } } }),
+        prisma.vehicleQueue.findUnique({ where: { id: secondQueueId }, include: { vehicle: { select: { licensePlate: true } } } })
+      ]);
+
+      const activeStatuses = ['WAITING', 'LOADING', 'READY'];
+      if (!first || !second || !activeStatuses.includes(first.status) || !activeStatuses.includes(second.status)) {
+        return { success: false, error: 'Both vehicles must be in an active queue' };
+      }
+
+      if (first.destinationId !== second.destinationId || first.queueType !== second.queueType) {
+        return { success: false, error: 'Vehicles must be in the same destination queue' };
+      }
+
+      await prisma.$transaction([
+        prisma.vehicleQueue.update({ where: { id: first.id }, data: { queuePosition: second.queuePosition } }),
+        prisma.vehicleQueue.update({ where: { id: second.id }, data: { queuePosition: first.queuePosition } })
+      ]);
+
+      await auditService.record({
+        action: 'QUEUE_POSITIONS_SWAPPED',
+        entityType: 'VEHICLE_QUEUE',
+        entityId: first.id,
+        before: this.positionSnapshot([first, second]),
+        after: this.positionSnapshot([first, second], [second.queuePosition, first.queuePosition])
+      }, audit);
+
+      console.log(`🔀 Swapped ${first.vehicle.licensePlate} (#${first.queuePosition}) and ${second.vehicle.licensePlate} (#${second.queuePosition}) for ${first.destinationName}`);
+
+      this.broadcastQueueReorder(first.destinationId, 'swapped', [first.id, second.id]);
+
+      return this.getDestinationQueue(first.destinationId);
+
+    } catch (error) {
+      console.error('❌ Error swapping queue entries:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Put a vehicle on hold: it keeps its position but is skipped for seat allocation
+   */
+  async holdVehicle(queueId: string, staffId: string, reason?: string, audit?: AuditContext): Promise<{
+    success: boolean;
+    queueEntry?: QueueEntry;
+    error?: string;
+  }> {
+    return this.setHold(queueId, true, staffId, reason, audit);
+  }
+
+  /**
+   * Release a held vehicle so it takes bookings again at its position
+   */
+  async releaseVehicle(queueId: string, staffId: string, audit?: AuditContext): Promise<{
+    success: boolean;
+    queueEntry?: QueueEntry;
+    error?: string;
+  }> {
+    return this.setHold(queueId, false, staffId, undefined, audit);
+  }
+
+  private async setHold(queueId: string, hold: boolean, staffId: string, reason: string | undefined, audit?: AuditContext): Promise<{
+    success: boolean;
+    queueEntry?: QueueEntry;
+    error?: string;
+  }> {
+    try {
+      const queueEntry = await prisma.vehicleQueue.findUnique({ where: { id: queueId } });
+      if (!queueEntry || !['WAITING', 'LOADING', 'READY'].includes(queueEntry.status)) {
+        return { success: false, error: 'Vehicle is not in an active queue' };
+      }
+
+      if (hold === !!queueEntry.heldAt) {
+        return { success: false, error: hold ? 'Vehicle is already on hold' : 'Vehicle is not on hold' };
+      }
+
+      const updated = await prisma.vehicleQueue.update({
+        where: { id: queueId },
+        data: hold
+          ? { heldAt: new Date(), heldBy: staffId, holdReason: reason || null }
+          : { heldAt: null, heldBy: null, holdReason: null },
+        include: {
+          vehicle: {
+            include: {
+              driver: true
+            }
+          }
+        }
+      });
+
+      await auditService.record({
+        action: hold ? 'QUEUE_VEHICLE_HELD' : 'QUEUE_VEHICLE_RELEASED',
+        entityType: 'VEHICLE_QUEUE',
+        entityId: queueId,
+        before: { heldAt: queueEntry.heldAt, holdReason: queueEntry.holdReason, queuePosition: queueEntry.queuePosition },
+        after: { heldAt: updated.heldAt, holdReason: updated.holdReason, queuePosition: updated.queuePosition }
+      }, audit);
+
+      console.log(`${hold ? '⏸️ Held' : '▶️ Released'} vehicle ${updated.vehicle.licensePlate} at position ${updated.queuePosition} for ${updated.destinationName}`);
+
+      this.broadcastQueueReorder(updated.destinationId, hold ? 'held' : 'released', [queueId]);
+
+      return { success: true, queueEntry: this.formatQueueEntry(updated) };
+
+    } catch (error) {
+      console.error('❌ Error updating vehicle hold:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Record the moment a vehicle passed the exit gate. Vehicles still in the active queue
+   * are taken out of it; already departed entries get their real departure time.
+   */
+  async recordGateDeparture(queueId: string, departedAt: Date): Promise<{ success: boolean; wasActive?: boolean; error?: string }> {
+    try {
+      const queueEntry = await prisma.vehicleQueue.findUnique({ where: { id: queueId } });
+      if (!queueEntry) {
+        return { success: false, error: 'Queue entry not found' };
+      }
+
+      const wasActive = ['WAITING', 'LOADING', 'READY'].includes(queueEntry.status);
+
+      const updated = await prisma.$transaction(async (tx) => {
+        const departed = await tx.vehicleQueue.update({
+          where: { id: queueId },
+          data: {
+            status: 'DEPARTED',
+            actualDeparture: departedAt
+          }
+        });
+        await enqueueSyncChange('vehicle_queue', departed.id, 'UPDATE', departed, tx);
+        return departed;
+      });
+
+      if (wasActive) {
+        await this.reorderQueue(queueEntry.destinationId);
+        this.broadcastQueueUpdate(queueEntry.destinationId);
+        notifyQueueUpdate(updated);
+      }
+
+      return { success: true, wasActive };
+
+    } catch (error) {
+      console.error('❌ Error recording gate departure:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   /**
    * Get next position in queue for a destination
    */
@@ -1054,28 +1303,78 @@ export class QueueService {
   }
 
   /**
-   * Reorder queue after vehicle removal
+   * Reorder queue after vehicle removal.
+   * Closes the gaps while keeping the current order, so manual moves are preserved.
    */
   private async reorderQueue(destinationId: string): Promise<void> {
-    const queueEntries = await prisma.vehicleQueue.findMany({
+    for (const queueType of ['REGULAR', 'OVERNIGHT']) {
+      const queueEntries = await this.getOrderedEntries(destinationId, queueType);
+      await this.applyQueueOrder(queueEntries);
+    }
+  }
+
+  /**
+   * Active entries of a destination queue in position order
+   */
+  private async getOrderedEntries(destinationId: string, queueType: string) {
+    return prisma.vehicleQueue.findMany({
       where: {
         destinationId,
+        queueType,
         status: { in: ['WAITING', 'LOADING', 'READY'] }
       },
-      orderBy: {
-        enteredAt: 'asc'
-      }
+      include: {
+        vehicle: { select: { licensePlate: true } }
+      },
+      orderBy: [
+        { queuePosition: 'asc' },
+        { enteredAt: 'asc' }
+      ]
     });
+  }
 
-    // Update positions
-    for (let i = 0; i < queueEntries.length; i++) {
-      await prisma.vehicleQueue.update({
-        where: { id: queueEntries[i].id },
-        data: { queuePosition: i + 1 }
-      });
+  /**
+   * Persist positions 1..n for the given order, only touching entries that moved
+   */
+  private async applyQueueOrder(entries: Array<{ id: string; queuePosition: number }>): Promise<void> {
+    const updates = entries
+      .map((entry, index) => ({ entry, position: index + 1 }))
+      .filter(({ entry, position }) => entry.queuePosition !== position)
+      .map(({ entry, position }) => prisma.vehicleQueue.update({
+        where: { id: entry.id },
+        data: { queuePosition: position }
+      }));
+
+    if (updates.length > 0) {
+      await prisma.$transaction(updates);
     }
   }
 
+  /**
+   * License plate -> position, used as audit snapshot of a queue
+   */
+  private positionSnapshot(entries: Array<{ queuePosition: number; vehicle: { licensePlate: string } }>, positions?: number[]): Record<string, number> {
+    const snapshot: Record<string, number> = {};
+    entries.forEach((entry, index) => {
+      snapshot[entry.vehicle.licensePlate] = positions ? positions[index] : entry.queuePosition;
+    });
+    return snapshot;
+  }
+
+  /**
+   * Mark a queue entry as departed so it leaves the active queue while its
+   * bookings, trips and exit passes stay attached for reporting
+   */
+  private async archiveDepartedEntry(queueId: string): Promise<void> {
+    await prisma.vehicleQueue.update({
+      where: { id: queueId },
+      data: {
+        status: 'DEPARTED',
+        actualDeparture: new Date()
+      }
+    });
+  }
+
   /**
    * Get destination name from route table
    */
@@ -1101,6 +1400,8 @@ export class QueueService {
       basePrice: entry.basePrice,
       estimatedDeparture: entry.estimatedDeparture,
       actualDeparture: entry.actualDeparture,
+      heldAt: entry.heldAt || undefined,
+      holdReason: entry.holdReason || undefined,
       vehicle: entry.vehicle ? {
         model: entry.vehicle.model || undefined,
         color: entry.vehicle.color || undefined,
@@ -1161,6 +1462,26 @@ export class QueueService {
     }
   }
 
+  /**
+   * Broadcast a manual queue change (move, swap, hold) via WebSocket and MQTT
+   */
+  private broadcastQueueReorder(destinationId: string, changeType: 'moved' | 'swapped' | 'held' | 'released', queueIds: string[]): void {
+    this.broadcastQueueUpdate(destinationId);
+
+    notifyQueueUpdate({ destinationId, changeType, queueIds });
+
+    if (enhancedMqttService) {
+      enhancedMqttService.notifyQueueUpdate({
+        type: 'queue_reordered',
+        destinationId,
+        stationId: this.currentStationId,
+        changeType,
+        queueIds,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
   /**
    * Get available destinations for a vehicle (for staff to choose from)
    */
@@ -1313,14 +1634,12 @@ export class QueueService {
         console.log(`❌ [BACKEND DEBUG] WebSocket service not available, cannot broadcast exit ticket event`);
       }
 
-      // Immediately remove vehicle from queue by directly deleting the queue entry
+      // Immediately remove vehicle from the active queue by archiving the queue entry as departed
       console.log(`🚪 Removing fully booked vehicle ${queueEntry.vehicle.licensePlate} from queue`);
       
       try {
-        // Directly delete the queue entry since the vehicle is fully booked
-        await prisma.vehicleQueue.delete({
-          where: { id: queueEntry.id }
-        });
+        // Archive rather than delete so the day's bookings and trip rows for this vehicle survive
+        await this.archiveDepartedEntry(queueEntry.id);
 
         // Reorder remaining vehicles in the same destination queue
         await this.reorderQueue(queueEntry.destinationId);
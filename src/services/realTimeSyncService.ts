@@ -1,6 +1,7 @@
 import { EventEmitter } from 'events';
 import { prisma } from '../config/database';
 import { ConcurrencyManager } from './concurrencyManager';
+import { removeQueueEntry } from './queueService';
 
 export interface SyncOperation {
   id: string;
@@ -504,7 +505,8 @@ export class RealTimeSyncService extends EventEmitter {
         await tx.booking.delete({ where: { id: entityId } });
         break;
       case 'vehicleQueue':
-        await tx.vehicleQueue.delete({ where: { id: entityId } });
+        // Bookings and trips keep their queue entry, so it is archived rather than deleted
+        await removeQueueEntry(entityId, tx);
         break;
       case 'route':
         await tx.route.delete({ where: { id: entityId } });
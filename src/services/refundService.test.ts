@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Prisma } from '@prisma/client';
+import { refundService, CancellationRefundInput } from './refundService';
+
+/**
+ * Transaction stand-in with the station refund settings; refunds and sync entries are collected
+ */
+const createTx = (stationConfig: { refundServiceFee: boolean; refundApprovalThreshold: number }) => {
+  const synced: string[] = [];
+  const tx = {
+    synced,
+    stationConfig: { findFirst: async () => stationConfig },
+    staffShift: { findFirst: async () => ({ id: 'shift-1' }) },
+    refund: { create: async ({ data }: any) => ({ id: 'refund-1', ...data }) },
+    syncQueue: { create: async ({ data }: any) => { synced.push(`${data.tableName}/${data.recordId}`); return data; } }
+  };
+  return tx;
+};
+
+// Two seats at 10 TND plus a 0.500 TND service fee each
+const cancellation = (overrides: Partial<CancellationRefundInput['booking']> = {}, seatsCancelled = 1): CancellationRefundInput => ({
+  booking: {
+    id: 'booking-1',
+    seatsBooked: 2,
+    totalAmount: 21,
+    paymentStatus: 'PAID',
+    paymentMethod: 'CASH',
+    createdBy: 'staff-1',
+    pricePerSeat: 10,
+    queue: { basePrice: 10 },
+    ...overrides
+  },
+  seatsCancelled
+});
+
+const refund = (tx: ReturnType<typeof createTx>, input: CancellationRefundInput) =>
+  refundService.createForCancellation(tx as unknown as Prisma.TransactionClient, input);
+
+test('the service fee is kept by the station unless the policy refunds it', async () => {
+  const kept = await refund(createTx({ refundServiceFee: false, refundApprovalThreshold: 20 }), cancellation());
+  assert.equal(kept?.grossAmount, 10.5);
+  assert.equal(kept?.serviceFeeAmount, 0.5);
+  assert.equal(kept?.amount, 10);
+  assert.equal(kept?.serviceFeeRefunded, false);
+
+  const refunded = await refund(createTx({ refundServiceFee: true, refundApprovalThreshold: 20 }), cancellation());
+  assert.equal(refunded?.amount, 10.5);
+  assert.equal(refunded?.serviceFeeRefunded, true);
+});
+
+test('refunds above the approval threshold wait for a supervisor', async () => {
+  const tx = createTx({ refundServiceFee: false, refundApprovalThreshold: 15 });
+
+  assert.equal((await refund(tx, cancellation()))?.status, 'COMPLETED');
+  assert.equal((await refund(tx, cancellation({}, 2)))?.status, 'PENDING_APPROVAL');
+  assert.deepEqual(tx.synced, ['refunds/refund-1', 'refunds/refund-1']);
+});
+
+test('the refund is attributed to the open shift of the staff member', async () => {
+  const recorded = await refund(createTx({ refundServiceFee: false, refundApprovalThreshold: 20 }), cancellation());
+  assert.equal(recorded?.refundedBy, 'staff-1');
+  assert.equal(recorded?.shiftId, 'shift-1');
+});
+
+test('no refund is recorded when no money was taken', async () => {
+  const tx = createTx({ refundServiceFee: true, refundApprovalThreshold: 20 });
+  assert.equal(await refund(tx, cancellation({ paymentStatus: 'PENDING' })), null);
+  assert.deepEqual(tx.synced, []);
+});
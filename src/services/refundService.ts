@@ -0,0 +1,214 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { roundAmount } from '../utils/reporting';
+import { LoggingService } from './loggingService';
+import { enqueueSyncChange } from './syncService';
+import { shiftService } from './shiftService';
+
+const loggingService = new LoggingService();
+
+export type RefundStatus = 'COMPLETED' | 'PENDING_APPROVAL' | 'REJECTED';
+
+export interface RefundPolicy {
+  serviceFeeRefundable: boolean;
+  approvalThreshold: number;
+}
+
+export interface RefundTotals {
+  count: number;
+  amount: number; // Returned to customers
+  retainedAmount: number; // Kept by the station on cancelled seats (non-refundable fees, rejected refunds)
+  pendingCount: number;
+  pendingAmount: number;
+}
+
+export interface CancellationRefundInput {
+  booking: { id: string; seatsBooked: number; totalAmount: number; paymentStatus: string; paymentMethod: string; createdBy: string | null; pricePerSeat: number | null; queue: { basePrice: number } };
+  seatsCancelled: number;
+  staffId?: string | undefined;
+  reason?: string | undefined;
+}
+
+const staffSelect = { id: true, firstName: true, lastName: true, role: true };
+
+class RefundService {
+  /**
+   * Current refund policy from the station configuration
+   */
+  async getPolicy(client: Prisma.TransactionClient = prisma): Promise<RefundPolicy> {
+    const stationConfig = await client.stationConfig.findFirst({
+      select: { refundServiceFee: true, refundApprovalThreshold: true }
+    });
+
+    return {
+      serviceFeeRefundable: stationConfig?.refundServiceFee ?? false,
+      approvalThreshold: stationConfig?.refundApprovalThreshold ?? 20
+    };
+  }
+
+  /**
+   * Record the refund for cancelled seats. Must run inside the cancellation transaction,
+   * before the booking row is reduced or cancelled.
+   * Returns null when no money was taken for the booking (e.g. unpaid online bookings).
+   */
+  async createForCancellation(tx: Prisma.TransactionClient, input: CancellationRefundInput) {
+    const { booking, seatsCancelled } = input;
+
+    if (booking.paymentStatus !== 'PAID') {
+      return null;
+    }
+
+    const refundedBy = input.staffId || booking.createdBy;
+    if (!refundedBy) {
+      console.warn(`⚠️ No staff member to attribute refund for booking ${booking.id}, skipping refund record`);
+      return null;
+    }
+
+    const policy = await this.getPolicy(tx);
+    const grossAmount = roundAmount((booking.totalAmount / booking.seatsBooked) * seatsCancelled);
+    const fare = booking.pricePerSeat ?? booking.queue.basePrice;
+    const serviceFeeAmount = roundAmount(Math.max(grossAmount - fare * seatsCancelled, 0));
+    const amount = policy.serviceFeeRefundable ? grossAmount : roundAmount(grossAmount - serviceFeeAmount);
+    const status: RefundStatus = amount > policy.approvalThreshold ? 'PENDING_APPROVAL' : 'COMPLETED';
+
+    const refund = await tx.refund.create({
+      data: {
+        bookingId: booking.id,
+        seatsCancelled,
+        grossAmount,
+        serviceFeeAmount,
+        serviceFeeRefunded: policy.serviceFeeRefundable,
+        amount,
+        paymentMethod: booking.paymentMethod,
+        status,
+        reason: input.reason || null,
+        refundedBy,
+        shiftId: await shiftService.getOpenShiftId(refundedBy, tx)
+      }
+    });
+    await enqueueSyncChange('refunds', refund.id, 'INSERT', refund, tx);
+
+    console.log(`💸 Refund ${refund.id} for booking ${booking.id}: ${amount.toFixed(3)} TND (${status})`);
+
+    return refund;
+  }
+
+  /**
+   * Supervisor approval of a refund above the threshold
+   */
+  async approveRefund(refundId: string, supervisorId: string, notes?: string): Promise<{ success: boolean; refund?: any; error?: string }> {
+    return this.review(refundId, supervisorId, 'COMPLETED', notes);
+  }
+
+  /**
+   * Supervisor rejection of a refund above the threshold. The seats stay cancelled, no cash is paid out.
+   */
+  async rejectRefund(refundId: string, supervisorId: string, notes?: string): Promise<{ success: boolean; refund?: any; error?: string }> {
+    return this.review(refundId, supervisorId, 'REJECTED', notes);
+  }
+
+  async getRefund(refundId: string) {
+    return prisma.refund.findUnique({
+      where: { id: refundId },
+      include: {
+        booking: { select: { id: true, verificationCode: true, seatsBooked: true, totalAmount: true, paymentStatus: true } },
+        refundedByStaff: { select: staffSelect },
+        approvedBy: { select: staffSelect }
+      }
+    });
+  }
+
+  async listRefunds(filters: { status?: string | undefined; staffId?: string | undefined; date?: string | undefined; limit?: number } = {}) {
+    const where: Prisma.RefundWhereInput = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.staffId) where.refundedBy = filters.staffId;
+    if (filters.date) {
+      const startOfDay = new Date(`${filters.date}T00:00:00`);
+      const endOfDay = new Date(startOfDay);
+      endOfDay.setDate(endOfDay.getDate() + 1);
+      where.createdAt = { gte: startOfDay, lt: endOfDay };
+    }
+
+    return prisma.refund.findMany({
+      where,
+      include: {
+        booking: { select: { id: true, verificationCode: true } },
+        refundedByStaff: { select: staffSelect },
+        approvedBy: { select: staffSelect }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit || 50
+    });
+  }
+
+  /**
+   * Refund totals for a period, used by the financial dashboards
+   */
+  async getTotals(from: Date, to: Date): Promise<RefundTotals> {
+    const refunds = await prisma.refund.findMany({
+      where: { createdAt: { gte: from, lte: to } },
+      select: { amount: true, grossAmount: true, status: true }
+    });
+
+    const completed = refunds.filter(r => r.status === 'COMPLETED');
+    const pending = refunds.filter(r => r.status === 'PENDING_APPROVAL');
+
+    return {
+      count: completed.length,
+      amount: roundAmount(completed.reduce((sum, r) => sum + r.amount, 0)),
+      retainedAmount: roundAmount(refunds.reduce((sum, r) => sum + this.retainedAmount(r), 0)),
+      pendingCount: pending.length,
+      pendingAmount: roundAmount(pending.reduce((sum, r) => sum + r.amount, 0))
+    };
+  }
+
+  private async review(refundId: string, supervisorId: string, status: RefundStatus, notes?: string): Promise<{ success: boolean; refund?: any; error?: string }> {
+    try {
+      const refund = await prisma.refund.findUnique({ where: { id: refundId } });
+
+      if (!refund) {
+        return { success: false, error: 'Refund not found' };
+      }
+
+      // Only the review that moves the refund out of PENDING_APPROVAL wins, a concurrent one gets count 0
+      const claimed = await prisma.refund.updateMany({
+        where: { id: refundId, status: 'PENDING_APPROVAL' },
+        data: {
+          status,
+          approvedById: supervisorId,
+          approvedAt: new Date(),
+          approvalNotes: notes || null
+        }
+      });
+
+      if (claimed.count === 0) {
+        const current = await prisma.refund.findUnique({ where: { id: refundId }, select: { status: true } });
+        return { success: false, error: `Refund is already ${(current?.status || refund.status).toLowerCase()}` };
+      }
+
+      const updated = await prisma.refund.findUniqueOrThrow({ where: { id: refundId } });
+      await enqueueSyncChange('refunds', updated.id, 'UPDATE', updated);
+
+      await loggingService.log(status === 'COMPLETED' ? 'REFUND_APPROVED' : 'REFUND_REJECTED', {
+        refundId,
+        bookingId: refund.bookingId,
+        amount: refund.amount,
+        supervisorId
+      });
+
+      return { success: true, refund: updated };
+    } catch (error) {
+      console.error('❌ Error reviewing refund:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Part of the cancelled seats' price the station keeps
+   */
+  retainedAmount(refund: { amount: number; grossAmount: number; status: string }): number {
+    return refund.status === 'REJECTED' ? refund.grossAmount : refund.grossAmount - refund.amount;
+  }
+}
+
+export const refundService = new RefundService();
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { reportService, ReportPeriod } from './reportService';
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date);
+
+const assertPeriod = (period: ReportPeriod | null, expected: ReportPeriod) => {
+  assert.ok(period);
+  assert.equal(period.type, expected.type);
+  assert.equal(period.start.getTime(), expected.start.getTime());
+  assert.equal(period.end.getTime(), expected.end.getTime());
+};
+
+test('a weekly report runs Monday to Sunday', () => {
+  // Sunday 2026-03-15 belongs to the week that started on Monday 2026-03-09
+  assertPeriod(reportService.weeklyPeriod('2026-03-15'), { type: 'weekly', start: day(2026, 3, 9), end: day(2026, 3, 16) });
+  assertPeriod(reportService.weeklyPeriod('2026-03-16'), { type: 'weekly', start: day(2026, 3, 16), end: day(2026, 3, 23) });
+});
+
+test('a monthly report covers the calendar month', () => {
+  assertPeriod(reportService.monthlyPeriod('2026-02'), { type: 'monthly', start: day(2026, 2, 1), end: day(2026, 3, 1) });
+  assertPeriod(reportService.monthlyPeriod('2026-12-25'), { type: 'monthly', start: day(2026, 12, 1), end: day(2027, 1, 1) });
+});
+
+test('a custom range includes both days and is bounded', () => {
+  assertPeriod(reportService.customPeriod('2026-03-01', '2026-03-03'), { type: 'custom', start: day(2026, 3, 1), end: day(2026, 3, 4) });
+  assertPeriod(reportService.customPeriod('2026-03-01'), { type: 'custom', start: day(2026, 3, 1), end: day(2026, 3, 2) });
+
+  assert.equal(reportService.customPeriod('2026-03-03', '2026-03-01'), null, 'end before start');
+  assert.equal(reportService.customPeriod('2025-01-01', '2026-03-01'), null, 'more than a year');
+  assert.equal(reportService.customPeriod('2026-02-30'), null, 'not a day');
+  assert.equal(reportService.customPeriod(), null, 'no start');
+});
+
+test('each period is compared with the one just before it', () => {
+  const weekly = reportService.weeklyPeriod('2026-03-11')!;
+  assertPeriod(reportService.previousPeriod(weekly), { type: 'weekly', start: day(2026, 3, 2), end: day(2026, 3, 9) });
+
+  // March is compared with the whole of February, not with 31 days
+  const monthly = reportService.monthlyPeriod('2026-03')!;
+  assertPeriod(reportService.previousPeriod(monthly), { type: 'monthly', start: day(2026, 2, 1), end: day(2026, 3, 1) });
+
+  const daily = reportService.dailyPeriod('2026-03-01')!;
+  assertPeriod(reportService.previousPeriod(daily), { type: 'custom', start: day(2026, 2, 28), end: day(2026, 3, 1) });
+
+  const custom = reportService.customPeriod('2026-03-10', '2026-03-12')!;
+  assertPeriod(reportService.previousPeriod(custom), { type: 'custom', start: day(2026, 3, 7), end: day(2026, 3, 10) });
+});
@@ -0,0 +1,458 @@
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, startOfDay, startOfMonth, startOfWeek } from 'date-fns';
+import { prisma } from '../config/database';
+import { refundService, RefundTotals } from './refundService';
+import { csvRow, formatDay, parseDay, roundAmount } from '../utils/reporting';
+
+/**
+ * Report Service
+ *
+ * Financial reports for a week, a month or any range of days, each compared with the
+ * period just before it. Booking revenue follows the supervisor dashboard: paid seats
+ * plus what the station kept on cancelled seats. Day passes and entry tickets are
+ * reported next to it as station income.
+ *
+ * Days frozen in the daily ledger are read from it; only the days not frozen yet
+ * (today, or days the close-of-day job has not reached) come from the live tables.
+ */
+
+export type ReportPeriodType = 'daily' | 'weekly' | 'monthly' | 'custom';
+
+export type ArchivedReportType = 'CLOSE_OF_DAY' | 'WEEKLY_SUMMARY';
+
+export interface ReportPeriod {
+  type: ReportPeriodType;
+  start: Date;
+  end: Date; // Exclusive
+}
+
+export interface RevenueFigures {
+  revenue: number;
+  bookings: number;
+  seats: number;
+}
+
+export interface LabelledFigures extends RevenueFigures {
+  label: string;
+}
+
+/**
+ * Additive figures of a period; a period's figures are the merge of its days'
+ */
+export interface PeriodFigures {
+  bookingRevenue: number;
+  bookings: number;
+  seats: number;
+  serviceFees: number;
+  dayPassIncome: number;
+  dayPassesSold: number;
+  entryTicketFees: number;
+  entryTickets: number;
+  exitTickets: number;
+  refunds: RefundTotals;
+  byDestination: Record<string, LabelledFigures>;
+  byStaff: Record<string, LabelledFigures>;
+  byHour: Record<string, LabelledFigures>;
+  byChannel: Record<string, LabelledFigures>;
+}
+
+export interface ReportSummary {
+  bookingRevenue: number;
+  bookings: number;
+  seats: number;
+  serviceFees: number;
+  averageBookingAmount: number;
+  dayPassIncome: number;
+  dayPassesSold: number;
+  entryTicketFees: number;
+  entryTickets: number;
+  exitTickets: number; // Exit tickets carry no fee, counted for traffic only
+  refunds: RefundTotals;
+  totalIncome: number; // bookingRevenue + refunds.retainedAmount + dayPassIncome + entryTicketFees
+}
+
+// Summary figures compared with the previous period; refunds are compared on their amount
+const COMPARED_SUMMARY_FIELDS = [
+  'bookingRevenue', 'bookings', 'seats', 'serviceFees', 'averageBookingAmount', 'dayPassIncome',
+  'dayPassesSold', 'entryTicketFees', 'entryTickets', 'exitTickets', 'totalIncome'
+] as const satisfies ReadonlyArray<keyof ReportSummary>;
+
+export type SummaryChangeField = typeof COMPARED_SUMMARY_FIELDS[number] | 'refundAmount';
+
+export interface Change {
+  amount: number;
+  percent: number | null; // null when the previous value was 0
+}
+
+export interface BreakdownRow {
+  key: string;
+  label: string;
+  current: RevenueFigures;
+  previous: RevenueFigures;
+  change: Change;
+}
+
+export interface FinancialReport {
+  period: { type: ReportPeriodType; from: string; to: string; days: number; frozenDays: number };
+  previousPeriod: { from: string; to: string };
+  summary: { current: ReportSummary; previous: ReportSummary; change: Record<SummaryChangeField, Change> };
+  byDestination: BreakdownRow[];
+  byStaff: BreakdownRow[];
+  byHour: BreakdownRow[];
+  byChannel: BreakdownRow[];
+}
+
+// Booking payments that count as revenue (online tickets become COMPLETED once boarded)
+const REVENUE_PAYMENT_STATUSES = ['PAID', 'COMPLETED'];
+
+const MAX_RANGE_DAYS = 366;
+
+type BookingRow = {
+  totalAmount: number;
+  seatsBooked: number;
+  pricePerSeat: number | null;
+  bookingType: string;
+  createdAt: Date;
+  createdBy: string | null;
+  queue: { destinationId: string; destinationName: string; basePrice: number };
+  createdByStaff: { firstName: string; lastName: string } | null;
+};
+
+class ReportService {
+  /**
+   * Single day, today by default
+   */
+  dailyPeriod(date?: string): ReportPeriod | null {
+    const start = parseDay(date);
+    if (!start) return null;
+    return { type: 'daily', start, end: addDays(start, 1) };
+  }
+
+  /**
+   * Week (Monday to Sunday) containing the given day, today by default
+   */
+  weeklyPeriod(date?: string): ReportPeriod | null {
+    const day = parseDay(date);
+    if (!day) return null;
+    const start = startOfWeek(day, { weekStartsOn: 1 });
+    return { type: 'weekly', start, end: addWeeks(start, 1) };
+  }
+
+  /**
+   * Calendar month given as YYYY-MM (or the month containing a YYYY-MM-DD day), this month by default
+   */
+  monthlyPeriod(month?: string): ReportPeriod | null {
+    const day = parseDay(month && /^\d{4}-\d{2}$/.test(month) ? `${month}-01` : month);
+    if (!day) return null;
+    const start = startOfMonth(day);
+    return { type: 'monthly', start, end: addMonths(start, 1) };
+  }
+
+  /**
+   * Range of days, both inclusive
+   */
+  customPeriod(from?: string, to?: string): ReportPeriod | null {
+    const start = parseDay(from);
+    const last = parseDay(to || from);
+    if (!from || !start || !last || last < start) return null;
+    const end = addDays(last, 1);
+    if (differenceInCalendarDays(end, start) > MAX_RANGE_DAYS) return null;
+    return { type: 'custom', start, end };
+  }
+
+  /**
+   * Period of the same kind just before: previous week, previous month, or the same number of days
+   * (the day before for daily reports)
+   */
+  previousPeriod(period: ReportPeriod): ReportPeriod {
+    if (period.type === 'weekly') {
+      return { type: 'weekly', start: addWeeks(period.start, -1), end: period.start };
+    }
+    if (period.type === 'monthly') {
+      return { type: 'monthly', start: addMonths(period.start, -1), end: period.start };
+    }
+    return { type: 'custom', start: addDays(period.start, -differenceInCalendarDays(period.end, period.start)), end: period.start };
+  }
+
+  async buildReport(period: ReportPeriod): Promise<FinancialReport> {
+    const previous = this.previousPeriod(period);
+
+    const [currentFigures, previousFigures] = await Promise.all([
+      this.figuresFor(period),
+      this.figuresFor(previous)
+    ]);
+
+    const current = this.summarize(currentFigures.figures);
+    const before = this.summarize(previousFigures.figures);
+
+    const summaryChange = {} as Record<SummaryChangeField, Change>;
+    for (const field of COMPARED_SUMMARY_FIELDS) {
+      summaryChange[field] = this.change(current[field], before[field]);
+    }
+    summaryChange.refundAmount = this.change(current.refunds.amount, before.refunds.amount);
+
+    return {
+      period: {
+        type: period.type,
+        from: formatDay(period.start),
+        to: formatDay(addDays(period.end, -1)),
+        days: differenceInCalendarDays(period.end, period.start),
+        frozenDays: currentFigures.frozenDays
+      },
+      previousPeriod: { from: formatDay(previous.start), to: formatDay(addDays(previous.end, -1)) },
+      summary: { current, previous: before, change: summaryChange },
+      byDestination: this.breakdown(currentFigures.figures.byDestination, previousFigures.figures.byDestination),
+      byStaff: this.breakdown(currentFigures.figures.byStaff, previousFigures.figures.byStaff),
+      byHour: this.breakdown(currentFigures.figures.byHour, previousFigures.figures.byHour).sort((a, b) => Number(a.key) - Number(b.key)),
+      byChannel: this.breakdown(currentFigures.figures.byChannel, previousFigures.figures.byChannel)
+    };
+  }
+
+  /**
+   * Figures of a period computed from the live tables
+   */
+  async collectFigures(start: Date, end: Date): Promise<PeriodFigures> {
+    const [bookings, other] = await Promise.all([
+      this.loadBookings(start, end),
+      this.loadFeesAndRefunds(start, end)
+    ]);
+
+    const group = (keyOf: (booking: BookingRow) => [string, string]) => {
+      const groups: Record<string, LabelledFigures> = {};
+      for (const booking of bookings) {
+        const [key, label] = keyOf(booking);
+        const figures = groups[key] || { label, revenue: 0, bookings: 0, seats: 0 };
+        figures.revenue = roundAmount(figures.revenue + booking.totalAmount);
+        figures.bookings += 1;
+        figures.seats += booking.seatsBooked;
+        groups[key] = figures;
+      }
+      return groups;
+    };
+
+    return {
+      bookingRevenue: roundAmount(bookings.reduce((sum, b) => sum + b.totalAmount, 0)),
+      bookings: bookings.length,
+      seats: bookings.reduce((sum, b) => sum + b.seatsBooked, 0),
+      serviceFees: roundAmount(bookings.reduce((sum, b) => sum + Math.max(b.totalAmount - (b.pricePerSeat ?? b.queue.basePrice) * b.seatsBooked, 0), 0)),
+      ...other,
+      byDestination: group(b => [b.queue.destinationId, b.queue.destinationName]),
+      byStaff: group(b => b.createdBy
+        ? [b.createdBy, b.createdByStaff ? `${b.createdByStaff.firstName} ${b.createdByStaff.lastName}` : b.createdBy]
+        : ['ONLINE', 'Online (no staff)']),
+      byHour: group(b => {
+        const hour = b.createdAt.getHours();
+        return [String(hour), `${String(hour).padStart(2, '0')}:00`];
+      }),
+      byChannel: group(b => b.bookingType === 'ONLINE' ? ['ONLINE', 'Online'] : ['CASH', 'Cash'])
+    };
+  }
+
+  /**
+   * Render a report as CSV: one row per figure, with the previous period and the change
+   */
+  toCsv(report: FinancialReport): string {
+    const header = ['section', 'item', 'metric', 'current', 'previous', 'change', 'changePercent'];
+    const rows: unknown[][] = [];
+
+    const { current, previous, change } = report.summary;
+    for (const field of COMPARED_SUMMARY_FIELDS) {
+      rows.push(['summary', '', field, current[field], previous[field], change[field].amount, change[field].percent]);
+    }
+    rows.push(['summary', '', 'refundAmount', current.refunds.amount, previous.refunds.amount, change.refundAmount.amount, change.refundAmount.percent]);
+    rows.push(['summary', '', 'refundsRetained', current.refunds.retainedAmount, previous.refunds.retainedAmount, roundAmount(current.refunds.retainedAmount - previous.refunds.retainedAmount), '']);
+
+    const sections: Array<[string, BreakdownRow[]]> = [
+      ['destination', report.byDestination],
+      ['staff', report.byStaff],
+      ['hour', report.byHour],
+      ['channel', report.byChannel]
+    ];
+    for (const [section, breakdown] of sections) {
+      for (const row of breakdown) {
+        rows.push([section, row.label, 'revenue', row.current.revenue, row.previous.revenue, row.change.amount, row.change.percent]);
+        rows.push([section, row.label, 'bookings', row.current.bookings, row.previous.bookings, row.current.bookings - row.previous.bookings, '']);
+        rows.push([section, row.label, 'seats', row.current.seats, row.previous.seats, row.current.seats - row.previous.seats, '']);
+      }
+    }
+
+    return [header.join(','), ...rows.map(csvRow)].join('\n');
+  }
+
+  /**
+   * Build the report for a period and keep it; regenerating the same period replaces the stored copy
+   */
+  async archive(type: ArchivedReportType, period: ReportPeriod): Promise<{ id: string; report: FinancialReport }> {
+    const report = await this.buildReport(period);
+    const row = await prisma.reportArchive.upsert({
+      where: { type_periodStart: { type, periodStart: period.start } },
+      create: { type, periodStart: period.start, periodEnd: period.end, data: JSON.stringify(report) },
+      update: { periodEnd: period.end, data: JSON.stringify(report), createdAt: new Date() }
+    });
+
+    return { id: row.id, report };
+  }
+
+  async listArchived(filters: { type?: string | undefined; limit?: number | undefined } = {}) {
+    return prisma.reportArchive.findMany({
+      where: filters.type ? { type: filters.type } : {},
+      orderBy: { periodStart: 'desc' },
+      take: filters.limit || 50,
+      select: { id: true, type: true, periodStart: true, periodEnd: true, createdAt: true }
+    });
+  }
+
+  async getArchived(id: string): Promise<{ id: string; type: string; createdAt: Date; report: FinancialReport } | null> {
+    const row = await prisma.reportArchive.findUnique({ where: { id } });
+    return row ? { id: row.id, type: row.type, createdAt: row.createdAt, report: JSON.parse(row.data) } : null;
+  }
+
+  /**
+   * Figures of a period: frozen ledger days merged with live figures for the remaining days
+   */
+  private async figuresFor(period: ReportPeriod): Promise<{ figures: PeriodFigures; frozenDays: number }> {
+    const ledgers = await prisma.dailyLedger.findMany({
+      where: { businessDate: { gte: period.start, lt: period.end } },
+      select: { businessDate: true, data: true }
+    });
+    if (ledgers.length === 0) {
+      return { figures: await this.collectFigures(period.start, period.end), frozenDays: 0 };
+    }
+
+    const frozen = new Map(ledgers.map(ledger => [ledger.businessDate.getTime(), JSON.parse(ledger.data) as PeriodFigures]));
+    const parts: Array<PeriodFigures | Promise<PeriodFigures>> = [];
+    let liveStart: Date | null = null;
+
+    for (let day = startOfDay(period.start); day < period.end; day = addDays(day, 1)) {
+      const ledger = frozen.get(day.getTime());
+      if (ledger) {
+        if (liveStart) parts.push(this.collectFigures(liveStart, day));
+        liveStart = null;
+        parts.push(ledger);
+      } else if (!liveStart) {
+        liveStart = day;
+      }
+    }
+    if (liveStart) parts.push(this.collectFigures(liveStart, period.end));
+
+    return { figures: this.mergeFigures(await Promise.all(parts)), frozenDays: frozen.size };
+  }
+
+  private mergeFigures(parts: PeriodFigures[]): PeriodFigures {
+    const sum = (field: 'bookingRevenue' | 'serviceFees' | 'dayPassIncome' | 'entryTicketFees') => roundAmount(parts.reduce((total, part) => total + (part[field] || 0), 0));
+    const count = (field: 'bookings' | 'seats' | 'dayPassesSold' | 'entryTickets' | 'exitTickets') => parts.reduce((total, part) => total + (part[field] || 0), 0);
+    const refund = (field: keyof RefundTotals) => parts.reduce((total, part) => total + (part.refunds?.[field] || 0), 0);
+    const groups = (field: 'byDestination' | 'byStaff' | 'byHour' | 'byChannel') => {
+      const merged: Record<string, LabelledFigures> = {};
+      for (const part of parts) {
+        for (const [key, figures] of Object.entries(part[field] || {})) {
+          const total = merged[key] || { label: figures.label, revenue: 0, bookings: 0, seats: 0 };
+          total.revenue = roundAmount(total.revenue + figures.revenue);
+          total.bookings += figures.bookings;
+          total.seats += figures.seats;
+          merged[key] = total;
+        }
+      }
+      return merged;
+    };
+
+    return {
+      bookingRevenue: sum('bookingRevenue'),
+      bookings: count('bookings'),
+      seats: count('seats'),
+      serviceFees: sum('serviceFees'),
+      dayPassIncome: sum('dayPassIncome'),
+      dayPassesSold: count('dayPassesSold'),
+      entryTicketFees: sum('entryTicketFees'),
+      entryTickets: count('entryTickets'),
+      exitTickets: count('exitTickets'),
+      refunds: {
+        count: refund('count'),
+        amount: roundAmount(refund('amount')),
+        retainedAmount: roundAmount(refund('retainedAmount')),
+        pendingCount: refund('pendingCount'),
+        pendingAmount: roundAmount(refund('pendingAmount'))
+      },
+      byDestination: groups('byDestination'),
+      byStaff: groups('byStaff'),
+      byHour: groups('byHour'),
+      byChannel: groups('byChannel')
+    };
+  }
+
+  private async loadBookings(start: Date, end: Date): Promise<BookingRow[]> {
+    return prisma.booking.findMany({
+      where: {
+        createdAt: { gte: start, lt: end },
+        paymentStatus: { in: REVENUE_PAYMENT_STATUSES }
+      },
+      select: {
+        totalAmount: true,
+        seatsBooked: true,
+        pricePerSeat: true,
+        bookingType: true,
+        createdAt: true,
+        createdBy: true,
+        queue: { select: { destinationId: true, destinationName: true, basePrice: true } },
+        createdByStaff: { select: { firstName: true, lastName: true } }
+      }
+    });
+  }
+
+  private async loadFeesAndRefunds(start: Date, end: Date) {
+    const range = { gte: start, lt: end };
+    const [dayPasses, entryTickets, exitTickets, refunds] = await Promise.all([
+      prisma.dayPass.aggregate({ where: { purchaseDate: range }, _sum: { price: true }, _count: { id: true } }),
+      prisma.driverEntryTicket.aggregate({ where: { entryTime: range }, _sum: { ticketPrice: true }, _count: { id: true } }),
+      prisma.driverExitTicket.count({ where: { exitTime: range } }),
+      refundService.getTotals(start, new Date(end.getTime() - 1))
+    ]);
+
+    return {
+      dayPassIncome: roundAmount(dayPasses._sum.price || 0),
+      dayPassesSold: dayPasses._count.id || 0,
+      entryTicketFees: roundAmount(entryTickets._sum.ticketPrice || 0),
+      entryTickets: entryTickets._count.id || 0,
+      exitTickets,
+      refunds
+    };
+  }
+
+  private summarize(figures: PeriodFigures): ReportSummary {
+    return {
+      bookingRevenue: figures.bookingRevenue,
+      bookings: figures.bookings,
+      seats: figures.seats,
+      serviceFees: figures.serviceFees,
+      averageBookingAmount: figures.bookings > 0 ? roundAmount(figures.bookingRevenue / figures.bookings) : 0,
+      dayPassIncome: figures.dayPassIncome,
+      dayPassesSold: figures.dayPassesSold,
+      entryTicketFees: figures.entryTicketFees,
+      entryTickets: figures.entryTickets,
+      exitTickets: figures.exitTickets,
+      refunds: figures.refunds,
+      totalIncome: roundAmount(figures.bookingRevenue + figures.refunds.retainedAmount + figures.dayPassIncome + figures.entryTicketFees)
+    };
+  }
+
+  private breakdown(current: Record<string, LabelledFigures>, previous: Record<string, LabelledFigures>): BreakdownRow[] {
+    const empty: RevenueFigures = { revenue: 0, bookings: 0, seats: 0 };
+    const keys = new Set([...Object.keys(current), ...Object.keys(previous)]);
+
+    return Array.from(keys)
+      .map(key => {
+        const { label: currentLabel, ...now } = current[key] || { label: '', ...empty };
+        const { label: previousLabel, ...before } = previous[key] || { label: '', ...empty };
+        return { key, label: currentLabel || previousLabel, current: now, previous: before, change: this.change(now.revenue, before.revenue) };
+      })
+      .sort((a, b) => b.current.revenue - a.current.revenue);
+  }
+
+  private change(current: number, previous: number): Change {
+    return {
+      amount: roundAmount(current - previous),
+      percent: previous === 0 ? null : Math.round(((current - previous) / previous) * 1000) / 10
+    };
+  }
+}
+
+export const reportService = new ReportService();
@@ -1,5 +1,6 @@
 import { prisma } from '../config/database';
 import axios from 'axios';
+import { auditService, AuditContext } from './auditService';
 
 export class RouteService {
   private static stationNameCache: Map<string, string> = new Map();
@@ -102,8 +103,10 @@ export class RouteService {
   /**
    * Update route price
    */
-  async updateRoutePrice(id: string, basePrice: number, supervisorStationId: string) {
+  async updateRoutePrice(id: string, basePrice: number, supervisorStationId: string, audit?: AuditContext) {
     try {
+      const previousRoute = await prisma.route.findUnique({ where: { id } });
+
       // First update the local database
       const updatedRoute = await prisma.route.update({
         where: { id },
@@ -116,6 +119,14 @@ export class RouteService {
       // Then sync to central server with supervisor's station ID
       await this.syncRoutePriceToCentral(updatedRoute, basePrice, supervisorStationId);
 
+      await auditService.record({
+        action: 'ROUTE_PRICE_UPDATED',
+        entityType: 'ROUTE',
+        entityId: id,
+        before: previousRoute && { stationId: previousRoute.stationId, stationName: previousRoute.stationName, basePrice: previousRoute.basePrice },
+        after: { stationId: updatedRoute.stationId, stationName: updatedRoute.stationName, basePrice: updatedRoute.basePrice }
+      }, audit);
+
       return updatedRoute;
     } catch (error) {
       console.error('Error updating route price:', error);
@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { seatMapService } from './seatMapService';
+
+test('seats are numbered front to back: front seats, full rows, then the back bench', () => {
+  assert.deepEqual(seatMapService.getLayout(8), [[1], [2, 3, 4], [5, 6, 7, 8]]);
+  assert.deepEqual(seatMapService.getLayout(9), [[1], [2, 3, 4], [5, 6, 7], [8, 9]]);
+  assert.deepEqual(seatMapService.getLayout(12), [[1, 2], [3, 4, 5, 6], [7, 8, 9, 10], [11, 12]]);
+});
+
+test('requested seats must match the passenger count', () => {
+  assert.equal(seatMapService.validateRequestedSeats([1, 2], 2, 8), null);
+  assert.equal(seatMapService.validateRequestedSeats([1], 2, 8), 'Selected 1 seat(s) for 2 passenger(s)');
+});
+
+test('requested seats must exist on the vehicle', () => {
+  for (const seats of [[0], [9], [1.5]]) {
+    assert.equal(seatMapService.validateRequestedSeats(seats, 1, 8), 'Seat numbers must be between 1 and 8');
+  }
+});
+
+test('a seat cannot be requested twice', () => {
+  assert.equal(seatMapService.validateRequestedSeats([3, 3], 2, 8), 'The same seat was selected twice');
+});
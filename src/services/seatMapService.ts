@@ -0,0 +1,188 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+
+/**
+ * Seat Map Service
+ *
+ * Numbered seats for queued vehicles. Seats are numbered front to back from the
+ * vehicle capacity: an 8-seat louage has one seat next to the driver, then rows of
+ * three (1 | 2 3 4 | 5 6 7 8). Larger vehicles get two front seats and rows of four.
+ *
+ * Bookings made before seat numbers existed only hold a seat count; they show up as
+ * `unassignedBookedSeats` and never block a numbered seat.
+ */
+
+export type SeatStatus = 'FREE' | 'TAKEN';
+
+export interface SeatMapSeat {
+  seatNumber: number;
+  status: SeatStatus;
+  bookingId?: string | undefined;
+}
+
+export interface SeatMap {
+  queueId: string;
+  totalSeats: number;
+  availableSeats: number;
+  unassignedBookedSeats: number;
+  rows: SeatMapSeat[][];
+}
+
+type Tx = Prisma.TransactionClient;
+
+class SeatMapService {
+  /**
+   * Seat numbers per row for a vehicle capacity
+   */
+  getLayout(totalSeats: number): number[][] {
+    const frontSeats = Math.min(totalSeats, totalSeats <= 9 ? 1 : 2);
+    const rowWidth = totalSeats <= 9 ? 3 : 4;
+    const rows: number[][] = [];
+
+    let seatNumber = 1;
+    rows.push(this.range(seatNumber, frontSeats));
+    seatNumber += frontSeats;
+
+    while (seatNumber <= totalSeats) {
+      const remaining = totalSeats - seatNumber + 1;
+      // The back bench takes one seat more rather than leaving a seat alone on a row
+      const width = remaining === rowWidth + 1 ? remaining : Math.min(rowWidth, remaining);
+      rows.push(this.range(seatNumber, width));
+      seatNumber += width;
+    }
+
+    return rows.filter(row => row.length > 0);
+  }
+
+  /**
+   * Seat maps for several queue entries at once
+   */
+  async getSeatMaps(queueEntries: Array<{ id: string; totalSeats: number; availableSeats: number }>): Promise<Map<string, SeatMap>> {
+    const assignments = await prisma.seatAssignment.findMany({
+      where: { queueId: { in: queueEntries.map(entry => entry.id) } },
+      select: { queueId: true, seatNumber: true, bookingId: true }
+    });
+
+    const seatMaps = new Map<string, SeatMap>();
+    for (const entry of queueEntries) {
+      const taken = new Map(
+        assignments.filter(a => a.queueId === entry.id).map(a => [a.seatNumber, a.bookingId])
+      );
+      const bookedSeats = entry.totalSeats - entry.availableSeats;
+
+      seatMaps.set(entry.id, {
+        queueId: entry.id,
+        totalSeats: entry.totalSeats,
+        availableSeats: entry.availableSeats,
+        unassignedBookedSeats: Math.max(0, bookedSeats - taken.size),
+        rows: this.getLayout(entry.totalSeats).map(row => row.map(seatNumber => ({
+          seatNumber,
+          status: taken.has(seatNumber) ? 'TAKEN' : 'FREE',
+          bookingId: taken.get(seatNumber)
+        })))
+      });
+    }
+
+    return seatMaps;
+  }
+
+  /**
+   * Give a booking its seats: the requested seat numbers, or the first free seats
+   * from the front of the vehicle. The unique (queue, seat) index rejects a seat
+   * taken by a concurrent booking.
+   */
+  async assignSeats(
+    tx: Tx,
+    queueEntry: { id: string; totalSeats: number },
+    bookingId: string,
+    seatCount: number,
+    requestedSeats?: number[]
+  ): Promise<number[]> {
+    const taken = new Set(
+      (await tx.seatAssignment.findMany({ where: { queueId: queueEntry.id }, select: { seatNumber: true } }))
+        .map(a => a.seatNumber)
+    );
+
+    let seatNumbers: number[];
+    if (requestedSeats && requestedSeats.length > 0) {
+      const error = this.validateRequestedSeats(requestedSeats, seatCount, queueEntry.totalSeats);
+      if (error) {
+        throw new Error(error);
+      }
+
+      const unavailable = requestedSeats.filter(seat => taken.has(seat));
+      if (unavailable.length > 0) {
+        throw new Error(`Seat(s) ${unavailable.join(', ')} already taken`);
+      }
+      seatNumbers = [...requestedSeats].sort((a, b) => a - b);
+    } else {
+      seatNumbers = this.range(1, queueEntry.totalSeats).filter(seat => !taken.has(seat)).slice(0, seatCount);
+    }
+
+    // Vehicles can carry more bookings than numbered seats left when old count-only bookings exist
+    if (seatNumbers.length === 0) {
+      return [];
+    }
+
+    try {
+      await tx.seatAssignment.createMany({
+        data: seatNumbers.map(seatNumber => ({ queueId: queueEntry.id, bookingId, seatNumber }))
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new Error(`Booking conflict: Seat(s) ${seatNumbers.join(', ')} were just booked by another user. Please try again.`);
+      }
+      throw error;
+    }
+
+    return seatNumbers;
+  }
+
+  /**
+   * Free seats of a cancelled booking, from the back of the vehicle (all of them when no count is given)
+   */
+  async releaseSeats(tx: Tx, bookingId: string, seatCount?: number): Promise<number[]> {
+    const assignments = await tx.seatAssignment.findMany({
+      where: { bookingId },
+      orderBy: { seatNumber: 'desc' },
+      ...(seatCount !== undefined && { take: seatCount })
+    });
+
+    if (assignments.length > 0) {
+      await tx.seatAssignment.deleteMany({ where: { id: { in: assignments.map(a => a.id) } } });
+    }
+
+    return assignments.map(a => a.seatNumber).sort((a, b) => a - b);
+  }
+
+  /**
+   * Seat numbers held by a booking, in order
+   */
+  async getBookingSeats(bookingId: string): Promise<number[]> {
+    const assignments = await prisma.seatAssignment.findMany({
+      where: { bookingId },
+      select: { seatNumber: true },
+      orderBy: { seatNumber: 'asc' }
+    });
+    return assignments.map(a => a.seatNumber);
+  }
+
+  validateRequestedSeats(requestedSeats: number[], seatCount: number, totalSeats: number): string | null {
+    if (requestedSeats.length !== seatCount) {
+      return `Selected ${requestedSeats.length} seat(s) for ${seatCount} passenger(s)`;
+    }
+    if (requestedSeats.some(seat => !Number.isInteger(seat) || seat < 1 || seat > totalSeats)) {
+      return `Seat numbers must be between 1 and ${totalSeats}`;
+    }
+    if (new Set(requestedSeats).size !== requestedSeats.length) {
+      return 'The same seat was selected twice';
+    }
+    return null;
+  }
+
+  private range(start: number, count: number): number[] {
+    return Array.from({ length: count }, (_, i) => start + i);
+  }
+}
+
+export const seatMapService = new SeatMapService();
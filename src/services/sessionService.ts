@@ -0,0 +1,183 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { env } from '../config/environment';
+import type { EnhancedLocalWebSocketServer } from '../websocket/EnhancedLocalWebSocketServer';
+import type { EnhancedMQTTService } from './enhancedMqttService';
+
+/**
+ * Session Service
+ *
+ * Supervisor view of staff sessions: who is signed in where, idle timeout and
+ * forced logout. Revoked sessions are pushed to the local WebSocket server and
+ * MQTT clients so the apps using them drop at once instead of on their next request.
+ */
+
+let localWebSocketServer: EnhancedLocalWebSocketServer | null = null;
+let enhancedMqttService: EnhancedMQTTService | null = null;
+
+export function setSessionTransports(transports: {
+  localWebSocketServer?: EnhancedLocalWebSocketServer;
+  mqttService?: EnhancedMQTTService;
+}) {
+  if (transports.localWebSocketServer) localWebSocketServer = transports.localWebSocketServer;
+  if (transports.mqttService) enhancedMqttService = transports.mqttService;
+}
+
+export interface SessionFilters {
+  staffId?: string | undefined;
+  terminalId?: string | undefined;
+  includeInactive?: boolean | undefined;
+  limit?: number | undefined;
+}
+
+class SessionService {
+  private idleTimeoutMinutes: number = env.SESSION_TIMEOUT_HOURS * 60;
+
+  /**
+   * Load the idle timeout configured for the station
+   */
+  async initialize(): Promise<void> {
+    const config = await prisma.stationConfig.findFirst({ select: { sessionIdleTimeoutMinutes: true } });
+    if (config?.sessionIdleTimeoutMinutes) {
+      this.idleTimeoutMinutes = config.sessionIdleTimeoutMinutes;
+    }
+    console.log(`⏱️ Session idle timeout: ${this.idleTimeoutMinutes} minutes`);
+  }
+
+  getIdleTimeoutMinutes(): number {
+    return this.idleTimeoutMinutes;
+  }
+
+  async setIdleTimeoutMinutes(minutes: number): Promise<void> {
+    await prisma.stationConfig.updateMany({ data: { sessionIdleTimeoutMinutes: minutes } });
+    this.idleTimeoutMinutes = minutes;
+  }
+
+  /**
+   * Whether a session has been unused for longer than the idle timeout
+   */
+  isIdle(lastActivity: Date, now: Date = new Date()): boolean {
+    return now.getTime() - lastActivity.getTime() > this.idleTimeoutMinutes * 60 * 1000;
+  }
+
+  /**
+   * Sessions with their staff member and terminal, most recently used first.
+   * By default only sessions that are still usable (active, not expired, not idle).
+   */
+  async listSessions(filters: SessionFilters = {}): Promise<any[]> {
+    const now = new Date();
+    const where: Prisma.SessionWhereInput = {};
+    if (filters.staffId) where.staffId = filters.staffId;
+    if (filters.terminalId) where.terminalId = filters.terminalId;
+    if (!filters.includeInactive) {
+      where.isActive = true;
+      where.expiresAt = { gt: now };
+      where.lastActivity = { gt: new Date(now.getTime() - this.idleTimeoutMinutes * 60 * 1000) };
+    }
+
+    const sessions = await prisma.session.findMany({
+      where,
+      orderBy: { lastActivity: 'desc' },
+      take: filters.limit || 200,
+      include: {
+        staff: { select: { id: true, cin: true, firstName: true, lastName: true, role: true } },
+        terminal: { select: { id: true, name: true } }
+      }
+    });
+
+    return sessions.map(session => ({
+      id: session.id,
+      staff: session.staff,
+      terminal: session.terminal,
+      authMethod: session.authMethod,
+      isActive: session.isActive && session.expiresAt > now && !this.isIdle(session.lastActivity, now),
+      createdOffline: session.createdOffline,
+      createdAt: session.createdAt,
+      lastActivity: session.lastActivity,
+      idleMinutes: Math.floor((now.getTime() - session.lastActivity.getTime()) / 60000),
+      expiresAt: session.expiresAt
+    }));
+  }
+
+  /**
+   * Revoke one session; returns the revoked session or null when it was not active
+   */
+  async revokeSession(sessionId: string, reason: string): Promise<any | null> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { id: true, staffId: true, terminalId: true, isActive: true }
+    });
+    if (!session || !session.isActive) {
+      return null;
+    }
+
+    const [revokedId] = await this.deactivateSessions({ id: sessionId }, reason);
+    return revokedId ? session : null;
+  }
+
+  /**
+   * Revoke every active session of a staff member; returns how many were revoked
+   */
+  async revokeStaffSessions(staffId: string, reason: string): Promise<number> {
+    const sessionIds = await this.deactivateSessions({ staffId }, reason);
+    return sessionIds.length;
+  }
+
+  /**
+   * Deactivate the active sessions matching `where` and push the revocation to the
+   * clients using them. Every path that ends sessions goes through here so no
+   * client keeps working on a session the database already closed.
+   */
+  async deactivateSessions(where: Prisma.SessionWhereInput, reason: string): Promise<string[]> {
+    const sessions = await prisma.session.findMany({
+      where: { ...where, isActive: true },
+      select: { id: true }
+    });
+    if (sessions.length === 0) {
+      return [];
+    }
+
+    const sessionIds = sessions.map(session => session.id);
+    await prisma.session.updateMany({
+      where: { id: { in: sessionIds }, isActive: true },
+      data: { isActive: false, lastActivity: new Date() }
+    });
+
+    this.disconnect(sessionIds, reason);
+    return sessionIds;
+  }
+
+  /**
+   * Close sessions that expired or went idle without logging out, and delete closed
+   * sessions older than the log retention. Returns both counts.
+   */
+  async cleanupStaleSessions(): Promise<{ closedCount: number; deletedCount: number }> {
+    const now = new Date();
+    const closedIds = await this.deactivateSessions({
+      OR: [
+        { expiresAt: { lte: now } },
+        { lastActivity: { lt: new Date(now.getTime() - this.idleTimeoutMinutes * 60 * 1000) } }
+      ]
+    }, 'Session expired');
+
+    const deleted = await prisma.session.deleteMany({
+      where: {
+        isActive: false,
+        lastActivity: { lt: new Date(now.getTime() - env.LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000) }
+      }
+    });
+
+    return { closedCount: closedIds.length, deletedCount: deleted.count };
+  }
+
+  private disconnect(sessionIds: string[], reason: string): void {
+    try {
+      localWebSocketServer?.dropSessions(sessionIds, reason);
+      enhancedMqttService?.dropSessions(sessionIds, reason);
+    } catch (error) {
+      console.error('❌ Failed to push session revocation to clients:', error);
+    }
+  }
+}
+
+export const sessionService = new SessionService();
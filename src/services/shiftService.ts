@@ -0,0 +1,313 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { roundAmount } from '../utils/reporting';
+import { LoggingService } from './loggingService';
+
+const loggingService = new LoggingService();
+
+export type ShiftStatus = 'OPEN' | 'CLOSED' | 'APPROVED';
+
+export interface ShiftTotals {
+  bookingsCount: number;
+  seatsSold: number;
+  bookingsAmount: number;
+  serviceFees: number;
+  dayPassesCount: number;
+  dayPassesAmount: number;
+  cashSales: number;
+  refundsCount: number;
+  refundsAmount: number;
+  expectedCash: number;
+}
+
+export interface ShiftResult {
+  success: boolean;
+  shift?: any;
+  totals?: ShiftTotals;
+  error?: string;
+}
+
+const staffSelect = { id: true, cin: true, firstName: true, lastName: true, role: true };
+
+class ShiftService {
+  /**
+   * Open a new shift for a staff member with the cash float in the till
+   */
+  async openShift(staffId: string, openingFloat: number = 0, notes?: string): Promise<ShiftResult> {
+    try {
+      if (!Number.isFinite(openingFloat) || openingFloat < 0) {
+        return { success: false, error: 'Opening float must be a positive amount' };
+      }
+
+      const existing = await prisma.staffShift.findFirst({
+        where: { staffId, status: 'OPEN' }
+      });
+
+      if (existing) {
+        return { success: false, error: 'Staff member already has an open shift', shift: existing };
+      }
+
+      const shift = await prisma.staffShift.create({
+        data: {
+          staffId,
+          openingFloat,
+          openingNotes: notes || null
+        },
+        include: { staff: { select: staffSelect } }
+      });
+
+      await loggingService.log('SHIFT_OPENED', {
+        shiftId: shift.id,
+        staffId,
+        openingFloat
+      });
+
+      console.log(`🟢 Shift ${shift.id} opened for staff ${staffId} with float ${openingFloat} TND`);
+
+      return { success: true, shift };
+    } catch (error) {
+      console.error('❌ Error opening shift:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Id of the staff member's open shift, used to tag cash sales.
+   * Returns null when no shift is open so sales are never blocked.
+   */
+  async getOpenShiftId(staffId?: string | null, client: Prisma.TransactionClient = prisma): Promise<string | null> {
+    if (!staffId) return null;
+
+    const shift = await client.staffShift.findFirst({
+      where: { staffId, status: 'OPEN' },
+      select: { id: true }
+    });
+
+    return shift?.id || null;
+  }
+
+  /**
+   * Get the current open shift of a staff member with its running totals
+   */
+  async getCurrentShift(staffId: string): Promise<ShiftResult> {
+    try {
+      const shift = await prisma.staffShift.findFirst({
+        where: { staffId, status: 'OPEN' },
+        include: { staff: { select: staffSelect } }
+      });
+
+      if (!shift) {
+        return { success: false, error: 'No open shift for this staff member' };
+      }
+
+      const totals = await this.computeTotals(shift.id, shift.openingFloat);
+      return { success: true, shift, totals };
+    } catch (error) {
+      console.error('❌ Error getting current shift:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Close a shift with the cash counted by the worker.
+   * Stores the expected amount and the variance against the declared count.
+   */
+  async closeShift(shiftId: string, staff: { id: string; role: string }, declaredCash: number, notes?: string): Promise<ShiftResult> {
+    try {
+      if (!Number.isFinite(declaredCash) || declaredCash < 0) {
+        return { success: false, error: 'Declared cash must be a positive amount' };
+      }
+
+      const shift = await prisma.staffShift.findUnique({ where: { id: shiftId } });
+
+      if (!shift) {
+        return { success: false, error: 'Shift not found' };
+      }
+
+      if (shift.staffId !== staff.id && !['SUPERVISOR', 'ADMIN'].includes(staff.role)) {
+        return { success: false, error: 'Only the shift owner or a supervisor can close this shift' };
+      }
+
+      if (shift.status !== 'OPEN') {
+        return { success: false, error: `Shift is already ${shift.status.toLowerCase()}` };
+      }
+
+      const totals = await this.computeTotals(shift.id, shift.openingFloat);
+      const variance = roundAmount(declaredCash - totals.expectedCash);
+
+      const closed = await prisma.staffShift.update({
+        where: { id: shift.id },
+        data: {
+          status: 'CLOSED',
+          closedAt: new Date(),
+          cashSales: totals.cashSales,
+          expectedCash: totals.expectedCash,
+          declaredCash,
+          variance,
+          closingNotes: notes || null
+        },
+        include: { staff: { select: staffSelect } }
+      });
+
+      await loggingService.log('SHIFT_CLOSED', {
+        shiftId: shift.id,
+        staffId: shift.staffId,
+        closedBy: staff.id,
+        expectedCash: totals.expectedCash,
+        declaredCash,
+        variance
+      });
+
+      console.log(`🔴 Shift ${shift.id} closed: expected ${totals.expectedCash} TND, declared ${declaredCash} TND, variance ${variance} TND`);
+
+      return { success: true, shift: closed, totals };
+    } catch (error) {
+      console.error('❌ Error closing shift:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Supervisor sign-off on a closed shift
+   */
+  async approveShift(shiftId: string, supervisorId: string, notes?: string): Promise<ShiftResult> {
+    try {
+      const shift = await prisma.staffShift.findUnique({ where: { id: shiftId } });
+
+      if (!shift) {
+        return { success: false, error: 'Shift not found' };
+      }
+
+      if (shift.status !== 'CLOSED') {
+        return { success: false, error: 'Only closed shifts can be approved' };
+      }
+
+      const approved = await prisma.staffShift.update({
+        where: { id: shift.id },
+        data: {
+          status: 'APPROVED',
+          approvedById: supervisorId,
+          approvedAt: new Date(),
+          approvalNotes: notes || null
+        },
+        include: {
+          staff: { select: staffSelect },
+          approvedBy: { select: staffSelect }
+        }
+      });
+
+      await loggingService.log('SHIFT_APPROVED', {
+        shiftId: shift.id,
+        staffId: shift.staffId,
+        approvedBy: supervisorId,
+        variance: shift.variance
+      });
+
+      return { success: true, shift: approved };
+    } catch (error) {
+      console.error('❌ Error approving shift:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Get a shift with the totals currently recorded against it
+   */
+  async getShift(shiftId: string): Promise<ShiftResult> {
+    try {
+      const shift = await prisma.staffShift.findUnique({
+        where: { id: shiftId },
+        include: {
+          staff: { select: staffSelect },
+          approvedBy: { select: staffSelect }
+        }
+      });
+
+      if (!shift) {
+        return { success: false, error: 'Shift not found' };
+      }
+
+      const totals = await this.computeTotals(shift.id, shift.openingFloat);
+      return { success: true, shift, totals };
+    } catch (error) {
+      console.error('❌ Error getting shift:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * List shifts, optionally filtered by staff member, status and opening date
+   */
+  async listShifts(filters: { staffId?: string | undefined; status?: string | undefined; date?: string | undefined; limit?: number } = {}): Promise<any[]> {
+    const where: any = {};
+    if (filters.staffId) where.staffId = filters.staffId;
+    if (filters.status) where.status = filters.status;
+    if (filters.date) {
+      const startOfDay = new Date(`${filters.date}T00:00:00`);
+      const endOfDay = new Date(startOfDay);
+      endOfDay.setDate(endOfDay.getDate() + 1);
+      where.openedAt = { gte: startOfDay, lt: endOfDay };
+    }
+
+    return prisma.staffShift.findMany({
+      where,
+      include: {
+        staff: { select: staffSelect },
+        approvedBy: { select: staffSelect }
+      },
+      orderBy: { openedAt: 'desc' },
+      take: filters.limit || 50
+    });
+  }
+
+  /**
+   * Sum the cash recorded against a shift: paid cash bookings and day passes,
+   * minus the cash refunds paid out of the till during the shift
+   */
+  private async computeTotals(shiftId: string, openingFloat: number): Promise<ShiftTotals> {
+    const stationConfig = await prisma.stationConfig.findFirst();
+    const serviceFee = Number(stationConfig?.serviceFee || 0.200);
+
+    const [bookings, cancelledSeats, dayPasses, refundsPaid] = await Promise.all([
+      prisma.booking.findMany({
+        where: { shiftId, paymentMethod: 'CASH', paymentStatus: 'PAID' },
+        select: { seatsBooked: true, totalAmount: true }
+      }),
+      // Seats sold during this shift and cancelled later were still paid into this till
+      prisma.refund.findMany({
+        where: { booking: { shiftId, paymentMethod: 'CASH' } },
+        select: { grossAmount: true }
+      }),
+      prisma.dayPass.findMany({
+        where: { shiftId },
+        select: { price: true }
+      }),
+      prisma.refund.findMany({
+        where: { shiftId, paymentMethod: 'CASH', status: 'COMPLETED' },
+        select: { amount: true }
+      })
+    ]);
+
+    const seatsSold = bookings.reduce((sum, b) => sum + Number(b.seatsBooked || 0), 0);
+    const bookingsAmount = bookings.reduce((sum, b) => sum + Number(b.totalAmount || 0), 0)
+      + cancelledSeats.reduce((sum, r) => sum + r.grossAmount, 0);
+    const dayPassesAmount = dayPasses.reduce((sum, dp) => sum + Number(dp.price || 0), 0);
+    const cashSales = bookingsAmount + dayPassesAmount;
+    const refundsAmount = refundsPaid.reduce((sum, r) => sum + r.amount, 0);
+
+    return {
+      bookingsCount: bookings.length,
+      seatsSold,
+      bookingsAmount: roundAmount(bookingsAmount),
+      serviceFees: roundAmount(seatsSold * serviceFee),
+      dayPassesCount: dayPasses.length,
+      dayPassesAmount: roundAmount(dayPassesAmount),
+      cashSales: roundAmount(cashSales),
+      refundsCount: refundsPaid.length,
+      refundsAmount: roundAmount(refundsAmount),
+      expectedCash: roundAmount(openingFloat + cashSales - refundsAmount)
+    };
+  }
+}
+
+export const shiftService = new ShiftService();
@@ -1,73 +1,20 @@
 import { prisma } from '../config/database';
 import { WebSocketService } from '../websocket/webSocketService';
-import { EnhancedMQTTService } from './enhancedMqttService';
 import * as dashboardController from '../controllers/dashboardController';
 import { configService } from '../config/supervisorConfig';
-
-// Add a reference to the EnhancedMQTTService
-let enhancedMqttService: EnhancedMQTTService | null = null;
-
-// Function to set the EnhancedMQTTService instance
-export function setEnhancedMqttService(mqttService: EnhancedMQTTService) {
-  enhancedMqttService = mqttService;
-}
-
-// Enhanced notification function with financial updates
-async function notifyBookingUpdate(booking: any) {
-  try {
-    // Notify MQTT clients about the booking update
-    if (enhancedMqttService) {
-      enhancedMqttService.publish('cash_booking_updated', {
-        type: 'booking_created',
-        bookingId: booking.id,
-        seatsBooked: booking.seatsBooked,
-        totalAmount: booking.totalAmount,
-        destinationName: booking.queue?.destinationName,
-        vehicleLicensePlate: booking.queue?.vehicle?.licensePlate,
-        timestamp: new Date().toISOString()
-      });
-    }
-
-    // Emit financial update for real-time supervisor dashboard
-    await emitFinancialUpdate();
-    
-    console.log(`📡 Sent booking update notification for booking ${booking.id}`);
-  } catch (error) {
-    console.error('❌ Error sending booking update notification:', error);
-  }
-}
-
-// New function to emit financial updates for supervisor dashboard
-async function emitFinancialUpdate() {
-  try {
-    if (enhancedMqttService) {
-      // Get updated financial stats
-      // Dashboard data will be fetched by API
-      const financialStats = null;
-      const recentTransactions = null;
-      
-      // Emit financial update event
-      enhancedMqttService.broadcast({
-        type: 'financial_update',
-        payload: {
-          financial: financialStats,
-          recentTransactions,
-          timestamp: new Date().toISOString()
-        },
-        timestamp: new Date().toISOString()
-      });
-      
-      console.log('📊 Sent real-time financial update');
-    }
-  } catch (error) {
-    console.error('❌ Error sending financial update:', error);
-  }
-}
+import { enqueueSyncChange } from './syncService';
+import { pricingService } from './pricingService';
+import { bookingCoreService, BookingCoreRequest, BookingCoreResult } from './bookingCoreService';
+import { seatMapService, SeatMap } from './seatMapService';
+import { concurrencyManager } from './concurrencyManager';
 
 export interface SimpleCashBookingRequest {
   destinationId: string;
   seatsRequested: number;
   staffId: string;
+  // Seats chosen on the seat map (all on one vehicle)
+  queueId?: string | undefined;
+  seatNumbers?: number[] | undefined;
 }
 
 export interface SimpleCashBookingResult {
@@ -87,6 +34,7 @@ export interface SimpleCashBooking {
   startStationId: string; // Start/origin station ID
   startStationName: string; // Start/origin station name
   seatsBooked: number;
+  seatNumbers: number[]; // Numbered seats on the vehicle
   pricePerSeat: number; // Price per seat from route
   baseAmount: number; // Base price amount
   serviceFeeAmount: number; // Service fee amount
@@ -116,6 +64,7 @@ export interface VehicleSeatingInfo {
   basePrice: number;
   status: string;
   estimatedDeparture?: Date | null;
+  seatMap?: SeatMap | undefined;
 }
 
 export class SimpleCashBookingService {
@@ -142,7 +91,8 @@ export class SimpleCashBookingService {
       const queueEntries = await prisma.vehicleQueue.findMany({
         where: {
           destinationId,
-          status: { in: ['WAITING', 'LOADING', 'READY'] }
+          status: { in: ['WAITING', 'LOADING', 'READY'] },
+          heldAt: null // Held vehicles keep their place but take no bookings
         },
         include: {
           vehicle: true
@@ -160,6 +110,9 @@ export class SimpleCashBookingService {
         };
       }
 
+      const quote = await pricingService.quote(destinationId, 1, { fallbackBasePrice: queueEntries[0].basePrice });
+      const seatMaps = await seatMapService.getSeatMaps(queueEntries);
+
       const vehicles: VehicleSeatingInfo[] = [];
       let totalAvailableSeats = 0;
 
@@ -171,9 +124,10 @@ export class SimpleCashBookingService {
           queuePosition: entry.queuePosition,
           availableSeats: entry.availableSeats,
           totalSeats: entry.totalSeats,
-          basePrice: entry.basePrice,
+          basePrice: quote.pricePerSeat,
           status: entry.status,
-          estimatedDeparture: entry.estimatedDeparture
+          estimatedDeparture: entry.estimatedDeparture,
+          seatMap: seatMaps.get(entry.id)
         };
 
         vehicles.push(vehicleInfo);
@@ -200,230 +154,79 @@ export class SimpleCashBookingService {
   }
 
   /**
-   * Create cash booking (simplified - no customer info needed) with race condition protection
+   * Create cash booking (simplified - no customer info needed). Overnight queue
+   * vehicles are sold first; seats are booked through the booking core.
+   * Seats picked on the seat map go through the concurrency manager so two
+   * booking windows cannot hand out the same seat.
    */
   async createCashBooking(bookingRequest: SimpleCashBookingRequest): Promise<SimpleCashBookingResult> {
-    try {
-      console.log(`🎫 Creating cash booking for ${bookingRequest.seatsRequested} seats to ${bookingRequest.destinationId}`);
-
-      // Use a database transaction to prevent race conditions
-      const result = await prisma.$transaction(async (tx) => {
-        // Get available seats within the transaction for consistency
-        const queueEntries = await tx.vehicleQueue.findMany({
-          where: {
-            destinationId: bookingRequest.destinationId,
-            status: { in: ['WAITING', 'LOADING', 'READY'] }
-          },
-          include: {
-            vehicle: true
-          },
-          orderBy: [
-            { queueType: 'desc' }, // OVERNIGHT first
-            { queuePosition: 'asc' }
-          ]
-        });
-
-        if (queueEntries.length === 0) {
-          throw new Error('No vehicles available for this destination');
-        }
-
-        // Calculate total available seats within transaction
-        const totalAvailableSeats = queueEntries.reduce((sum, entry) => sum + entry.availableSeats, 0);
-
-        // Check if we have enough seats (atomic check)
-        if (totalAvailableSeats < bookingRequest.seatsRequested) {
-          throw new Error(`Not enough seats available. Requested: ${bookingRequest.seatsRequested}, Available: ${totalAvailableSeats}`);
-        }
-
-        // Get station config for start station information
-        const stationConfig = await tx.stationConfig.findFirst();
-        const startStationId = stationConfig?.stationId || this.currentStationId;
-
-        // Prepare vehicles data for allocation
-        const vehicles: VehicleSeatingInfo[] = queueEntries.map(entry => ({
-          queueId: entry.id,
-          vehicleId: entry.vehicleId,
-          licensePlate: entry.vehicle.licensePlate,
-          queuePosition: entry.queuePosition,
-          availableSeats: entry.availableSeats,
-          totalSeats: entry.totalSeats,
-          basePrice: entry.basePrice,
-          status: entry.status,
-          estimatedDeparture: entry.estimatedDeparture
-        }));
-
-        // Allocate seats across vehicles
-        const allocation = this.allocateSeats(vehicles, bookingRequest.seatsRequested);
-        
-        if (allocation.length === 0) {
-          throw new Error('Unable to allocate seats across available vehicles');
-        }
-
-        // Create bookings and update seats atomically
-        const bookings: SimpleCashBooking[] = [];
-        const ticketIds: string[] = [];
-        let totalAmount = 0;
-
-        for (const { vehicle, seatsToBook } of allocation) {
-          // Double-check seat availability before booking (optimistic locking)
-          const currentQueueEntry = await tx.vehicleQueue.findUnique({
-            where: { id: vehicle.queueId },
-            select: { availableSeats: true, id: true }
-          });
-
-          if (!currentQueueEntry) {
-            throw new Error(`Vehicle queue ${vehicle.queueId} no longer exists`);
-          }
-
-          if (currentQueueEntry.availableSeats < seatsToBook) {
-            throw new Error(`Insufficient seats on vehicle ${vehicle.licensePlate}. Available: ${currentQueueEntry.availableSeats}, Requested: ${seatsToBook}`);
-          }
-
-          const ticketId = this.generateTicketId();
-          
-          // Find the route to get correct pricing within transaction
-          const route = await tx.route.findFirst({
-            where: {
-              stationId: bookingRequest.destinationId,
-              isActive: true
-            }
-          });
-
-          // Get station config for service fee
-          const stationConfig = await tx.stationConfig.findFirst();
-          const serviceFee = Number(stationConfig?.serviceFee || 0.200); // Convert Decimal to number, default to 0.200 TND if not set
-          
-          // Use route price if available, otherwise fall back to vehicle queue basePrice
-          const pricePerSeat = route?.basePrice || vehicle.basePrice;
-          
-          // Calculate base amount and total amount with service fee
-          const baseAmount = seatsToBook * pricePerSeat;
-          const serviceFeeAmount = seatsToBook * serviceFee;
-          const bookingAmount = baseAmount + serviceFeeAmount;
-
-          // Create booking
-          const booking = await tx.booking.create({
-            data: {
-              id: `cash_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
-              queueId: vehicle.queueId,
-              seatsBooked: seatsToBook,
-              totalAmount: bookingAmount,
-              bookingSource: 'STATION',
-              customerPhone: null,
-              paymentStatus: 'PAID',
-              paymentMethod: 'CASH',
-              verificationCode: ticketId,
-              createdBy: bookingRequest.staffId
-            }
-          });
-
-          // Atomically update available seats with additional safety check
-          const updatedQueue = await tx.vehicleQueue.updateMany({
-            where: { 
-              id: vehicle.queueId,
-              availableSeats: { gte: seatsToBook } // Ensure we still have enough seats
-            },
-            data: {
-              availableSeats: { decrement: seatsToBook }
-            }
-          });
-
-          // Check if the update actually happened (no rows updated means conflict)
-          if (updatedQueue.count === 0) {
-            throw new Error(`Booking conflict: Seats on vehicle ${vehicle.licensePlate} were just booked by another user. Please try again.`);
-          }
-
-          // Get updated queue info to check if vehicle is now full
-          const updatedQueueEntry = await tx.vehicleQueue.findUnique({
-            where: { id: vehicle.queueId },
-            include: { vehicle: true }
-          });
-
-          if (!updatedQueueEntry) {
-            throw new Error('Vehicle queue entry not found after update');
-          }
-
-          // Note: Status will be updated automatically after transaction by calling updateVehicleStatusBasedOnBookings
-
-          const cashBooking: SimpleCashBooking = {
-            id: booking.id,
-            queueId: booking.queueId,
-            vehicleLicensePlate: updatedQueueEntry.vehicle.licensePlate,
-            destinationName: updatedQueueEntry.destinationName,
-            destinationStationId: updatedQueueEntry.destinationId,
-            startStationId: startStationId,
-            startStationName: stationConfig?.stationName || 'Local Station',
-            seatsBooked: booking.seatsBooked,
-            pricePerSeat: pricePerSeat,
-            baseAmount: baseAmount,
-            serviceFeeAmount: serviceFeeAmount,
-            totalAmount: booking.totalAmount,
-            ticketId: booking.verificationCode,
-            bookingTime: new Date(),
-            createdAt: booking.createdAt,
-            queuePosition: updatedQueueEntry.queuePosition,
-            estimatedDeparture: updatedQueueEntry.estimatedDeparture
-          };
-
-          bookings.push(cashBooking);
-          ticketIds.push(ticketId);
-          totalAmount += bookingAmount;
-
-          console.log(`✅ Atomically booked ${seatsToBook} seats on vehicle ${vehicle.licensePlate} (${updatedQueueEntry.availableSeats} seats remaining)`);
-        }
-
-        return {
-          success: true,
-          bookings,
-          totalAmount,
-          ticketIds
-        };
-      });
-
-      // Update vehicle statuses based on new bookings (outside transaction to avoid conflicts)
-      for (const booking of result.bookings) {
-        try {
-          const { createQueueService } = await import('./queueService');
-          const queueService = createQueueService(this.webSocketService);
-          await queueService.updateVehicleStatusBasedOnBookings(booking.queueId);
-        } catch (error) {
-          console.error('❌ Error updating vehicle status after booking:', error);
-        }
+    const request: BookingCoreRequest = {
+      channel: 'CASH_STATION',
+      destinationId: bookingRequest.destinationId,
+      seatsRequested: bookingRequest.seatsRequested,
+      staffId: bookingRequest.staffId,
+      includeOvernight: true
+    };
+
+    let result: BookingCoreResult;
+    if (bookingRequest.seatNumbers && bookingRequest.seatNumbers.length > 0) {
+      if (!bookingRequest.queueId) {
+        return { success: false, error: 'queueId is required when choosing seats' };
       }
 
-      // Create trip records for fully booked vehicles (outside transaction to avoid conflicts)
-      for (const booking of result.bookings) {
-        const queueInfo = await prisma.vehicleQueue.findUnique({
-          where: { id: booking.queueId },
-          include: { vehicle: true }
-        });
-        
-        if (queueInfo && queueInfo.status === 'READY' && queueInfo.availableSeats === 0) {
-          await this.createTripRecord(booking.queueId, queueInfo);
-        }
-      }
-
-      // Notify about successful booking AFTER transaction
-      await notifyBookingUpdate(result.bookings[0]);
-
-      // Broadcast booking update
-      this.broadcastBookingUpdate(bookingRequest.destinationId);
-
-      console.log(`🎉 Cash booking completed: ${bookingRequest.seatsRequested} seats across ${result.bookings.length} vehicle(s), Total: $${result.totalAmount}`);
-
-      return result;
+      request.vehicleAllocations = [{
+        queueId: bookingRequest.queueId,
+        seatsToBook: bookingRequest.seatsRequested,
+        seatNumbers: bookingRequest.seatNumbers
+      }];
+
+      const operation = await concurrencyManager.submitAndWait(
+        'seat_assignment',
+        bookingRequest.queueId,
+        bookingRequest.staffId,
+        { request, seats: bookingRequest.seatNumbers },
+        5
+      );
+      result = operation.data || { success: false, error: operation.error };
+    } else {
+      result = await bookingCoreService.createBooking(request);
+    }
 
-    } catch (error) {
-      console.error('❌ Error creating cash booking:', error);
-      
-      // Broadcast immediate update to refresh all clients on failure
-      this.broadcastBookingUpdate(bookingRequest.destinationId);
-      
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred during booking'
-      };
+    if (!result.success || !result.lines) {
+      return { success: false, error: result.error || 'Booking failed' };
     }
+
+    // Get station config for start station information
+    const stationConfig = await prisma.stationConfig.findFirst();
+    const startStationId = stationConfig?.stationId || this.currentStationId;
+
+    const bookings: SimpleCashBooking[] = result.lines.map(({ booking, seatNumbers, queueEntry, pricePerSeat, baseAmount, serviceFeeAmount }) => ({
+      id: booking.id,
+      queueId: booking.queueId,
+      vehicleLicensePlate: queueEntry.vehicle.licensePlate,
+      destinationName: queueEntry.destinationName,
+      destinationStationId: queueEntry.destinationId,
+      startStationId: startStationId,
+      startStationName: stationConfig?.stationName || 'Local Station',
+      seatsBooked: booking.seatsBooked,
+      seatNumbers,
+      pricePerSeat,
+      baseAmount,
+      serviceFeeAmount,
+      totalAmount: booking.totalAmount,
+      ticketId: booking.verificationCode,
+      bookingTime: booking.createdAt,
+      createdAt: booking.createdAt,
+      queuePosition: queueEntry.queuePosition,
+      estimatedDeparture: queueEntry.estimatedDeparture
+    }));
+
+    return {
+      success: true,
+      bookings,
+      totalAmount: result.totalAmount || 0,
+      ticketIds: bookings.map(booking => booking.ticketId)
+    };
   }
 
   /**
@@ -477,20 +280,23 @@ export class SimpleCashBookingService {
         }
       });
 
+      const { queue: _verifiedQueue, ...verifiedRecord } = updatedBooking;
+      await enqueueSyncChange('bookings', updatedBooking.id, 'UPDATE', verifiedRecord);
+
       // Get station config for start station information
       const stationConfig = await prisma.stationConfig.findFirst();
       const startStationId = stationConfig?.stationId || this.currentStationId;
 
-      // Find the route to get correct pricing
-      const route = await prisma.route.findFirst({
-        where: {
-          stationId: updatedBooking.queue.destinationId,
-          isActive: true
-        }
-      });
-
-      // Use route price if available, otherwise fall back to queue basePrice
-      const pricePerSeat = route?.basePrice || updatedBooking.queue.basePrice;
+      // Fare charged at booking time; older bookings fall back to the route price
+      const route = updatedBooking.pricePerSeat == null
+        ? await prisma.route.findFirst({
+            where: {
+              stationId: updatedBooking.queue.destinationId,
+              isActive: true
+            }
+          })
+        : null;
+      const pricePerSeat = updatedBooking.pricePerSeat ?? (route?.basePrice || updatedBooking.queue.basePrice);
       
       // Calculate breakdown from existing data
       const baseAmount = updatedBooking.seatsBooked * pricePerSeat;
@@ -505,6 +311,7 @@ export class SimpleCashBookingService {
         startStationId: startStationId,
         startStationName: stationConfig?.stationName || 'Local Station',
         seatsBooked: updatedBooking.seatsBooked,
+        seatNumbers: await seatMapService.getBookingSeats(updatedBooking.id),
         pricePerSeat: pricePerSeat,
         baseAmount: baseAmount,
         serviceFeeAmount: serviceFeeAmount,
@@ -553,7 +360,8 @@ export class SimpleCashBookingService {
       const allDestinations = await prisma.vehicleQueue.groupBy({
         by: ['destinationId', 'destinationName'],
         where: {
-          status: { in: ['WAITING', 'LOADING', 'READY'] }
+          status: { in: ['WAITING', 'LOADING', 'READY'] },
+          heldAt: null
         },
         _sum: {
           availableSeats: true
@@ -592,167 +400,12 @@ export class SimpleCashBookingService {
     }
   }
 
-  /**
-   * Intelligent seat allocation across vehicles
-   */
-  private allocateSeats(vehicles: VehicleSeatingInfo[], seatsRequested: number): Array<{
-    vehicle: VehicleSeatingInfo;
-    seatsToBook: number;
-  }> {
-    const allocation: Array<{ vehicle: VehicleSeatingInfo; seatsToBook: number }> = [];
-    let remainingSeats = seatsRequested;
-
-    // Sort vehicles by queue position
-    const sortedVehicles = [...vehicles].sort((a, b) => a.queuePosition - b.queuePosition);
-
-    for (const vehicle of sortedVehicles) {
-      if (remainingSeats <= 0) break;
-      if (vehicle.availableSeats <= 0) continue;
-
-      const seatsToBook = Math.min(remainingSeats, vehicle.availableSeats);
-      
-      allocation.push({
-        vehicle,
-        seatsToBook
-      });
-
-      remainingSeats -= seatsToBook;
-
-      console.log(`📋 Allocated ${seatsToBook} seats to vehicle ${vehicle.licensePlate} (position ${vehicle.queuePosition})`);
-    }
-
-    if (remainingSeats > 0) {
-      console.warn(`⚠️ Unable to allocate ${remainingSeats} seats`);
-      return [];
-    }
-
-    return allocation;
-  }
-
-  /**
-   * Generate ticket ID (same as verification code)
-   */
-  private generateTicketId(): string {
-    return Math.random().toString(36).substring(2, 8).toUpperCase();
-  }
-
   /**
    * Generate QR code string
    */
   private generateQRCode(ticketId: string): string {
     return `LOUAJ_CASH_${ticketId}_${Date.now()}`;
   }
-
-  /**
-   * Broadcast booking update via WebSocket
-   */
-  private broadcastBookingUpdate(destinationId: string): void {
-    try {
-      // Emit multiple event types for better compatibility
-      this.webSocketService.emit('cash_booking_updated', {
-        destinationId,
-        timestamp: new Date().toISOString()
-      });
-      
-      this.webSocketService.emit('booking_update', {
-        destinationId,
-        stationId: this.currentStationId,
-        bookingType: 'CASH',
-        timestamp: new Date().toISOString()
-      });
-      
-      this.webSocketService.emit('queue_update', {
-        destinationId,
-        stationId: this.currentStationId,
-        updateType: 'booking_created',
-        timestamp: new Date().toISOString()
-      });
-
-      // Emit specific seat availability change event
-      this.webSocketService.emit('seat_availability_changed', {
-        destinationId,
-        stationId: this.currentStationId,
-        updateType: 'seat_availability_changed',
-        bookingType: 'CASH',
-        timestamp: new Date().toISOString()
-      });
-
-      // Send to central server if method exists
-      if (typeof (this.webSocketService as any).sendBookingUpdate === 'function') {
-        (this.webSocketService as any).sendBookingUpdate({
-          destinationId,
-          stationId: this.currentStationId,
-          bookingType: 'CASH',
-          timestamp: new Date().toISOString()
-        });
-      }
-
-      console.log(`📡 Broadcast booking update for destination: ${destinationId}`);
-
-      // Try to get the enhanced MQTT service and publish specific updates
-      try {
-        if (enhancedMqttService) {
-          // Publish specific seat availability update
-          enhancedMqttService.publish('seat_availability_changed', {
-            destination_id: destinationId,
-            timestamp: new Date().toISOString()
-          });
-          // Also publish general destination list update
-          enhancedMqttService.publish('destination_list_update', {
-            timestamp: new Date().toISOString()
-          });
-          
-          console.log(`📡 Triggered specific seat availability updates for destination: ${destinationId}`);
-        }
-      } catch (error) {
-        console.warn('⚠️ Could not access local WebSocket server directly:', error);
-      }
-
-    } catch (error) {
-      console.error('❌ Error broadcasting booking update:', error);
-    }
-  }
-
-  /**
-   * Create a trip record when a vehicle becomes READY (fully booked)
-   */
-  private async createTripRecord(queueId: string, queueInfo: any): Promise<void> {
-    try {
-      console.log(`🚛 Creating trip record for vehicle ${queueInfo.vehicle.licensePlate}`);
-      
-      // Count total booked seats for this queue
-      const bookedSeatsCount = await prisma.booking.aggregate({
-        where: { 
-          queueId: queueId,
-          paymentStatus: { in: ['PAID', 'PENDING'] } // Include both paid and pending bookings
-        },
-        _sum: {
-          seatsBooked: true
-        }
-      });
-
-      const totalSeatsBooked = bookedSeatsCount._sum.seatsBooked || 0;
-
-      const trip = await prisma.trip.create({
-        data: {
-          vehicleId: queueInfo.vehicleId,
-          licensePlate: queueInfo.vehicle.licensePlate,
-          destinationId: queueInfo.destinationId,
-          destinationName: queueInfo.destinationName,
-          queueId: queueId,
-          seatsBooked: totalSeatsBooked,
-          startTime: new Date(),
-          syncStatus: 'PENDING'
-        }
-      });
-
-      console.log(`✅ Trip record created: ${trip.id} for vehicle ${queueInfo.vehicle.licensePlate} to ${queueInfo.destinationName}`);
-      console.log(`🎫 Total seats booked: ${totalSeatsBooked}`);
-
-    } catch (error) {
-      console.error('❌ Error creating trip record:', error);
-    }
-  }
 }
 
 export const createSimpleCashBookingService = (webSocketService: WebSocketService) => {
@@ -1,27 +1,132 @@
 import { EventEmitter } from 'events';
+import axios from 'axios';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { env } from '../config/environment';
+import { configService } from '../config/supervisorConfig';
+import { applyCentralChange, CentralDataType } from './centralChangeService';
+import { LoggingService } from './loggingService';
+
+export type SyncOperation = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export type SyncTrigger = 'automatic' | 'manual' | 'reconnect';
+
+export interface PullEntityResult {
+  downloaded: number;
+  failed: number; // Changes that could not be applied (retried on the next pull)
+  cursor: string | null;
+  error?: string;
+}
+
+export interface SyncHistoryEntry {
+  id: string;
+  timestamp: string;
+  type: SyncTrigger;
+  direction: 'push' | 'pull';
+  status: 'success' | 'partial' | 'failed';
+  duration: number; // seconds
+  changesUploaded: number;
+  changesDownloaded: number;
+  failedChanges: number;
+  entities?: Record<string, PullEntityResult>; // Pulls only
+  error?: string;
+}
+
+export interface SyncStatusInfo {
+  status: string;
+  lastSync: Date | null;
+  lastError: string | null;
+  pendingChanges: number;
+  failedChanges: number;
+  isSyncing: boolean;
+  isPulling: boolean;
+  centralServerUrl: string;
+  intervalSeconds: number;
+  enabled: boolean;
+  nextSyncIn: number | null; // seconds
+}
+
+/**
+ * Record a local write in the sync_queue table so the sync worker can push it to the central server.
+ * When called inside prisma.$transaction pass the transaction client so the queue row commits with the
+ * record itself; in that case errors propagate and roll back the transaction.
+ */
+export async function enqueueSyncChange(
+  tableName: string,
+  recordId: string,
+  operation: SyncOperation,
+  data: any,
+  tx?: Prisma.TransactionClient
+): Promise<void> {
+  const client = tx || prisma;
+
+  try {
+    await client.syncQueue.create({
+      data: {
+        tableName,
+        recordId,
+        operation,
+        data: JSON.stringify(data ?? {}),
+        syncStatus: 'PENDING'
+      }
+    });
+  } catch (error) {
+    if (tx) {
+      throw error;
+    }
+    // Don't throw error to prevent breaking the main operation
+    console.error(`❌ Failed to enqueue ${operation} ${tableName}/${recordId} for sync:`, error);
+  }
+}
+
+// Central data pulled as deltas after downtime, in dependency order
+const PULL_ENTITY_TYPES: CentralDataType[] = ['staff', 'route', 'vehicle'];
+
+// Pages of one entity type per pull; the rest follows on the next pull
+const MAX_PULL_PAGES = 20;
+
+const loggingService = new LoggingService();
 
 export class SyncService extends EventEmitter {
   private isInitialized = false;
   private isConnected = false;
+  private isSyncing = false;
+  private isEnabled = true;
   private syncInterval: NodeJS.Timeout | null = null;
+  private isPulling = false;
+  private pullInterval: NodeJS.Timeout | null = null;
+  private readonly pullIntervalMs = env.SYNC_PULL_INTERVAL_SECONDS * 1000;
   private centralServerUrl: string;
-  private syncIntervalMs = 30 * 1000; // 30 seconds default
+  private syncIntervalMs = env.SYNC_INTERVAL_SECONDS * 1000;
+  private readonly batchSize = env.BATCH_SYNC_SIZE;
+  private readonly maxRetryAttempts = env.MAX_RETRY_ATTEMPTS;
+  private readonly maxHistoryEntries = 50;
+  private lastSyncAt: Date | null = null;
+  private lastSyncStartedAt: number | null = null;
+  private lastError: string | null = null;
+  private history: SyncHistoryEntry[] = [];
 
   constructor() {
     super();
-    this.centralServerUrl = process.env.CENTRAL_SERVER_URL || 'http://localhost:8080';
+    this.centralServerUrl = env.CENTRAL_SERVER_URL;
   }
 
   async initialize(): Promise<void> {
     try {
       console.log('🔄 Initializing Sync Service...');
-      
-      // TODO: Initialize database connections, check pending changes, etc.
+
+      // Restore last sync time and report what is waiting from before the restart
+      const stationConfig = await prisma.stationConfig.findFirst({ select: { lastSync: true } });
+      this.lastSyncAt = stationConfig?.lastSync || null;
+
+      const pendingChanges = await this.countPendingChanges();
+      console.log(`📋 ${pendingChanges} local change(s) waiting to be synced`);
+
       this.isInitialized = true;
-      
+
       // Start automatic sync
       this.startAutomaticSync();
-      
+
       this.emit('initialized');
       console.log('✅ Sync Service initialized successfully');
     } catch (error) {
@@ -33,17 +138,29 @@ export class SyncService extends EventEmitter {
   async connect(): Promise<boolean> {
     try {
       console.log(`🔗 Connecting to central server: ${this.centralServerUrl}`);
-      
-      // TODO: Implement actual connection to central server
-      // This could be WebSocket, HTTP polling, or other protocol
-      
-      this.isConnected = true;
-      this.emit('connected');
-      console.log('✅ Connected to central server');
-      
+
+      const response = await axios.get(`${this.centralServerUrl}/health`, {
+        timeout: 5000,
+        headers: {
+          'X-Station-ID': configService.getStationId()
+        }
+      });
+
+      if (response.status !== 200) {
+        throw new Error(`Central server health check returned status ${response.status}`);
+      }
+
+      if (!this.isConnected) {
+        this.isConnected = true;
+        this.emit('connected');
+        console.log('✅ Connected to central server');
+      }
+
       return true;
     } catch (error) {
-      console.error('❌ Failed to connect to central server:', error);
+      if (this.isConnected) {
+        console.error('❌ Lost connection to central server:', error instanceof Error ? error.message : error);
+      }
       this.isConnected = false;
       this.emit('connection_failed', error);
       return false;
@@ -53,7 +170,7 @@ export class SyncService extends EventEmitter {
   async disconnect(): Promise<void> {
     try {
       console.log('🔌 Disconnecting from central server...');
-      
+
       this.isConnected = false;
       this.emit('disconnected');
       console.log('✅ Disconnected from central server');
@@ -62,56 +179,599 @@ export class SyncService extends EventEmitter {
     }
   }
 
-  async syncNow(): Promise<{ success: boolean; changes: { uploaded: number; downloaded: number } }> {
+  async syncNow(type: SyncTrigger = 'manual'): Promise<{ success: boolean; changes: { uploaded: number; downloaded: number }; failed?: number; error?: string }> {
+    if (this.isSyncing) {
+      return {
+        success: false,
+        changes: { uploaded: 0, downloaded: 0 },
+        error: 'A sync is already in progress'
+      };
+    }
+
+    this.isSyncing = true;
+    this.lastSyncStartedAt = Date.now();
+    const startedAt = Date.now();
+    let uploaded = 0;
+    let failed = 0;
+
     try {
-      if (!this.isConnected) {
+      if (!this.isConnected && !(await this.connect())) {
         throw new Error('Not connected to central server');
       }
 
-      console.log('🔄 Starting manual sync...');
+      console.log('🔄 Starting sync...');
       this.emit('sync_started');
 
-      // TODO: Implement actual sync logic
-      // 1. Get pending local changes
-      // 2. Upload to central server
-      // 3. Download changes from central server
-      // 4. Apply changes to local database
-      // 5. Mark changes as synced
+      // Push pending changes batch by batch until the queue is drained or a batch fails.
+      // Rows rejected in this run stay eligible for the next one, not for the next batch.
+      let lastAttemptedId = 0;
+      while (true) {
+        const batch = await this.getNextBatch(lastAttemptedId);
+        if (batch.length === 0) break;
+        lastAttemptedId = batch[batch.length - 1]!.id;
+
+        const batchResult = await this.pushBatch(batch);
+        uploaded += batchResult.uploaded;
+        failed += batchResult.failed;
+
+        if (!batchResult.delivered || batch.length < this.batchSize) break;
+      }
+
+      if (failed > 0) {
+        this.lastError = `${failed} change(s) failed to sync`;
+      } else {
+        this.lastError = null;
+      }
+
+      if (uploaded > 0 || failed === 0) {
+        this.lastSyncAt = new Date();
+        await prisma.stationConfig.updateMany({
+          data: { lastSync: this.lastSyncAt, isOnline: true }
+        });
+      }
 
       const result = {
-        success: true,
+        success: failed === 0,
         changes: {
-          uploaded: 0, // Mock data
-          downloaded: 0 // Mock data
-        }
+          uploaded,
+          downloaded: 0
+        },
+        failed
       };
 
+      this.recordHistory({
+        type,
+        direction: 'push',
+        status: failed === 0 ? 'success' : (uploaded > 0 ? 'partial' : 'failed'),
+        changesUploaded: uploaded,
+        changesDownloaded: 0,
+        failedChanges: failed,
+        ...(this.lastError && { error: this.lastError })
+      }, startedAt);
       this.emit('sync_completed', result);
-      console.log('✅ Sync completed successfully');
-      
+      console.log(`✅ Sync completed: ${uploaded} uploaded, ${failed} failed`);
+
       return result;
     } catch (error) {
-      console.error('❌ Sync failed:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Sync failed:', message);
+      this.lastError = message;
+      this.recordHistory({
+        type,
+        direction: 'push',
+        status: 'failed',
+        changesUploaded: uploaded,
+        changesDownloaded: 0,
+        failedChanges: failed,
+        error: message
+      }, startedAt);
       this.emit('sync_failed', error);
       return {
         success: false,
-        changes: { uploaded: 0, downloaded: 0 }
+        changes: { uploaded, downloaded: 0 },
+        failed,
+        error: message
       };
+    } finally {
+      this.isSyncing = false;
     }
   }
 
+  /**
+   * Pull what changed centrally (staff, routes, vehicles) since the last pull, one cursor per
+   * entity type, so changes made while the station was offline are not missed. Runs when the
+   * central socket (re)authenticates and on its own interval. `reset` drops the cursors and
+   * pulls everything again.
+   */
+  async pullChanges(type: SyncTrigger = 'manual', options: { reset?: boolean } = {}): Promise<{
+    success: boolean;
+    downloaded: number;
+    failed: number;
+    entities: Record<string, PullEntityResult>;
+    error?: string;
+  }> {
+    if (this.isPulling) {
+      return { success: false, downloaded: 0, failed: 0, entities: {}, error: 'A pull is already in progress' };
+    }
+
+    this.isPulling = true;
+    const startedAt = Date.now();
+    const entities: Record<string, PullEntityResult> = {};
+
+    try {
+      if (!this.isConnected && !(await this.connect())) {
+        throw new Error('Not connected to central server');
+      }
+
+      if (options.reset) {
+        await prisma.syncCursor.deleteMany({});
+        console.log('🔄 Delta sync cursors reset, pulling all central data again');
+      }
+
+      for (const entityType of PULL_ENTITY_TYPES) {
+        entities[entityType] = await this.pullEntity(entityType);
+      }
+
+      const results = Object.values(entities);
+      const downloaded = results.reduce((sum, r) => sum + r.downloaded, 0);
+      const failed = results.reduce((sum, r) => sum + r.failed, 0);
+      const errors = results.filter(r => r.error).map(r => r.error as string);
+      const status: SyncHistoryEntry['status'] = errors.length === 0 && failed === 0
+        ? 'success'
+        : (errors.length < results.length || downloaded > 0 ? 'partial' : 'failed');
+
+      if (errors.length === 0) {
+        this.lastSyncAt = new Date();
+        await prisma.stationConfig.updateMany({
+          data: { lastSync: this.lastSyncAt, isOnline: true }
+        });
+      }
+
+      const error = errors.length > 0 ? errors.join('; ') : undefined;
+      this.recordHistory({
+        type,
+        direction: 'pull',
+        status,
+        changesUploaded: 0,
+        changesDownloaded: downloaded,
+        failedChanges: failed,
+        entities,
+        ...(error && { error })
+      }, startedAt);
+      this.emit('pull_completed', { downloaded, failed, entities });
+
+      if (downloaded > 0 || failed > 0 || error) {
+        console.log(`⬇️ Delta pull (${type}): ${downloaded} change(s) applied, ${failed} failed${error ? `, errors: ${error}` : ''}`);
+      }
+
+      return { success: status === 'success', downloaded, failed, entities, ...(error && { error }) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Delta pull failed:', message);
+      this.recordHistory({
+        type,
+        direction: 'pull',
+        status: 'failed',
+        changesUploaded: 0,
+        changesDownloaded: 0,
+        failedChanges: 0,
+        entities,
+        error: message
+      }, startedAt);
+      return { success: false, downloaded: 0, failed: 0, entities, error: message };
+    } finally {
+      this.isPulling = false;
+    }
+  }
+
+  /**
+   * Delta pull cursors with the outcome of each entity type's last pull
+   */
+  async getPullCursors() {
+    const cursors = await prisma.syncCursor.findMany();
+    return PULL_ENTITY_TYPES.map(entityType => {
+      const cursor = cursors.find(c => c.entityType === entityType);
+      return {
+        entityType,
+        cursor: cursor?.cursor ?? null,
+        lastPulledAt: cursor?.lastPulledAt ?? null,
+        lastStatus: cursor?.lastStatus ?? null,
+        lastError: cursor?.lastError ?? null,
+        failedChange: cursor?.failedChange ?? null,
+        failedAttempts: cursor?.failedAttempts ?? 0,
+        changesApplied: cursor?.changesApplied ?? 0
+      };
+    });
+  }
+
+  /**
+   * Page through one entity type's changes from its cursor. The cursor is saved after every
+   * page so an interrupted pull resumes where it stopped. A change that cannot be applied stops
+   * the pull with the cursor just before it, so the next pull retries it and the entity stays
+   * 'partial'. After MAX_RETRY_ATTEMPTS pulls failing on the same change it is skipped and
+   * written to the operation log (SYNC_PULL_CHANGE_SKIPPED) so it cannot block the entity type.
+   */
+  private async pullEntity(entityType: CentralDataType): Promise<PullEntityResult> {
+    const stationId = configService.getStationId();
+    const state = await prisma.syncCursor.findUnique({ where: { entityType } });
+    let cursor = state?.cursor ?? null;
+    let downloaded = 0;
+    let failed = 0;
+    let skipped = 0;
+    let failure: string | null = null;
+    let failedChange: { key: string; attempts: number } | null = null;
+
+    try {
+      for (let page = 0; page < MAX_PULL_PAGES; page++) {
+        const response = await axios.get(`${this.centralServerUrl}/api/v1/sync/delta`, {
+          params: { stationId, entityType, limit: this.batchSize, ...(cursor && { since: cursor }) },
+          timeout: 15000,
+          headers: { 'X-Station-ID': stationId }
+        });
+
+        if (!response.data?.success) {
+          throw new Error(response.data?.message || 'Central server rejected the delta request');
+        }
+
+        const changes: Array<{ operation: string; data: any; version?: string | number }> = response.data.data?.changes || [];
+        let applied = 0;
+        let lastAppliedVersion: string | number | undefined;
+
+        for (const change of changes) {
+          try {
+            // Deltas carry the record's current state, so anything but a delete is applied as an upsert
+            await applyCentralChange(entityType, change.operation === 'delete' ? 'delete' : 'create', change.data, stationId);
+            applied++;
+            lastAppliedVersion = change.version;
+          } catch (error: any) {
+            failed++;
+            const message = error?.message || String(error);
+            const key = `${change.version ?? 'no version'}/${change.data?.id || ''}`;
+            const attempts = state?.failedChange === key ? state.failedAttempts + 1 : 1;
+
+            if (attempts >= this.maxRetryAttempts) {
+              skipped++;
+              lastAppliedVersion = change.version;
+              console.error(`❌ Skipping pulled ${entityType} change ${key} after ${attempts} failed attempts: ${message}`);
+              await loggingService.log('SYNC_PULL_CHANGE_SKIPPED', { entityType, change, attempts, error: message });
+              continue;
+            }
+
+            failure = `change ${key}: ${message}`;
+            failedChange = { key, attempts };
+            console.error(`❌ Could not apply pulled ${entityType} ${failure} (attempt ${attempts} of ${this.maxRetryAttempts})`);
+            break;
+          }
+        }
+
+        downloaded += applied;
+        // After a failure only the changes applied before it are behind the cursor; without
+        // versions to place it, the cursor stays and the whole page is pulled again
+        const nextCursor = failure
+          ? lastAppliedVersion
+          : response.data.data?.cursor ?? (changes.length > 0 ? changes[changes.length - 1]!.version : undefined);
+        cursor = nextCursor !== undefined && nextCursor !== null ? String(nextCursor) : cursor;
+
+        await prisma.syncCursor.upsert({
+          where: { entityType },
+          create: { entityType, cursor, lastPulledAt: new Date(), lastStatus: 'success', changesApplied: applied },
+          update: { cursor, lastPulledAt: new Date(), changesApplied: { increment: applied } }
+        });
+
+        if (failure || !response.data.data?.hasMore || changes.length === 0) break;
+      }
+
+      const problems = [
+        ...(failure ? [`Stopped at ${failure}`] : []),
+        ...(skipped > 0 ? [`${skipped} change(s) skipped after ${this.maxRetryAttempts} attempts, see the operation log`] : [])
+      ];
+      await prisma.syncCursor.update({
+        where: { entityType },
+        data: {
+          lastStatus: problems.length > 0 ? 'partial' : 'success',
+          lastError: problems.length > 0 ? problems.join('; ') : null,
+          failedChange: failedChange?.key ?? null,
+          failedAttempts: failedChange?.attempts ?? 0
+        }
+      });
+
+      return { downloaded, failed, cursor };
+    } catch (error: any) {
+      const message = error?.response?.data?.message || error?.message || 'Unknown error';
+      console.error(`❌ Delta pull of ${entityType} failed:`, message);
+
+      await prisma.syncCursor.upsert({
+        where: { entityType },
+        create: { entityType, cursor, lastPulledAt: new Date(), lastStatus: 'failed', lastError: message, changesApplied: downloaded },
+        update: { lastPulledAt: new Date(), lastStatus: 'failed', lastError: message }
+      }).catch(() => {});
+
+      if (error?.code === 'ECONNREFUSED' || error?.code === 'ENOTFOUND' || error?.code === 'ECONNABORTED') {
+        this.isConnected = false;
+      }
+
+      return { downloaded, failed, cursor, error: `${entityType}: ${message}` };
+    }
+  }
+
+  /**
+   * Get the oldest changes after `afterId` that are still eligible for upload
+   */
+  private async getNextBatch(afterId: number = 0) {
+    return prisma.syncQueue.findMany({
+      where: {
+        id: { gt: afterId },
+        syncStatus: { in: ['PENDING', 'FAILED'] },
+        retryCount: { lt: this.maxRetryAttempts }
+      },
+      orderBy: { id: 'asc' },
+      take: this.batchSize
+    });
+  }
+
+  /**
+   * Upload one batch to the central server and record the outcome on each queue row
+   */
+  private async pushBatch(batch: Array<{ id: number; tableName: string; recordId: string; operation: string; data: string; createdAt: Date }>): Promise<{
+    delivered: boolean;
+    uploaded: number;
+    failed: number;
+  }> {
+    const attemptAt = new Date();
+    const changes: Array<{ id: number; tableName: string; recordId: string; operation: string; data: any; createdAt: Date }> = [];
+    const sentChanges: typeof batch = [];
+    let unparseable = 0;
+
+    // A corrupt payload fails on its own instead of taking the whole batch down with it
+    for (const change of batch) {
+      try {
+        changes.push({
+          id: change.id,
+          tableName: change.tableName,
+          recordId: change.recordId,
+          operation: change.operation,
+          data: JSON.parse(change.data),
+          createdAt: change.createdAt
+        });
+        sentChanges.push(change);
+      } catch (error) {
+        unparseable++;
+        const message = `Unparseable payload: ${error instanceof Error ? error.message : error}`;
+        console.error(`❌ Sync queue row ${change.id} (${change.tableName} ${change.recordId}): ${message}`);
+        await prisma.syncQueue.update({
+          where: { id: change.id },
+          // Retrying cannot fix the payload, so the row is not picked up again
+          data: { syncStatus: 'FAILED', retryCount: this.maxRetryAttempts, lastAttempt: attemptAt, error: message }
+        });
+      }
+    }
+
+    if (changes.length === 0) {
+      return { delivered: true, uploaded: 0, failed: unparseable };
+    }
+
+    const ids = changes.map(change => change.id);
+
+    try {
+      const response = await axios.post(`${this.centralServerUrl}/api/v1/sync/changes`, {
+        stationId: configService.getStationId(),
+        changes
+      }, {
+        timeout: 15000,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Station-ID': configService.getStationId()
+        }
+      });
+
+      if (!response.data?.success) {
+        throw new Error(response.data?.message || 'Central server rejected the sync batch');
+      }
+
+      // The central server may acknowledge each change individually; otherwise the whole batch is accepted
+      const results: Array<{ id: number; success: boolean; error?: string }> = Array.isArray(response.data?.data?.results)
+        ? response.data.data.results
+        : ids.map(id => ({ id, success: true }));
+      const rejected = new Map(results.filter(r => !r.success).map(r => [r.id, r.error || 'Rejected by central server']));
+      const acceptedChanges = sentChanges.filter(change => !rejected.has(change.id));
+
+      if (acceptedChanges.length > 0) {
+        await prisma.syncQueue.updateMany({
+          where: { id: { in: acceptedChanges.map(change => change.id) } },
+          data: { syncStatus: 'SYNCED', lastAttempt: attemptAt, error: null }
+        });
+        await this.markRecordsSynced(acceptedChanges, attemptAt);
+      }
+
+      for (const [id, error] of rejected) {
+        await prisma.syncQueue.update({
+          where: { id },
+          data: {
+            syncStatus: 'FAILED',
+            retryCount: { increment: 1 },
+            lastAttempt: attemptAt,
+            error
+          }
+        });
+      }
+
+      return { delivered: true, uploaded: acceptedChanges.length, failed: rejected.size + unparseable };
+    } catch (error: any) {
+      const message = error?.response?.data?.message || error?.message || 'Unknown error';
+      console.error(`❌ Failed to push sync batch of ${changes.length} change(s):`, message);
+
+      await prisma.syncQueue.updateMany({
+        where: { id: { in: ids } },
+        data: {
+          syncStatus: 'FAILED',
+          retryCount: { increment: 1 },
+          lastAttempt: attemptAt,
+          error: message
+        }
+      });
+
+      if (error?.code === 'ECONNREFUSED' || error?.code === 'ENOTFOUND' || error?.code === 'ECONNABORTED') {
+        this.isConnected = false;
+        console.log('📡 Central server unreachable - changes will sync when online');
+      }
+
+      return { delivered: false, uploaded: 0, failed: batch.length };
+    }
+  }
+
+  /**
+   * Reflect the sync on records that carry their own sync status
+   */
+  private async markRecordsSynced(changes: Array<{ tableName: string; recordId: string; operation: string }>, syncedAt: Date): Promise<void> {
+    const idsFor = (tableName: string) => changes
+      .filter(change => change.tableName === tableName && change.operation !== 'DELETE')
+      .map(change => change.recordId);
+
+    try {
+      const bookingIds = idsFor('bookings');
+      if (bookingIds.length > 0) {
+        await prisma.booking.updateMany({
+          where: { id: { in: bookingIds } },
+          data: { syncStatus: 'SYNCED' }
+        });
+      }
+
+      const tripIds = idsFor('trips');
+      if (tripIds.length > 0) {
+        await prisma.trip.updateMany({
+          where: { id: { in: tripIds } },
+          data: { syncStatus: 'SYNCED', syncedAt }
+        });
+      }
+
+      const refundIds = idsFor('refunds');
+      if (refundIds.length > 0) {
+        await prisma.refund.updateMany({
+          where: { id: { in: refundIds } },
+          data: { syncStatus: 'SYNCED' }
+        });
+      }
+    } catch (error) {
+      console.error('❌ Error updating record sync status:', error);
+    }
+  }
+
+  private recordHistory(entry: Omit<SyncHistoryEntry, 'id' | 'timestamp' | 'duration'>, startedAt: number): void {
+    this.history.unshift({
+      id: `${entry.direction === 'pull' ? 'pull' : 'sync'}_${startedAt}`,
+      timestamp: new Date(startedAt).toISOString(),
+      duration: (Date.now() - startedAt) / 1000,
+      ...entry
+    });
+
+    if (this.history.length > this.maxHistoryEntries) {
+      this.history.length = this.maxHistoryEntries;
+    }
+  }
+
+  private async countPendingChanges(): Promise<number> {
+    return prisma.syncQueue.count({
+      where: { syncStatus: { in: ['PENDING', 'FAILED'] }, retryCount: { lt: this.maxRetryAttempts } }
+    });
+  }
+
+  /**
+   * Get current sync status with queue counters
+   */
+  async getStatus(): Promise<SyncStatusInfo> {
+    const [pendingChanges, failedChanges] = await Promise.all([
+      this.countPendingChanges(),
+      prisma.syncQueue.count({
+        where: { syncStatus: 'FAILED', retryCount: { gte: this.maxRetryAttempts } }
+      })
+    ]);
+
+    let nextSyncIn: number | null = null;
+    if (this.syncInterval && this.lastSyncStartedAt) {
+      const elapsed = Date.now() - this.lastSyncStartedAt;
+      nextSyncIn = Math.max(0, Math.round((this.syncIntervalMs - elapsed) / 1000));
+    }
+
+    return {
+      status: this.status,
+      lastSync: this.lastSyncAt,
+      lastError: this.lastError,
+      pendingChanges,
+      failedChanges,
+      isSyncing: this.isSyncing,
+      isPulling: this.isPulling,
+      centralServerUrl: this.centralServerUrl,
+      intervalSeconds: this.syncIntervalMs / 1000,
+      enabled: this.isEnabled,
+      nextSyncIn
+    };
+  }
+
+  /**
+   * Get changes that have not been synced yet (including ones that exhausted their retries)
+   */
+  async getPendingChanges(limit: number = 100) {
+    const changes = await prisma.syncQueue.findMany({
+      where: { syncStatus: { in: ['PENDING', 'FAILED'] } },
+      orderBy: { id: 'asc' },
+      take: limit
+    });
+
+    return changes.map(change => ({
+      id: change.id,
+      type: change.tableName,
+      action: change.operation,
+      recordId: change.recordId,
+      status: change.syncStatus,
+      retryCount: change.retryCount,
+      retriesExhausted: change.retryCount >= this.maxRetryAttempts,
+      lastAttempt: change.lastAttempt,
+      error: change.error,
+      timestamp: change.createdAt
+    }));
+  }
+
+  /**
+   * Put failed changes back in the queue with a fresh retry budget
+   */
+  async retryFailedChanges(): Promise<number> {
+    const result = await prisma.syncQueue.updateMany({
+      where: { syncStatus: 'FAILED' },
+      data: { syncStatus: 'PENDING', retryCount: 0, error: null }
+    });
+    return result.count;
+  }
+
+  getHistory(limit: number = 10): SyncHistoryEntry[] {
+    return this.history.slice(0, limit);
+  }
+
   private startAutomaticSync(): void {
     if (this.syncInterval) {
       clearInterval(this.syncInterval);
     }
 
+    this.lastSyncStartedAt = Date.now();
     this.syncInterval = setInterval(async () => {
-      if (this.isConnected) {
-        await this.syncNow();
+      if (this.isConnected || await this.connect()) {
+        await this.syncNow('automatic');
+      } else {
+        this.lastSyncStartedAt = Date.now();
       }
     }, this.syncIntervalMs);
 
     console.log(`⏰ Automatic sync started (interval: ${this.syncIntervalMs / 1000}s)`);
+
+    if (this.pullInterval) {
+      clearInterval(this.pullInterval);
+    }
+    this.pullInterval = setInterval(async () => {
+      if (this.isConnected || await this.connect()) {
+        await this.pullChanges('automatic');
+      }
+    }, this.pullIntervalMs);
+
+    console.log(`⏰ Automatic delta pull started (interval: ${this.pullIntervalMs / 1000}s)`);
   }
 
   private stopAutomaticSync(): void {
@@ -120,15 +780,19 @@ export class SyncService extends EventEmitter {
       this.syncInterval = null;
       console.log('⏰ Automatic sync stopped');
     }
+    if (this.pullInterval) {
+      clearInterval(this.pullInterval);
+      this.pullInterval = null;
+    }
   }
 
   async stop(): Promise<void> {
     try {
       console.log('🛑 Stopping Sync Service...');
-      
+
       this.stopAutomaticSync();
       await this.disconnect();
-      
+
       this.isInitialized = false;
       this.emit('stopped');
       console.log('✅ Sync Service stopped');
@@ -148,6 +812,7 @@ export class SyncService extends EventEmitter {
 
   get status(): string {
     if (!this.isInitialized) return 'not_initialized';
+    if (this.isSyncing) return 'syncing';
     if (!this.isConnected) return 'disconnected';
     return 'connected';
   }
@@ -160,7 +825,21 @@ export class SyncService extends EventEmitter {
     }
   }
 
+  setEnabled(enabled: boolean): void {
+    this.isEnabled = enabled;
+    if (enabled && !this.syncInterval && this.isInitialized) {
+      this.startAutomaticSync();
+    } else if (!enabled) {
+      this.stopAutomaticSync();
+    }
+  }
+
   setCentralServerUrl(url: string): void {
     this.centralServerUrl = url;
+    this.isConnected = false;
+  }
+
+  get centralUrl(): string {
+    return this.centralServerUrl;
   }
-} 
\ No newline at end of file
+}
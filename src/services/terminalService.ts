@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database';
+import { sessionService } from './sessionService';
+
+/**
+ * Terminal Service
+ *
+ * Registry of shared booking windows and gate devices. A terminal proves who it is
+ * with the device key handed out at registration; only registered terminals may
+ * open PIN quick-switch sessions.
+ */
+
+export interface TerminalCredentials {
+  terminalId: string;
+  terminalKey: string;
+}
+
+class TerminalService {
+  /**
+   * Register a terminal and return its device key (shown once, only the hash is stored)
+   */
+  async registerTerminal(name: string, registeredById: string | null): Promise<{ terminal: any; deviceKey: string }> {
+    const deviceKey = crypto.randomBytes(32).toString('hex');
+
+    const terminal = await prisma.terminal.create({
+      data: {
+        name,
+        deviceKeyHash: this.hashKey(deviceKey),
+        registeredById
+      }
+    });
+
+    console.log(`🖥️ Terminal registered: ${name} (${terminal.id})`);
+    return { terminal: this.toPublic(terminal), deviceKey };
+  }
+
+  /**
+   * Check a terminal's credentials; returns the terminal when it is registered and active
+   */
+  async authenticateTerminal(credentials: Partial<TerminalCredentials>): Promise<any | null> {
+    if (!credentials.terminalId || !credentials.terminalKey) {
+      return null;
+    }
+
+    const terminal = await prisma.terminal.findUnique({ where: { id: credentials.terminalId } });
+    if (!terminal || !terminal.isActive) {
+      return null;
+    }
+
+    const expected = Buffer.from(terminal.deviceKeyHash, 'hex');
+    const actual = Buffer.from(this.hashKey(credentials.terminalKey), 'hex');
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    await prisma.terminal.update({
+      where: { id: terminal.id },
+      data: { lastSeenAt: new Date() }
+    });
+
+    return this.toPublic(terminal);
+  }
+
+  /**
+   * Terminals with the staff member currently signed in on each
+   */
+  async listTerminals(): Promise<any[]> {
+    const terminals = await prisma.terminal.findMany({
+      orderBy: { createdAt: 'asc' },
+      include: {
+        sessions: {
+          where: { isActive: true, expiresAt: { gt: new Date() } },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          include: { staff: { select: { id: true, firstName: true, lastName: true, role: true } } }
+        }
+      }
+    });
+
+    return terminals.map(({ sessions, ...terminal }) => ({
+      ...this.toPublic(terminal),
+      currentSession: sessions[0]
+        ? {
+            staff: sessions[0].staff,
+            authMethod: sessions[0].authMethod,
+            startedAt: sessions[0].createdAt,
+            expiresAt: sessions[0].expiresAt
+          }
+        : null
+    }));
+  }
+
+  /**
+   * Stop accepting a terminal and close the sessions opened on it
+   */
+  async deactivateTerminal(terminalId: string): Promise<any | null> {
+    const existing = await prisma.terminal.findUnique({ where: { id: terminalId } });
+    if (!existing) {
+      return null;
+    }
+
+    // Deactivated first so no new session can open on the terminal while its sessions close
+    const terminal = await prisma.terminal.update({ where: { id: terminalId }, data: { isActive: false } });
+    await sessionService.deactivateSessions({ terminalId }, 'Terminal deactivated');
+
+    console.log(`🖥️ Terminal deactivated: ${terminal.name} (${terminal.id})`);
+    return this.toPublic(terminal);
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  private toPublic(terminal: { deviceKeyHash: string } & Record<string, any>): any {
+    const { deviceKeyHash, ...rest } = terminal;
+    return rest;
+  }
+}
+
+export const terminalService = new TerminalService();
@@ -0,0 +1,315 @@
+import net from 'net';
+import fs from 'fs';
+import path from 'path';
+import { prisma } from '../config/database';
+import { env } from '../config/environment';
+import { EscPosBuilder } from '../utils/escpos';
+import { LoggingService } from './loggingService';
+
+const loggingService = new LoggingService();
+
+export type PrintableTicketType = 'BOOKING' | 'DAY_PASS' | 'ENTRY_TICKET' | 'EXIT_TICKET';
+
+// URL segment -> ticket type
+export const TICKET_TYPE_PATHS: Record<string, PrintableTicketType> = {
+  'booking': 'BOOKING',
+  'day-pass': 'DAY_PASS',
+  'entry': 'ENTRY_TICKET',
+  'exit': 'EXIT_TICKET'
+};
+
+export interface RenderedTicket {
+  ticketType: PrintableTicketType;
+  ticketId: string;
+  escpos: Buffer;
+  preview: string;
+}
+
+export interface PrintResult {
+  success: boolean;
+  ticketType?: PrintableTicketType;
+  ticketId?: string;
+  printTarget?: string;
+  printCount?: number;
+  reprintCount?: number;
+  preview?: string;
+  escpos?: Buffer; // Only when the client prints the ticket itself
+  error?: string;
+}
+
+class TicketPrintService {
+  /**
+   * Render a ticket to ESC/POS bytes and a text preview.
+   * Reprints are marked as duplicates on the receipt.
+   */
+  async render(ticketType: PrintableTicketType, ticketId: string, reprintNumber: number = 0): Promise<RenderedTicket | null> {
+    const stationConfig = await prisma.stationConfig.findFirst();
+    const stationName = stationConfig?.stationName || env.STATION_NAME;
+    const receipt = new EscPosBuilder(env.PRINTER_LINE_WIDTH);
+
+    receipt.align('center').bold().large().text(stationName).large(false).bold(false);
+    if (reprintNumber > 0) {
+      receipt.bold().text(`*** DUPLICATA #${reprintNumber} ***`).bold(false);
+    }
+    receipt.separator();
+
+    let rendered = false;
+    switch (ticketType) {
+      case 'BOOKING':
+        rendered = await this.renderBooking(receipt, ticketId);
+        break;
+      case 'DAY_PASS':
+        rendered = await this.renderDayPass(receipt, ticketId);
+        break;
+      case 'ENTRY_TICKET':
+        rendered = await this.renderEntryTicket(receipt, ticketId);
+        break;
+      case 'EXIT_TICKET':
+        rendered = await this.renderExitTicket(receipt, ticketId);
+        break;
+    }
+
+    if (!rendered) {
+      return null;
+    }
+
+    receipt.align('center').separator().text(`Imprimé le ${this.formatDate(new Date())}`).text('Bon voyage !').feed(3).cut();
+
+    return {
+      ticketType,
+      ticketId,
+      escpos: receipt.toBuffer(),
+      preview: receipt.toPreview()
+    };
+  }
+
+  /**
+   * Text preview of a ticket as its next print would come out: a duplicate once it has been printed.
+   * Nothing is counted.
+   */
+  async preview(ticketType: PrintableTicketType, ticketId: string) {
+    const status = await this.getPrintStatus(ticketType, ticketId);
+    const reprintNumber = (status?.printCount || 0) > 0 ? (status?.reprintCount || 0) + 1 : 0;
+
+    const rendered = await this.render(ticketType, ticketId, reprintNumber);
+    return rendered ? { preview: rendered.preview, status } : null;
+  }
+
+  /**
+   * Print a ticket and update its print counters. Any print after the first is a numbered duplicate.
+   * The print is counted before the ticket is rendered, so of two simultaneous first prints only
+   * one comes out as the original. With `clientPrint` the bytes are returned for the client to
+   * print instead of going to the station printer.
+   */
+  async print(
+    ticketType: PrintableTicketType,
+    ticketId: string,
+    staffId: string,
+    options: { reprint?: boolean; reason?: string; clientPrint?: boolean } = {}
+  ): Promise<PrintResult> {
+    const where = { ticketType_ticketId: { ticketType, ticketId } };
+
+    try {
+      const now = new Date();
+      const { record, isReprint, rendered } = await prisma.$transaction(async (tx) => {
+        await tx.ticketPrint.createMany({
+          data: [{ ticketType, ticketId, firstPrintedAt: now }],
+          skipDuplicates: true
+        });
+
+        // The increment locks the row, so concurrent prints of the ticket take their turn
+        const counted = await tx.ticketPrint.update({
+          where,
+          data: { printCount: { increment: 1 }, lastPrintedAt: now, lastPrintedBy: staffId }
+        });
+        const isReprint = !!options.reprint || counted.printCount > 1;
+        const record = isReprint
+          ? await tx.ticketPrint.update({
+              where,
+              data: { reprintCount: { increment: 1 }, lastReprintReason: options.reason || null }
+            })
+          : counted;
+
+        const rendered = await this.render(ticketType, ticketId, isReprint ? record.reprintCount : 0);
+        if (!rendered) {
+          throw new Error('Ticket not found'); // Rolls the count back
+        }
+        return { record, isReprint, rendered };
+      });
+
+      if (!options.clientPrint) {
+        try {
+          await this.send(rendered);
+        } catch (error) {
+          // Nothing came out of the printer: give the count back
+          await prisma.ticketPrint.update({
+            where,
+            data: { printCount: { decrement: 1 }, ...(isReprint && { reprintCount: { decrement: 1 } }) }
+          }).catch(() => {});
+          throw error;
+        }
+      }
+
+      await loggingService.log(isReprint ? 'TICKET_REPRINTED' : 'TICKET_PRINTED', {
+        ticketType,
+        ticketId,
+        staffId,
+        printCount: record.printCount,
+        reprintCount: record.reprintCount,
+        reason: options.reason,
+        printTarget: options.clientPrint ? 'client' : env.PRINTER_TARGET
+      });
+
+      return {
+        success: true,
+        ticketType,
+        ticketId,
+        printTarget: options.clientPrint ? 'client' : env.PRINTER_TARGET,
+        printCount: record.printCount,
+        reprintCount: record.reprintCount,
+        preview: rendered.preview,
+        ...(options.clientPrint && { escpos: rendered.escpos })
+      };
+    } catch (error) {
+      console.error('❌ Error printing ticket:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Print counters for a ticket
+   */
+  async getPrintStatus(ticketType: PrintableTicketType, ticketId: string) {
+    return prisma.ticketPrint.findUnique({
+      where: { ticketType_ticketId: { ticketType, ticketId } }
+    });
+  }
+
+  /**
+   * Send the byte stream to the configured printer target
+   */
+  private async send(ticket: RenderedTicket): Promise<void> {
+    switch (env.PRINTER_TARGET) {
+      case 'tcp':
+        await this.sendToTcpPrinter(ticket.escpos);
+        console.log(`🖨️ Sent ${ticket.ticketType} ${ticket.ticketId} to printer ${env.PRINTER_HOST}:${env.PRINTER_PORT}`);
+        break;
+      case 'file': {
+        await fs.promises.mkdir(env.PRINTER_SPOOL_DIR, { recursive: true });
+        const fileName = `${ticket.ticketType.toLowerCase()}_${ticket.ticketId}_${Date.now()}.bin`;
+        await fs.promises.writeFile(path.join(env.PRINTER_SPOOL_DIR, fileName), ticket.escpos);
+        console.log(`🖨️ Spooled ${ticket.ticketType} ${ticket.ticketId} to ${fileName}`);
+        break;
+      }
+      default:
+        console.log(`🖨️ No printer configured, ${ticket.ticketType} ${ticket.ticketId} rendered for preview only`);
+    }
+  }
+
+  private sendToTcpPrinter(data: Buffer): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: env.PRINTER_HOST, port: env.PRINTER_PORT });
+      socket.setTimeout(5000);
+      socket.on('connect', () => socket.end(data));
+      socket.on('close', (hadError) => { if (!hadError) resolve(); });
+      socket.on('timeout', () => {
+        socket.destroy();
+        reject(new Error(`Printer ${env.PRINTER_HOST}:${env.PRINTER_PORT} timed out`));
+      });
+      socket.on('error', reject);
+    });
+  }
+
+  private async renderBooking(receipt: EscPosBuilder, bookingId: string): Promise<boolean> {
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: {
+        queue: { select: { destinationName: true, vehicle: { select: { licensePlate: true } } } },
+        createdByStaff: { select: { firstName: true, lastName: true } },
+        seatAssignments: { select: { seatNumber: true }, orderBy: { seatNumber: 'asc' } }
+      }
+    });
+    if (!booking) return false;
+
+    receipt.bold().text('TICKET PASSAGER').bold(false).align('left')
+      .row('Destination', booking.queue.destinationName)
+      .row('Véhicule', booking.queue.vehicle.licensePlate)
+      .row('Places', String(booking.seatsBooked));
+    if (booking.seatAssignments.length > 0) {
+      receipt.row('Siège(s)', booking.seatAssignments.map(a => a.seatNumber).join(', '));
+    }
+    receipt
+      .row('Montant', `${booking.totalAmount.toFixed(3)} TND`)
+      .row('Paiement', booking.paymentMethod)
+      .row('Date', this.formatDate(booking.createdAt));
+    if (booking.createdByStaff) {
+      receipt.row('Agent', `${booking.createdByStaff.firstName} ${booking.createdByStaff.lastName}`);
+    }
+    receipt.align('center').feed().qrCode(booking.verificationCode).bold().text(booking.verificationCode).bold(false);
+    return true;
+  }
+
+  private async renderDayPass(receipt: EscPosBuilder, dayPassId: string): Promise<boolean> {
+    const dayPass = await prisma.dayPass.findUnique({
+      where: { id: dayPassId },
+      include: {
+        driver: { select: { cin: true } },
+        product: { select: { name: true } },
+        createdByStaff: { select: { firstName: true, lastName: true } }
+      }
+    });
+    if (!dayPass) return false;
+
+    receipt.bold().text((dayPass.product?.name || 'Pass journalier').toUpperCase()).bold(false).align('left')
+      .row('Véhicule', dayPass.licensePlate)
+      .row('CIN chauffeur', dayPass.driver.cin)
+      .row('Prix', `${dayPass.price.toFixed(3)} TND`)
+      .row('Valide du', this.formatDate(dayPass.validFrom))
+      .row('Valide au', this.formatDate(dayPass.validUntil))
+      .row('Agent', `${dayPass.createdByStaff.firstName} ${dayPass.createdByStaff.lastName}`);
+    receipt.align('center').feed().qrCode(dayPass.id);
+    return true;
+  }
+
+  private async renderEntryTicket(receipt: EscPosBuilder, ticketId: string): Promise<boolean> {
+    const ticket = await prisma.driverEntryTicket.findUnique({
+      where: { id: ticketId },
+      include: { createdByStaff: { select: { firstName: true, lastName: true } } }
+    });
+    if (!ticket) return false;
+
+    receipt.bold().text("TICKET D'ENTRÉE").bold(false).align('left')
+      .row('Véhicule', ticket.licensePlate)
+      .row('Position', String(ticket.queuePosition))
+      .row('Suivant', ticket.nextVehiclePlate || '-')
+      .row('Entrée', this.formatDate(ticket.entryTime))
+      .row('Prix', `${ticket.ticketPrice.toFixed(3)} TND`)
+      .row('Agent', `${ticket.createdByStaff.firstName} ${ticket.createdByStaff.lastName}`);
+    receipt.align('center').feed().barcode(ticket.ticketNumber);
+    return true;
+  }
+
+  private async renderExitTicket(receipt: EscPosBuilder, ticketId: string): Promise<boolean> {
+    const ticket = await prisma.driverExitTicket.findUnique({
+      where: { id: ticketId },
+      include: { createdByStaff: { select: { firstName: true, lastName: true } } }
+    });
+    if (!ticket) return false;
+
+    receipt.bold().text('TICKET DE SORTIE').bold(false).align('left')
+      .row('Véhicule', ticket.licensePlate)
+      .row('Départ', ticket.departureStationName)
+      .row('Destination', ticket.destinationStationName)
+      .row('Sortie', this.formatDate(ticket.exitTime))
+      .row('Agent', `${ticket.createdByStaff.firstName} ${ticket.createdByStaff.lastName}`);
+    receipt.align('center').feed().barcode(ticket.ticketNumber);
+    return true;
+  }
+
+  private formatDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  }
+}
+
+export const ticketPrintService = new TicketPrintService();
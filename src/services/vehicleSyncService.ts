@@ -3,6 +3,7 @@ import { prisma } from '../config/database';
 import { env } from '../config/environment';
 import { RouteService } from './routeService';
 import { configService } from '../config/supervisorConfig';
+import { auditService, AuditContext } from './auditService';
 
 export interface VehicleData {
   id: string;
@@ -489,13 +490,27 @@ export class VehicleSyncService {
   /**
    * Ban a vehicle locally and sync to central server
    */
-  async banVehicle(vehicleId: string): Promise<{ success: boolean; error?: string }> {
+  async banVehicle(vehicleId: string, audit?: AuditContext): Promise<{ success: boolean; error?: string }> {
     try {
+      const previous = await prisma.vehicle.findUnique({
+        where: { id: vehicleId },
+        select: { licensePlate: true, isBanned: true, isActive: true }
+      });
+
       // Update local DB
-      await prisma.vehicle.update({
+      const updated = await prisma.vehicle.update({
         where: { id: vehicleId },
-        data: { isBanned: true, isActive: false, syncedAt: new Date() }
+        data: { isBanned: true, isActive: false, syncedAt: new Date() },
+        select: { licensePlate: true, isBanned: true, isActive: true }
       });
+
+      await auditService.record({
+        action: 'VEHICLE_BANNED',
+        entityType: 'VEHICLE',
+        entityId: vehicleId,
+        before: previous,
+        after: updated
+      }, audit);
       // Sync ban status to central server
       try {
         await axios.post(`${env.CENTRAL_SERVER_URL}/api/v1/vehicles/${vehicleId}/ban`);
@@ -0,0 +1,128 @@
+/**
+ * Minimal ESC/POS receipt builder.
+ *
+ * Every call writes both the printer byte stream and a plain-text preview,
+ * so the same receipt can be sent to a thermal printer or shown on screen.
+ */
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export type Alignment = 'left' | 'center' | 'right';
+
+export class EscPosBuilder {
+  private chunks: Buffer[] = [];
+  private previewLines: string[] = [];
+  private alignment: Alignment = 'left';
+
+  constructor(private readonly width: number = 42) {
+    // Initialize printer and select the Windows-1252 code page (French accents)
+    this.raw([ESC, 0x40]);
+    this.raw([ESC, 0x74, 16]);
+  }
+
+  align(alignment: Alignment): this {
+    this.alignment = alignment;
+    this.raw([ESC, 0x61, alignment === 'left' ? 0 : alignment === 'center' ? 1 : 2]);
+    return this;
+  }
+
+  bold(enabled: boolean = true): this {
+    this.raw([ESC, 0x45, enabled ? 1 : 0]);
+    return this;
+  }
+
+  /**
+   * Double width/height text (titles)
+   */
+  large(enabled: boolean = true): this {
+    this.raw([GS, 0x21, enabled ? 0x11 : 0x00]);
+    return this;
+  }
+
+  text(line: string = ''): this {
+    this.chunks.push(Buffer.from(line, 'latin1'));
+    this.raw([LF]);
+    this.previewLines.push(this.alignPreview(line));
+    return this;
+  }
+
+  /**
+   * Label on the left, value on the right of the same line
+   */
+  row(label: string, value: string): this {
+    const space = Math.max(this.width - label.length - value.length, 1);
+    return this.text(`${label}${' '.repeat(space)}${value}`);
+  }
+
+  separator(char: string = '-'): this {
+    return this.text(char.repeat(this.width));
+  }
+
+  feed(lines: number = 1): this {
+    this.raw([ESC, 0x64, lines]);
+    for (let i = 0; i < lines; i++) this.previewLines.push('');
+    return this;
+  }
+
+  /**
+   * QR code (model 2) using the GS ( k function set
+   */
+  qrCode(data: string, moduleSize: number = 6): this {
+    const payload = Buffer.from(data, 'latin1');
+    const storeLength = payload.length + 3;
+
+    this.raw([GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0x00]); // Model 2
+    this.raw([GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, moduleSize]); // Module size
+    this.raw([GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31]); // Error correction M
+    this.raw([GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 0x31, 0x50, 0x30]);
+    this.chunks.push(payload);
+    this.raw([GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30]); // Print
+    this.raw([LF]);
+
+    this.previewLines.push(this.alignPreview(`[QR: ${data}]`));
+    return this;
+  }
+
+  /**
+   * CODE128 barcode with human readable text below
+   */
+  barcode(data: string, height: number = 80): this {
+    const payload = Buffer.concat([Buffer.from('{B', 'latin1'), Buffer.from(data, 'latin1')]);
+
+    this.raw([GS, 0x68, height]); // Height in dots
+    this.raw([GS, 0x77, 2]); // Module width
+    this.raw([GS, 0x48, 2]); // HRI below
+    this.raw([GS, 0x6b, 73, payload.length]);
+    this.chunks.push(payload);
+    this.raw([LF]);
+
+    this.previewLines.push(this.alignPreview(`[BARCODE: ${data}]`));
+    return this;
+  }
+
+  cut(): this {
+    this.raw([GS, 0x56, 0x42, 3]); // Feed and partial cut
+    return this;
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+
+  toPreview(): string {
+    return this.previewLines.join('\n');
+  }
+
+  private raw(bytes: number[]): void {
+    this.chunks.push(Buffer.from(bytes));
+  }
+
+  private alignPreview(line: string): string {
+    if (line.length >= this.width || this.alignment === 'left') return line;
+    const padding = this.width - line.length;
+    if (this.alignment === 'right') return ' '.repeat(padding) + line;
+    return ' '.repeat(Math.floor(padding / 2)) + line;
+  }
+}
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { env } from '../config/environment';
+import { normalizeConfidence, normalizePlate, PlateReadWindow } from './plateReads';
+
+test('a plate read again within the dedup window is a repeat', (t) => {
+  let now = 1_000_000;
+  t.mock.method(Date, 'now', () => now);
+  const window = new PlateReadWindow();
+
+  assert.equal(window.isRepeatedRead('123TU4567'), false);
+  now += env.PLATE_DEDUP_WINDOW_SECONDS * 1000;
+  assert.equal(window.isRepeatedRead('123TU4567'), true);
+  assert.equal(window.isRepeatedRead('200TU1'), false, 'other plates are not affected');
+});
+
+test('a plate read after the dedup window is a new read', (t) => {
+  let now = 1_000_000;
+  t.mock.method(Date, 'now', () => now);
+  const window = new PlateReadWindow();
+
+  window.isRepeatedRead('123TU4567');
+  now += env.PLATE_DEDUP_WINDOW_SECONDS * 1000 + 1;
+  assert.equal(window.isRepeatedRead('123TU4567'), false);
+});
+
+test('the window is measured from the last read of the plate', (t) => {
+  let now = 1_000_000;
+  t.mock.method(Date, 'now', () => now);
+  const window = new PlateReadWindow();
+  const halfWindow = env.PLATE_DEDUP_WINDOW_SECONDS * 500;
+
+  window.isRepeatedRead('123TU4567');
+  now += halfWindow + 1;
+  assert.equal(window.isRepeatedRead('123TU4567'), true);
+  now += halfWindow + 1;
+  assert.equal(window.isRepeatedRead('123TU4567'), true, 'a vehicle standing in front of the camera stays deduplicated');
+});
+
+test('plates and confidences from different cameras compare the same', () => {
+  assert.equal(normalizePlate(' 123tu4567 '), '123TU4567');
+  assert.equal(normalizeConfidence(87), 0.87);
+  assert.equal(normalizeConfidence(0.87), 0.87);
+});
@@ -0,0 +1,48 @@
+import { env } from '../config/environment';
+
+/**
+ * Plate read helpers shared by the entry and exit gate cameras.
+ */
+
+export function normalizePlate(licensePlate: string): string {
+  return licensePlate.trim().toUpperCase();
+}
+
+/**
+ * Cameras report either 0-1 or 0-100
+ */
+export function normalizeConfidence(confidence: number): number {
+  return confidence > 1 ? confidence / 100 : confidence;
+}
+
+export function isLowConfidence(confidence: number): boolean {
+  return confidence < env.PLATE_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * Last accepted read of each plate, to ignore a camera reading the same vehicle again
+ * within the dedup window. Check confidence first: a doubtful read recorded here would
+ * hide the clear read of the same plate that follows it.
+ */
+export class PlateReadWindow {
+  // Normalized plate -> last time it was read (ms)
+  private lastReads: Map<string, number> = new Map();
+
+  /**
+   * True when the plate was already read within the dedup window; records this read
+   */
+  isRepeatedRead(licensePlate: string): boolean {
+    const now = Date.now();
+    const windowMs = env.PLATE_DEDUP_WINDOW_SECONDS * 1000;
+
+    for (const [plate, readAt] of this.lastReads) {
+      if (now - readAt > windowMs) {
+        this.lastReads.delete(plate);
+      }
+    }
+
+    const repeated = this.lastReads.has(licensePlate);
+    this.lastReads.set(licensePlate, now);
+    return repeated;
+  }
+}
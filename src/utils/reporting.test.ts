@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { csvRow, formatDay, parseDay, roundAmount } from './reporting';
+
+test('days are parsed and formatted in station local time', () => {
+  const parsed = parseDay('2026-03-01');
+  assert.ok(parsed);
+  assert.equal(parsed.getHours(), 0);
+  assert.equal(formatDay(parsed), '2026-03-01');
+
+  assert.equal(parseDay('2026-3-1'), null);
+  assert.equal(parseDay('01/03/2026'), null);
+  assert.equal(parseDay('2026-02-30'), null);
+});
+
+test('amounts are rounded to the millime', () => {
+  assert.equal(roundAmount(0.1 + 0.2), 0.3);
+  assert.equal(roundAmount(10.0004), 10);
+  assert.equal(roundAmount(10.0005), 10.001);
+});
+
+test('CSV cells are quoted when they hold separators or quotes', () => {
+  assert.equal(csvRow(['Tunis, Bab Saadoun', 'say "hi"', null, undefined, 3]), '"Tunis, Bab Saadoun","say ""hi""",,,3');
+});
+
+test('CSV cells that a spreadsheet would run as a formula are neutralised', () => {
+  assert.equal(csvRow(['=HYPERLINK("http://x")', '+1', '-1', '@SUM(A1)']), `"'=HYPERLINK(""http://x"")",'+1,'-1,'@SUM(A1)`);
+  assert.equal(csvRow([-1.5, 'Ben Arous']), '-1.5,Ben Arous', 'numbers and plain text are left alone');
+});
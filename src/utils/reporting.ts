@@ -0,0 +1,45 @@
+/**
+ * Helpers shared by the financial reports, driver statements, shift closes and the daily ledger.
+ */
+
+/**
+ * Parse a YYYY-MM-DD day as local midnight. No value means today; an invalid value gives null.
+ */
+export function parseDay(value?: string): Date | null {
+  if (!value) {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return today;
+  }
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const month = Number(match[2]) - 1;
+  const day = new Date(Number(match[1]), month, Number(match[3]), 0, 0, 0, 0);
+  // Date rolls 2026-02-30 over to March instead of failing
+  return day.getMonth() === month && day.getDate() === Number(match[3]) ? day : null;
+}
+
+export function formatDay(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 1000) / 1000; // TND has 3 decimals
+}
+
+/**
+ * Quote a CSV cell. Text starting with a formula character is prefixed with a quote so a
+ * spreadsheet shows it instead of evaluating it; numbers are written as they are.
+ */
+export function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value !== 'number' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvRow(values: unknown[]): string {
+  return values.map(csvCell).join(',');
+}
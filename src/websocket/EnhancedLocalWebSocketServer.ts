@@ -5,8 +5,10 @@ import { prisma } from '../config/database';
 import * as dashboardController from '../controllers/dashboardController';
 import { WebSocketService } from './webSocketService';
 import { ConnectionManager, ClientConnection } from './connectionManager';
-import { ConcurrencyManager } from '../services/concurrencyManager';
+import { ConcurrencyManager, concurrencyManager as sharedConcurrencyManager } from '../services/concurrencyManager';
 import { RealTimeSyncService } from '../services/realTimeSyncService';
+import { verifyStaffToken } from '../middleware/auth';
+import { permissionService, Permission } from '../services/permissionService';
 
 interface WebSocketMessage {
   type: string;
@@ -46,6 +48,16 @@ interface TunnelConfig {
   heartbeatInterval: number;
 }
 
+// Staff permission needed to relay each client message type to the other clients
+const CLIENT_MESSAGE_PERMISSIONS: Partial<Record<string, Permission>> = {
+  cash_booking_updated: 'booking:create',
+  seat_availability_changed: 'booking:create',
+  financial_update: 'booking:create',
+  queue_update: 'queue:manage',
+  concurrency_operation_synced: 'queue:manage',
+  real_time_sync_update: 'queue:manage'
+};
+
 export class EnhancedLocalWebSocketServer extends EventEmitter {
   private wss: WebSocketServer;
   private connectionManager: ConnectionManager;
@@ -87,13 +99,17 @@ export class EnhancedLocalWebSocketServer extends EventEmitter {
     processingQueue: boolean;
   }> = new Map();
 
-  constructor(server: HTTPServer, webSocketService: WebSocketService) {
+  constructor(
+    server: HTTPServer,
+    webSocketService: WebSocketService,
+    concurrencyManager: ConcurrencyManager = sharedConcurrencyManager
+  ) {
     super();
     
     this.webSocketService = webSocketService;
     
-    // Initialize managers
-    this.concurrencyManager = new ConcurrencyManager();
+    // Initialize managers; locks are shared with the REST routes through the one concurrency manager
+    this.concurrencyManager = concurrencyManager;
     this.realTimeSyncService = new RealTimeSyncService(this.concurrencyManager);
     this.connectionManager = new ConnectionManager();
     
@@ -429,6 +445,12 @@ export class EnhancedLocalWebSocketServer extends EventEmitter {
         return;
       }
       
+      // Messages relayed to other clients need the matching staff permission
+      const requiredPermission = CLIENT_MESSAGE_PERMISSIONS[message.type];
+      if (requiredPermission && !this.checkPermission(clientId, message.type, requiredPermission)) {
+        return;
+      }
+      
       // Handle other message types
       switch (message.type) {
         case 'cash_booking_updated':
@@ -475,12 +497,16 @@ export class EnhancedLocalWebSocketServer extends EventEmitter {
       
       console.log(`🔐 Authenticating client ${clientId} with ${securityLevel} security...`);
       
-      // Validate token (implement your token validation logic here)
-      const isValid = await this.validateToken(token);
+      const staff = await verifyStaffToken(token);
       
-      if (isValid) {
+      if (staff) {
         // Mark client as authenticated
-        this.connectionManager.authenticateClient(clientId, { clientType: 'desktop-app' });
+        this.connectionManager.authenticateClient(clientId, {
+          clientType: 'desktop-app',
+          staffId: staff.id,
+          role: staff.role,
+          sessionId: staff.sessionId
+        });
         this.metrics.authenticatedConnections++;
         
         // Send authentication confirmation
@@ -489,6 +515,8 @@ export class EnhancedLocalWebSocketServer extends EventEmitter {
           payload: {
             clientId,
             securityLevel,
+            role: staff.role,
+            permissions: permissionService.getPermissions(staff.role),
             timestamp: new Date().toISOString()
           },
           timestamp: Date.now(),
@@ -784,12 +812,27 @@ export class EnhancedLocalWebSocketServer extends EventEmitter {
   }
 
   /**
-   * Validate token (implement your validation logic)
+   * Check a client message against the permissions of the authenticated staff member
    */
-  private async validateToken(token: string): Promise<boolean> {
-    // Implement your token validation logic here
-    // For now, return true if token exists
-    return !!token;
+  private checkPermission(clientId: string, messageType: string, permission: Permission): boolean {
+    const client = this.connectionManager.getClient(clientId);
+    if (client?.isAuthenticated && permissionService.hasPermission(client.role, permission)) {
+      return true;
+    }
+
+    console.warn(`🚫 Client ${clientId} (${client?.role || 'unauthenticated'}) lacks ${permission} for ${messageType}`);
+    this.connectionManager.sendToClient(clientId, {
+      type: 'permission_denied',
+      payload: {
+        messageType,
+        permission,
+        timestamp: new Date().toISOString()
+      },
+      timestamp: Date.now(),
+      source: 'server',
+      target: clientId
+    });
+    return false;
   }
 
   /**
@@ -922,6 +965,34 @@ export class EnhancedLocalWebSocketServer extends EventEmitter {
     console.log(`📡 Broadcasted message to ${allClients.filter(c => c.isAuthenticated).length} authenticated clients`);
   }
 
+  /**
+   * Tell clients signed in with revoked sessions and disconnect them
+   */
+  public dropSessions(sessionIds: string[], reason: string): number {
+    const revoked = new Set(sessionIds);
+    const clients = this.connectionManager.getAllClients().filter(client => client.sessionId && revoked.has(client.sessionId));
+
+    for (const client of clients) {
+      try {
+        client.ws.send(JSON.stringify({
+          type: 'session_revoked',
+          payload: { reason, timestamp: new Date().toISOString() },
+          timestamp: Date.now(),
+          source: 'server',
+          target: client.id
+        }));
+        client.ws.close(4001, 'Session revoked');
+      } catch (error) {
+        console.error(`❌ Failed to drop client ${client.id}:`, error);
+      }
+    }
+
+    if (clients.length > 0) {
+      console.log(`🚪 Dropped ${clients.length} WebSocket client(s) with revoked sessions`);
+    }
+    return clients.length;
+  }
+
   /**
    * Get total client count
    */
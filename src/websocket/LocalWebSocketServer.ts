@@ -5,7 +5,7 @@ import { prisma } from '../config/database';
 import * as dashboardController from '../controllers/dashboardController';
 import { WebSocketService } from './webSocketService';
 import { ConnectionManager, ClientConnection } from './connectionManager';
-import { ConcurrencyManager } from '../services/concurrencyManager';
+import { ConcurrencyManager, concurrencyManager as sharedConcurrencyManager } from '../services/concurrencyManager';
 import { RealTimeSyncService } from '../services/realTimeSyncService';
 
 interface WebSocketMessage {
@@ -52,13 +52,17 @@ export class EnhancedLocalWebSocketServer extends EventEmitter {
     syncMetrics: {}
   };
 
-  constructor(server: HTTPServer, webSocketService: WebSocketService) {
+  constructor(
+    server: HTTPServer,
+    webSocketService: WebSocketService,
+    concurrencyManager: ConcurrencyManager = sharedConcurrencyManager
+  ) {
     super();
     
     this.webSocketService = webSocketService;
     
-    // Initialize managers
-    this.concurrencyManager = new ConcurrencyManager();
+    // Initialize managers; locks are shared with the REST routes through the one concurrency manager
+    this.concurrencyManager = concurrencyManager;
     this.realTimeSyncService = new RealTimeSyncService(this.concurrencyManager);
     this.connectionManager = new ConnectionManager();
     
@@ -825,7 +829,6 @@ export class EnhancedLocalWebSocketServer extends EventEmitter {
   public async close(): Promise<void> {
     // Cleanup all services
     this.connectionManager.cleanup();
-    this.concurrencyManager.cleanup();
     this.realTimeSyncService.cleanup();
     
     // Close the WebSocket server
@@ -6,6 +6,9 @@ export interface ClientConnection {
   id: string;
   ws: WebSocket;
   isAuthenticated: boolean;
+  staffId?: string | undefined;
+  role?: string | undefined;
+  sessionId?: string | undefined;
   lastHeartbeat: Date;
   lastActivity: Date;
   clientType: 'desktop-app' | 'mobile-app' | 'admin' | 'unknown';
@@ -237,6 +240,9 @@ export class ConnectionManager extends EventEmitter {
 
     client.isAuthenticated = true;
     client.clientType = authData.clientType || client.clientType;
+    client.staffId = authData.staffId;
+    client.role = authData.role;
+    client.sessionId = authData.sessionId;
     client.priority = this.determineClientPriority(client.clientType);
 
     console.log(`🔐 Client ${clientId} authenticated as ${client.clientType} with priority ${client.priority}`);
@@ -5,6 +5,7 @@ import { env } from '../config/environment';
 import { VehicleData, vehicleSyncService } from '../services/vehicleSyncService';
 import { routeSyncService } from '../services/routeSyncService';
 import { configService } from '../config/supervisorConfig';
+import { applyCentralChange } from '../services/centralChangeService';
 
 export class WebSocketService extends EventEmitter {
   private ws: WebSocket | null = null;
@@ -470,27 +471,7 @@ export class WebSocketService extends EventEmitter {
         return;
       }
 
-      switch (dataType) {
-        case 'staff':
-          await this.handleStaffSync(operation, syncData);
-          break;
-        case 'route':
-          await this.handleRouteSync(operation, syncData);
-          break;
-        case 'station':
-          await this.handleStationSync(operation, syncData);
-          break;
-        case 'vehicle':
-          await this.handleVehicleSync(operation, syncData);
-          break;
-        case 'destination':
-        case 'governorate':
-        case 'delegation':
-          await this.handleGeographicSync(dataType, operation, syncData);
-          break;
-        default:
-          console.warn(`⚠️ Unhandled sync data type: ${dataType}`);
-      }
+      await applyCentralChange(dataType, operation, syncData, this.stationId);
 
       // Send acknowledgment
       this.sendInstantSyncAck(syncId, dataType, operation, true, []);
@@ -509,194 +490,6 @@ export class WebSocketService extends EventEmitter {
     }
   }
 
-  /**
-   * Handle staff sync
-   */
-  private async handleStaffSync(operation: string, staffData: any): Promise<void> {
-    const { prisma } = await import('../config/database');
-    
-    switch (operation) {
-      case 'create':
-        await prisma.staff.upsert({
-          where: { cin: staffData.cin },
-          update: {
-            firstName: staffData.firstName,
-            lastName: staffData.lastName,
-            phoneNumber: staffData.phoneNumber,
-            role: staffData.role,
-            isActive: staffData.isActive,
-            syncedAt: new Date()
-          },
-          create: {
-            id: staffData.id,
-            cin: staffData.cin,
-            firstName: staffData.firstName,
-            lastName: staffData.lastName,
-            phoneNumber: staffData.phoneNumber,
-            password: staffData.password || '$2b$12$default', // Placeholder password
-            role: staffData.role,
-            isActive: staffData.isActive,
-            syncedAt: new Date()
-          }
-        });
-        console.log(`✅ Staff synced: ${staffData.firstName} ${staffData.lastName} (${staffData.cin})`);
-        break;
-      case 'update':
-        await prisma.staff.update({
-          where: { id: staffData.id },
-          data: {
-            firstName: staffData.firstName,
-            lastName: staffData.lastName,
-            phoneNumber: staffData.phoneNumber,
-            role: staffData.role,
-            isActive: staffData.isActive,
-            syncedAt: new Date()
-          }
-        });
-        console.log(`✅ Staff updated: ${staffData.firstName} ${staffData.lastName}`);
-        break;
-      case 'delete':
-        await prisma.staff.delete({
-          where: { id: staffData.id }
-        });
-        console.log(`✅ Staff deleted: ${staffData.id}`);
-        break;
-    }
-  }
-
-  /**
-   * Handle route sync
-   */
-  private async handleRouteSync(operation: string, routeData: any): Promise<void> {
-    const { prisma } = await import('../config/database');
-    
-    switch (operation) {
-      case 'create':
-        await prisma.route.upsert({
-          where: { id: routeData.id },
-          update: {
-            stationId: routeData.destinationStationId,
-            stationName: routeData.destinationStation?.name || 'Unknown',
-            basePrice: routeData.basePrice,
-            isActive: routeData.isActive,
-            syncedAt: new Date()
-          },
-          create: {
-            id: routeData.id,
-            stationId: routeData.destinationStationId,
-            stationName: routeData.destinationStation?.name || 'Unknown',
-            basePrice: routeData.basePrice,
-            isActive: routeData.isActive,
-            syncedAt: new Date()
-          }
-        });
-        console.log(`✅ Route synced: ${routeData.departureStation?.name} → ${routeData.destinationStation?.name}`);
-        break;
-      case 'update':
-        await prisma.route.update({
-          where: { id: routeData.id },
-          data: {
-            basePrice: routeData.basePrice,
-            isActive: routeData.isActive,
-            syncedAt: new Date()
-          }
-        });
-        console.log(`✅ Route updated: ${routeData.id}`);
-        break;
-      case 'delete':
-        await prisma.route.delete({
-          where: { id: routeData.id }
-        });
-        console.log(`✅ Route deleted: ${routeData.id}`);
-        break;
-    }
-  }
-
-  /**
-   * Handle station config sync 
-   */
-  private async handleStationSync(operation: string, stationData: any): Promise<void> {
-    const { prisma } = await import('../config/database');
-    
-    switch (operation) {
-      case 'create':
-      case 'update':
-        await prisma.stationConfig.upsert({
-          where: { stationId: stationData.id },
-          update: {
-            stationName: stationData.name,
-            governorate: stationData.governorate?.name || 'Unknown',
-            delegation: stationData.delegation?.name || 'Unknown',
-            address: stationData.address,
-            isOperational: stationData.isActive
-          },
-          create: {
-            stationId: stationData.id,
-            stationName: stationData.name,
-            governorate: stationData.governorate?.name || 'Unknown',
-            delegation: stationData.delegation?.name || 'Unknown',
-            address: stationData.address,
-            isOperational: stationData.isActive,
-            serverVersion: '1.0.0'
-          }
-        });
-        console.log(`✅ Station config synced: ${stationData.name}`);
-        break;
-      case 'delete':
-        await prisma.stationConfig.delete({
-          where: { stationId: stationData.id }
-        });
-        console.log(`✅ Station config deleted: ${stationData.id}`);
-        break;
-    }
-  }
-
-  /**
-   * Handle vehicle sync (extended from existing)
-   */
-  private async handleVehicleSync(operation: string, vehicleData: any): Promise<void> {
-    // Use existing vehicle sync service
-    const { vehicleSyncService } = await import('../services/vehicleSyncService');
-    
-    switch (operation) {
-      case 'create':
-      case 'update':
-        await vehicleSyncService.handleVehicleUpdate(vehicleData, this.stationId || 'unknown');
-        break;
-      case 'delete':
-        await vehicleSyncService.handleVehicleDelete(vehicleData.id);
-        break;
-    }
-  }
-
-  /**
-   * Handle geographic data sync (destinations, governorates, delegations)
-   * Note: Local node stores these as strings, not separate models
-   */
-  private async handleGeographicSync(dataType: string, operation: string, data: any): Promise<void> {
-    // For the local node, geographic data is stored as strings in other models
-    // We'll log this for now and could update related records if needed
-    console.log(`📍 Geographic ${dataType} ${operation}: ${data.name || data.id} (stored as strings in local models)`);
-    
-    // Could potentially update route governorate/delegation fields if needed
-    if (dataType === 'governorate' || dataType === 'delegation') {
-      // Update route records that reference this geographic data
-      const { prisma } = await import('../config/database');
-      
-      try {
-        if (operation === 'update' && dataType === 'governorate') {
-          await prisma.route.updateMany({
-            where: { governorate: data.oldName || data.name },
-            data: { governorate: data.name }
-          });
-        }
-        // Similar logic could be added for delegation updates
-      } catch (error) {
-        console.warn(`⚠️ Could not update geographic reference: ${error}`);
-      }
-    }
-  }
-
   /**
    * Send instant sync acknowledgment to central server
    */